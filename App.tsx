@@ -1,10 +1,12 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { GeneratedFile, UploadedFile, AssetMapping } from './types';
 import Header from './components/Header';
 import Home from './components/Home';
 import ModeHome from './components/ModeHome';
 import AddonCreator from './components/AddonCreator';
 import ItemCreator from './components/ItemCreator';
+import BlockCreator from './components/BlockCreator';
+import EntityCreator from './components/EntityCreator';
 import AddonCombiner from './components/AddonCombiner';
 import AddonFixer from './components/AddonFixer';
 import AddonDev from './components/AddonDev';
@@ -18,6 +20,10 @@ import McaddonConverter from './components/McaddonConverter';
 import AddonSummarizer from './components/AddonSummarizer';
 import NotificationContainer from './components/NotificationContainer';
 import CraftingRecipeEditor from './components/CraftingRecipeEditor';
+import LootTableEditor from './components/LootTableEditor';
+import SpawnRulesEditor from './components/SpawnRulesEditor';
+import AnimationControllerEditor from './components/AnimationControllerEditor';
+import ParticleEditor from './components/ParticleEditor';
 import SoundAdder from './components/SoundAdder';
 import TextureGenerator from './components/TextureGenerator';
 import TradeEditor from './components/TradeEditor';
@@ -25,10 +31,18 @@ import { useNotification } from './contexts/NotificationContext';
 import ManifestCreator from './components/ManifestCreator';
 import SplashCreator from './components/SplashCreator';
 import Login from './components/Login';
+import ProjectManager from './components/ProjectManager';
+import CacheSettings from './components/CacheSettings';
+import ChangeReview, { ChangeReviewRequest } from './components/ChangeReview';
+import { saveProject, loadProject, ProjectContents } from './utils/projectStore';
+import { ProjectHistory, HistoryEntryKind, createHistory, getCurrentSnapshot, recordChange, moveTo, canUndo, canRedo } from './utils/projectHistory';
+import { Workspace } from './utils/fileOperations';
 
 const THEMES = ['dark', 'light', 'high-contrast', 'solarized-dark', 'monokai', 'nord'];
 
 const homeTab = { id: 'home', name: 'Home', icon: '🏠' };
+const projectsTab = { id: 'projects', name: 'Projects', icon: '🗂️' };
+const settingsTab = { id: 'settings', name: 'Settings', icon: '🔧' };
 
 const automaticModeTab = { id: 'automatic_mode', name: 'Automatic AI Mode', icon: '🚀' };
 const manualModeTab = { id: 'manual_mode', name: 'Manual Mode', icon: '✍️' };
@@ -48,15 +62,21 @@ const automaticTools = [
 
 const manualTools = [
     { id: 'item_creator', name: 'Item Creator', icon: '⚔️', description: 'Create custom items with 2D or 3D models using a simple form.' },
+    { id: 'block_creator', name: 'Block Creator', icon: '🧱', description: 'Create custom blocks with states, permutations and per-face textures.' },
+    { id: 'entity_creator', name: 'Entity Creator', icon: '🐉', description: 'Create custom mobs with behaviors, events, models and animations.' },
+    { id: 'animation_controllers', name: 'Animation Controllers', icon: '🔀', description: 'Design animation controller state machines as a graph of states and transitions.' },
+    { id: 'particles', name: 'Particles', icon: '🎆', description: 'Design particle effects with a live preview, or open and edit the project\'s particles.' },
     { id: 'manifest_creator', name: 'Manifest Creator', icon: '📜', description: 'Generate manifest.json files for resource, behavior packs and skin packs.' },
     { id: 'splash_creator', name: 'Splash Creator', icon: '💦', description: 'Create custom splash texts that appear on Minecraft Bedrock main menu.' },
-    { id: 'function', name: 'Function', icon: '⚙️', description: 'Create .mcfunction files by entering commands.' },
+    { id: 'function', name: 'Function', icon: '⚙️', description: 'Generate or hand-edit .mcfunction files, tick.json and function calls.' },
     { id: 'crafting', name: 'Crafting', icon: '🔨', description: 'Create your own crafting recipes.' },
+    { id: 'loot_tables', name: 'Loot Tables', icon: '💰', description: 'Build loot tables with weighted drops and simulate expected yields.' },
+    { id: 'spawn_rules', name: 'Spawn Rules', icon: '🌲', description: 'Control where, when and how often your project\'s entities spawn.' },
     { id: 'trades', name: 'Trades', icon: '🔁', description: 'Design custom villager trade tables for your NPCs.' },
     { id: 'sounds', name: 'Sounds', icon: '🎵', description: 'Easily package custom .ogg sound files into a complete resource pack.' },
 ];
 
-const ALL_TOOLS_MAP = [...automaticTools, ...manualTools, homeTab, automaticModeTab, manualModeTab].reduce((acc, tool) => {
+const ALL_TOOLS_MAP = [...automaticTools, ...manualTools, homeTab, projectsTab, settingsTab, automaticModeTab, manualModeTab].reduce((acc, tool) => {
     acc[tool.id] = tool;
     return acc;
 }, {} as { [key: string]: { id: string, name: string, icon: string }});
@@ -67,10 +87,20 @@ const App: React.FC = () => {
   const [activeView, setActiveView] = useState('home');
   const [activityBarMode, setActivityBarMode] = useState<'home' | 'automatic' | 'manual'>('home');
   const [sidebarVisible, setSidebarVisible] = useState(true);
-  const [generatedFiles, setGeneratedFiles] = useState<GeneratedFile[]>([]);
-  const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
-  const [assetMappings, setAssetMappings] = useState<AssetMapping[]>([]);
-  const [addonName, setAddonName] = useState('');
+  // The workspace is whatever the current history entry holds, so every change goes through the history.
+  const [history, setHistory] = useState<ProjectHistory>(() => createHistory('Empty workspace'));
+  const { generatedFiles, uploadedFiles, assetMappings, addonName } = getCurrentSnapshot(history);
+  const [pendingReview, setPendingReview] = useState<ChangeReviewRequest | null>(null);
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  // The open workspace and the project it saves to. Opening, generating or clearing a project starts a new
+  // workspace object, so saves queued for the previous one can tell they're stale. Refs also let the
+  // debounced autosave skip the save right after a project is opened.
+  const workspaceRef = useRef<{ projectId: string | null }>({ projectId: null });
+  // Counts workspace switches, so tools that keep unsaved edits of their own start over for each project.
+  const [workspaceKey, setWorkspaceKey] = useState(0);
+  const skipNextSaveRef = useRef(false);
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
   const [theme, setTheme] = useState(localStorage.getItem('addon-gen-theme') || 'dark');
   const { addNotification } = useNotification();
 
@@ -85,6 +115,106 @@ const App: React.FC = () => {
     }
   }, []);
 
+  const rememberProjectId = (id: string | null) => {
+    setCurrentProjectId(id);
+    if (id) {
+      localStorage.setItem('addon-gen-last-project', id);
+    } else {
+      localStorage.removeItem('addon-gen-last-project');
+    }
+  };
+
+  const setProjectId = (id: string | null) => {
+    workspaceRef.current = { projectId: id };
+    setWorkspaceKey(key => key + 1);
+    rememberProjectId(id);
+  };
+
+  // Restore the project that was open before the page was refreshed.
+  useEffect(() => {
+    const lastProjectId = localStorage.getItem('addon-gen-last-project');
+    if (!lastProjectId) return;
+    loadProject(lastProjectId)
+      .then(project => {
+        if (!project) {
+          localStorage.removeItem('addon-gen-last-project');
+          return;
+        }
+        skipNextSaveRef.current = true;
+        setHistory(createHistory(`Opened "${project.summary.name}"`, project));
+        setProjectId(project.summary.id);
+      })
+      .catch(err => console.error('Failed to restore the last project', err));
+  }, []);
+
+  // Autosave the workspace whenever it changes. Saves are debounced and run one at a time
+  // so a new project is only ever created once. Each save belongs to the workspace it was scheduled
+  // in and is dropped if another project has been opened since.
+  useEffect(() => {
+    if (skipNextSaveRef.current) {
+      skipNextSaveRef.current = false;
+      return;
+    }
+    const workspace = workspaceRef.current;
+    // An empty workspace is only worth saving when it empties a project that already exists.
+    if (generatedFiles.length === 0 && !workspace.projectId) return;
+
+    const timeout = setTimeout(() => {
+      setSaveStatus('saving');
+      saveQueueRef.current = saveQueueRef.current.then(async () => {
+        if (workspaceRef.current !== workspace) return;
+        try {
+          const summary = await saveProject(workspace.projectId, addonName || 'Untitled Project', { addonName, generatedFiles, uploadedFiles, assetMappings });
+          if (workspaceRef.current !== workspace) return;
+          if (workspace.projectId !== summary.id) {
+            workspace.projectId = summary.id;
+            rememberProjectId(summary.id);
+          }
+          setSaveStatus('saved');
+        } catch (err) {
+          console.error('Failed to save project', err);
+          if (workspaceRef.current === workspace) setSaveStatus('error');
+        }
+      });
+    }, 500);
+    return () => clearTimeout(timeout);
+  }, [generatedFiles, uploadedFiles, assetMappings, addonName]);
+
+  const recordWorkspaceChange = (label: string, kind: HistoryEntryKind, changes: Partial<ProjectContents>) => {
+    setHistory(prev => recordChange(prev, label, kind, changes));
+  };
+
+  const startNewHistory = (label: string, contents?: ProjectContents) => {
+    setHistory(createHistory(label, contents));
+  };
+
+  const handleRestoreHistory = (index: number) => {
+    setHistory(prev => moveTo(prev, index));
+  };
+
+  const handleUndo = () => setHistory(prev => (canUndo(prev) ? moveTo(prev, prev.index - 1) : prev));
+
+  const handleRedo = () => setHistory(prev => (canRedo(prev) ? moveTo(prev, prev.index + 1) : prev));
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) step through the history, except while typing, where the text field's own undo applies.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   const handleLoginSuccess = () => {
     sessionStorage.setItem('isAuthenticated', 'true');
     setIsAuthenticated(true);
@@ -138,10 +268,13 @@ const App: React.FC = () => {
     newAssetMappings: AssetMapping[],
     newAddonName: string
   ) => {
-    setGeneratedFiles(newGeneratedFiles);
-    setUploadedFiles(newUploadedFiles);
-    setAssetMappings(newAssetMappings);
-    setAddonName(newAddonName);
+    setProjectId(null); // Every generated addon starts a new project.
+    startNewHistory(`Generated "${newAddonName || 'addon'}"`, {
+      generatedFiles: newGeneratedFiles,
+      uploadedFiles: newUploadedFiles,
+      assetMappings: newAssetMappings,
+      addonName: newAddonName,
+    });
     if (newGeneratedFiles.length > 0) {
       setActivityBarMode('automatic');
       handleViewChange('develop');
@@ -153,10 +286,14 @@ const App: React.FC = () => {
     newUploadedFiles: UploadedFile[],
     newAddonName: string
   ) => {
-    setGeneratedFiles(newGeneratedFiles);
-    setUploadedFiles(newUploadedFiles);
-    setAssetMappings([]); // Reset asset mappings as they are not relevant for dev loading
-    setAddonName(newAddonName);
+    setProjectId(null);
+    startNewHistory(`Loaded "${newAddonName}"`, {
+      generatedFiles: newGeneratedFiles,
+      uploadedFiles: newUploadedFiles,
+      // Loaded assets already sit at their pack paths, so map each one onto itself to keep it in the tree and the download.
+      assetMappings: newUploadedFiles.filter(uf => uf.type === 'asset').map(uf => ({ originalPath: uf.file.name, newPath: uf.file.name })),
+      addonName: newAddonName,
+    });
     if (newGeneratedFiles.length > 0) {
         setActivityBarMode('automatic');
         setActiveView('develop');
@@ -164,20 +301,63 @@ const App: React.FC = () => {
     }
   }
 
+  const handleOpenProject = async (id: string) => {
+    try {
+      const project = await loadProject(id);
+      if (!project) {
+        addNotification('error', 'That project no longer exists.');
+        return;
+      }
+      skipNextSaveRef.current = true;
+      startNewHistory(`Opened "${project.summary.name}"`, project);
+      setProjectId(project.summary.id);
+      setSaveStatus('saved');
+      setActivityBarMode('automatic');
+      setActiveView('develop');
+      setSidebarVisible(true);
+      addNotification('success', `Opened "${project.summary.name}".`);
+    } catch (err) {
+      addNotification('error', `Failed to open project: ${(err as Error).message}`);
+    }
+  };
+
+  const clearWorkspace = () => {
+    setProjectId(null);
+    startNewHistory('Empty workspace');
+    setSaveStatus('idle');
+  };
+
+  const handleNewProject = () => {
+    clearWorkspace();
+    handleViewChange('automatic_mode');
+  };
+
+  const handleProjectDeleted = (id: string) => {
+    if (id === workspaceRef.current.projectId) {
+      clearWorkspace();
+    }
+  };
+
   const renderSidebarContent = () => {
     switch (activeView) {
       case 'combine':
-        return <AddonCombiner onGenerationComplete={handleGenerationComplete} />;
+        return <AddonCombiner onGenerationComplete={handleGenerationComplete} onReview={setPendingReview} />;
       case 'fix':
-        return <AddonFixer onGenerationComplete={handleGenerationComplete} />;
+        return <AddonFixer onGenerationComplete={handleGenerationComplete} onReview={setPendingReview} />;
       case 'develop':
-        return <AddonDev files={generatedFiles} onFilesUpdate={setGeneratedFiles} onLoadFiles={handleLoadFilesForDev} />;
+        return <AddonDev files={generatedFiles} onFilesUpdate={(files, label) => recordWorkspaceChange(label, 'ai', { generatedFiles: files })} onLoadFiles={handleLoadFilesForDev} onReview={setPendingReview} />;
       // Tools that render in the main panel don't need sidebar content
       case 'home':
+      case 'projects':
+      case 'settings':
       case 'automatic_mode_home':
       case 'manual_mode_home':
       case 'create':
       case 'item_creator':
+      case 'block_creator':
+      case 'entity_creator':
+      case 'animation_controllers':
+      case 'particles':
       case 'manifest_creator':
       case 'function':
       case 'command':
@@ -186,6 +366,8 @@ const App: React.FC = () => {
       case 'mcaddon':
       case 'summary':
       case 'crafting':
+      case 'loot_tables':
+      case 'spawn_rules':
       case 'trades':
       case 'sounds':
       case 'texture':
@@ -198,6 +380,10 @@ const App: React.FC = () => {
   const renderMainContent = () => {
     const toolRequiresExplorer = ['combine', 'fix', 'develop'].includes(activeView);
 
+    if (toolRequiresExplorer && pendingReview) {
+      return <ChangeReview review={pendingReview} currentFiles={generatedFiles} onClose={() => setPendingReview(null)} />;
+    }
+
     if (toolRequiresExplorer) {
       return (
         <ExplorerView
@@ -205,7 +391,15 @@ const App: React.FC = () => {
           uploadedFiles={uploadedFiles}
           assetMappings={assetMappings}
           addonName={addonName}
-          onFilesUpdate={setGeneratedFiles}
+          history={history}
+          onWorkspaceUpdate={(workspace: Workspace, label: string) => recordWorkspaceChange(label, 'manual', {
+            generatedFiles: workspace.files,
+            uploadedFiles: workspace.uploadedFiles,
+            assetMappings: workspace.assetMappings,
+          })}
+          onUndo={handleUndo}
+          onRedo={handleRedo}
+          onRestoreHistory={handleRestoreHistory}
         />
       );
     }
@@ -214,6 +408,10 @@ const App: React.FC = () => {
     switch (activeView) {
       case 'home':
         return <Home onToolSelect={handleViewChange} />;
+      case 'projects':
+        return <div className="p-6 overflow-y-auto"><ProjectManager currentProjectId={currentProjectId} onOpenProject={handleOpenProject} onNewProject={handleNewProject} onProjectDeleted={handleProjectDeleted} /></div>;
+      case 'settings':
+        return <div className="p-6 overflow-y-auto"><CacheSettings /></div>;
       case 'automatic_mode_home':
         return <ModeHome title="Automatic AI Mode" tools={automaticTools} onToolSelect={handleViewChange} onGoBack={() => handleViewChange('home')} />;
       case 'manual_mode_home':
@@ -222,8 +420,16 @@ const App: React.FC = () => {
         return <div className="p-6 overflow-y-auto"><AddonCreator onGenerationComplete={handleGenerationComplete} /></div>;
       case 'item_creator':
         return <div className="p-6 overflow-y-auto"><ItemCreator onGenerationComplete={handleGenerationComplete} /></div>;
+      case 'block_creator':
+        return <div className="p-6 overflow-y-auto"><BlockCreator onGenerationComplete={handleGenerationComplete} /></div>;
+      case 'entity_creator':
+        return <div className="p-6 overflow-y-auto"><EntityCreator onGenerationComplete={handleGenerationComplete} /></div>;
+      case 'animation_controllers':
+        return <div className="p-6 overflow-y-auto"><AnimationControllerEditor files={generatedFiles} onFilesUpdate={(files, label) => recordWorkspaceChange(label, 'manual', { generatedFiles: files })} /></div>;
+      case 'particles':
+        return <ParticleEditor files={generatedFiles} onFilesUpdate={(files, label) => recordWorkspaceChange(label, 'manual', { generatedFiles: files })} />; // This tool manages its own padding
       case 'function':
-        return <div className="p-6 overflow-y-auto"><FunctionWriter /></div>;
+        return <div className="p-6 overflow-y-auto"><FunctionWriter key={workspaceKey} files={generatedFiles} onFilesUpdate={(files, label) => recordWorkspaceChange(label, 'manual', { generatedFiles: files })} /></div>;
       case 'command':
         return <div className="p-6 h-full flex flex-col"><CommandHelper /></div>;
       case 'building':
@@ -232,6 +438,10 @@ const App: React.FC = () => {
           return <TextureGenerator />; // This tool manages its own padding
       case 'crafting':
           return <div className="p-6 overflow-y-auto"><CraftingRecipeEditor /></div>;
+      case 'loot_tables':
+          return <div className="p-6 overflow-y-auto"><LootTableEditor /></div>;
+      case 'spawn_rules':
+          return <div className="p-6 overflow-y-auto"><SpawnRulesEditor files={generatedFiles} onFilesUpdate={(files, label) => recordWorkspaceChange(label, 'manual', { generatedFiles: files })} /></div>;
       case 'trades':
           return <div className="p-6 overflow-y-auto"><TradeEditor /></div>;
       case 'sounds':
@@ -256,12 +466,12 @@ const App: React.FC = () => {
   const getCurrentTabs = () => {
     switch (activityBarMode) {
         case 'automatic':
-            return [homeTab, automaticModeTab, ...automaticTools];
+            return [homeTab, projectsTab, automaticModeTab, ...automaticTools, settingsTab];
         case 'manual':
-            return [homeTab, manualModeTab, ...manualTools];
+            return [homeTab, projectsTab, manualModeTab, ...manualTools, settingsTab];
         case 'home':
         default:
-            return [homeTab, automaticModeTab, manualModeTab];
+            return [homeTab, projectsTab, automaticModeTab, manualModeTab, settingsTab];
     }
   }
 
@@ -326,7 +536,7 @@ const App: React.FC = () => {
           </main>
         </div>
       </div>
-      <StatusBar addonName={addonName} fileCount={generatedFiles.length} />
+      <StatusBar addonName={addonName} fileCount={generatedFiles.length} saveStatus={saveStatus} />
       <NotificationContainer />
     </div>
   );
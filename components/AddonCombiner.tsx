@@ -1,8 +1,12 @@
 import React, { useState } from 'react';
-import { combineAddons } from '../services/geminiService';
-import { GeneratedFile, UploadedFile, AssetMapping } from '../types';
+import { combineAddons, isAbortError } from '../services/geminiService';
+import { GeneratedFile, UploadedFile, AssetMapping, AddonDiagnostic } from '../types';
 import MultiFileInput from './MultiFileInput';
+import { describeImportIssues } from '../utils/packImport';
 import { useNotification } from '../contexts/NotificationContext';
+import DiagnosticsList from './DiagnosticsList';
+import { ChangeReviewRequest } from './ChangeReview';
+import GenerationProgressPanel, { useGenerationProgress } from './GenerationProgressPanel';
 import Markdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 
@@ -13,19 +17,24 @@ interface AddonCombinerProps {
     assetMappings: AssetMapping[],
     addonName: string
   ) => void;
+  onReview: (review: ChangeReviewRequest) => void;
 }
 
 type ResultState = {
     files: GeneratedFile[];
     assetMappings: AssetMapping[];
     summaryReport: string;
+    diagnostics: AddonDiagnostic[];
+    originalFiles: GeneratedFile[];
+    sourceFiles: UploadedFile[];
 }
 
-const AddonCombiner: React.FC<AddonCombinerProps> = ({ onGenerationComplete }) => {
+const AddonCombiner: React.FC<AddonCombinerProps> = ({ onGenerationComplete, onReview }) => {
   const [newAddonName, setNewAddonName] = useState('CombinedAddon');
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [result, setResult] = useState<ResultState | null>(null);
+  const generation = useGenerationProgress();
   const { addNotification } = useNotification();
 
   const handleCombine = async () => {
@@ -39,15 +48,21 @@ const AddonCombiner: React.FC<AddonCombinerProps> = ({ onGenerationComplete }) =
     }
 
     setIsLoading(true);
+    const options = generation.start();
 
     try {
-      const { files, assetMappings, summaryReport } = await combineAddons(newAddonName, uploadedFiles);
+      const { files, assetMappings, summaryReport, diagnostics, originalFiles, sourceFiles, importIssues } = await combineAddons(newAddonName, uploadedFiles, options);
+      if (importIssues.length > 0) {
+        addNotification('info', describeImportIssues(importIssues));
+      }
       addNotification('success', 'Addons combined successfully! Please review the report.');
-      setResult({ files, assetMappings, summaryReport });
+      setResult({ files, assetMappings, summaryReport, diagnostics, originalFiles, sourceFiles });
     } catch (err) {
-      addNotification('error', (err as Error).message);
+      if (isAbortError(err)) addNotification('info', 'Combine cancelled.');
+      else addNotification('error', (err as Error).message);
     } finally {
       setIsLoading(false);
+      generation.finish();
     }
   };
   
@@ -57,7 +72,13 @@ const AddonCombiner: React.FC<AddonCombinerProps> = ({ onGenerationComplete }) =
 
   const handleFinalize = () => {
     if (!result) return;
-    onGenerationComplete(result.files, uploadedFiles, result.assetMappings, newAddonName);
+    const { files, assetMappings, originalFiles, sourceFiles } = result;
+    onReview({
+      title: `Combine into ${newAddonName}`,
+      baseFiles: originalFiles,
+      proposedFiles: files,
+      onApply: reviewed => onGenerationComplete(reviewed, sourceFiles, assetMappings, newAddonName),
+    });
   }
 
   const handleDiscard = () => {
@@ -74,12 +95,16 @@ const AddonCombiner: React.FC<AddonCombinerProps> = ({ onGenerationComplete }) =
                     <Markdown remarkPlugins={[remarkGfm]}>{result.summaryReport}</Markdown>
                 </div>
             </div>
+            <h3 className="text-lg font-bold">Validation</h3>
+            <div className="max-h-[30vh] overflow-y-auto p-2 bg-[var(--bg-app)] border border-[var(--border-primary)] rounded-lg">
+                <DiagnosticsList diagnostics={result.diagnostics} emptyMessage="✅ All validation checks passed!" />
+            </div>
             <div className="flex gap-4">
                 <button onClick={handleDiscard} className="w-full flex justify-center items-center px-6 py-3 font-semibold rounded-lg bg-[var(--bg-panel-secondary)] hover:bg-[var(--bg-hover)] border border-[var(--border-primary)]">
                     Discard
                 </button>
                 <button onClick={handleFinalize} className="w-full flex justify-center items-center px-6 py-3 font-semibold rounded-lg text-white bg-[var(--accent-green)] hover:bg-[var(--accent-green-hover)]">
-                    Finalize & View in Editor
+                    Review Files & Finalize
                 </button>
             </div>
         </div>
@@ -96,6 +121,8 @@ const AddonCombiner: React.FC<AddonCombinerProps> = ({ onGenerationComplete }) =
         onFilesChange={handleFilesChange}
       />
       
+      {isLoading && <GenerationProgressPanel progress={generation.progress} stages={['generating', 'verifying']} onCancel={generation.cancel} />}
+
       <button onClick={handleCombine} disabled={isLoading} className="w-full flex justify-center items-center px-6 py-3 font-semibold rounded-lg text-white bg-[var(--accent-primary)] hover:bg-[var(--accent-hover)] focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-offset-[var(--bg-panel)] focus-visible:ring-[var(--accent-primary)] disabled:bg-[var(--bg-active)] disabled:cursor-not-allowed transition-colors duration-200">
         {isLoading ? <Spinner /> : 'Combine & Review'}
       </button>
@@ -1,10 +1,12 @@
 
 import React, { useState } from 'react';
-import { initiateAddonGeneration, generateAddonFromPlan, detectExperimentalFeatures } from '../services/geminiService';
-import { GeneratedFile, UploadedFile, AssetMapping } from '../types';
+import { initiateAddonGeneration, generateAddonFromPlan, detectExperimentalFeatures, isAbortError, GenerationOptions, GenerationStage } from '../services/geminiService';
+import { GeneratedFile, UploadedFile, AssetMapping, AddonDiagnostic } from '../types';
 import MultiFileInput from './MultiFileInput';
 import { useNotification } from '../contexts/NotificationContext';
 import SyntaxHighlighter from './SyntaxHighlighter';
+import DiagnosticsList from './DiagnosticsList';
+import GenerationProgressPanel, { useGenerationProgress } from './GenerationProgressPanel';
 import Markdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 
@@ -13,6 +15,7 @@ type GenerationResult = {
     uploadedFiles: UploadedFile[];
     assetMappings: AssetMapping[];
     addonName: string;
+    diagnostics: AddonDiagnostic[];
 };
 
 type GenerationProps = {
@@ -59,6 +62,8 @@ const AddonCreator: React.FC<GenerationProps> = ({ onGenerationComplete }) => {
 
     const [stage, setStage] = useState<'input' | 'reviewPlan' | 'reviewToggles'>('input');
     const [isLoading, setIsLoading] = useState(false);
+    const [progressStages, setProgressStages] = useState<GenerationStage[]>([]);
+    const generation = useGenerationProgress();
 
     const [generationResult, setGenerationResult] = useState<GenerationResult | null>(null);
     const [experimentalToggles, setExperimentalToggles] = useState<{ toggles: string[], reasoning: string } | null>(null);
@@ -72,13 +77,19 @@ const AddonCreator: React.FC<GenerationProps> = ({ onGenerationComplete }) => {
         { name: 'Complex Idea', prompt: `I want a magic addon with a phoenix that can be tamed, drops fire feathers, and a wizard staff that shoots fireballs...`},
     ];
 
-    const handlePostGeneration = async (files: GeneratedFile[], assetMappings: AssetMapping[]) => {
-        setGenerationResult({ generatedFiles: files, uploadedFiles, assetMappings, addonName });
-        setStage('reviewToggles'); // Switch to review stage, which will show a spinner while experimentalToggles is null
+    const handlePostGeneration = async (files: GeneratedFile[], assetMappings: AssetMapping[], diagnostics: AddonDiagnostic[], options: GenerationOptions) => {
+        setGenerationResult({ generatedFiles: files, uploadedFiles, assetMappings, addonName, diagnostics });
+        setStage('reviewToggles'); // Switch to review stage, which will show progress while experimentalToggles is null
         try {
-            const features = await detectExperimentalFeatures(files);
+            const features = await detectExperimentalFeatures(files, options);
             setExperimentalToggles(features);
         } catch (err) {
+            if (isAbortError(err)) {
+                // The files are already generated, so skipping the check shouldn't throw them away.
+                addNotification('info', 'Experimental feature detection cancelled.');
+                setExperimentalToggles({ toggles: [], reasoning: '**Detection was cancelled.** Please review your world settings manually.' });
+                return;
+            }
             const errorMessage = `**Error:** Could not automatically detect experimental features. Please review your world settings manually. \n\n*Details: ${(err as Error).message}*`;
             addNotification('error', "Failed to analyze for experimental features.");
             setExperimentalToggles({ toggles: [], reasoning: errorMessage });
@@ -96,35 +107,43 @@ const AddonCreator: React.FC<GenerationProps> = ({ onGenerationComplete }) => {
         }
     
         setIsLoading(true);
+        setProgressStages(['planning', 'verifying', 'detectingToggles']);
+        const options = generation.start();
       
         try {
-            const result = await initiateAddonGeneration(prompt, addonName, description, uploadedFiles);
+            const result = await initiateAddonGeneration(prompt, addonName, description, uploadedFiles, options);
             if (result.plan) {
                 setPlan(result.plan);
                 setStage('reviewPlan');
                 addNotification('success', 'Architectural plan generated for your complex idea. Please review it below.');
             } else if (result.files) {
-                await handlePostGeneration(result.files, result.assetMappings || []);
+                await handlePostGeneration(result.files, result.assetMappings || [], result.diagnostics || [], options);
             } else {
                  throw new Error("The AI returned an empty response. Please try rephrasing your prompt.");
             }
         } catch (err) {
-            addNotification('error', (err as Error).message);
+            if (isAbortError(err)) addNotification('info', 'Generation cancelled.');
+            else addNotification('error', (err as Error).message);
         } finally {
             setIsLoading(false);
+            generation.finish();
         }
     };
   
     const handleGenerateFromPlan = async () => {
         if (!plan) return;
         setIsLoading(true);
+        setProgressStages(['generating', 'verifying', 'detectingToggles']);
+        const options = generation.start();
         try {
-          const { files, assetMappings } = await generateAddonFromPlan(plan, prompt, addonName, description, uploadedFiles);
-          await handlePostGeneration(files, assetMappings);
+          const { files, assetMappings, diagnostics } = await generateAddonFromPlan(plan, prompt, addonName, description, uploadedFiles, options);
+          await handlePostGeneration(files, assetMappings, diagnostics, options);
         } catch (err) {
-          addNotification('error', (err as Error).message);
+          if (isAbortError(err)) addNotification('info', 'Generation cancelled.');
+          else addNotification('error', (err as Error).message);
         } finally {
           setIsLoading(false);
+          generation.finish();
         }
     };
 
@@ -160,9 +179,9 @@ const AddonCreator: React.FC<GenerationProps> = ({ onGenerationComplete }) => {
     if (stage === 'reviewToggles') {
         if (!experimentalToggles) {
             return (
-                <div className="flex flex-col items-center justify-center h-full gap-4 text-center max-w-4xl mx-auto">
-                    <Spinner text="Analyzing for Experimental Features..." />
-                    <p className="text-sm text-[var(--text-secondary)]">The AI is checking if your addon needs any special world settings.</p>
+                <div className="flex flex-col justify-center h-full gap-4 max-w-4xl mx-auto">
+                    <p className="text-sm text-center text-[var(--text-secondary)]">The AI is checking if your addon needs any special world settings.</p>
+                    <GenerationProgressPanel progress={generation.progress} stages={progressStages} onCancel={generation.cancel} />
                 </div>
             );
         }
@@ -184,6 +203,12 @@ const AddonCreator: React.FC<GenerationProps> = ({ onGenerationComplete }) => {
                         <Markdown remarkPlugins={[remarkGfm]}>{experimentalToggles.reasoning}</Markdown>
                      </div>
                 </div>
+                {generationResult && (
+                    <div className="p-4 bg-[var(--bg-app)] rounded-lg border border-[var(--border-primary)] flex flex-col gap-3">
+                        <h4 className="font-semibold text-sm text-[var(--text-primary)]">Validation</h4>
+                        <DiagnosticsList diagnostics={generationResult.diagnostics} emptyMessage="✅ All validation checks passed!" />
+                    </div>
+                )}
                 <button onClick={handleFinalizeAndProceed} className="w-full flex justify-center items-center px-6 py-3 font-semibold rounded-lg text-white bg-[var(--accent-green)] hover:bg-[var(--accent-green-hover)]">
                     Finish & View in Editor
                 </button>
@@ -202,6 +227,7 @@ const AddonCreator: React.FC<GenerationProps> = ({ onGenerationComplete }) => {
                         </pre>
                     </div>
                 </div>
+                {isLoading && <GenerationProgressPanel progress={generation.progress} stages={progressStages} onCancel={generation.cancel} />}
                 <div className="flex gap-4">
                     <button onClick={handleDiscardPlan} disabled={isLoading} className="w-full flex justify-center items-center px-6 py-3 font-semibold rounded-lg text-[var(--text-primary)] bg-[var(--bg-panel-secondary)] hover:bg-[var(--bg-hover)] border border-[var(--border-primary)]">
                         Discard & Edit
@@ -244,6 +270,7 @@ const AddonCreator: React.FC<GenerationProps> = ({ onGenerationComplete }) => {
                 isOptional={true}
                 extraInfo="e.g. .png, .ogg, existing scripts"
             />
+            {isLoading && <GenerationProgressPanel progress={generation.progress} stages={progressStages} onCancel={generation.cancel} />}
             <button onClick={handleGenerate} disabled={isLoading} className="w-full flex justify-center items-center px-6 py-3 font-semibold rounded-lg text-white bg-[var(--accent-primary)] hover:bg-[var(--accent-hover)] disabled:bg-[var(--bg-active)]">
                 {isLoading ? <Spinner text="Thinking..." /> : 'Generate Addon'}
             </button>
@@ -1,21 +1,26 @@
 import React, { useState } from 'react';
-import { devAddon } from '../services/geminiService';
+import { devAddon, isAbortError } from '../services/geminiService';
 import { GeneratedFile, UploadedFile } from '../types';
 import { useNotification } from '../contexts/NotificationContext';
 import MultiFileInput from './MultiFileInput';
-import JSZip from 'jszip';
+import { ChangeReviewRequest } from './ChangeReview';
+import GenerationProgressPanel, { useGenerationProgress } from './GenerationProgressPanel';
+import { importAddonFiles, getImportedAddonName, describeImportIssues } from '../utils/packImport';
+import { isTextPath } from '../utils/fileOperations';
 
 interface AddonDevProps {
     files: GeneratedFile[];
-    onFilesUpdate: (files: GeneratedFile[]) => void;
+    onFilesUpdate: (files: GeneratedFile[], label: string) => void;
     onLoadFiles: (generatedFiles: GeneratedFile[], uploadedFiles: UploadedFile[], addonName: string) => void;
+    onReview: (review: ChangeReviewRequest) => void;
 }
 
-const AddonDev: React.FC<AddonDevProps> = ({ files, onFilesUpdate, onLoadFiles }) => {
+const AddonDev: React.FC<AddonDevProps> = ({ files, onFilesUpdate, onLoadFiles, onReview }) => {
     const [instruction, setInstruction] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [filesToUpload, setFilesToUpload] = useState<File[]>([]);
     const [isUploading, setIsUploading] = useState(false);
+    const generation = useGenerationProgress();
     const { addNotification } = useNotification();
 
     const handleLoadAddon = async () => {
@@ -25,58 +30,25 @@ const AddonDev: React.FC<AddonDevProps> = ({ files, onFilesUpdate, onLoadFiles }
         }
         setIsUploading(true);
         try {
+            const imported = await importAddonFiles(filesToUpload.map(file => ({ file, type: 'asset' as const })));
             const finalGenerated: GeneratedFile[] = [];
             const finalUploaded: UploadedFile[] = [];
-            let finalAddonName = 'Imported Addon';
-            const TEXT_EXTENSIONS = ['.json', '.js', '.mcfunction', '.lang', '.md', '.txt'];
-
-            for (const file of filesToUpload) {
-                const fileName = file.name.toLowerCase();
-                if (fileName.endsWith('.zip') || fileName.endsWith('.mcaddon') || fileName.endsWith('.mcpack')) {
-                    const zip = await JSZip.loadAsync(file);
-                    for (const path in zip.files) {
-                        if (!zip.files[path].dir) {
-                            const fileObject = zip.files[path];
-                            const blob = await fileObject.async('blob');
-                            const newFile = new File([blob], fileObject.name, { type: blob.type });
-
-                            const isText = TEXT_EXTENSIONS.some(ext => fileObject.name.toLowerCase().endsWith(ext));
-                            if (isText) {
-                                const content = await newFile.text();
-                                finalGenerated.push({ path: fileObject.name, content });
-                                 if (fileObject.name.toLowerCase().endsWith('manifest.json')) {
-                                    try {
-                                        const manifest = JSON.parse(content);
-                                        if (manifest?.header?.name) finalAddonName = manifest.header.name;
-                                    } catch {}
-                                 }
-                            } else {
-                                finalUploaded.push({ file: newFile, type: 'asset' });
-                            }
-                        }
-                    }
+            for (const uploaded of imported.files) {
+                if (isTextPath(uploaded.file.name)) {
+                    finalGenerated.push({ path: uploaded.file.name, content: await uploaded.file.text() });
                 } else {
-                    const isText = TEXT_EXTENSIONS.some(ext => fileName.endsWith(ext));
-                    if (isText) {
-                        const content = await file.text();
-                        finalGenerated.push({ path: file.name, content });
-                         if (fileName.endsWith('manifest.json')) {
-                            try {
-                                const manifest = JSON.parse(content);
-                                if (manifest?.header?.name) finalAddonName = manifest.header.name;
-                            } catch {}
-                         }
-                    } else {
-                        finalUploaded.push({ file, type: 'asset' });
-                    }
+                    finalUploaded.push(uploaded);
                 }
             }
 
             if (finalGenerated.length === 0) {
                 addNotification('error', 'No valid text files (.json, .js, etc.) were found in the upload.');
             } else {
-                onLoadFiles(finalGenerated, finalUploaded, finalAddonName);
-                addNotification('success', 'Addon loaded successfully!');
+                onLoadFiles(finalGenerated, finalUploaded, getImportedAddonName(imported, 'Imported Addon'));
+                addNotification('success', `Addon loaded successfully with ${imported.packs.length} ${imported.packs.length === 1 ? 'pack' : 'packs'}!`);
+                if (imported.issues.length > 0) {
+                    addNotification('info', describeImportIssues(imported.issues));
+                }
             }
         } catch (err) {
             addNotification('error', `Failed to load addon: ${(err as Error).message}`);
@@ -96,16 +68,25 @@ const AddonDev: React.FC<AddonDevProps> = ({ files, onFilesUpdate, onLoadFiles }
         }
 
         setIsLoading(true);
+        const options = generation.start();
 
         try {
-            const { files: newFiles } = await devAddon(instruction, files);
-            onFilesUpdate(newFiles);
+            const { files: newFiles, diagnostics } = await devAddon(instruction, files, options);
+            const label = `AI: ${instruction.trim()}`;
+            onReview({ title: label, baseFiles: files, proposedFiles: newFiles, baseIsWorkspace: true, onApply: reviewed => onFilesUpdate(reviewed, label) });
             setInstruction('');
-            addNotification('success', 'AI changes applied successfully!');
+            const remainingErrors = diagnostics.filter(d => d.severity === 'error').length;
+            if (remainingErrors > 0) {
+                addNotification('info', `AI changes are ready for review, but ${remainingErrors} validation error(s) remain. See the Problems panel after applying them.`);
+            } else {
+                addNotification('success', 'AI changes are ready for review.');
+            }
         } catch (err) {
-            addNotification('error', (err as Error).message);
+            if (isAbortError(err)) addNotification('info', 'AI changes cancelled.');
+            else addNotification('error', (err as Error).message);
         } finally {
             setIsLoading(false);
+            generation.finish();
         }
     };
 
@@ -138,6 +119,7 @@ const AddonDev: React.FC<AddonDevProps> = ({ files, onFilesUpdate, onLoadFiles }
                 </ul>
             </div>
             <InputField as="textarea" label="AI Refactor Instruction" value={instruction} onChange={setInstruction} placeholder="Change all item identifiers from 'custom:myaddon' to 'expert:propack'." rows={5} />
+            {isLoading && <GenerationProgressPanel progress={generation.progress} stages={['generating', 'verifying']} onCancel={generation.cancel} />}
             <button onClick={handleDevRequest} disabled={isLoading} className="w-full flex justify-center items-center px-6 py-3 font-semibold rounded-lg text-white bg-[var(--accent-primary)] hover:bg-[var(--accent-hover)] disabled:bg-[var(--bg-active)] transition-colors duration-200 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-offset-[var(--bg-panel)] focus-visible:ring-[var(--accent-primary)]">
                 {isLoading ? <Spinner text="Updating..." /> : 'Apply AI Changes'}
             </button>
@@ -1,7 +1,10 @@
 import React, { useState } from 'react';
-import { fixAddon } from '../services/geminiService';
+import { fixAddon, isAbortError } from '../services/geminiService';
 import { GeneratedFile, UploadedFile, AssetMapping } from '../types';
 import MultiFileInput from './MultiFileInput';
+import { describeImportIssues } from '../utils/packImport';
+import { ChangeReviewRequest } from './ChangeReview';
+import GenerationProgressPanel, { useGenerationProgress } from './GenerationProgressPanel';
 import { useNotification } from '../contexts/NotificationContext';
 
 interface AddonFixerProps {
@@ -11,12 +14,14 @@ interface AddonFixerProps {
     assetMappings: AssetMapping[],
     addonName: string
   ) => void;
+  onReview: (review: ChangeReviewRequest) => void;
 }
 
-const AddonFixer: React.FC<AddonFixerProps> = ({ onGenerationComplete }) => {
+const AddonFixer: React.FC<AddonFixerProps> = ({ onGenerationComplete, onReview }) => {
   const [problem, setProblem] = useState('');
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const generation = useGenerationProgress();
   const { addNotification } = useNotification();
 
   const handleFix = async () => {
@@ -26,6 +31,7 @@ const AddonFixer: React.FC<AddonFixerProps> = ({ onGenerationComplete }) => {
     }
 
     setIsLoading(true);
+    const options = generation.start();
 
     try {
       // Find a manifest to get the addon name for the download
@@ -43,13 +49,28 @@ const AddonFixer: React.FC<AddonFixerProps> = ({ onGenerationComplete }) => {
           }
       }
 
-      const { files, assetMappings } = await fixAddon(problem, uploadedFiles);
-      addNotification('success', 'Addon fixed successfully!');
-      onGenerationComplete(files, uploadedFiles, assetMappings, addonName);
+      const { files, assetMappings, diagnostics, originalFiles, sourceFiles, importIssues } = await fixAddon(problem, uploadedFiles, options);
+      if (importIssues.length > 0) {
+        addNotification('info', describeImportIssues(importIssues));
+      }
+      const remainingErrors = diagnostics.filter(d => d.severity === 'error').length;
+      if (remainingErrors > 0) {
+        addNotification('info', `Fixes are ready for review, but ${remainingErrors} validation error(s) remain. See the Problems panel after applying them.`);
+      } else {
+        addNotification('success', 'Fixes are ready for review.');
+      }
+      onReview({
+        title: `Fix ${addonName}`,
+        baseFiles: originalFiles,
+        proposedFiles: files,
+        onApply: reviewed => onGenerationComplete(reviewed, sourceFiles, assetMappings, addonName),
+      });
     } catch (err) {
-      addNotification('error', (err as Error).message);
+      if (isAbortError(err)) addNotification('info', 'Fix cancelled.');
+      else addNotification('error', (err as Error).message);
     } finally {
       setIsLoading(false);
+      generation.finish();
     }
   };
 
@@ -67,6 +88,8 @@ const AddonFixer: React.FC<AddonFixerProps> = ({ onGenerationComplete }) => {
       
       <InputField as="textarea" label="Describe the Problem (Optional)" value={problem} onChange={setProblem} placeholder="My entity is invisible. You can also upload a screenshot of the bug. If blank, the AI will scan for any errors." rows={5} />
       
+      {isLoading && <GenerationProgressPanel progress={generation.progress} stages={['generating', 'verifying']} onCancel={generation.cancel} />}
+
       <button onClick={handleFix} disabled={isLoading} className="w-full flex justify-center items-center px-6 py-3 font-semibold rounded-lg text-white bg-[var(--accent-primary)] hover:bg-[var(--accent-hover)] focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-offset-[var(--bg-panel)] focus-visible:ring-[var(--accent-primary)] disabled:bg-[var(--bg-active)] disabled:cursor-not-allowed transition-colors duration-200">
         {isLoading ? <Spinner /> : 'Fix Addon'}
       </button>
@@ -0,0 +1,504 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { GeneratedFile } from '../types';
+import { useNotification } from '../contexts/NotificationContext';
+import { BP_ROOT, RP_ROOT } from '../utils/addonTemplates';
+import { PackKind, findPacks, packPath } from '../utils/packs';
+import {
+    AnimationController, ControllerFile, ControllerState, Point, NODE_WIDTH, NODE_HEIGHT,
+    createController, createState, gridPosition, parseControllerFile, buildControllerFile, findControllerFiles,
+    renameState, removeState, validateControllerFile,
+} from '../utils/animationControllers';
+
+interface AnimationControllerEditorProps {
+    files: GeneratedFile[];
+    onFilesUpdate: (files: GeneratedFile[], label: string) => void;
+}
+
+// --- HELPER & UI COMPONENTS ---
+
+const inputClass = "w-full bg-[var(--bg-input)] border border-[var(--border-primary)] rounded-lg p-2.5 text-sm outline-none focus:ring-2 focus:ring-[var(--accent-primary)]";
+const smallInputClass = "bg-[var(--bg-input)] border border-[var(--border-primary)] rounded-md p-1.5 text-sm outline-none focus:ring-2 focus:ring-[var(--accent-primary)]";
+
+const RemoveButton: React.FC<{ onClick: () => void }> = ({ onClick }) => (
+    <button onClick={onClick} className="px-2 text-[var(--text-tertiary)] hover:text-red-400" title="Remove">✕</button>
+);
+
+const AddButton: React.FC<{ label: string; onClick: () => void }> = ({ label, onClick }) => (
+    <button onClick={onClick} className="text-sm text-[var(--accent-primary)] hover:underline text-left">+ {label}</button>
+);
+
+const PanelHeading: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+    <h4 className="text-xs font-semibold uppercase tracking-wide text-[var(--text-tertiary)]">{children}</h4>
+);
+
+/** Edits a list of strings as one line per entry. */
+const LinesField: React.FC<{ label: string; lines: string[]; placeholder: string; onChange: (lines: string[]) => void }> = ({ label, lines, placeholder, onChange }) => {
+    const [text, setText] = useState(lines.join('\n'));
+
+    return (
+        <div className="flex flex-col gap-1">
+            <PanelHeading>{label}</PanelHeading>
+            <textarea
+                value={text}
+                placeholder={placeholder}
+                rows={Math.max(2, Math.min(6, lines.length + 1))}
+                onChange={e => {
+                    setText(e.target.value);
+                    onChange(e.target.value.split('\n').map(line => line.trim()).filter(Boolean));
+                }}
+                className={`${smallInputClass} font-mono text-xs`}
+            />
+        </div>
+    );
+};
+
+// --- GRAPH ---
+
+const center = (p: Point): Point => ({ x: p.x + NODE_WIDTH / 2, y: p.y + NODE_HEIGHT / 2 });
+
+/** The point where a line from the middle of a node towards `toward` leaves the node's box. */
+const boxEdge = (c: Point, toward: Point): Point => {
+    const dx = toward.x - c.x;
+    const dy = toward.y - c.y;
+    if (dx === 0 && dy === 0) return c;
+    const scale = Math.min(dx ? NODE_WIDTH / 2 / Math.abs(dx) : Infinity, dy ? NODE_HEIGHT / 2 / Math.abs(dy) : Infinity);
+    return { x: c.x + dx * scale, y: c.y + dy * scale };
+};
+
+const truncate = (text: string, length: number) => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+interface EdgeProps {
+    from: ControllerState;
+    to: ControllerState;
+    condition: string;
+    curved: boolean;
+    highlighted: boolean;
+}
+
+const Edge: React.FC<EdgeProps> = ({ from, to, condition, curved, highlighted }) => {
+    const color = highlighted ? 'var(--accent-primary)' : 'var(--text-tertiary)';
+    let path: string;
+    let label: Point;
+
+    if (from === to) {
+        const { x, y } = from.position;
+        path = `M ${x + NODE_WIDTH * 0.65} ${y} C ${x + NODE_WIDTH * 0.65 + 30} ${y - 55}, ${x + NODE_WIDTH * 0.35 - 30} ${y - 55}, ${x + NODE_WIDTH * 0.35} ${y}`;
+        label = { x: x + NODE_WIDTH / 2, y: y - 48 };
+    } else {
+        const a = center(from.position);
+        const b = center(to.position);
+        const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+        // Links in both directions between two states bow apart so they don't overlap.
+        const bend = curved ? 40 : 0;
+        const control = { x: (a.x + b.x) / 2 - ((b.y - a.y) / length) * bend, y: (a.y + b.y) / 2 + ((b.x - a.x) / length) * bend };
+        const start = boxEdge(a, control);
+        const end = boxEdge(b, control);
+        path = `M ${start.x} ${start.y} Q ${control.x} ${control.y} ${end.x} ${end.y}`;
+        label = { x: 0.25 * start.x + 0.5 * control.x + 0.25 * end.x, y: 0.25 * start.y + 0.5 * control.y + 0.25 * end.y };
+    }
+
+    return (
+        <g>
+            <path d={path} fill="none" stroke={color} strokeWidth={highlighted ? 2 : 1.5} markerEnd={highlighted ? 'url(#ac-arrow-active)' : 'url(#ac-arrow)'} />
+            <text x={label.x} y={label.y - 4} textAnchor="middle" fontSize={11} fill={highlighted ? 'var(--text-primary)' : 'var(--text-secondary)'} className="font-mono select-none">
+                <title>{condition}</title>
+                {truncate(condition || '(no condition)', 28)}
+            </text>
+        </g>
+    );
+};
+
+interface ControllerGraphProps {
+    controller: AnimationController;
+    selected: number | null;
+    onSelect: (index: number | null) => void;
+    onMove: (index: number, position: Point) => void;
+    onConnect: (from: number, to: number) => void;
+}
+
+/**
+ * States as draggable nodes and transitions as arrows between them. Drag from a node's ● handle
+ * onto another node to add a transition.
+ */
+const ControllerGraph: React.FC<ControllerGraphProps> = ({ controller, selected, onSelect, onMove, onConnect }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [drag, setDrag] = useState<{ index: number; offset: Point } | null>(null);
+    const [link, setLink] = useState<{ from: number; pointer: Point } | null>(null);
+
+    const width = Math.max(900, ...controller.states.map(s => s.position.x + NODE_WIDTH + 80));
+    const height = Math.max(480, ...controller.states.map(s => s.position.y + NODE_HEIGHT + 80));
+
+    const toGraph = (e: React.MouseEvent): Point => {
+        const rect = containerRef.current!.getBoundingClientRect();
+        return { x: e.clientX - rect.left + containerRef.current!.scrollLeft, y: e.clientY - rect.top + containerRef.current!.scrollTop };
+    };
+
+    const handleMouseMove = (e: React.MouseEvent) => {
+        const point = toGraph(e);
+        if (drag) onMove(drag.index, { x: Math.max(0, point.x - drag.offset.x), y: Math.max(60, point.y - drag.offset.y) });
+        if (link) setLink({ ...link, pointer: point });
+    };
+
+    const handleMouseUp = (e: React.MouseEvent) => {
+        if (link) {
+            const point = toGraph(e);
+            const target = controller.states.findIndex(({ position: p }) => point.x >= p.x && point.x <= p.x + NODE_WIDTH && point.y >= p.y && point.y <= p.y + NODE_HEIGHT);
+            if (target !== -1) onConnect(link.from, target);
+        }
+        setDrag(null);
+        setLink(null);
+    };
+
+    const edges = controller.states.flatMap((state, i) => state.transitions.map(t => ({ from: i, to: controller.states.findIndex(s => s.name === t.target), condition: t.condition })))
+        .filter(edge => edge.to !== -1);
+    const hasEdge = (from: number, to: number) => edges.some(e => e.from === from && e.to === to);
+
+    return (
+        <div
+            ref={containerRef}
+            className="relative overflow-auto h-[520px] bg-[var(--editor-bg)] border border-[var(--border-primary)] rounded-lg select-none"
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={handleMouseUp}
+            onMouseDown={e => e.target === e.currentTarget && onSelect(null)}
+        >
+            <svg width={width} height={height} className="absolute top-0 left-0 pointer-events-none">
+                <defs>
+                    <marker id="ac-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="var(--text-tertiary)" /></marker>
+                    <marker id="ac-arrow-active" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="var(--accent-primary)" /></marker>
+                </defs>
+                {edges.map((edge, i) => (
+                    <Edge
+                        key={i}
+                        from={controller.states[edge.from]}
+                        to={controller.states[edge.to]}
+                        condition={edge.condition}
+                        curved={hasEdge(edge.to, edge.from)}
+                        highlighted={selected === edge.from}
+                    />
+                ))}
+                {link && (() => {
+                    const start = center(controller.states[link.from].position);
+                    return <line x1={start.x} y1={start.y} x2={link.pointer.x} y2={link.pointer.y} stroke="var(--accent-primary)" strokeDasharray="5 4" strokeWidth={1.5} />;
+                })()}
+            </svg>
+            <div style={{ width, height }} className="relative" onMouseDown={e => e.target === e.currentTarget && onSelect(null)}>
+                {controller.states.map((state, index) => (
+                    <div
+                        key={index}
+                        style={{ left: state.position.x, top: state.position.y, width: NODE_WIDTH, height: NODE_HEIGHT }}
+                        onMouseDown={e => {
+                            const point = toGraph(e);
+                            setDrag({ index, offset: { x: point.x - state.position.x, y: point.y - state.position.y } });
+                            onSelect(index);
+                        }}
+                        className={`absolute flex flex-col justify-center px-3 rounded-lg border-2 cursor-move shadow ${selected === index ? 'border-[var(--accent-primary)] bg-[var(--bg-active)]' : 'border-[var(--border-primary)] bg-[var(--bg-panel)]'}`}
+                    >
+                        <div className="flex items-center gap-1 text-sm font-semibold text-[var(--text-primary)] truncate">
+                            {controller.initialState === state.name && <span title="Initial state" className="text-[var(--accent-green)]">▶</span>}
+                            {state.name || '(unnamed)'}
+                        </div>
+                        <div className="text-xs text-[var(--text-tertiary)] truncate">
+                            {state.animations.length > 0 ? state.animations.map(a => a.name).join(', ') : 'No animations'}
+                        </div>
+                        <span
+                            title="Drag onto another state to add a transition"
+                            onMouseDown={e => {
+                                e.stopPropagation();
+                                setLink({ from: index, pointer: toGraph(e) });
+                            }}
+                            className="absolute -right-2 top-1/2 -translate-y-1/2 w-4 h-4 rounded-full bg-[var(--accent-primary)] border-2 border-[var(--bg-panel)] cursor-crosshair"
+                        />
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+// --- STATE PANEL ---
+
+const StatePanel: React.FC<{
+    controller: AnimationController;
+    index: number;
+    kind: PackKind;
+    onChange: (controller: AnimationController) => void;
+    onRemove: () => void;
+}> = ({ controller, index, kind, onChange, onRemove }) => {
+    const state = controller.states[index];
+    const update = (changes: Partial<ControllerState>) => onChange({ ...controller, states: controller.states.map((s, i) => (i === index ? { ...s, ...changes } : s)) });
+
+    return (
+        <div className="flex flex-col gap-4">
+            <div className="flex flex-col gap-1">
+                <PanelHeading>State</PanelHeading>
+                <div className="flex gap-2">
+                    <input type="text" value={state.name} onChange={e => onChange(renameState(controller, index, e.target.value))} className={`flex-grow ${smallInputClass}`} />
+                    <button onClick={onRemove} className="px-3 text-sm rounded-md text-red-400 hover:bg-red-500/10">Delete</button>
+                </div>
+                {controller.initialState === state.name
+                    ? <p className="text-xs text-[var(--accent-green)]">This is the initial state.</p>
+                    : <button onClick={() => onChange({ ...controller, initialState: state.name })} className="text-xs text-[var(--accent-primary)] hover:underline text-left">Make this the initial state</button>}
+            </div>
+
+            <div className="flex flex-col gap-2">
+                <PanelHeading>Animations</PanelHeading>
+                {state.animations.map((animation, i) => (
+                    <div key={i} className="flex items-center gap-1">
+                        <input type="text" value={animation.name} placeholder="walk" onChange={e => update({ animations: state.animations.map((a, ai) => (ai === i ? { ...a, name: e.target.value } : a)) })} className={`w-1/2 ${smallInputClass}`} />
+                        <input type="text" value={animation.blend} placeholder="blend (Molang)" onChange={e => update({ animations: state.animations.map((a, ai) => (ai === i ? { ...a, blend: e.target.value } : a)) })} className={`w-1/2 font-mono text-xs ${smallInputClass}`} />
+                        <RemoveButton onClick={() => update({ animations: state.animations.filter((_, ai) => ai !== i) })} />
+                    </div>
+                ))}
+                <AddButton label="Add Animation" onClick={() => update({ animations: [...state.animations, { name: '', blend: '' }] })} />
+            </div>
+
+            <div className="flex flex-col gap-2">
+                <PanelHeading>Transitions</PanelHeading>
+                {state.transitions.map((transition, i) => (
+                    <div key={i} className="flex flex-col gap-1 p-2 rounded-md bg-[var(--bg-app)]">
+                        <div className="flex items-center gap-1">
+                            <span className="text-xs text-[var(--text-secondary)]">to</span>
+                            <select value={transition.target} onChange={e => update({ transitions: state.transitions.map((t, ti) => (ti === i ? { ...t, target: e.target.value } : t)) })} className={`flex-grow ${smallInputClass}`}>
+                                {!controller.states.some(s => s.name === transition.target) && <option value={transition.target}>{transition.target} (missing)</option>}
+                                {controller.states.map((s, si) => <option key={si} value={s.name}>{s.name}</option>)}
+                            </select>
+                            <RemoveButton onClick={() => update({ transitions: state.transitions.filter((_, ti) => ti !== i) })} />
+                        </div>
+                        <input type="text" value={transition.condition} placeholder="q.is_moving" onChange={e => update({ transitions: state.transitions.map((t, ti) => (ti === i ? { ...t, condition: e.target.value } : t)) })} className={`font-mono text-xs ${smallInputClass}`} />
+                    </div>
+                ))}
+                <AddButton label="Add Transition" onClick={() => update({ transitions: [...state.transitions, { target: controller.states.find((_, i) => i !== index)?.name ?? state.name, condition: '' }] })} />
+            </div>
+
+            <LinesField key={`entry-${index}`} label="On Entry" lines={state.onEntry} placeholder={kind === 'behavior' ? '/say Hello\n@s custom:my_event' : 'v.is_attacking = 1;'} onChange={onEntry => update({ onEntry })} />
+            <LinesField key={`exit-${index}`} label="On Exit" lines={state.onExit} placeholder={kind === 'behavior' ? '/tag @s remove busy' : 'v.is_attacking = 0;'} onChange={onExit => update({ onExit })} />
+
+            {kind === 'resource' && (
+                <div className="flex flex-col gap-2">
+                    <PanelHeading>Blending</PanelHeading>
+                    <label className="flex items-center justify-between gap-2 text-sm text-[var(--text-secondary)]">
+                        Blend transition (seconds)
+                        <input type="number" min={0} step={0.05} value={state.blendTransition ?? ''} placeholder="none" onChange={e => update({ blendTransition: e.target.value === '' ? null : parseFloat(e.target.value) })} className={`w-24 ${smallInputClass}`} />
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-[var(--text-secondary)]">
+                        <input type="checkbox" checked={state.blendViaShortestPath} onChange={e => update({ blendViaShortestPath: e.target.checked })} />
+                        Blend via shortest path
+                    </label>
+                </div>
+            )}
+            {Object.keys(state.extra).length > 0 && (
+                <p className="text-xs text-[var(--text-tertiary)]">Also keeps: {Object.keys(state.extra).join(', ')}</p>
+            )}
+        </div>
+    );
+};
+
+// --- MAIN COMPONENT ---
+
+const NEW_FILE = { behavior: '__new_behavior__', resource: '__new_resource__' };
+
+const AnimationControllerEditor: React.FC<AnimationControllerEditorProps> = ({ files, onFilesUpdate }) => {
+    const { addNotification } = useNotification();
+    const projectFiles = useMemo(() => findControllerFiles(files), [files]);
+
+    const packRoot = (kind: PackKind) => findPacks(files).find(pack => pack.kind === kind)?.root ?? (kind === 'behavior' ? BP_ROOT : RP_ROOT);
+    const newFile = (kind: PackKind): ControllerFile => ({ formatVersion: '1.10.0', controllers: [createController(`controller.animation.my_entity.${kind === 'behavior' ? 'events' : 'move'}`)] });
+
+    const [source, setSource] = useState(NEW_FILE.behavior);
+    const [kind, setKind] = useState<PackKind>('behavior');
+    const [path, setPath] = useState(() => packPath(packRoot('behavior'), 'animation_controllers/my_entity.json'));
+    const [file, setFile] = useState<ControllerFile>(() => newFile('behavior'));
+    const [activeController, setActiveController] = useState(0);
+    const [selectedState, setSelectedState] = useState<number | null>(0);
+
+    const controller = file.controllers[activeController];
+    const errors = useMemo(() => validateControllerFile(file, kind), [file, kind]);
+    const content = useMemo(() => JSON.stringify(buildControllerFile(file), null, 2), [file]);
+
+    const openSource = (value: string) => {
+        if (value === NEW_FILE.behavior || value === NEW_FILE.resource) {
+            const newKind: PackKind = value === NEW_FILE.behavior ? 'behavior' : 'resource';
+            setKind(newKind);
+            setPath(packPath(packRoot(newKind), 'animation_controllers/my_entity.json'));
+            setFile(newFile(newKind));
+        } else {
+            const projectFile = projectFiles.find(f => f.path === value);
+            const original = files.find(f => f.path === value);
+            if (!projectFile || !original) return;
+            try {
+                setFile(parseControllerFile(original.content));
+            } catch (err) {
+                addNotification('error', `Couldn't open ${value}: ${(err as Error).message}`);
+                return;
+            }
+            setKind(projectFile.kind);
+            setPath(value);
+        }
+        setSource(value);
+        setActiveController(0);
+        setSelectedState(0);
+    };
+
+    const updateController = (updated: AnimationController) =>
+        setFile({ ...file, controllers: file.controllers.map((c, i) => (i === activeController ? updated : c)) });
+
+    const addState = () => {
+        const names = controller.states.map(s => s.name);
+        let n = controller.states.length;
+        while (names.includes(`state_${n}`)) n++;
+        updateController({ ...controller, states: [...controller.states, createState(`state_${n}`, controller.states.length)] });
+        setSelectedState(controller.states.length);
+    };
+
+    const connectStates = (from: number, to: number) => {
+        const state = controller.states[from];
+        const target = controller.states[to].name;
+        if (state.transitions.some(t => t.target === target)) return;
+        updateController({ ...controller, states: controller.states.map((s, i) => (i === from ? { ...s, transitions: [...s.transitions, { target, condition: '' }] } : s)) });
+        setSelectedState(from);
+    };
+
+    const addController = () => {
+        const ids = file.controllers.map(c => c.id);
+        let n = file.controllers.length + 1;
+        while (ids.includes(`controller.animation.my_entity.controller_${n}`)) n++;
+        setFile({ ...file, controllers: [...file.controllers, createController(`controller.animation.my_entity.controller_${n}`)] });
+        setActiveController(file.controllers.length);
+        setSelectedState(0);
+    };
+
+    const removeController = (index: number) => {
+        setFile({ ...file, controllers: file.controllers.filter((_, i) => i !== index) });
+        setActiveController(Math.max(0, activeController >= index ? activeController - 1 : activeController));
+        setSelectedState(null);
+    };
+
+    const handleSave = () => {
+        if (errors.length > 0) {
+            addNotification('error', 'Please fix the problems listed above before saving.');
+            return;
+        }
+        const isNew = source !== path;
+        if (isNew && files.some(f => f.path === path)) {
+            addNotification('error', `${path} already exists. Open it from the file list to edit it.`);
+            return;
+        }
+        const updated = files.some(f => f.path === path) ? files.map(f => (f.path === path ? { ...f, content } : f)) : [...files, { path, content }];
+        onFilesUpdate(updated, `Animation controllers in ${path.split('/').pop()}`);
+        setSource(path);
+        addNotification('success', `${isNew ? 'Added' : 'Saved'} ${path}.`);
+    };
+
+    const handleDownload = () => {
+        const fileName = path.split('/').pop() || 'animation_controllers.json';
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(new Blob([content], { type: 'application/json' }));
+        link.download = fileName;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        addNotification('success', `${fileName} downloaded.`);
+    };
+
+    return (
+        <div className="flex flex-col gap-6 max-w-7xl mx-auto">
+            <h2 className="text-2xl font-bold text-[var(--text-primary)]">Animation Controller Editor</h2>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="flex flex-col gap-1">
+                    <label className="text-sm font-medium text-[var(--text-secondary)]">File</label>
+                    <select value={source} onChange={e => openSource(e.target.value)} className={inputClass}>
+                        <option value={NEW_FILE.behavior}>New behavior pack file</option>
+                        <option value={NEW_FILE.resource}>New resource pack file</option>
+                        {projectFiles.length > 0 && (
+                            <optgroup label="Current project">
+                                {projectFiles.map(f => <option key={f.path} value={f.path}>{f.path} ({f.kind === 'behavior' ? 'BP' : 'RP'})</option>)}
+                            </optgroup>
+                        )}
+                    </select>
+                </div>
+                <div className="flex flex-col gap-1">
+                    <label className="text-sm font-medium text-[var(--text-secondary)]">Path</label>
+                    <input type="text" value={path} onChange={e => setPath(e.target.value)} className={inputClass} />
+                </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 border-b border-[var(--border-primary)]">
+                {file.controllers.map((c, i) => (
+                    <button key={i} onClick={() => { setActiveController(i); setSelectedState(null); }} className={`px-3 py-2 text-sm border-b-2 font-mono ${activeController === i ? 'border-[var(--accent-primary)] text-[var(--text-primary)]' : 'border-transparent text-[var(--text-secondary)]'}`}>
+                        {c.id.replace('controller.animation.', '') || '(unnamed)'}
+                    </button>
+                ))}
+                <AddButton label="Controller" onClick={addController} />
+            </div>
+
+            {!controller ? (
+                <div className="text-center text-[var(--text-secondary)]">This file has no controllers. Add one to start editing.</div>
+            ) : (
+                <>
+                    <div className="flex flex-wrap items-end gap-4">
+                        <div className="flex flex-col gap-1 flex-grow">
+                            <label className="text-sm font-medium text-[var(--text-secondary)]">Controller Name</label>
+                            <input type="text" value={controller.id} onChange={e => updateController({ ...controller, id: e.target.value })} className={`font-mono ${inputClass}`} />
+                        </div>
+                        <button onClick={addState} className="px-4 py-2.5 text-sm font-semibold rounded-lg bg-[var(--bg-input)] hover:bg-[var(--bg-hover)]">+ Add State</button>
+                        <button onClick={() => updateController({ ...controller, states: controller.states.map((s, i) => ({ ...s, position: gridPosition(i) })) })} className="px-4 py-2.5 text-sm font-semibold rounded-lg bg-[var(--bg-input)] hover:bg-[var(--bg-hover)]">Tidy Layout</button>
+                        <button onClick={() => removeController(activeController)} className="px-4 py-2.5 text-sm font-semibold rounded-lg text-red-400 hover:bg-red-500/10">Delete Controller</button>
+                    </div>
+
+                    <div className="flex flex-col lg:flex-row gap-4">
+                        <div className="flex-grow min-w-0">
+                            <ControllerGraph
+                                controller={controller}
+                                selected={selectedState}
+                                onSelect={setSelectedState}
+                                onMove={(index, position) => updateController({ ...controller, states: controller.states.map((s, i) => (i === index ? { ...s, position } : s)) })}
+                                onConnect={connectStates}
+                            />
+                            <p className="mt-2 text-xs text-[var(--text-tertiary)]">Drag states to arrange them. Drag from a state's ● handle onto another state to add a transition.</p>
+                        </div>
+                        <div className="lg:w-96 flex-shrink-0 p-4 bg-[var(--bg-panel-secondary)] border border-[var(--border-primary)] rounded-lg max-h-[560px] overflow-y-auto">
+                            {selectedState !== null && controller.states[selectedState] ? (
+                                <StatePanel
+                                    key={`${activeController}-${selectedState}`}
+                                    controller={controller}
+                                    index={selectedState}
+                                    kind={kind}
+                                    onChange={updateController}
+                                    onRemove={() => {
+                                        updateController(removeState(controller, selectedState));
+                                        setSelectedState(null);
+                                    }}
+                                />
+                            ) : (
+                                <p className="text-sm text-center text-[var(--text-secondary)]">Select a state to edit its animations, transitions and commands.</p>
+                            )}
+                        </div>
+                    </div>
+                </>
+            )}
+
+            <details className="bg-[var(--bg-app)] border border-[var(--border-primary)] rounded-lg">
+                <summary className="p-4 font-bold cursor-pointer">Preview</summary>
+                <pre className="overflow-x-auto text-xs text-gray-300 font-mono p-4 border-t border-[var(--border-primary)]"><code>{content}</code></pre>
+            </details>
+
+            {errors.length > 0 && (
+                <ul className="list-disc pl-6 p-3 text-sm text-red-400 bg-[var(--bg-app)] border border-red-500/50 rounded-lg">
+                    {errors.map((error, i) => <li key={i}>{error}</li>)}
+                </ul>
+            )}
+            <div className="flex gap-4">
+                <button onClick={handleDownload} className="flex-1 px-6 py-3 font-semibold rounded-lg bg-[var(--bg-hover)] hover:bg-[var(--bg-active)] text-[var(--text-primary)]">
+                    Download JSON
+                </button>
+                <button onClick={handleSave} className="flex-1 px-6 py-3 font-semibold rounded-lg text-white bg-[var(--accent-primary)] hover:bg-[var(--accent-hover)]">
+                    {source === path ? 'Save to Project' : 'Add to Project'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default AnimationControllerEditor;
@@ -0,0 +1,513 @@
+import React, { useState, useMemo } from 'react';
+import { GeneratedFile, UploadedFile, AssetMapping } from '../types';
+import { useNotification } from '../contexts/NotificationContext';
+import { BP_ROOT, RP_ROOT, createPackManifests, createLangFiles, createTextureAtlas, validateIdentifier, shortName } from '../utils/addonTemplates';
+import {
+    BlockDefinition, BlockStateDefinition, BlockStateKind, BlockPermutation, BlockTraits, ConditionClause, MaterialInstance, PlacementDirectionState, PlacementPositionState, RenderMethod,
+    FULL_BLOCK_GEOMETRY, FACE_KEYS, RENDER_METHODS, buildBlockJson, buildCondition, getConditionStates, validateBlockDefinition,
+} from '../utils/blockDefinition';
+import { parseGeometry } from '../utils/geometry';
+
+// --- PROPS & STATE TYPES ---
+
+interface BlockCreatorProps {
+    onGenerationComplete: (
+        generatedFiles: GeneratedFile[],
+        uploadedFiles: UploadedFile[],
+        assetMappings: AssetMapping[],
+        addonName: string
+      ) => void;
+}
+
+interface TextureEntry {
+    name: string;
+    file: File | null;
+}
+
+// --- HELPER & UI COMPONENTS ---
+
+const Section: React.FC<{ title: string; children: React.ReactNode; defaultOpen?: boolean }> = ({ title, children, defaultOpen = false }) => {
+    const [isOpen, setIsOpen] = useState(defaultOpen);
+
+    return (
+        <div className="bg-[var(--bg-app)] border border-[var(--border-primary)] rounded-lg">
+            <button onClick={() => setIsOpen(!isOpen)} className="flex items-center justify-between w-full p-4 text-left">
+                <h3 className="font-bold text-md text-[var(--text-primary)]">{title}</h3>
+                <svg className={`w-5 h-5 text-[var(--text-tertiary)] transition-transform ${isOpen ? 'rotate-90' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+            </button>
+            {isOpen && (
+                <div className="p-4 border-t border-[var(--border-primary)]">
+                    {children}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const inputClass = "w-full bg-[var(--bg-input)] border border-[var(--border-primary)] rounded-lg p-2.5 text-sm outline-none focus:ring-2 focus:ring-[var(--accent-primary)]";
+const smallInputClass = "bg-[var(--bg-input)] border border-[var(--border-primary)] rounded-md p-1.5 text-sm outline-none focus:ring-2 focus:ring-[var(--accent-primary)]";
+
+const InputField: React.FC<{ label: string; value: string; onChange: (value: string) => void; placeholder?: string; info?: string }> =
+({ label, value, onChange, placeholder, info }) => (
+    <div className="flex flex-col gap-1">
+        <label className="text-sm font-medium text-[var(--text-secondary)]">{label}</label>
+        <input type="text" value={value} onChange={(e) => onChange(e.target.value)} className={inputClass} placeholder={placeholder} />
+        {info && <p className="text-xs text-[var(--text-tertiary)]">{info}</p>}
+    </div>
+);
+
+const NumberField: React.FC<{ label: string; value: number; onChange: (value: number) => void; min?: number; max?: number; step?: number }> =
+({ label, value, onChange, min, max, step }) => (
+    <div className="flex flex-col gap-1">
+        <label className="text-sm font-medium text-[var(--text-secondary)]">{label}</label>
+        <input type="number" value={Number.isNaN(value) ? '' : value} onChange={(e) => onChange(parseFloat(e.target.value))} min={min} max={max} step={step} className={inputClass} />
+    </div>
+);
+
+const ToggleSwitch: React.FC<{ label: string; checked: boolean; onChange: (checked: boolean) => void; }> = ({ label, checked, onChange }) => (
+    <div className="flex items-center justify-between bg-[var(--bg-input)] p-2 rounded-lg">
+        <label className="text-sm font-medium text-[var(--text-secondary)]">{label}</label>
+        <button onClick={() => onChange(!checked)} className={`w-10 h-5 rounded-full transition-colors ${checked ? 'bg-[var(--accent-primary)]' : 'bg-[var(--bg-app)]'}`}>
+            <span className={`block w-3.5 h-3.5 rounded-full bg-white transform transition-transform ${checked ? 'translate-x-5' : 'translate-x-1'}`}></span>
+        </button>
+    </div>
+);
+
+const SelectField: React.FC<{ label: string; value: string; onChange: (value: string) => void; options: { value: string; label: string }[] }> =
+({ label, value, onChange, options }) => (
+    <div className="flex flex-col gap-1">
+        <label className="text-sm font-medium text-[var(--text-secondary)]">{label}</label>
+        <select value={value} onChange={e => onChange(e.target.value)} className={inputClass}>
+            {options.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+        </select>
+    </div>
+);
+
+const RemoveButton: React.FC<{ onClick: () => void }> = ({ onClick }) => (
+    <button onClick={onClick} className="px-2 text-[var(--text-tertiary)] hover:text-red-400" title="Remove">✕</button>
+);
+
+const AddButton: React.FC<{ label: string; onClick: () => void }> = ({ label, onClick }) => (
+    <button onClick={onClick} className="self-start text-sm text-[var(--accent-primary)] hover:underline">+ {label}</button>
+);
+
+const StateEditor: React.FC<{ state: BlockStateDefinition; onChange: (state: BlockStateDefinition) => void; onRemove: () => void }> = ({ state, onChange, onRemove }) => (
+    <div className="flex flex-wrap gap-2 items-center p-2 bg-[var(--bg-input)] rounded-lg">
+        <input value={state.name} onChange={e => onChange({ ...state, name: e.target.value })} placeholder="custom:open" className={`${smallInputClass} font-mono flex-grow`} />
+        <select value={state.kind} onChange={e => onChange({ ...state, kind: e.target.value as BlockStateKind })} className={smallInputClass}>
+            <option value="boolean">Boolean</option>
+            <option value="integer">Integer range</option>
+            <option value="enum">Enum</option>
+        </select>
+        {state.kind === 'integer' && (
+            <>
+                <input type="number" value={Number.isNaN(state.min) ? '' : state.min} onChange={e => onChange({ ...state, min: parseInt(e.target.value, 10) })} className={`${smallInputClass} w-20`} title="Min" />
+                <span className="text-[var(--text-tertiary)]">to</span>
+                <input type="number" value={Number.isNaN(state.max) ? '' : state.max} onChange={e => onChange({ ...state, max: parseInt(e.target.value, 10) })} className={`${smallInputClass} w-20`} title="Max" />
+            </>
+        )}
+        {state.kind === 'enum' && (
+            <input
+                value={state.values.join(', ')}
+                onChange={e => onChange({ ...state, values: e.target.value.split(',').map(v => v.trim()) })}
+                placeholder="red, green, blue"
+                className={`${smallInputClass} flex-grow`}
+            />
+        )}
+        <RemoveButton onClick={onRemove} />
+    </div>
+);
+
+const ROTATION_OPTIONS = [0, 90, 180, 270];
+
+const PermutationEditor: React.FC<{
+    permutation: BlockPermutation;
+    index: number;
+    definition: Pick<BlockDefinition, 'states' | 'traits'>;
+    textureNames: string[];
+    onChange: (permutation: BlockPermutation) => void;
+    onRemove: () => void;
+}> = ({ permutation, index, definition, textureNames, onChange, onRemove }) => {
+    const states = getConditionStates(definition);
+    const { components } = permutation;
+    const setComponent = <K extends keyof BlockPermutation['components']>(key: K, value: BlockPermutation['components'][K]) =>
+        onChange({ ...permutation, components: { ...components, [key]: value } });
+    const updateClause = (i: number, clause: Partial<ConditionClause>) =>
+        onChange({ ...permutation, clauses: permutation.clauses.map((c, j) => (j === i ? { ...c, ...clause } : c)) });
+    const addClause = () => {
+        const first = states[0];
+        onChange({ ...permutation, clauses: [...permutation.clauses, { state: first?.name || '', operator: '==', value: first?.values[0] || '' }] });
+    };
+
+    const componentToggle = (label: string, key: keyof BlockPermutation['components'], initial: any, editor: React.ReactNode) => (
+        <div className="flex flex-col gap-1">
+            <label className="flex items-center gap-2 text-sm text-[var(--text-secondary)]">
+                <input type="checkbox" checked={components[key] !== undefined} onChange={e => setComponent(key, e.target.checked ? initial : undefined)} />
+                {label}
+            </label>
+            {components[key] !== undefined && <div className="pl-6">{editor}</div>}
+        </div>
+    );
+
+    return (
+        <div className="flex flex-col gap-3 p-3 bg-[var(--bg-input)] rounded-lg">
+            <div className="flex items-center justify-between">
+                <h4 className="text-sm font-semibold text-[var(--text-primary)]">Permutation {index + 1}</h4>
+                <RemoveButton onClick={onRemove} />
+            </div>
+            <div className="flex flex-col gap-2">
+                <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-[var(--text-secondary)]">Condition</span>
+                    <label className="flex items-center gap-2 text-xs text-[var(--text-tertiary)]">
+                        <input
+                            type="checkbox"
+                            checked={permutation.customCondition !== null}
+                            onChange={e => onChange({ ...permutation, customCondition: e.target.checked ? buildCondition({ ...permutation, customCondition: null }, definition) : null })}
+                        />
+                        Write Molang by hand
+                    </label>
+                </div>
+                {permutation.customCondition !== null ? (
+                    <textarea value={permutation.customCondition} onChange={e => onChange({ ...permutation, customCondition: e.target.value })} rows={2} className={`${smallInputClass} font-mono`} />
+                ) : (
+                    <>
+                        {permutation.clauses.length > 1 && (
+                            <select value={permutation.joiner} onChange={e => onChange({ ...permutation, joiner: e.target.value as BlockPermutation['joiner'] })} className={`${smallInputClass} self-start`}>
+                                <option value="&&">All of these are true</option>
+                                <option value="||">Any of these is true</option>
+                            </select>
+                        )}
+                        {permutation.clauses.map((clause, i) => {
+                            const values = states.find(s => s.name === clause.state)?.values || [];
+                            return (
+                                <div key={i} className="flex gap-2 items-center">
+                                    <select value={clause.state} onChange={e => updateClause(i, { state: e.target.value, value: states.find(s => s.name === e.target.value)?.values[0] || '' })} className={`${smallInputClass} flex-grow font-mono`}>
+                                        {!states.some(s => s.name === clause.state) && <option value={clause.state}>{clause.state || 'Pick a state'}</option>}
+                                        {states.map(s => <option key={s.name} value={s.name}>{s.name}</option>)}
+                                    </select>
+                                    <select value={clause.operator} onChange={e => updateClause(i, { operator: e.target.value as ConditionClause['operator'] })} className={smallInputClass}>
+                                        <option value="==">is</option>
+                                        <option value="!=">is not</option>
+                                    </select>
+                                    <select value={clause.value} onChange={e => updateClause(i, { value: e.target.value })} className={`${smallInputClass} font-mono`}>
+                                        {!values.includes(clause.value) && <option value={clause.value}>{clause.value || '-'}</option>}
+                                        {values.map(v => <option key={v} value={v}>{v}</option>)}
+                                    </select>
+                                    <RemoveButton onClick={() => onChange({ ...permutation, clauses: permutation.clauses.filter((_, j) => j !== i) })} />
+                                </div>
+                            );
+                        })}
+                        {states.length > 0 ? <AddButton label="Add condition" onClick={addClause} /> : <p className="text-xs text-[var(--text-tertiary)]">Add a state or trait to build conditions.</p>}
+                        {permutation.clauses.length > 0 && <code className="text-xs text-[var(--text-tertiary)] break-all">{buildCondition(permutation, definition)}</code>}
+                    </>
+                )}
+            </div>
+            <div className="flex flex-col gap-2">
+                <span className="text-sm font-medium text-[var(--text-secondary)]">Components</span>
+                {componentToggle('Rotation (minecraft:transformation)', 'rotation', [0, 0, 0], (
+                    <div className="flex gap-2">
+                        {['X', 'Y', 'Z'].map((axis, i) => (
+                            <label key={axis} className="flex items-center gap-1 text-xs text-[var(--text-tertiary)]">
+                                {axis}
+                                <select value={components.rotation?.[i] ?? 0} onChange={e => setComponent('rotation', components.rotation!.map((r, j) => (j === i ? parseInt(e.target.value, 10) : r)) as [number, number, number])} className={smallInputClass}>
+                                    {ROTATION_OPTIONS.map(r => <option key={r} value={r}>{r}°</option>)}
+                                </select>
+                            </label>
+                        ))}
+                    </div>
+                ))}
+                {componentToggle('Light Emission', 'lightEmission', 15, (
+                    <input type="number" min={0} max={15} value={Number.isNaN(components.lightEmission) ? '' : components.lightEmission} onChange={e => setComponent('lightEmission', parseInt(e.target.value, 10))} className={`${smallInputClass} w-24`} />
+                ))}
+                {componentToggle('Time to Destroy (seconds)', 'secondsToDestroy', 1, (
+                    <input type="number" min={0} step={0.1} value={Number.isNaN(components.secondsToDestroy) ? '' : components.secondsToDestroy} onChange={e => setComponent('secondsToDestroy', parseFloat(e.target.value))} className={`${smallInputClass} w-24`} />
+                ))}
+                {componentToggle('Geometry', 'geometry', FULL_BLOCK_GEOMETRY, (
+                    <input value={components.geometry || ''} onChange={e => setComponent('geometry', e.target.value)} className={`${smallInputClass} w-full font-mono`} />
+                ))}
+                {componentToggle('Texture (all faces)', 'texture', textureNames[0] || '', (
+                    <select value={components.texture || ''} onChange={e => setComponent('texture', e.target.value)} className={smallInputClass}>
+                        {textureNames.map(name => <option key={name} value={name}>{name}</option>)}
+                    </select>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+
+// --- CONSTANTS ---
+const CREATIVE_CATEGORIES = [
+    { value: 'none', label: 'None' },
+    { value: 'construction', label: 'Construction' },
+    { value: 'nature', label: 'Nature' },
+    { value: 'equipment', label: 'Equipment' },
+    { value: 'items', label: 'Items' },
+];
+
+const PLACEMENT_DIRECTION_STATES: PlacementDirectionState[] = ['minecraft:cardinal_direction', 'minecraft:facing_direction'];
+const PLACEMENT_POSITION_STATES: PlacementPositionState[] = ['minecraft:block_face', 'minecraft:vertical_half'];
+
+const newMaterialInstance = (key: string, texture: string): MaterialInstance => ({ key, texture, renderMethod: 'opaque', faceDimming: true, ambientOcclusion: true });
+
+
+// --- MAIN COMPONENT ---
+
+const BlockCreator: React.FC<BlockCreatorProps> = ({ onGenerationComplete }) => {
+    const [identifier, setIdentifier] = useState('');
+    const [displayName, setDisplayName] = useState('');
+    const [creativeCategory, setCreativeCategory] = useState('construction');
+    const [menuGroup, setMenuGroup] = useState('');
+    const [hiddenInCommands, setHiddenInCommands] = useState(false);
+
+    const [textures, setTextures] = useState<TextureEntry[]>([{ name: '', file: null }]);
+    const [materialInstances, setMaterialInstances] = useState<MaterialInstance[]>([newMaterialInstance('*', '')]);
+    const [useCustomGeometry, setUseCustomGeometry] = useState(false);
+    const [geometryFile, setGeometryFile] = useState<{ content: string; identifier: string } | null>(null);
+    const [geometryError, setGeometryError] = useState<string | null>(null);
+
+    const [destructibleByMining, setDestructibleByMining] = useState(true);
+    const [secondsToDestroy, setSecondsToDestroy] = useState(1.5);
+    const [lightEmission, setLightEmission] = useState(0);
+    const [loot, setLoot] = useState('');
+
+    const [states, setStates] = useState<BlockStateDefinition[]>([]);
+    const [traits, setTraits] = useState<BlockTraits>({ placementDirection: [], yRotationOffset: 0, placementPosition: [] });
+    const [permutations, setPermutations] = useState<BlockPermutation[]>([]);
+
+    const [errors, setErrors] = useState<string[]>([]);
+    const { addNotification } = useNotification();
+
+    const textureNames = textures.map(t => t.name).filter(Boolean);
+
+    const definition: BlockDefinition = useMemo(() => ({
+        identifier,
+        menuCategory: creativeCategory,
+        menuGroup: menuGroup.trim(),
+        hiddenInCommands,
+        states,
+        traits,
+        textures: textures.map(t => t.name),
+        geometry: useCustomGeometry ? geometryFile?.identifier || '' : FULL_BLOCK_GEOMETRY,
+        materialInstances,
+        destructibleByMining,
+        secondsToDestroy,
+        lightEmission,
+        loot,
+        permutations,
+    }), [identifier, creativeCategory, menuGroup, hiddenInCommands, states, traits, textures, useCustomGeometry, geometryFile, materialInstances, destructibleByMining, secondsToDestroy, lightEmission, loot, permutations]);
+
+    const handleGeometryFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        setGeometryFile(null);
+        setGeometryError(null);
+        if (!file) return;
+        try {
+            const content = await file.text();
+            setGeometryFile({ content, identifier: parseGeometry(content).identifier });
+        } catch (err) {
+            setGeometryError((err as Error).message);
+        }
+    };
+
+    const toggleTrait = <K extends 'placementDirection' | 'placementPosition'>(key: K, state: BlockTraits[K][number]) => {
+        setTraits(prev => {
+            const current = prev[key] as string[];
+            return { ...prev, [key]: current.includes(state) ? current.filter(s => s !== state) : [...current, state] };
+        });
+    };
+
+    const updateTexture = (index: number, entry: Partial<TextureEntry>) => {
+        const oldName = textures[index].name;
+        setTextures(prev => prev.map((t, i) => (i === index ? { ...t, ...entry } : t)));
+        // Keep material instances pointing at a texture when it's renamed.
+        if (entry.name !== undefined) {
+            setMaterialInstances(prev => prev.map(instance => (instance.texture === oldName ? { ...instance, texture: entry.name! } : instance)));
+        }
+    };
+
+    const handleGenerate = () => {
+        const problems: string[] = [];
+        const identifierError = validateIdentifier(identifier);
+        if (identifierError) problems.push(identifierError);
+        if (!displayName.trim()) problems.push('Display Name is required.');
+        textures.forEach((texture, index) => {
+            if (!texture.file) problems.push(`Texture ${texture.name || index + 1} needs a .png file.`);
+        });
+        if (useCustomGeometry && !geometryFile) problems.push(geometryError || 'Upload a Blockbench .geo.json model, or use the full block geometry.');
+        problems.push(...validateBlockDefinition(definition).filter(error => !(useCustomGeometry && !geometryFile && error.startsWith('Geometry'))));
+        setErrors(problems);
+        if (problems.length > 0) {
+            addNotification('error', `The block has ${problems.length} ${problems.length === 1 ? 'problem' : 'problems'}. See the list above the Generate button.`);
+            return;
+        }
+
+        const id_short = shortName(identifier);
+        const addonName = displayName.trim();
+        const texturePaths = Object.fromEntries(textures.map(t => [t.name, `textures/blocks/${t.name}`]));
+
+        const generatedFiles: GeneratedFile[] = [
+            ...createPackManifests(addonName, `Adds the ${addonName} block.`),
+            { path: `${BP_ROOT}/blocks/${id_short}.json`, content: JSON.stringify(buildBlockJson(definition), null, 2) },
+            { path: `${RP_ROOT}/textures/terrain_texture.json`, content: JSON.stringify(createTextureAtlas(addonName, 'atlas.terrain', texturePaths), null, 2) },
+            ...createLangFiles(RP_ROOT, { [`tile.${identifier}.name`]: addonName }),
+        ];
+        if (useCustomGeometry && geometryFile) {
+            generatedFiles.push({ path: `${RP_ROOT}/models/blocks/${id_short}.geo.json`, content: geometryFile.content });
+        }
+        // Uploads are renamed to their destination so textures with the same file name can't be mixed up.
+        const uploadedFiles: UploadedFile[] = textures.map(t => ({ file: new File([t.file!], `${RP_ROOT}/${texturePaths[t.name]}.png`, { type: t.file!.type }), type: 'asset' }));
+        const assetMappings: AssetMapping[] = uploadedFiles.map(uf => ({ originalPath: uf.file.name, newPath: uf.file.name }));
+
+        onGenerationComplete(generatedFiles, uploadedFiles, assetMappings, addonName);
+        addNotification('success', `${addonName} was created. You can now review and download it.`);
+    };
+
+    return (
+        <div className="flex flex-col gap-4 max-w-4xl mx-auto">
+            <h2 className="text-2xl font-bold text-[var(--text-primary)] mb-2">Block Creator</h2>
+            <InputField label="Identifier" value={identifier} onChange={setIdentifier} placeholder="custom:ruby_lamp" />
+            <InputField label="Display Name" value={displayName} onChange={setDisplayName} placeholder="Ruby Lamp" />
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <SelectField label="Creative Category" value={creativeCategory} onChange={setCreativeCategory} options={CREATIVE_CATEGORIES} />
+                <InputField label="Creative Group" value={menuGroup} onChange={setMenuGroup} placeholder="minecraft:itemGroup.name.wool" info="Optional. Groups the block with others in the creative inventory." />
+            </div>
+            <ToggleSwitch label="Hidden in Commands" checked={hiddenInCommands} onChange={setHiddenInCommands} />
+
+            <Section title="Textures & Geometry" defaultOpen={true}>
+                <div className="flex flex-col gap-4">
+                    <div className="flex flex-col gap-2">
+                        <span className="text-sm font-medium text-[var(--text-secondary)]">Textures</span>
+                        {textures.map((texture, index) => (
+                            <div key={index} className="flex gap-2 items-center">
+                                <input value={texture.name} onChange={e => updateTexture(index, { name: e.target.value })} placeholder="ruby_lamp_on" className={`${smallInputClass} font-mono flex-grow`} />
+                                <input type="file" accept="image/png" onChange={e => updateTexture(index, { file: e.target.files?.[0] || null })} className="text-sm text-[var(--text-secondary)]" />
+                                {textures.length > 1 && <RemoveButton onClick={() => setTextures(prev => prev.filter((_, i) => i !== index))} />}
+                            </div>
+                        ))}
+                        <AddButton label="Add texture" onClick={() => setTextures(prev => [...prev, { name: '', file: null }])} />
+                    </div>
+
+                    <div className="flex flex-col gap-2">
+                        <ToggleSwitch label="Custom Geometry" checked={useCustomGeometry} onChange={setUseCustomGeometry} />
+                        {useCustomGeometry && (
+                            <div className="flex flex-col gap-1 p-2 bg-[var(--bg-input)] rounded-lg">
+                                <input type="file" accept=".json" onChange={handleGeometryFile} className="text-sm text-[var(--text-secondary)]" />
+                                {geometryFile && <p className="text-xs text-[var(--text-tertiary)]">Uses <code>{geometryFile.identifier}</code>. Material instance keys can also name the materials set on its cubes.</p>}
+                                {geometryError && <p className="text-xs text-red-400">{geometryError}</p>}
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="flex flex-col gap-2">
+                        <span className="text-sm font-medium text-[var(--text-secondary)]">Material Instances</span>
+                        {materialInstances.map((instance, index) => {
+                            const update = (changes: Partial<MaterialInstance>) => setMaterialInstances(prev => prev.map((m, i) => (i === index ? { ...m, ...changes } : m)));
+                            return (
+                                <div key={index} className="flex flex-wrap gap-2 items-center p-2 bg-[var(--bg-input)] rounded-lg">
+                                    <input value={instance.key} onChange={e => update({ key: e.target.value })} list="block-face-keys" className={`${smallInputClass} w-28 font-mono`} title="Face or material name. * means every face." />
+                                    <select value={instance.texture} onChange={e => update({ texture: e.target.value })} className={smallInputClass}>
+                                        {!textureNames.includes(instance.texture) && <option value={instance.texture}>Pick a texture</option>}
+                                        {textureNames.map(name => <option key={name} value={name}>{name}</option>)}
+                                    </select>
+                                    <select value={instance.renderMethod} onChange={e => update({ renderMethod: e.target.value as RenderMethod })} className={smallInputClass}>
+                                        {RENDER_METHODS.map(method => <option key={method} value={method}>{method}</option>)}
+                                    </select>
+                                    <label className="flex items-center gap-1 text-xs text-[var(--text-tertiary)]"><input type="checkbox" checked={instance.faceDimming} onChange={e => update({ faceDimming: e.target.checked })} />Face dimming</label>
+                                    <label className="flex items-center gap-1 text-xs text-[var(--text-tertiary)]"><input type="checkbox" checked={instance.ambientOcclusion} onChange={e => update({ ambientOcclusion: e.target.checked })} />Ambient occlusion</label>
+                                    {materialInstances.length > 1 && <RemoveButton onClick={() => setMaterialInstances(prev => prev.filter((_, i) => i !== index))} />}
+                                </div>
+                            );
+                        })}
+                        <datalist id="block-face-keys">
+                            {FACE_KEYS.map(key => <option key={key} value={key} />)}
+                        </datalist>
+                        <AddButton label="Add material instance" onClick={() => setMaterialInstances(prev => [...prev, newMaterialInstance(FACE_KEYS.find(key => !prev.some(m => m.key === key)) || '', textureNames[0] || '')])} />
+                    </div>
+                </div>
+            </Section>
+
+            <Section title="Behavior">
+                <div className="flex flex-col gap-3">
+                    <ToggleSwitch label="Destructible by Mining" checked={destructibleByMining} onChange={setDestructibleByMining} />
+                    {destructibleByMining && (
+                        <div className="p-2 bg-[var(--bg-input)] rounded-lg">
+                            <NumberField label="Time to Destroy (seconds)" value={secondsToDestroy} onChange={setSecondsToDestroy} min={0} step={0.1} />
+                        </div>
+                    )}
+                    <NumberField label="Light Emission (0-15)" value={lightEmission} onChange={setLightEmission} min={0} max={15} />
+                    <InputField label="Loot Table" value={loot} onChange={setLoot} placeholder="loot_tables/blocks/ruby_lamp.json" info="Leave empty to drop the block itself." />
+                </div>
+            </Section>
+
+            <Section title="States & Traits">
+                <div className="flex flex-col gap-3">
+                    {states.map((state, index) => (
+                        <StateEditor
+                            key={index}
+                            state={state}
+                            onChange={next => setStates(prev => prev.map((s, i) => (i === index ? next : s)))}
+                            onRemove={() => setStates(prev => prev.filter((_, i) => i !== index))}
+                        />
+                    ))}
+                    <AddButton label="Add state" onClick={() => setStates(prev => [...prev, { name: '', kind: 'boolean', min: 0, max: 3, values: [] }])} />
+                    <div className="flex flex-col gap-2 p-2 bg-[var(--bg-input)] rounded-lg">
+                        <span className="text-sm font-medium text-[var(--text-secondary)]">Placement Traits</span>
+                        <div className="flex flex-wrap gap-4">
+                            {PLACEMENT_DIRECTION_STATES.map(state => (
+                                <label key={state} className="flex items-center gap-1 text-xs font-mono text-[var(--text-secondary)]">
+                                    <input type="checkbox" checked={traits.placementDirection.includes(state)} onChange={() => toggleTrait('placementDirection', state)} />{state}
+                                </label>
+                            ))}
+                            {PLACEMENT_POSITION_STATES.map(state => (
+                                <label key={state} className="flex items-center gap-1 text-xs font-mono text-[var(--text-secondary)]">
+                                    <input type="checkbox" checked={traits.placementPosition.includes(state)} onChange={() => toggleTrait('placementPosition', state)} />{state}
+                                </label>
+                            ))}
+                        </div>
+                        {traits.placementDirection.length > 0 && (
+                            <SelectField
+                                label="Y Rotation Offset"
+                                value={String(traits.yRotationOffset)}
+                                onChange={value => setTraits(prev => ({ ...prev, yRotationOffset: parseInt(value, 10) }))}
+                                options={ROTATION_OPTIONS.map(r => ({ value: String(r), label: `${r}°` }))}
+                            />
+                        )}
+                    </div>
+                </div>
+            </Section>
+
+            <Section title="Permutations">
+                <div className="flex flex-col gap-3">
+                    <p className="text-xs text-[var(--text-tertiary)]">A permutation replaces components while its condition is true. Later permutations win when several match.</p>
+                    {permutations.map((permutation, index) => (
+                        <PermutationEditor
+                            key={index}
+                            index={index}
+                            permutation={permutation}
+                            definition={definition}
+                            textureNames={textureNames}
+                            onChange={next => setPermutations(prev => prev.map((p, i) => (i === index ? next : p)))}
+                            onRemove={() => setPermutations(prev => prev.filter((_, i) => i !== index))}
+                        />
+                    ))}
+                    <AddButton label="Add permutation" onClick={() => setPermutations(prev => [...prev, { clauses: [], joiner: '&&', customCondition: null, components: {} }])} />
+                </div>
+            </Section>
+
+            {errors.length > 0 && (
+                <ul className="list-disc pl-6 p-3 text-sm text-red-400 bg-[var(--bg-app)] border border-red-500/50 rounded-lg">
+                    {errors.map((error, i) => <li key={i}>{error}</li>)}
+                </ul>
+            )}
+
+             <button onClick={handleGenerate} className="w-full mt-4 flex justify-center items-center px-6 py-3 font-semibold rounded-lg text-white bg-[var(--accent-green)] hover:bg-[var(--accent-green-hover)]">
+                Generate Block
+            </button>
+        </div>
+    );
+};
+
+export default BlockCreator;
@@ -0,0 +1,151 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { CacheEntrySummary, CacheNamespace, CACHE_NAMESPACES, listCacheEntries, deleteCacheEntry, clearCache, getCacheBudget, setCacheBudget } from '../utils/caching';
+import { useNotification } from '../contexts/NotificationContext';
+
+const BUDGET_OPTIONS_MB = [10, 25, 50, 100, 250, 500];
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const CacheSettings: React.FC = () => {
+  const [entries, setEntries] = useState<CacheEntrySummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [budget, setBudget] = useState(getCacheBudget);
+  const [namespaceFilter, setNamespaceFilter] = useState<CacheNamespace | 'all'>('all');
+  const { addNotification } = useNotification();
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await listCacheEntries());
+    } catch (err) {
+      console.error('Failed to list cache entries', err);
+      addNotification('error', 'Could not read the response cache.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [addNotification]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleBudgetChange = async (bytes: number) => {
+    try {
+      await setCacheBudget(bytes);
+      setBudget(bytes);
+      await refresh();
+    } catch (err) {
+      addNotification('error', `Failed to change the cache size: ${(err as Error).message}`);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteCacheEntry(id);
+      await refresh();
+    } catch (err) {
+      addNotification('error', `Failed to delete cache entry: ${(err as Error).message}`);
+    }
+  };
+
+  const handleClear = async () => {
+    try {
+      await clearCache(namespaceFilter === 'all' ? undefined : namespaceFilter);
+      addNotification('success', namespaceFilter === 'all' ? 'Cache cleared.' : `Cleared ${CACHE_NAMESPACES[namespaceFilter].label.toLowerCase()} from the cache.`);
+      await refresh();
+    } catch (err) {
+      addNotification('error', `Failed to clear cache: ${(err as Error).message}`);
+    }
+  };
+
+  const totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+  const visibleEntries = namespaceFilter === 'all' ? entries : entries.filter(entry => entry.namespace === namespaceFilter);
+  const usage = Math.min(100, (totalSize / budget) * 100);
+  const buttonClass = "text-xs px-3 py-1.5 rounded-md bg-[var(--bg-input)] border border-[var(--border-primary)] hover:bg-[var(--bg-active)] transition-colors";
+
+  return (
+    <div className="flex flex-col gap-6 max-w-4xl mx-auto">
+      <div>
+        <h2 className="text-2xl font-bold text-[var(--text-primary)]">Settings</h2>
+        <p className="text-sm text-[var(--text-secondary)] mt-1">AI responses are cached in this browser so repeating a request is instant and free.</p>
+      </div>
+
+      <div className="p-4 bg-[var(--bg-app)] rounded-lg border border-[var(--border-primary)] flex flex-col gap-3">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h3 className="font-semibold text-[var(--text-primary)]">Response Cache</h3>
+          <label className="flex items-center gap-2 text-sm text-[var(--text-secondary)]">
+            Maximum size
+            <select
+              value={budget}
+              onChange={e => handleBudgetChange(Number(e.target.value))}
+              className="bg-[var(--bg-input)] border border-[var(--border-primary)] rounded-lg p-1.5 text-sm text-[var(--text-primary)] outline-none"
+            >
+              {!BUDGET_OPTIONS_MB.some(mb => mb * 1024 * 1024 === budget) && <option value={budget}>{formatBytes(budget)}</option>}
+              {BUDGET_OPTIONS_MB.map(mb => <option key={mb} value={mb * 1024 * 1024}>{mb} MB</option>)}
+            </select>
+          </label>
+        </div>
+        <div className="h-2 rounded-full bg-[var(--bg-input)] overflow-hidden">
+          <div className="h-full bg-[var(--accent-primary)]" style={{ width: `${usage}%` }} />
+        </div>
+        <p className="text-xs text-[var(--text-secondary)]">
+          {formatBytes(totalSize)} of {formatBytes(budget)} used by {entries.length} {entries.length === 1 ? 'entry' : 'entries'}. The least recently used entries are removed first when the cache is full.
+        </p>
+        <ul className="text-xs text-[var(--text-secondary)] grid grid-cols-2 gap-1">
+          {(Object.keys(CACHE_NAMESPACES) as CacheNamespace[]).map(namespace => (
+            <li key={namespace}>{CACHE_NAMESPACES[namespace].label}: kept for {Math.round(CACHE_NAMESPACES[namespace].ttlMs / (24 * 60 * 60 * 1000))} days</li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <select
+          value={namespaceFilter}
+          onChange={e => setNamespaceFilter(e.target.value as CacheNamespace | 'all')}
+          className="bg-[var(--bg-input)] border border-[var(--border-primary)] rounded-lg p-1.5 text-sm text-[var(--text-primary)] outline-none"
+        >
+          <option value="all">All entries</option>
+          {(Object.keys(CACHE_NAMESPACES) as CacheNamespace[]).map(namespace => (
+            <option key={namespace} value={namespace}>{CACHE_NAMESPACES[namespace].label}</option>
+          ))}
+        </select>
+        <button onClick={handleClear} disabled={visibleEntries.length === 0} className={`${buttonClass} text-red-400 disabled:opacity-40`}>
+          {namespaceFilter === 'all' ? 'Clear All' : 'Clear These'}
+        </button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-[var(--text-secondary)]">Loading cache...</p>
+      ) : visibleEntries.length === 0 ? (
+        <div className="text-center p-8 text-[var(--text-secondary)] bg-[var(--bg-app)] rounded-lg border border-[var(--border-primary)]">
+          <p className="font-bold text-[var(--text-primary)]">Nothing cached</p>
+          <p className="text-sm mt-2">Responses from the addon creator, fixer, combiner, summary, develop and building tools appear here.</p>
+        </div>
+      ) : (
+        <ul className="flex flex-col gap-2">
+          {visibleEntries.map(entry => (
+            <li key={entry.id} className="p-3 bg-[var(--bg-app)] rounded-lg border border-[var(--border-primary)] flex items-center gap-3">
+              <div className="flex-grow min-w-0">
+                <p className="text-sm text-[var(--text-primary)]">
+                  {CACHE_NAMESPACES[entry.namespace].label}
+                  <span className="ml-2 font-mono text-xs text-[var(--text-tertiary)]" title={entry.key}>{entry.key.slice(0, 12)}</span>
+                </p>
+                <p className="text-xs text-[var(--text-secondary)] mt-1">
+                  {formatBytes(entry.size)} · Last used {formatDate(entry.lastAccessedAt)} · Expires {formatDate(entry.expiresAt)}
+                </p>
+              </div>
+              <button onClick={() => handleDelete(entry.id)} className={`${buttonClass} text-red-400 flex-shrink-0`}>Delete</button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CacheSettings;
@@ -0,0 +1,221 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { GeneratedFile } from '../types';
+import { FileChange, FileChangeStatus, DiffHunk, DiffLine, compareFileSets, applyReview, rebaseReview } from '../utils/diff';
+import { useNotification } from '../contexts/NotificationContext';
+
+/**
+ * A set of AI-proposed files waiting to be reviewed against the files they would replace.
+ */
+export interface ChangeReviewRequest {
+  title: string;
+  baseFiles: GeneratedFile[];
+  proposedFiles: GeneratedFile[];
+  /** The base files are the open workspace, so edits made to it during the review must survive applying it. */
+  baseIsWorkspace?: boolean;
+  onApply: (files: GeneratedFile[]) => void;
+}
+
+interface ChangeReviewProps {
+  review: ChangeReviewRequest;
+  /** The workspace as it is now, which may have been edited since the review was made. */
+  currentFiles: GeneratedFile[];
+  onClose: () => void;
+}
+
+const STATUS_STYLES: { [key in FileChangeStatus]: { label: string; className: string } } = {
+  added: { label: 'A', className: 'text-green-400' },
+  removed: { label: 'D', className: 'text-red-400' },
+  modified: { label: 'M', className: 'text-[var(--accent-yellow)]' },
+  unchanged: { label: '=', className: 'text-[var(--text-tertiary)]' },
+};
+
+type Row = { left?: DiffLine; right?: DiffLine };
+
+// Pairs each run of removed lines with the run of added lines that follows it, so replacements line up side by side.
+const toRows = (lines: DiffLine[]): Row[] => {
+  const rows: Row[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type === 'equal') {
+      rows.push({ left: lines[i], right: lines[i] });
+      i++;
+      continue;
+    }
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (i < lines.length && lines[i].type === 'remove') removed.push(lines[i++]);
+    while (i < lines.length && lines[i].type === 'add') added.push(lines[i++]);
+    for (let r = 0; r < Math.max(removed.length, added.length); r++) {
+      rows.push({ left: removed[r], right: added[r] });
+    }
+  }
+  return rows;
+};
+
+const cellClass = (line: DiffLine | undefined) => {
+  if (!line) return 'bg-[var(--bg-panel-secondary)]';
+  if (line.type === 'remove') return 'bg-red-500/15';
+  if (line.type === 'add') return 'bg-green-500/15';
+  return '';
+};
+
+const HunkView: React.FC<{ hunk: DiffHunk; isAccepted: boolean; onToggle: () => void; label: string }> = ({ hunk, isAccepted, onToggle, label }) => (
+  <div className={`border rounded-md overflow-hidden ${isAccepted ? 'border-[var(--border-primary)]' : 'border-dashed border-[var(--border-primary)] opacity-60'}`}>
+    <div className="flex items-center justify-between px-3 py-1.5 bg-[var(--bg-panel-secondary)] text-xs">
+      <span className="font-mono text-[var(--text-secondary)] truncate">{label}</span>
+      <button
+        onClick={onToggle}
+        className={`px-2 py-0.5 rounded-md border border-[var(--border-primary)] ${isAccepted ? 'bg-[var(--accent-green)] text-white' : 'bg-[var(--bg-input)] hover:bg-[var(--bg-active)]'}`}
+      >
+        {isAccepted ? '✓ Accepted' : 'Rejected'}
+      </button>
+    </div>
+    <table className="w-full table-fixed font-mono text-xs">
+      <tbody>
+        {toRows(hunk.lines).map((row, index) => (
+          <tr key={index}>
+            <td className={`w-1/2 align-top px-2 whitespace-pre-wrap break-all border-r border-[var(--border-primary)] ${cellClass(row.left)}`}>{row.left?.text}</td>
+            <td className={`w-1/2 align-top px-2 whitespace-pre-wrap break-all ${cellClass(row.right)}`}>{row.right?.text}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const hunkLabel = (change: FileChange, hunk: DiffHunk, index: number) => {
+  if (hunk.pointer) return `${hunk.pointer} (${hunk.jsonEdit?.kind})`;
+  if (change.status === 'added') return 'New file';
+  if (change.status === 'removed') return 'Deleted file';
+  return `Change ${index + 1} of ${change.hunks.length}`;
+};
+
+const ChangeReview: React.FC<ChangeReviewProps> = ({ review, currentFiles, onClose }) => {
+  const { addNotification } = useNotification();
+  const changes = useMemo(() => compareFileSets(review.baseFiles, review.proposedFiles), [review]);
+  const [accepted, setAccepted] = useState(() => new Set(changes.flatMap(c => c.hunks.map(h => h.id))));
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [selectedPath, setSelectedPath] = useState<string | null>(() => changes.find(c => c.status !== 'unchanged')?.path || null);
+
+  // A new review replaces the previous one in place, so start it with everything accepted again.
+  useEffect(() => {
+    setAccepted(new Set(changes.flatMap(c => c.hunks.map(h => h.id))));
+    setSelectedPath(changes.find(c => c.status !== 'unchanged')?.path || null);
+  }, [changes]);
+
+  const counts = changes.reduce((acc, c) => ({ ...acc, [c.status]: acc[c.status] + 1 }), { added: 0, removed: 0, modified: 0, unchanged: 0 } as { [key in FileChangeStatus]: number });
+  const visibleChanges = changes.filter(c => showUnchanged || c.status !== 'unchanged');
+  const selectedChange = changes.find(c => c.path === selectedPath) || null;
+  const totalHunks = changes.reduce((sum, c) => sum + c.hunks.length, 0);
+
+  const setHunks = (hunks: DiffHunk[], isAccepted: boolean) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      hunks.forEach(h => (isAccepted ? next.add(h.id) : next.delete(h.id)));
+      return next;
+    });
+  };
+
+  const fileState = (change: FileChange) => {
+    const acceptedCount = change.hunks.filter(h => accepted.has(h.id)).length;
+    if (acceptedCount === 0) return 'none';
+    return acceptedCount === change.hunks.length ? 'all' : 'some';
+  };
+
+  const handleApply = () => {
+    const reviewed = applyReview(review.baseFiles, changes, accepted);
+    if (!review.baseIsWorkspace) {
+      review.onApply(reviewed);
+      onClose();
+      return;
+    }
+    const { files, conflicts } = rebaseReview(review.baseFiles, currentFiles, reviewed);
+    if (conflicts.length > 0) {
+      addNotification('error', `These files were edited after the review was made and the accepted changes would overwrite those edits: ${conflicts.join(', ')}. Reject the changes to them, or discard the review and ask again.`);
+      return;
+    }
+    review.onApply(files);
+    onClose();
+  };
+
+  const buttonClass = "text-xs px-3 py-1.5 rounded-md bg-[var(--bg-input)] border border-[var(--border-primary)] hover:bg-[var(--bg-active)]";
+
+  return (
+    <div className="flex flex-col h-full overflow-hidden bg-[var(--bg-app)]">
+      <div className="flex-shrink-0 flex flex-wrap items-center justify-between gap-3 p-3 border-b border-[var(--border-primary)]">
+        <div className="min-w-0">
+          <h2 className="font-bold text-[var(--text-primary)] truncate">Review Changes: {review.title}</h2>
+          <p className="text-xs text-[var(--text-secondary)]">
+            {counts.added} added · {counts.removed} removed · {counts.modified} modified · {counts.unchanged} unchanged · {accepted.size} of {totalHunks} changes accepted
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={() => setHunks(changes.flatMap(c => c.hunks), true)} className={buttonClass}>Accept All</button>
+          <button onClick={() => setHunks(changes.flatMap(c => c.hunks), false)} className={buttonClass}>Reject All</button>
+          <button onClick={onClose} className={buttonClass}>Discard</button>
+          <button onClick={handleApply} className="text-xs px-3 py-1.5 rounded-md font-semibold text-white bg-[var(--accent-green)] hover:bg-[var(--accent-green-hover)]">
+            Apply Accepted Changes
+          </button>
+        </div>
+      </div>
+      <div className="flex flex-grow overflow-hidden flex-col md:flex-row">
+        <div className="md:w-72 max-h-48 md:max-h-none flex-shrink-0 overflow-y-auto border-b md:border-b-0 md:border-r border-[var(--border-primary)] bg-[var(--bg-panel-secondary)] p-2">
+          <label className="flex items-center gap-2 text-xs text-[var(--text-secondary)] px-1 pb-2">
+            <input type="checkbox" checked={showUnchanged} onChange={e => setShowUnchanged(e.target.checked)} />
+            Show unchanged files
+          </label>
+          {visibleChanges.length === 0 && <p className="text-sm text-[var(--text-secondary)] p-2">No files changed.</p>}
+          <ul className="flex flex-col gap-0.5">
+            {visibleChanges.map(change => {
+              const style = STATUS_STYLES[change.status];
+              const state = fileState(change);
+              return (
+                <li key={change.path} className={`flex items-center gap-2 px-1 py-0.5 rounded-md ${selectedPath === change.path ? 'bg-[var(--bg-active)]' : 'hover:bg-[var(--bg-hover)]'}`}>
+                  <input
+                    type="checkbox"
+                    disabled={change.hunks.length === 0}
+                    checked={state !== 'none'}
+                    ref={el => { if (el) el.indeterminate = state === 'some'; }}
+                    onChange={e => setHunks(change.hunks, e.target.checked)}
+                    title="Accept or reject every change in this file"
+                  />
+                  <button onClick={() => setSelectedPath(change.path)} className="flex-grow min-w-0 flex items-center gap-2 text-left text-sm" title={change.path}>
+                    <span className={`font-mono font-bold ${style.className}`}>{style.label}</span>
+                    <span className="truncate text-[var(--text-primary)]">{change.path}</span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+        <div className="flex-grow overflow-y-auto p-3 flex flex-col gap-3">
+          {!selectedChange ? (
+            <p className="text-sm text-[var(--text-secondary)] m-auto">Select a file to see its changes.</p>
+          ) : selectedChange.hunks.length === 0 ? (
+            <p className="text-sm text-[var(--text-secondary)] m-auto">
+              {selectedChange.isStructural ? 'Only formatting changed. The current version is kept.' : 'This file is unchanged.'}
+            </p>
+          ) : (
+            <>
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-mono text-[var(--text-primary)]">{selectedChange.path}</span>
+                {selectedChange.isStructural && <span className="text-xs text-[var(--text-tertiary)]">Compared as JSON</span>}
+              </div>
+              {selectedChange.hunks.map((hunk, index) => (
+                <HunkView
+                  key={hunk.id}
+                  hunk={hunk}
+                  label={hunkLabel(selectedChange, hunk, index)}
+                  isAccepted={accepted.has(hunk.id)}
+                  onToggle={() => setHunks([hunk], !accepted.has(hunk.id))}
+                />
+              ))}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChangeReview;
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Chat } from '@google/genai';
 import { startMinecraftChat } from '../services/geminiService';
+import { AiChatSession } from '../services/aiProvider';
 import Markdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 
@@ -16,7 +16,7 @@ interface Message {
 }
 
 const Chatbot: React.FC = () => {
-  const [chat, setChat] = useState<Chat | null>(null);
+  const [chat, setChat] = useState<AiChatSession | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -42,16 +42,7 @@ const Chatbot: React.FC = () => {
     setIsLoading(true);
 
     try {
-      const response = await chat.sendMessage({ message: input });
-      const text = response.text;
-      const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-      const sources: Source[] = groundingChunks
-        .filter((chunk: any) => chunk.web)
-        .map((chunk: any) => ({
-            uri: chunk.web.uri,
-            title: chunk.web.title || chunk.web.uri,
-        }));
-
+      const { text, sources } = await chat.sendMessage(input);
       const modelMessage: Message = { role: 'model', text, sources };
       setMessages(prev => [...prev, modelMessage]);
     } catch (error) {
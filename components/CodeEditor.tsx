@@ -1,6 +1,8 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { GeneratedFile } from '../types';
-import SyntaxHighlighter from './SyntaxHighlighter';
+import SyntaxHighlighter, { HighlightLanguage } from './SyntaxHighlighter';
+import CommandDiagnosticsList from './CommandDiagnosticsList';
+import { CommandDiagnostic, lintFunction } from '../utils/commands';
 
 interface CodeEditorProps {
     file: GeneratedFile;
@@ -27,33 +29,54 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ file, onContentChange }) => {
             preRef.current.scrollLeft = textareaRef.current.scrollLeft;
         }
     };
-    
-    const getLanguage = (path: string): 'js' | 'json' | 'text' => {
+
+    const getLanguage = (path: string): HighlightLanguage => {
         if (path.endsWith('.js')) return 'js';
         if (path.endsWith('.json')) return 'json';
+        if (path.endsWith('.mcfunction')) return 'mcfunction';
         return 'text';
     };
 
+    const language = getLanguage(file.path);
+    const diagnostics = useMemo(() => (language === 'mcfunction' ? lintFunction(content) : []), [content, language]);
+
+    const selectDiagnostic = (diagnostic: CommandDiagnostic) => {
+        const textarea = textareaRef.current;
+        if (!textarea) return;
+        const lineStart = content.split('\n').slice(0, diagnostic.line - 1).reduce((sum, line) => sum + line.length + 1, 0);
+        textarea.focus();
+        textarea.setSelectionRange(lineStart + diagnostic.start, lineStart + Math.max(diagnostic.start, diagnostic.end));
+    };
+
     return (
-        <div className="relative h-full w-full font-mono text-sm">
-            <textarea
-                ref={textareaRef}
-                value={content}
-                onChange={handleContentChange}
-                onScroll={handleScroll}
-                className="absolute inset-0 z-10 w-full h-full p-4 bg-transparent text-transparent caret-white resize-none border-0 outline-none overflow-auto"
-                spellCheck="false"
-                autoCapitalize="off"
-                autoComplete="off"
-                autoCorrect="off"
-            />
-            <pre
-                ref={preRef}
-                className="absolute inset-0 w-full h-full m-0 p-4 bg-[var(--editor-bg)] pointer-events-none overflow-auto"
-                aria-hidden="true"
-            >
-                <SyntaxHighlighter code={content} language={getLanguage(file.path)} />
-            </pre>
+        <div className="flex flex-col h-full w-full font-mono text-sm">
+            <div className="relative flex-grow">
+                <textarea
+                    ref={textareaRef}
+                    value={content}
+                    onChange={handleContentChange}
+                    onScroll={handleScroll}
+                    className="absolute inset-0 z-10 w-full h-full p-4 bg-transparent text-transparent caret-white resize-none border-0 outline-none overflow-auto"
+                    spellCheck="false"
+                    autoCapitalize="off"
+                    autoComplete="off"
+                    autoCorrect="off"
+                />
+                <pre
+                    ref={preRef}
+                    className="absolute inset-0 w-full h-full m-0 p-4 bg-[var(--editor-bg)] pointer-events-none overflow-auto"
+                    aria-hidden="true"
+                >
+                    <SyntaxHighlighter code={content} language={language} diagnostics={diagnostics} />
+                </pre>
+            </div>
+            {diagnostics.length > 0 && (
+                <CommandDiagnosticsList
+                    diagnostics={diagnostics}
+                    onSelect={selectDiagnostic}
+                    className="flex-shrink-0 max-h-28 overflow-y-auto px-3 py-1.5 border-t border-[var(--border-primary)] bg-[var(--bg-panel-secondary)]"
+                />
+            )}
         </div>
     );
 };
@@ -0,0 +1,41 @@
+import React from 'react';
+import { CommandDiagnostic } from '../utils/commands';
+
+interface CommandDiagnosticsListProps {
+  diagnostics: CommandDiagnostic[];
+  onSelect?: (diagnostic: CommandDiagnostic) => void;
+  className?: string;
+}
+
+const SEVERITY_STYLES: { [key in CommandDiagnostic['severity']]: { icon: string; color: string } } = {
+  error: { icon: '⛔', color: 'var(--notification-error-text)' },
+  warning: { icon: '⚠️', color: 'var(--accent-yellow)' },
+};
+
+/** Per-line problems in a function or command, listed under the code they belong to. */
+const CommandDiagnosticsList: React.FC<CommandDiagnosticsListProps> = ({ diagnostics, onSelect, className = '' }) => {
+  if (diagnostics.length === 0) return null;
+
+  return (
+    <ul className={`flex flex-col gap-0.5 text-xs font-mono ${className}`}>
+      {diagnostics.map((diagnostic, index) => {
+        const style = SEVERITY_STYLES[diagnostic.severity];
+        return (
+          <li key={`${diagnostic.line}-${diagnostic.start}-${index}`}>
+            <button
+              onClick={() => onSelect?.(diagnostic)}
+              disabled={!onSelect}
+              className="flex items-start gap-2 w-full text-left px-1 rounded enabled:hover:bg-[var(--bg-hover)]"
+            >
+              <span className="flex-shrink-0" title={diagnostic.severity}>{style.icon}</span>
+              <span className="flex-shrink-0 text-[var(--text-tertiary)]">Ln {diagnostic.line}, Col {diagnostic.start + 1}</span>
+              <span style={{ color: style.color }}>{diagnostic.message}</span>
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default CommandDiagnosticsList;
@@ -1,9 +1,11 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Chat } from '@google/genai';
 import { startCommandChat } from '../services/geminiService';
+import { AiChatSession } from '../services/aiProvider';
 import Markdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { useNotification } from '../contexts/NotificationContext';
+import { lintFunction } from '../utils/commands';
+import CommandDiagnosticsList from './CommandDiagnosticsList';
 
 interface Message {
   role: 'user' | 'model';
@@ -11,7 +13,7 @@ interface Message {
 }
 
 const CommandHelper: React.FC = () => {
-  const [chat, setChat] = useState<Chat | null>(null);
+  const [chat, setChat] = useState<AiChatSession | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -38,7 +40,7 @@ const CommandHelper: React.FC = () => {
     setIsLoading(true);
 
     try {
-      const response = await chat.sendMessage({ message: input });
+      const response = await chat.sendMessage(input);
       const modelMessage: Message = { role: 'model', text: response.text };
       setMessages(prev => [...prev, modelMessage]);
     } catch (error) {
@@ -68,6 +70,8 @@ const CommandHelper: React.FC = () => {
     }
     
     const lang = match ? match[1] : 'text';
+    // Answers are checked against the command grammar, since the model sometimes mixes in Java syntax.
+    const diagnostics = lang === 'mcbe' || lang === 'mcfunction' ? lintFunction(code) : [];
 
     return (
         <div className="bg-[var(--bg-input)] rounded-lg my-2 border border-[var(--border-primary)] overflow-hidden">
@@ -92,6 +96,7 @@ const CommandHelper: React.FC = () => {
                     {children}
                 </code>
             </pre>
+            <CommandDiagnosticsList diagnostics={diagnostics} className="px-4 pb-2" />
         </div>
     );
   };
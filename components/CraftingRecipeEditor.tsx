@@ -1,8 +1,11 @@
-import React, { useState } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import { useNotification } from '../contexts/NotificationContext';
 import { GeneratedFile } from '../types';
-
-type RecipeType = 'shaped' | 'shapeless' | 'furnace';
+import ItemSelector from './ItemSelector';
+import {
+    RecipeDefinition, RecipeIngredient, RecipeResult, RecipeType, RecipeUnlock,
+    RECIPE_TYPES, COMMON_ITEM_TAGS, UNLOCK_CONTEXTS, hasResult, hasUnlock, createIngredient, createRecipe, buildRecipe, parseRecipe, validateRecipe,
+} from '../utils/recipes';
 
 const CodeBlock: React.FC<{ file: GeneratedFile; onClear: () => void }> = ({ file, onClear }) => {
     const [copied, setCopied] = useState(false);
@@ -44,198 +47,254 @@ const CodeBlock: React.FC<{ file: GeneratedFile; onClear: () => void }> = ({ fil
     );
 };
 
-const ItemSlot: React.FC<{ value: string, onChange: (val: string) => void, placeholder?: string, large?: boolean }> = ({ value, onChange, placeholder, large }) => (
-    <input 
-        type="text" 
-        value={value}
-        onChange={e => onChange(e.target.value)}
-        placeholder={placeholder}
-        className={`bg-[var(--bg-input)] rounded border border-[var(--border-primary)] text-center text-[var(--text-secondary)] placeholder:text-opacity-50 text-xs truncate ${large ? 'w-20 h-20 p-2' : 'w-16 h-16 p-1'}`}
-    />
+
+const smallInputClass = "bg-[var(--bg-input)] p-1.5 rounded text-xs border border-transparent focus:border-[var(--accent-primary)] focus:ring-1 focus:ring-[var(--accent-primary)] outline-none";
+
+const RemoveButton: React.FC<{ onClick: () => void }> = ({ onClick }) => (
+    <button onClick={onClick} className="p-2 text-red-500 rounded hover:bg-red-500/10 flex-shrink-0">
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM7 9a1 1 0 000 2h6a1 1 0 100-2H7z" clipRule="evenodd" /></svg>
+    </button>
 );
 
-const CraftingRecipeEditor: React.FC = () => {
-    const [recipeType, setRecipeType] = useState<RecipeType>('shaped');
-    const [identifier, setIdentifier] = useState('custom:my_recipe');
-    const [tags, setTags] = useState('crafting_table');
-    
-    // Shaped
-    const [pattern, setPattern] = useState(Array(9).fill(''));
-    const [keys, setKeys] = useState<{key: string, item: string}[]>([]);
+const TagInput: React.FC<{ value: string; onChange: (value: string) => void }> = ({ value, onChange }) => (
+    <input type="text" list="recipe-item-tags" value={value} onChange={e => onChange(e.target.value)} placeholder="minecraft:planks" className={`w-full ${smallInputClass}`} />
+);
 
-    // Shapeless
-    const [ingredients, setIngredients] = useState<string[]>(['']);
+/** An item or item tag picker, with an optional data value and count. */
+const IngredientInput: React.FC<{ ingredient: RecipeIngredient; onChange: (ingredient: RecipeIngredient) => void; showCount?: boolean }> = ({ ingredient, onChange, showCount }) => (
+    <div className="flex items-center gap-2 w-full">
+        <select value={ingredient.kind} onChange={e => onChange({ ...ingredient, kind: e.target.value as RecipeIngredient['kind'], value: '', data: null })} className={smallInputClass}>
+            <option value="item">Item</option>
+            <option value="tag">Tag</option>
+        </select>
+        {ingredient.kind === 'item'
+            ? <ItemSelector value={ingredient.value} onChange={value => onChange({ ...ingredient, value })} />
+            : <TagInput value={ingredient.value} onChange={value => onChange({ ...ingredient, value })} />}
+        {ingredient.kind === 'item' && (
+            <input type="number" min="0" title="Data value" placeholder="data" value={ingredient.data ?? ''} onChange={e => onChange({ ...ingredient, data: e.target.value === '' ? null : parseInt(e.target.value) })} className={`w-16 text-center ${smallInputClass}`} />
+        )}
+        {showCount && (
+            <input type="number" min="1" title="Count" value={ingredient.count} onChange={e => onChange({ ...ingredient, count: parseInt(e.target.value) || 1 })} className={`w-14 text-center ${smallInputClass}`} />
+        )}
+    </div>
+);
 
-    // Furnace
-    const [furnaceInput, setFurnaceInput] = useState('');
-    
-    // Result
-    const [resultItem, setResultItem] = useState('');
-    const [resultCount, setResultCount] = useState(1);
-    
+const SlotLabel: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+    <div className="flex flex-col gap-1">
+        <span className="text-sm font-semibold text-[var(--text-secondary)]">{label}</span>
+        {children}
+    </div>
+);
+
+const CraftingRecipeEditor: React.FC = () => {
+    const [recipe, setRecipe] = useState<RecipeDefinition>(createRecipe);
+    const [tagsText, setTagsText] = useState(recipe.tags.join(', '));
     const [generatedFile, setGeneratedFile] = useState<GeneratedFile | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
     const { addNotification } = useNotification();
 
-    const addKey = () => setKeys([...keys, { key: '', item: '' }]);
-    const removeKey = (index: number) => setKeys(keys.filter((_, i) => i !== index));
-    const updateKey = (index: number, field: 'key' | 'item', value: string) => {
-        const newKeys = [...keys];
-        newKeys[index][field] = value;
-        setKeys(newKeys);
-    };
+    const errors = useMemo(() => validateRecipe(recipe), [recipe]);
+    const update = (changes: Partial<RecipeDefinition>) => setRecipe({ ...recipe, ...changes });
 
-    const addIngredient = () => setIngredients([...ingredients, '']);
-    const removeIngredient = (index: number) => setIngredients(ingredients.filter((_, i) => i !== index));
-    const updateIngredient = (index: number, value: string) => {
-        const newIngredients = [...ingredients];
-        newIngredients[index] = value;
-        setIngredients(newIngredients);
+    const setType = (type: RecipeType) => {
+        // Swap the station tags too, unless they've been customized.
+        const previousTags = RECIPE_TYPES.find(t => t.type === recipe.type)!.tags;
+        const tags = recipe.tags.join() === previousTags.join() ? RECIPE_TYPES.find(t => t.type === type)!.tags : recipe.tags;
+        update({ type, tags, results: type === 'shaped' ? recipe.results : recipe.results.slice(0, 1) });
+        setTagsText(tags.join(', '));
     };
 
-    const handleGenerate = () => {
-        if (!resultItem) {
-            addNotification('error', 'Result item cannot be empty.');
-            return;
-        }
-
-        const recipe: any = {
-            format_version: "1.12.0",
-        };
-        
-        const result = {
-            item: resultItem,
-            count: resultCount
-        };
+    const updateTags = (text: string) => {
+        setTagsText(text);
+        update({ tags: text.split(',').map(t => t.trim()).filter(Boolean) });
+    };
 
-        const tagsArray = tags.split(',').map(t => t.trim()).filter(Boolean);
+    const updateResult = (index: number, changes: Partial<RecipeResult>) => update({ results: recipe.results.map((r, i) => i === index ? { ...r, ...changes } : r) });
+    const updateUnlock = (index: number, changes: Partial<RecipeUnlock>) => update({ unlock: recipe.unlock.map((u, i) => i === index ? { ...u, ...changes } : u) });
 
-        switch(recipeType) {
-            case 'shaped':
-                // Filter out empty rows from the pattern
-                const p = pattern.map(char => char || ' ');
-                const patternRows = [
-                    p.slice(0, 3).join(''),
-                    p.slice(3, 6).join(''),
-                    p.slice(6, 9).join(''),
-                ];
-                const finalPattern = patternRows.filter(row => row.trim() !== '');
-                if (finalPattern.length === 0) {
-                    addNotification('error', 'Shaped recipe pattern cannot be empty.');
-                    return;
-                }
-                
-                recipe["minecraft:recipe_shaped"] = {
-                    description: { identifier },
-                    tags: tagsArray,
-                    pattern: finalPattern,
-                    key: keys.reduce((acc, key) => ({...acc, [key.key]: {item: key.item}}), {}),
-                    result: result
-                };
-                break;
-            case 'shapeless':
-                 const validIngredients = ingredients.map(item => ({item})).filter(ing => ing.item.trim() !== '');
-                 if (validIngredients.length === 0) {
-                     addNotification('error', 'Shapeless recipe must have at least one ingredient.');
-                     return;
-                 }
-                recipe["minecraft:recipe_shapeless"] = {
-                    description: { identifier },
-                    tags: tagsArray,
-                    ingredients: validIngredients,
-                    result: result
-                };
-                break;
-            case 'furnace':
-                if (!furnaceInput) {
-                    addNotification('error', 'Furnace input cannot be empty.');
-                    return;
-                }
-                recipe["minecraft:recipe_furnace"] = {
-                    description: { identifier },
-                    tags: tagsArray,
-                    input: furnaceInput,
-                    output: resultItem
-                };
-                break;
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const imported = parseRecipe(await file.text());
+            setRecipe(imported);
+            setTagsText(imported.tags.join(', '));
+            setGeneratedFile(null);
+            addNotification('success', `Imported ${imported.identifier}.`);
+        } catch (err) {
+            addNotification('error', `Couldn't import ${file.name}: ${(err as Error).message}`);
         }
+    };
 
-        const fileName = (resultItem.split(':')[1] || identifier.split(':')[1] || "recipe") + ".json";
+    const handleGenerate = () => {
+        if (errors.length > 0) {
+            addNotification('error', 'Please fix the problems listed above the Generate button.');
+            return;
+        }
+        const fileName = (recipe.identifier.split(':')[1] || "recipe").replace(/\//g, '_') + ".json";
         setGeneratedFile({
             path: `recipes/${fileName}`,
-            content: JSON.stringify(recipe)
+            content: JSON.stringify(buildRecipe(recipe), null, 2)
         });
         addNotification('success', 'Recipe JSON generated!');
     };
 
     const renderForm = () => {
-        switch (recipeType) {
+        switch (recipe.type) {
             case 'shaped':
                 return (
                     <div className="flex flex-col lg:flex-row gap-6">
-                         <div className="flex-shrink-0 grid grid-cols-3 gap-2 p-2 bg-[var(--bg-app)] border border-[var(--border-primary)] rounded-lg w-fit">
-                           {pattern.map((p, i) => <input key={i} type="text" value={p} onChange={e => { const newPattern = [...pattern]; newPattern[i] = e.target.value.slice(0,1); setPattern(newPattern);}} maxLength={1} className="w-16 h-16 text-center bg-[var(--bg-input)] rounded border border-[var(--border-primary)]"/>)}
+                         <div className="flex-shrink-0 grid grid-cols-3 gap-2 p-2 bg-[var(--bg-app)] border border-[var(--border-primary)] rounded-lg w-fit h-fit">
+                           {recipe.pattern.map((p, i) => <input key={i} type="text" value={p} onChange={e => update({ pattern: recipe.pattern.map((ch, pi) => pi === i ? e.target.value.slice(0, 1) : ch) })} maxLength={1} className="w-16 h-16 text-center bg-[var(--bg-input)] rounded border border-[var(--border-primary)]"/>)}
                         </div>
                         <div className="flex flex-col gap-2 flex-grow">
-                           {keys.map((k, i) => (
+                           {recipe.keys.map((k, i) => (
                                <div key={i} className="flex items-center gap-2">
-                                   <input type="text" placeholder="Key" value={k.key} onChange={e => updateKey(i, 'key', e.target.value.slice(0,1))} maxLength={1} className="w-12 text-center bg-[var(--bg-input)] rounded border p-2 border-[var(--border-primary)]"/>
-                                   <input type="text" placeholder="Item ID (e.g., minecraft:stick)" value={k.item} onChange={e => updateKey(i, 'item', e.target.value)} className="w-full bg-[var(--bg-input)] rounded border p-2 border-[var(--border-primary)] text-sm"/>
-                                   <button onClick={() => removeKey(i)} className="p-2 text-red-500 rounded hover:bg-red-500/10 flex-shrink-0">
-                                     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM7 9a1 1 0 000 2h6a1 1 0 100-2H7z" clipRule="evenodd" /></svg>
-                                   </button>
+                                   <input type="text" placeholder="Key" value={k.key} onChange={e => update({ keys: recipe.keys.map((key, ki) => ki === i ? { ...key, key: e.target.value.slice(0, 1) } : key) })} maxLength={1} className="w-12 text-center bg-[var(--bg-input)] rounded border p-2 border-[var(--border-primary)]"/>
+                                   <IngredientInput ingredient={k.ingredient} onChange={ingredient => update({ keys: recipe.keys.map((key, ki) => ki === i ? { ...key, ingredient } : key) })} />
+                                   <RemoveButton onClick={() => update({ keys: recipe.keys.filter((_, ki) => ki !== i) })} />
                                </div>
                            ))}
-                           <button onClick={addKey} className="text-sm text-[var(--accent-primary)] hover:underline text-left mt-2">+ Add Key</button>
+                           <button onClick={() => update({ keys: [...recipe.keys, { key: '', ingredient: createIngredient() }] })} className="text-sm text-[var(--accent-primary)] hover:underline text-left mt-2">+ Add Key</button>
                         </div>
                     </div>
                 );
             case 'shapeless':
                 return (
-                     <div className="grid grid-cols-3 gap-2 p-2 bg-[var(--bg-app)] border border-[var(--border-primary)] rounded-lg w-fit">
-                        {ingredients.map((ing, i) => (
-                             <ItemSlot key={i} value={ing} onChange={v => updateIngredient(i, v)} placeholder="Item ID"/>
+                    <div className="flex flex-col gap-2">
+                        <div className="flex gap-2 text-xs text-[var(--text-secondary)] px-1">
+                            <div className="flex-grow">Ingredient</div>
+                            <div className="w-14 text-center mr-11">Count</div>
+                        </div>
+                        {recipe.ingredients.map((ingredient, i) => (
+                            <div key={i} className="flex items-center gap-2">
+                                <IngredientInput ingredient={ingredient} showCount onChange={updated => update({ ingredients: recipe.ingredients.map((ing, ii) => ii === i ? updated : ing) })} />
+                                <RemoveButton onClick={() => update({ ingredients: recipe.ingredients.filter((_, ii) => ii !== i) })} />
+                            </div>
                         ))}
-                        <button onClick={addIngredient} className="w-16 h-16 flex items-center justify-center bg-[var(--bg-input)] rounded border-2 border-dashed border-[var(--border-primary)] text-[var(--text-secondary)] hover:border-[var(--accent-primary)] hover:text-[var(--accent-primary)]">+</button>
+                        <button onClick={() => update({ ingredients: [...recipe.ingredients, createIngredient()] })} className="text-sm text-[var(--accent-primary)] hover:underline text-left mt-2">+ Add Ingredient</button>
                     </div>
                 );
             case 'furnace':
                 return (
                     <div className="flex items-center justify-center gap-4 p-4">
-                        <ItemSlot value={furnaceInput} onChange={setFurnaceInput} placeholder="Input" large/>
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 text-orange-400" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M12.293 5.293a1 1 0 011.414 0l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414-1.414L14.586 11H3a1 1 0 110-2h11.586l-2.293-2.293a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
-                        <ItemSlot value={resultItem} onChange={setResultItem} placeholder="Output" large />
+                        <SlotLabel label="Input"><IngredientInput ingredient={recipe.input} onChange={input => update({ input })} /></SlotLabel>
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 flex-shrink-0 text-orange-400 mt-6" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M12.293 5.293a1 1 0 011.414 0l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414-1.414L14.586 11H3a1 1 0 110-2h11.586l-2.293-2.293a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
+                        <SlotLabel label="Output"><ItemSelector value={recipe.results[0]?.item ?? ''} onChange={item => updateResult(0, { item })} /></SlotLabel>
+                    </div>
+                );
+            case 'smithing_transform':
+            case 'smithing_trim':
+                return (
+                    <div className="flex flex-col gap-4">
+                        <SlotLabel label="Template"><IngredientInput ingredient={recipe.template} onChange={template => update({ template })} /></SlotLabel>
+                        <SlotLabel label="Base"><IngredientInput ingredient={recipe.input} onChange={input => update({ input })} /></SlotLabel>
+                        <SlotLabel label="Addition"><IngredientInput ingredient={recipe.addition} onChange={addition => update({ addition })} /></SlotLabel>
+                        {recipe.type === 'smithing_trim' && <p className="text-xs text-[var(--text-tertiary)]">Trim recipes usually take tags: minecraft:trim_templates, minecraft:trimmable_armors and minecraft:trim_materials.</p>}
+                    </div>
+                );
+            case 'brewing_mix':
+            case 'brewing_container':
+                return (
+                    <div className="flex flex-col gap-4">
+                        <SlotLabel label="Input">
+                            {recipe.type === 'brewing_mix'
+                                ? <input type="text" value={recipe.brewing.input} placeholder="minecraft:potion_type:awkward" onChange={e => update({ brewing: { ...recipe.brewing, input: e.target.value } })} className={smallInputClass} />
+                                : <ItemSelector value={recipe.brewing.input} placeholder="minecraft:potion" onChange={input => update({ brewing: { ...recipe.brewing, input } })} />}
+                        </SlotLabel>
+                        <SlotLabel label="Reagent"><ItemSelector value={recipe.brewing.reagent} onChange={reagent => update({ brewing: { ...recipe.brewing, reagent } })} /></SlotLabel>
+                        <SlotLabel label="Output">
+                            {recipe.type === 'brewing_mix'
+                                ? <input type="text" value={recipe.brewing.output} placeholder="minecraft:potion_type:strength" onChange={e => update({ brewing: { ...recipe.brewing, output: e.target.value } })} className={smallInputClass} />
+                                : <ItemSelector value={recipe.brewing.output} placeholder="minecraft:splash_potion" onChange={output => update({ brewing: { ...recipe.brewing, output } })} />}
+                        </SlotLabel>
+                        <p className="text-xs text-[var(--text-tertiary)]">
+                            {recipe.type === 'brewing_mix' ? 'Mix recipes turn one potion type into another.' : 'Container recipes turn one kind of potion container into another, keeping the potion type.'}
+                        </p>
                     </div>
                 );
         }
     };
-    
+
     return (
-        <div className="flex flex-col gap-6 max-w-4xl mx-auto">
-            <h2 className="text-2xl font-bold text-[var(--text-primary)]">Crafting Recipe Editor</h2>
+        <div className="flex flex-col gap-6 max-w-5xl mx-auto">
+            <datalist id="recipe-item-tags">
+                {COMMON_ITEM_TAGS.map(tag => <option key={tag} value={tag} />)}
+            </datalist>
+            <div className="flex items-center justify-between">
+                <h2 className="text-2xl font-bold text-[var(--text-primary)]">Crafting Recipe Editor</h2>
+                <button onClick={() => importInputRef.current?.click()} className="px-3 py-1.5 text-sm font-semibold rounded-lg bg-[var(--bg-input)] hover:bg-[var(--bg-hover)]">Import Recipe</button>
+                <input ref={importInputRef} type="file" accept=".json" onChange={handleImport} className="hidden" />
+            </div>
             <div className="flex flex-col lg:flex-row gap-6">
                 {/* Left Panel */}
                 <div className="lg:w-1/3 flex flex-col gap-4">
-                     <div className="flex bg-[var(--bg-input)] p-1 rounded-lg border border-[var(--border-primary)]">
-                        {(['shaped', 'shapeless', 'furnace'] as RecipeType[]).map(type => (
-                            <button key={type} onClick={() => setRecipeType(type)} className={`w-full py-2 text-sm font-semibold rounded-md transition-colors capitalize ${recipeType === type ? 'bg-[var(--bg-active)] text-[var(--text-primary)]' : 'text-[var(--text-secondary)] hover:bg-[var(--bg-hover)]'}`}>{type}</button>
+                     <div className="grid grid-cols-2 gap-1 bg-[var(--bg-input)] p-1 rounded-lg border border-[var(--border-primary)]">
+                        {RECIPE_TYPES.map(({ type, label }) => (
+                            <button key={type} onClick={() => setType(type)} className={`w-full py-2 text-sm font-semibold rounded-md transition-colors ${recipe.type === type ? 'bg-[var(--bg-active)] text-[var(--text-primary)]' : 'text-[var(--text-secondary)] hover:bg-[var(--bg-hover)]'}`}>{label}</button>
                         ))}
                     </div>
-                    <input type="text" placeholder="Identifier (e.g., custom:my_recipe)" value={identifier} onChange={e => setIdentifier(e.target.value)} className="w-full bg-[var(--bg-input)] rounded border p-2.5 border-[var(--border-primary)]"/>
-                    <input type="text" placeholder="Tags (e.g., crafting_table)" value={tags} onChange={e => setTags(e.target.value)} className="w-full bg-[var(--bg-input)] rounded border p-2.5 border-[var(--border-primary)]"/>
-                    
-                    <div className="border-t border-[var(--border-primary)] my-2"></div>
-
-                    <h3 className="font-bold text-lg">Result</h3>
-                    <div className="flex gap-2">
-                        <input type="text" placeholder="Result Item ID" value={resultItem} onChange={e => setResultItem(e.target.value)} className="w-full bg-[var(--bg-input)] rounded border p-2.5 border-[var(--border-primary)]"/>
-                        {recipeType !== 'furnace' && <input type="number" value={resultCount} onChange={e => setResultCount(parseInt(e.target.value) || 1)} min="1" className="w-24 bg-[var(--bg-input)] rounded border p-2.5 border-[var(--border-primary)]"/>}
-                    </div>
+                    <input type="text" placeholder="Identifier (e.g., custom:my_recipe)" value={recipe.identifier} onChange={e => update({ identifier: e.target.value })} className="w-full bg-[var(--bg-input)] rounded border p-2.5 border-[var(--border-primary)]"/>
+                    <input type="text" placeholder="Tags (e.g., crafting_table)" value={tagsText} onChange={e => updateTags(e.target.value)} className="w-full bg-[var(--bg-input)] rounded border p-2.5 border-[var(--border-primary)]"/>
+
+                    {hasResult(recipe.type) && recipe.type !== 'furnace' && (
+                        <>
+                            <div className="border-t border-[var(--border-primary)] my-2"></div>
+                            <h3 className="font-bold text-lg">{recipe.results.length > 1 ? 'Results' : 'Result'}</h3>
+                            {recipe.results.map((result, i) => (
+                                <div key={i} className="flex gap-2 items-center">
+                                    <ItemSelector value={result.item} onChange={item => updateResult(i, { item })} />
+                                    {(recipe.type === 'shaped' || recipe.type === 'shapeless') && (
+                                        <>
+                                            <input type="number" value={result.count} onChange={e => updateResult(i, { count: parseInt(e.target.value) || 1 })} min="1" max="64" title="Count" className={`w-14 text-center ${smallInputClass}`}/>
+                                            <input type="number" value={result.data ?? ''} onChange={e => updateResult(i, { data: e.target.value === '' ? null : parseInt(e.target.value) })} min="0" title="Data value" placeholder="data" className={`w-14 text-center ${smallInputClass}`}/>
+                                        </>
+                                    )}
+                                    {recipe.results.length > 1 && <RemoveButton onClick={() => update({ results: recipe.results.filter((_, ri) => ri !== i) })} />}
+                                </div>
+                            ))}
+                            {recipe.type === 'shaped' && <button onClick={() => update({ results: [...recipe.results, { item: '', count: 1, data: null }] })} className="text-sm text-[var(--accent-primary)] hover:underline text-left">+ Add Result</button>}
+                        </>
+                    )}
+
+                    {hasUnlock(recipe.type) && (
+                        <>
+                            <div className="border-t border-[var(--border-primary)] my-2"></div>
+                            <h3 className="font-bold text-lg">Unlock</h3>
+                            <p className="text-xs text-[var(--text-tertiary)] -mt-2">The recipe appears in the recipe book once the player has one of these.</p>
+                            {recipe.unlock.map((unlock, i) => (
+                                <div key={i} className="flex gap-2 items-center">
+                                    <select value={unlock.kind} onChange={e => updateUnlock(i, { kind: e.target.value as RecipeUnlock['kind'], value: e.target.value === 'context' ? UNLOCK_CONTEXTS[0] : '' })} className={smallInputClass}>
+                                        <option value="item">Item</option>
+                                        <option value="tag">Tag</option>
+                                        <option value="context">Context</option>
+                                    </select>
+                                    {unlock.kind === 'item' && <ItemSelector value={unlock.value} onChange={value => updateUnlock(i, { value })} />}
+                                    {unlock.kind === 'tag' && <TagInput value={unlock.value} onChange={value => updateUnlock(i, { value })} />}
+                                    {unlock.kind === 'context' && (
+                                        <select value={unlock.value} onChange={e => updateUnlock(i, { value: e.target.value })} className={`w-full ${smallInputClass}`}>
+                                            {UNLOCK_CONTEXTS.map(context => <option key={context} value={context}>{context}</option>)}
+                                        </select>
+                                    )}
+                                    <RemoveButton onClick={() => update({ unlock: recipe.unlock.filter((_, ui) => ui !== i) })} />
+                                </div>
+                            ))}
+                            <button onClick={() => update({ unlock: [...recipe.unlock, { kind: 'item', value: '' }] })} className="text-sm text-[var(--accent-primary)] hover:underline text-left">+ Add Unlock Condition</button>
+                        </>
+                    )}
+
+                    {errors.length > 0 && (
+                        <ul className="list-disc pl-6 p-3 text-sm text-red-400 bg-[var(--bg-app)] border border-red-500/50 rounded-lg">
+                            {errors.map((error, i) => <li key={i}>{error}</li>)}
+                        </ul>
+                    )}
                     <button onClick={handleGenerate} className="w-full flex justify-center items-center px-6 py-3 font-semibold rounded-lg text-white bg-[var(--accent-primary)] hover:bg-[var(--accent-hover)] mt-2">Generate Recipe File</button>
 
                 </div>
                 {/* Right Panel */}
-                <div className="lg:w-2/3 p-4 border border-[var(--border-primary)] rounded-lg bg-[var(--bg-panel-secondary)]">
-                    <h3 className="font-bold text-lg mb-4 capitalize">{recipeType} Recipe</h3>
+                <div className="lg:w-2/3 p-4 border border-[var(--border-primary)] rounded-lg bg-[var(--bg-panel-secondary)] h-fit">
+                    <h3 className="font-bold text-lg mb-4">{RECIPE_TYPES.find(t => t.type === recipe.type)!.label} Recipe</h3>
                     {renderForm()}
                 </div>
             </div>
@@ -245,4 +304,4 @@ const CraftingRecipeEditor: React.FC = () => {
     );
 };
 
-export default CraftingRecipeEditor;
\ No newline at end of file
+export default CraftingRecipeEditor;
@@ -0,0 +1,162 @@
+import React, { useRef, useState } from 'react';
+import { ParticleCurve, ChainNode, CurveType, CURVE_TYPES, MIN_NODES, changeCurveType, sampleCurve } from '../utils/particleCurves';
+
+interface CurveEditorProps {
+    curve: ParticleCurve;
+    onChange: (curve: ParticleCurve) => void;
+}
+
+const WIDTH = 340;
+const HEIGHT = 140;
+const PADDING = 10;
+const SAMPLES = 80;
+
+const inputClass = "w-full bg-[var(--bg-input)] border border-[var(--border-primary)] rounded-lg p-1.5 text-sm";
+
+interface Range {
+    min: number;
+    max: number;
+}
+
+/** Where each node sits along the curve, from 0 to 1. Catmull-rom's end nodes are control points outside that span. */
+const nodePositions = (curve: ParticleCurve): number[] => {
+    const count = curve.nodes.length;
+    if (curve.type === 'catmull_rom') return curve.nodes.map((_, i) => (i - 1) / Math.max(1, count - 3));
+    return curve.nodes.map((_, i) => i / Math.max(1, count - 1));
+};
+
+const valueRange = (curve: ParticleCurve): Range => {
+    const values = curve.type === 'bezier_chain' ? curve.chain.flatMap(n => [n.leftValue, n.rightValue]) : curve.nodes;
+    const min = Math.min(0, ...values), max = Math.max(1, ...values);
+    const pad = (max - min) * 0.1;
+    return { min: min - pad, max: max + pad };
+};
+
+const CurveEditor: React.FC<CurveEditorProps> = ({ curve, onChange }) => {
+    const svgRef = useRef<SVGSVGElement>(null);
+    // The ranges are frozen while dragging so the plot doesn't rescale under the pointer.
+    const [drag, setDrag] = useState<{ index: number; range: Range; xRange: Range } | null>(null);
+
+    const positions = nodePositions(curve);
+    const xRange: Range = drag?.xRange ?? (curve.type === 'catmull_rom' ? { min: positions[0], max: positions[positions.length - 1] } : { min: 0, max: 1 });
+    const range = drag?.range ?? valueRange(curve);
+    const toX = (t: number) => PADDING + ((t - xRange.min) / (xRange.max - xRange.min || 1)) * (WIDTH - 2 * PADDING);
+    const toY = (v: number) => HEIGHT - PADDING - ((v - range.min) / (range.max - range.min || 1)) * (HEIGHT - 2 * PADDING);
+
+    const path = Array.from({ length: SAMPLES + 1 }, (_, i) => i / SAMPLES)
+        .map((t, i) => `${i === 0 ? 'M' : 'L'}${toX(t).toFixed(1)},${toY(sampleCurve(curve, t)).toFixed(1)}`)
+        .join(' ');
+
+    const updateNode = (index: number, value: number) => onChange({ ...curve, nodes: curve.nodes.map((v, i) => (i === index ? value : v)) });
+    const updateChainNode = (index: number, patch: Partial<ChainNode>) => onChange({ ...curve, chain: curve.chain.map((n, i) => (i === index ? { ...n, ...patch } : n)) });
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        if (!drag || !svgRef.current) return;
+        const box = svgRef.current.getBoundingClientRect();
+        const x = ((e.clientX - box.left) / box.width) * WIDTH, y = ((e.clientY - box.top) / box.height) * HEIGHT;
+        const value = +(drag.range.min + ((HEIGHT - PADDING - y) / (HEIGHT - 2 * PADDING)) * (drag.range.max - drag.range.min)).toFixed(3);
+        if (curve.type !== 'bezier_chain') {
+            updateNode(drag.index, value);
+            return;
+        }
+        const node = curve.chain[drag.index];
+        const time = +Math.min(1, Math.max(0, (x - PADDING) / (WIDTH - 2 * PADDING))).toFixed(3);
+        const shift = value - node.leftValue;
+        updateChainNode(drag.index, { time, leftValue: value, rightValue: +(node.rightValue + shift).toFixed(3) });
+    };
+
+    const addNode = () => {
+        if (curve.type === 'bezier_chain') {
+            const sorted = [...curve.chain].sort((a, b) => a.time - b.time);
+            // Put the new key in the middle of the widest gap, on the curve, so adding it doesn't change the shape.
+            let time = 0.5, widest = -1;
+            sorted.slice(1).forEach((node, i) => {
+                if (node.time - sorted[i].time > widest) {
+                    widest = node.time - sorted[i].time;
+                    time = +((node.time + sorted[i].time) / 2).toFixed(3);
+                }
+            });
+            const value = +sampleCurve(curve, time).toFixed(3);
+            onChange({ ...curve, chain: [...sorted, { time, leftValue: value, rightValue: value, leftSlope: 0, rightSlope: 0 }].sort((a, b) => a.time - b.time) });
+        } else {
+            onChange({ ...curve, nodes: [...curve.nodes, curve.nodes[curve.nodes.length - 1] ?? 0] });
+        }
+    };
+
+    const removeNode = (index: number) => curve.type === 'bezier_chain'
+        ? onChange({ ...curve, chain: curve.chain.filter((_, i) => i !== index) })
+        : onChange({ ...curve, nodes: curve.nodes.filter((_, i) => i !== index) });
+
+    const nodeCount = curve.type === 'bezier_chain' ? curve.chain.length : curve.nodes.length;
+    const canRemove = curve.type !== 'bezier' && nodeCount > MIN_NODES[curve.type];
+
+    return (
+        <div className="space-y-3">
+            <div className="flex gap-2">
+                <input type="text" value={curve.name} onChange={e => onChange({ ...curve, name: e.target.value })} placeholder="variable.size" className={`${inputClass} font-mono`} />
+                <select value={curve.type} onChange={e => onChange(changeCurveType(curve, e.target.value as CurveType))} className={`${inputClass} w-36`}>
+                    {CURVE_TYPES.map(c => <option key={c.type} value={c.type}>{c.label}</option>)}
+                </select>
+            </div>
+            <svg
+                ref={svgRef}
+                viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                className="w-full bg-[var(--bg-app)] rounded-lg border border-[var(--border-primary)] touch-none select-none"
+                onPointerMove={handlePointerMove}
+                onPointerUp={() => setDrag(null)}
+                onPointerLeave={() => setDrag(null)}
+            >
+                <line x1={toX(0)} x2={toX(0)} y1={0} y2={HEIGHT} stroke="var(--border-primary)" />
+                <line x1={toX(1)} x2={toX(1)} y1={0} y2={HEIGHT} stroke="var(--border-primary)" />
+                <line x1={0} x2={WIDTH} y1={toY(0)} y2={toY(0)} stroke="var(--border-primary)" strokeDasharray="4 4" />
+                {curve.type === 'bezier' && <polyline points={curve.nodes.map((v, i) => `${toX(positions[i])},${toY(v)}`).join(' ')} fill="none" stroke="var(--text-tertiary)" strokeDasharray="3 3" />}
+                <path d={path} fill="none" stroke="var(--accent-primary)" strokeWidth={2} />
+                {curve.type === 'bezier_chain'
+                    ? curve.chain.map((node, i) => (
+                        <circle key={i} cx={toX(node.time)} cy={toY(node.leftValue)} r={5} className="cursor-move" fill="var(--accent-green)"
+                            onPointerDown={e => { (e.target as Element).setPointerCapture?.(e.pointerId); setDrag({ index: i, range, xRange }); }} />
+                    ))
+                    : curve.nodes.map((v, i) => {
+                        const isControl = curve.type === 'bezier' ? i === 1 || i === 2 : curve.type === 'catmull_rom' && (i === 0 || i === curve.nodes.length - 1);
+                        return (
+                            <circle key={i} cx={toX(positions[i])} cy={toY(v)} r={5} className="cursor-ns-resize"
+                                fill={isControl ? 'var(--bg-panel)' : 'var(--accent-green)'} stroke="var(--accent-green)" strokeWidth={2}
+                                onPointerDown={e => { (e.target as Element).setPointerCapture?.(e.pointerId); setDrag({ index: i, range, xRange }); }} />
+                        );
+                    })}
+            </svg>
+            <div className="flex gap-2">
+                <div className="flex-1">
+                    <label className="block text-xs font-medium text-[var(--text-secondary)] mb-1">Input</label>
+                    <input type="text" value={curve.input} onChange={e => onChange({ ...curve, input: e.target.value })} className={`${inputClass} font-mono`} />
+                </div>
+                <div className="w-24">
+                    <label className="block text-xs font-medium text-[var(--text-secondary)] mb-1">Range</label>
+                    <input type="text" value={curve.horizontalRange} onChange={e => onChange({ ...curve, horizontalRange: e.target.value })} className={`${inputClass} font-mono`} />
+                </div>
+            </div>
+            <div className="space-y-1">
+                {curve.type === 'bezier_chain' ? curve.chain.map((node, i) => (
+                    <div key={i} className="flex items-center gap-1 text-xs">
+                        <input type="number" step={0.05} value={node.time} onChange={e => updateChainNode(i, { time: parseFloat(e.target.value) })} title="Time" className={inputClass} />
+                        <input type="number" step={0.1} value={node.leftValue} onChange={e => updateChainNode(i, { leftValue: parseFloat(e.target.value), rightValue: parseFloat(e.target.value) })} title={node.leftValue === node.rightValue ? 'Value' : `Value (right side: ${node.rightValue})`} className={inputClass} />
+                        <input type="number" step={0.1} value={node.leftSlope} onChange={e => updateChainNode(i, { leftSlope: parseFloat(e.target.value), rightSlope: parseFloat(e.target.value) })} title="Slope" className={inputClass} />
+                        {canRemove && <button onClick={() => removeNode(i)} className="px-2 text-[var(--text-tertiary)] hover:text-red-400" title="Remove">✕</button>}
+                    </div>
+                )) : (
+                    <div className="flex flex-wrap gap-1">
+                        {curve.nodes.map((v, i) => (
+                            <div key={i} className="flex items-center">
+                                <input type="number" step={0.1} value={v} onChange={e => updateNode(i, parseFloat(e.target.value))} className={`${inputClass} w-16 text-center`} />
+                                {canRemove && <button onClick={() => removeNode(i)} className="px-1 text-[var(--text-tertiary)] hover:text-red-400" title="Remove">✕</button>}
+                            </div>
+                        ))}
+                    </div>
+                )}
+                {curve.type !== 'bezier' && <button onClick={addNode} className="text-sm text-[var(--accent-primary)] hover:underline text-left">+ Add node</button>}
+            </div>
+        </div>
+    );
+};
+
+export default CurveEditor;
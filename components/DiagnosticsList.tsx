@@ -0,0 +1,56 @@
+import React from 'react';
+import { AddonDiagnostic } from '../types';
+
+interface DiagnosticsListProps {
+  diagnostics: AddonDiagnostic[];
+  onSelectFile?: (path: string) => void;
+  onApplyFix?: (diagnostic: AddonDiagnostic) => void;
+  emptyMessage?: string;
+}
+
+const SEVERITY_STYLES: { [key in AddonDiagnostic['severity']]: { icon: string; color: string } } = {
+  error: { icon: '⛔', color: 'var(--notification-error-text)' },
+  warning: { icon: '⚠️', color: 'var(--accent-yellow)' },
+  info: { icon: 'ℹ️', color: 'var(--notification-info-text)' },
+};
+
+const DiagnosticsList: React.FC<DiagnosticsListProps> = ({ diagnostics, onSelectFile, onApplyFix, emptyMessage = '✅ No problems found.' }) => {
+  if (diagnostics.length === 0) {
+    return <p className="text-sm text-green-400 font-semibold">{emptyMessage}</p>;
+  }
+
+  return (
+    <ul className="flex flex-col gap-1 text-sm">
+      {diagnostics.map((diagnostic, index) => {
+        const style = SEVERITY_STYLES[diagnostic.severity];
+        return (
+          <li key={`${diagnostic.ruleId}-${diagnostic.file}-${diagnostic.pointer}-${index}`} className="flex items-start gap-2 py-1 px-2 rounded-md hover:bg-[var(--bg-hover)]">
+            <span className="flex-shrink-0" title={diagnostic.severity}>{style.icon}</span>
+            <div className="flex-grow min-w-0">
+              <p style={{ color: style.color }}>{diagnostic.message}</p>
+              <button
+                onClick={() => onSelectFile?.(diagnostic.file)}
+                disabled={!onSelectFile}
+                className="text-xs font-mono text-[var(--text-tertiary)] truncate max-w-full text-left enabled:hover:underline"
+                title={`${diagnostic.file}${diagnostic.pointer ? `#${diagnostic.pointer}` : ''}`}
+              >
+                {diagnostic.file}{diagnostic.pointer && `#${diagnostic.pointer}`} · {diagnostic.ruleId}
+              </button>
+            </div>
+            {diagnostic.fix && onApplyFix && (
+              <button
+                onClick={() => onApplyFix(diagnostic)}
+                title={diagnostic.fix.description}
+                className="flex-shrink-0 text-xs px-2 py-1 rounded-md bg-[var(--bg-input)] border border-[var(--border-primary)] hover:bg-[var(--bg-active)]"
+              >
+                Fix
+              </button>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default DiagnosticsList;
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { GeneratedFile, UploadedFile, AssetMapping } from '../types';
-import { downloadAddon } from '../utils/fileConverter';
+import { downloadAddon, downloadPacks, downloadWorld, ExportFormat } from '../utils/fileConverter';
 import { useNotification } from '../contexts/NotificationContext';
 
 
@@ -23,39 +23,81 @@ const Spinner: React.FC<{text: string}> = ({text}) => (
 );
 
 
+const EXPORT_OPTIONS: { format: Exclude<ExportFormat, 'mcaddon'>; label: string; description: string }[] = [
+  { format: 'mcpack', label: 'Separate .mcpack files', description: 'One file per behavior and resource pack.' },
+  { format: 'mcworld', label: 'Test world (.mcworld)', description: 'A flat creative world with the packs applied.' },
+  { format: 'mctemplate', label: 'World template (.mctemplate)', description: 'The same world, as a template for new worlds.' },
+];
+
 const DownloadButton: React.FC<DownloadButtonProps> = ({ files, uploadedFiles, assetMappings, addonName, disabled }) => {
   const [isLoading, setIsLoading] = useState(false);
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
   const { addNotification } = useNotification();
 
-  const handleDownload = async () => {
+  const handleDownload = async (format: ExportFormat) => {
+    setIsMenuOpen(false);
     setIsLoading(true);
     try {
-      await downloadAddon(addonName, files, uploadedFiles, assetMappings);
+      let leftOut: string[] = [];
+      if (format === 'mcaddon') {
+        await downloadAddon(addonName, files, uploadedFiles, assetMappings);
+      } else if (format === 'mcpack') {
+        leftOut = await downloadPacks(files, uploadedFiles, assetMappings);
+      } else {
+        leftOut = await downloadWorld(addonName, files, uploadedFiles, assetMappings, format === 'mctemplate');
+      }
+      if (leftOut.length > 0) {
+        addNotification('info', `${leftOut.length} file(s) are outside every pack and were left out: ${leftOut.slice(0, 3).join(', ')}${leftOut.length > 3 ? ', ...' : ''}`);
+      }
     } catch (error) {
         console.error("Download failed:", error);
-        addNotification('error', 'Failed to package the addon. Check the console for details.');
+        addNotification('error', `Failed to package the addon: ${(error as Error).message}`);
     } finally {
         setIsLoading(false);
     }
   };
 
+  const isDisabled = disabled || files.length === 0 || isLoading;
+
   return (
-    <button
-      onClick={handleDownload}
-      disabled={disabled || files.length === 0 || isLoading}
-      className="w-full flex justify-center items-center px-6 py-3 font-bold rounded-lg text-white bg-[var(--accent-green)] hover:bg-[var(--accent-green-hover)] focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-offset-[var(--bg-panel)] focus-visible:ring-[var(--accent-green)] disabled:bg-[var(--bg-active)] disabled:text-[var(--text-tertiary)] disabled:cursor-not-allowed transition-colors duration-200"
-    >
-        {isLoading ? (
-            <Spinner text="Packaging..." />
-        ) : (
-            <>
-                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" viewBox="0 0 20 20" fill="currentColor">
-                    <path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" />
-                </svg>
-                Download .mcaddon
-            </>
-        )}
-    </button>
+    <div className="relative flex">
+      <button
+        onClick={() => handleDownload('mcaddon')}
+        disabled={isDisabled}
+        className="flex-grow flex justify-center items-center px-6 py-3 font-bold rounded-l-lg text-white bg-[var(--accent-green)] hover:bg-[var(--accent-green-hover)] focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-offset-[var(--bg-panel)] focus-visible:ring-[var(--accent-green)] disabled:bg-[var(--bg-active)] disabled:text-[var(--text-tertiary)] disabled:cursor-not-allowed transition-colors duration-200"
+      >
+          {isLoading ? (
+              <Spinner text="Packaging..." />
+          ) : (
+              <>
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" viewBox="0 0 20 20" fill="currentColor">
+                      <path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" />
+                  </svg>
+                  Download .mcaddon
+              </>
+          )}
+      </button>
+      <button
+        onClick={() => setIsMenuOpen(!isMenuOpen)}
+        disabled={isDisabled}
+        title="More export formats"
+        className="px-3 font-bold rounded-r-lg text-white bg-[var(--accent-green)] hover:bg-[var(--accent-green-hover)] border-l border-black/20 disabled:bg-[var(--bg-active)] disabled:text-[var(--text-tertiary)] disabled:cursor-not-allowed transition-colors duration-200"
+      >
+        ▾
+      </button>
+      {isMenuOpen && (
+        <ul className="absolute bottom-full mb-2 left-0 right-0 z-20 p-1 rounded-lg bg-[var(--bg-panel)] border border-[var(--border-primary)] shadow-lg">
+          {EXPORT_OPTIONS.map(option => (
+            <li key={option.format}>
+              <button onClick={() => handleDownload(option.format)} className="w-full text-left px-3 py-2 rounded-md hover:bg-[var(--bg-hover)]">
+                <span className="block text-sm font-semibold text-[var(--text-primary)]">{option.label}</span>
+                <span className="block text-xs text-[var(--text-secondary)]">{option.description}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
   );
 };
 
@@ -0,0 +1,394 @@
+import React, { useState } from 'react';
+import { GeneratedFile, UploadedFile, AssetMapping } from '../types';
+import { useNotification } from '../contexts/NotificationContext';
+import { BP_ROOT, RP_ROOT, createPackManifests, createLangFiles, validateIdentifier, shortName } from '../utils/addonTemplates';
+import {
+    EntityDefinition, EntityStats, EntityBehavior, ComponentGroup, EntityEvent, EntityAnimation, SpawnEgg, MovementType,
+    ENTITY_PRESETS, BEHAVIOR_CATALOG, buildBehaviorEntity, buildClientEntity, buildRenderController, readAnimations, validateEntityDefinition,
+} from '../utils/entityDefinition';
+import { GeometryModel, parseGeometry } from '../utils/geometry';
+import ModelPreview from './ModelPreview';
+
+// --- PROPS & STATE TYPES ---
+
+interface EntityCreatorProps {
+    onGenerationComplete: (
+        generatedFiles: GeneratedFile[],
+        uploadedFiles: UploadedFile[],
+        assetMappings: AssetMapping[],
+        addonName: string
+      ) => void;
+}
+
+// --- HELPER & UI COMPONENTS ---
+
+const Section: React.FC<{ title: string; children: React.ReactNode; defaultOpen?: boolean }> = ({ title, children, defaultOpen = false }) => {
+    const [isOpen, setIsOpen] = useState(defaultOpen);
+
+    return (
+        <div className="bg-[var(--bg-app)] border border-[var(--border-primary)] rounded-lg">
+            <button onClick={() => setIsOpen(!isOpen)} className="flex items-center justify-between w-full p-4 text-left">
+                <h3 className="font-bold text-md text-[var(--text-primary)]">{title}</h3>
+                <svg className={`w-5 h-5 text-[var(--text-tertiary)] transition-transform ${isOpen ? 'rotate-90' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+            </button>
+            {isOpen && (
+                <div className="p-4 border-t border-[var(--border-primary)]">
+                    {children}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const inputClass = "w-full bg-[var(--bg-input)] border border-[var(--border-primary)] rounded-lg p-2.5 text-sm outline-none focus:ring-2 focus:ring-[var(--accent-primary)]";
+const smallInputClass = "bg-[var(--bg-input)] border border-[var(--border-primary)] rounded-md p-1.5 text-sm outline-none focus:ring-2 focus:ring-[var(--accent-primary)]";
+
+const InputField: React.FC<{ label: string; value: string; onChange: (value: string) => void; placeholder?: string; info?: string }> =
+({ label, value, onChange, placeholder, info }) => (
+    <div className="flex flex-col gap-1">
+        <label className="text-sm font-medium text-[var(--text-secondary)]">{label}</label>
+        <input type="text" value={value} onChange={(e) => onChange(e.target.value)} className={inputClass} placeholder={placeholder} />
+        {info && <p className="text-xs text-[var(--text-tertiary)]">{info}</p>}
+    </div>
+);
+
+const NumberField: React.FC<{ label: string; value: number; onChange: (value: number) => void; min?: number; max?: number; step?: number }> =
+({ label, value, onChange, min, max, step }) => (
+    <div className="flex flex-col gap-1">
+        <label className="text-sm font-medium text-[var(--text-secondary)]">{label}</label>
+        <input type="number" value={Number.isNaN(value) ? '' : value} onChange={(e) => onChange(parseFloat(e.target.value))} min={min} max={max} step={step} className={inputClass} />
+    </div>
+);
+
+const ToggleSwitch: React.FC<{ label: string; checked: boolean; onChange: (checked: boolean) => void; }> = ({ label, checked, onChange }) => (
+    <div className="flex items-center justify-between bg-[var(--bg-input)] p-2 rounded-lg">
+        <label className="text-sm font-medium text-[var(--text-secondary)]">{label}</label>
+        <button onClick={() => onChange(!checked)} className={`w-10 h-5 rounded-full transition-colors ${checked ? 'bg-[var(--accent-primary)]' : 'bg-[var(--bg-app)]'}`}>
+            <span className={`block w-3.5 h-3.5 rounded-full bg-white transform transition-transform ${checked ? 'translate-x-5' : 'translate-x-1'}`}></span>
+        </button>
+    </div>
+);
+
+const RemoveButton: React.FC<{ onClick: () => void }> = ({ onClick }) => (
+    <button onClick={onClick} className="px-2 text-[var(--text-tertiary)] hover:text-red-400" title="Remove">✕</button>
+);
+
+const AddButton: React.FC<{ label: string; onClick: () => void }> = ({ label, onClick }) => (
+    <button onClick={onClick} className="self-start text-sm text-[var(--accent-primary)] hover:underline">+ {label}</button>
+);
+
+const GroupChecklist: React.FC<{ label: string; groups: string[]; selected: string[]; onChange: (selected: string[]) => void }> = ({ label, groups, selected, onChange }) => (
+    <div className="flex flex-wrap gap-3 items-center">
+        <span className="text-xs font-medium text-[var(--text-secondary)] w-14">{label}</span>
+        {groups.length === 0 && <span className="text-xs text-[var(--text-tertiary)]">No component groups yet.</span>}
+        {groups.map(group => (
+            <label key={group} className="flex items-center gap-1 text-xs font-mono text-[var(--text-secondary)]">
+                <input type="checkbox" checked={selected.includes(group)} onChange={() => onChange(selected.includes(group) ? selected.filter(g => g !== group) : [...selected, group])} />
+                {group}
+            </label>
+        ))}
+    </div>
+);
+
+
+// --- CONSTANTS ---
+const MOVEMENT_TYPES: { value: MovementType; label: string }[] = [
+    { value: 'walk', label: 'Walk' },
+    { value: 'fly', label: 'Fly' },
+    { value: 'swim', label: 'Swim' },
+];
+
+const DEFAULT_BEHAVIORS = ['minecraft:behavior.float', 'minecraft:behavior.random_stroll', 'minecraft:behavior.look_at_player', 'minecraft:behavior.random_look_around'];
+
+const toEntityBehavior = (id: string): EntityBehavior => {
+    const entry = BEHAVIOR_CATALOG.find(b => b.id === id)!;
+    return { id, priority: entry.priority, params: JSON.stringify(entry.params, null, 2) };
+};
+
+
+// --- MAIN COMPONENT ---
+
+const EntityCreator: React.FC<EntityCreatorProps> = ({ onGenerationComplete }) => {
+    const [identifier, setIdentifier] = useState('');
+    const [displayName, setDisplayName] = useState('');
+    const [families, setFamilies] = useState('mob');
+    const [stats, setStats] = useState<EntityStats>(ENTITY_PRESETS[1].stats);
+
+    const [behaviors, setBehaviors] = useState<EntityBehavior[]>(DEFAULT_BEHAVIORS.map(toEntityBehavior));
+    const [behaviorToAdd, setBehaviorToAdd] = useState('');
+    const [componentGroups, setComponentGroups] = useState<ComponentGroup[]>([]);
+    const [events, setEvents] = useState<EntityEvent[]>([]);
+    const [spawnEgg, setSpawnEgg] = useState<SpawnEgg>({ enabled: true, baseColor: '#3a7d44', overlayColor: '#f2e8cf' });
+
+    const [geometry, setGeometry] = useState<{ content: string; model: GeometryModel } | null>(null);
+    const [geometryError, setGeometryError] = useState<string | null>(null);
+    const [texture, setTexture] = useState<File | null>(null);
+    const [animationContent, setAnimationContent] = useState<string | null>(null);
+    const [animations, setAnimations] = useState<EntityAnimation[]>([]);
+    const [animationError, setAnimationError] = useState<string | null>(null);
+    const [lookAtTarget, setLookAtTarget] = useState(true);
+
+    const [errors, setErrors] = useState<string[]>([]);
+    const { addNotification } = useNotification();
+
+    const groupNames = componentGroups.map(group => group.name).filter(Boolean);
+    const availableBehaviors = BEHAVIOR_CATALOG.filter(b => !behaviors.some(existing => existing.id === b.id));
+    const selectedBehavior = availableBehaviors.find(b => b.id === behaviorToAdd)?.id ?? availableBehaviors[0]?.id;
+    const updateStats = (changes: Partial<EntityStats>) => setStats(prev => ({ ...prev, ...changes }));
+
+    const applyPreset = (presetId: string) => {
+        const preset = ENTITY_PRESETS.find(p => p.id === presetId);
+        if (!preset) return;
+        setStats(preset.stats);
+        setFamilies(preset.families.join(', '));
+    };
+
+    const readFile = async (file: File | undefined, parse: (content: string) => void, setError: (error: string | null) => void) => {
+        setError(null);
+        if (!file) return;
+        try {
+            parse(await file.text());
+        } catch (err) {
+            setError((err as Error).message);
+        }
+    };
+
+    const handleGeometryFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        setGeometry(null);
+        readFile(e.target.files?.[0], content => setGeometry({ content, model: parseGeometry(content) }), setGeometryError);
+    };
+
+    const handleAnimationFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        setAnimationContent(null);
+        setAnimations([]);
+        readFile(e.target.files?.[0], content => {
+            setAnimations(readAnimations(content));
+            setAnimationContent(content);
+        }, setAnimationError);
+    };
+
+    const handleGenerate = () => {
+        const problems: string[] = [];
+        const identifierError = validateIdentifier(identifier);
+        if (identifierError) problems.push(identifierError);
+        if (!displayName.trim()) problems.push('Display Name is required.');
+        if (!geometry) problems.push(geometryError || 'Upload a Blockbench .geo.json model.');
+        if (!texture) problems.push('Upload the model texture.');
+
+        const definition: EntityDefinition = {
+            identifier,
+            families: families.split(',').map(f => f.trim()).filter(Boolean),
+            stats,
+            behaviors,
+            componentGroups,
+            events,
+            spawnEgg,
+            geometryId: geometry?.model.identifier || '',
+            animations,
+            lookAtTarget,
+        };
+        problems.push(...validateEntityDefinition(definition));
+        setErrors(problems);
+        if (problems.length > 0 || !geometry || !texture) {
+            addNotification('error', `The entity has ${problems.length} ${problems.length === 1 ? 'problem' : 'problems'}. See the list above the Generate button.`);
+            return;
+        }
+
+        const id_short = shortName(identifier);
+        const addonName = displayName.trim();
+        const texturePath = `textures/entity/${id_short}`;
+
+        const generatedFiles: GeneratedFile[] = [
+            ...createPackManifests(addonName, `Adds the ${addonName} entity.`),
+            { path: `${BP_ROOT}/entities/${id_short}.json`, content: JSON.stringify(buildBehaviorEntity(definition), null, 2) },
+            { path: `${RP_ROOT}/entity/${id_short}.entity.json`, content: JSON.stringify(buildClientEntity(definition, texturePath), null, 2) },
+            { path: `${RP_ROOT}/render_controllers/${id_short}.render_controllers.json`, content: JSON.stringify(buildRenderController(identifier), null, 2) },
+            { path: `${RP_ROOT}/models/entity/${id_short}.geo.json`, content: geometry.content },
+            ...createLangFiles(RP_ROOT, {
+                [`entity.${identifier}.name`]: addonName,
+                ...(spawnEgg.enabled && { [`item.spawn_egg.entity.${identifier}.name`]: `Spawn ${addonName}` }),
+            }),
+        ];
+        if (animationContent && animations.some(a => a.enabled)) {
+            generatedFiles.push({ path: `${RP_ROOT}/animations/${id_short}.animation.json`, content: animationContent });
+        }
+        // Uploads are renamed to their destination, like the other creators do.
+        const textureUpload = new File([texture], `${RP_ROOT}/${texturePath}.png`, { type: texture.type });
+        const uploadedFiles: UploadedFile[] = [{ file: textureUpload, type: 'asset' }];
+        const assetMappings: AssetMapping[] = [{ originalPath: textureUpload.name, newPath: textureUpload.name }];
+
+        onGenerationComplete(generatedFiles, uploadedFiles, assetMappings, addonName);
+        addNotification('success', `${addonName} was created. You can now review and download it.`);
+    };
+
+    return (
+        <div className="flex flex-col gap-4 max-w-4xl mx-auto">
+            <h2 className="text-2xl font-bold text-[var(--text-primary)] mb-2">Entity Creator</h2>
+            <InputField label="Identifier" value={identifier} onChange={setIdentifier} placeholder="custom:phoenix" />
+            <InputField label="Display Name" value={displayName} onChange={setDisplayName} placeholder="Phoenix" />
+            <InputField label="Families" value={families} onChange={setFamilies} placeholder="mob, monster" info="Comma-separated. Used by filters such as is_family; the identifier's name is added automatically." />
+
+            <Section title="Health, Movement & Collision" defaultOpen={true}>
+                <div className="flex flex-col gap-3">
+                    <div className="flex flex-wrap gap-2">
+                        {ENTITY_PRESETS.map(preset => (
+                            <button key={preset.id} onClick={() => applyPreset(preset.id)} className="px-3 py-1 text-sm rounded-md border bg-[var(--bg-input)] border-[var(--border-primary)] text-[var(--text-secondary)] hover:border-[var(--accent-primary)]">
+                                {preset.label}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                        <NumberField label="Health" value={stats.health} onChange={health => updateStats({ health })} min={1} />
+                        <NumberField label="Movement Speed" value={stats.movementSpeed} onChange={movementSpeed => updateStats({ movementSpeed })} min={0} step={0.01} />
+                        <div className="flex flex-col gap-1">
+                            <label className="text-sm font-medium text-[var(--text-secondary)]">Movement Type</label>
+                            <select value={stats.movementType} onChange={e => updateStats({ movementType: e.target.value as MovementType })} className={inputClass}>
+                                {MOVEMENT_TYPES.map(type => <option key={type.value} value={type.value}>{type.label}</option>)}
+                            </select>
+                        </div>
+                        <NumberField label="Collision Width" value={stats.collisionWidth} onChange={collisionWidth => updateStats({ collisionWidth })} min={0.1} step={0.1} />
+                        <NumberField label="Collision Height" value={stats.collisionHeight} onChange={collisionHeight => updateStats({ collisionHeight })} min={0.1} step={0.1} />
+                        <NumberField label="Attack Damage" value={stats.attackDamage} onChange={attackDamage => updateStats({ attackDamage })} min={0} />
+                    </div>
+                </div>
+            </Section>
+
+            <Section title="Behaviors">
+                <div className="flex flex-col gap-3">
+                    <p className="text-xs text-[var(--text-tertiary)]">Goals with a lower priority number run first and can interrupt higher numbers.</p>
+                    {[...behaviors].sort((a, b) => a.priority - b.priority).map(behavior => {
+                        const update = (changes: Partial<EntityBehavior>) => setBehaviors(prev => prev.map(b => (b.id === behavior.id ? { ...b, ...changes } : b)));
+                        return (
+                            <div key={behavior.id} className="flex flex-col gap-2 p-2 bg-[var(--bg-input)] rounded-lg">
+                                <div className="flex items-center gap-2">
+                                    <input type="number" min={0} value={Number.isNaN(behavior.priority) ? '' : behavior.priority} onChange={e => update({ priority: parseInt(e.target.value, 10) })} className={`${smallInputClass} w-16`} title="Priority" />
+                                    <span className="flex-grow text-sm font-mono text-[var(--text-primary)]">{behavior.id}</span>
+                                    <RemoveButton onClick={() => setBehaviors(prev => prev.filter(b => b.id !== behavior.id))} />
+                                </div>
+                                {behavior.params.trim() !== '{}' && (
+                                    <textarea value={behavior.params} onChange={e => update({ params: e.target.value })} rows={Math.min(8, behavior.params.split('\n').length)} className={`${smallInputClass} font-mono text-xs`} />
+                                )}
+                            </div>
+                        );
+                    })}
+                    <div className="flex gap-2">
+                        <select value={selectedBehavior || ''} onChange={e => setBehaviorToAdd(e.target.value)} className={`${smallInputClass} flex-grow`}>
+                            {availableBehaviors.map(b => <option key={b.id} value={b.id}>{b.label} ({b.id.replace('minecraft:behavior.', '')})</option>)}
+                        </select>
+                        <button
+                            onClick={() => selectedBehavior && setBehaviors(prev => [...prev, toEntityBehavior(selectedBehavior)])}
+                            disabled={!selectedBehavior}
+                            className="px-4 py-1.5 text-sm font-semibold rounded-md text-white bg-[var(--accent-primary)] hover:bg-[var(--accent-hover)] disabled:opacity-50"
+                        >
+                            Add
+                        </button>
+                    </div>
+                </div>
+            </Section>
+
+            <Section title="Component Groups & Events">
+                <div className="flex flex-col gap-4">
+                    <div className="flex flex-col gap-2">
+                        <span className="text-sm font-medium text-[var(--text-secondary)]">Component Groups</span>
+                        {componentGroups.map((group, index) => (
+                            <div key={index} className="flex flex-col gap-2 p-2 bg-[var(--bg-input)] rounded-lg">
+                                <div className="flex gap-2 items-center">
+                                    <input value={group.name} onChange={e => setComponentGroups(prev => prev.map((g, i) => (i === index ? { ...g, name: e.target.value } : g)))} placeholder="custom:angry" className={`${smallInputClass} flex-grow font-mono`} />
+                                    <RemoveButton onClick={() => setComponentGroups(prev => prev.filter((_, i) => i !== index))} />
+                                </div>
+                                <textarea value={group.components} onChange={e => setComponentGroups(prev => prev.map((g, i) => (i === index ? { ...g, components: e.target.value } : g)))} rows={5} className={`${smallInputClass} font-mono text-xs`} />
+                            </div>
+                        ))}
+                        <AddButton label="Add component group" onClick={() => setComponentGroups(prev => [...prev, { name: '', components: '{\n  \n}' }])} />
+                    </div>
+                    <div className="flex flex-col gap-2">
+                        <span className="text-sm font-medium text-[var(--text-secondary)]">Events</span>
+                        {events.map((event, index) => {
+                            const update = (changes: Partial<EntityEvent>) => setEvents(prev => prev.map((e, i) => (i === index ? { ...e, ...changes } : e)));
+                            return (
+                                <div key={index} className="flex flex-col gap-2 p-2 bg-[var(--bg-input)] rounded-lg">
+                                    <div className="flex gap-2 items-center">
+                                        <input value={event.name} onChange={e => update({ name: e.target.value })} list="entity-event-names" placeholder="custom:become_angry" className={`${smallInputClass} flex-grow font-mono`} />
+                                        <RemoveButton onClick={() => setEvents(prev => prev.filter((_, i) => i !== index))} />
+                                    </div>
+                                    <GroupChecklist label="Add" groups={groupNames} selected={event.add} onChange={add => update({ add })} />
+                                    <GroupChecklist label="Remove" groups={groupNames} selected={event.remove} onChange={remove => update({ remove })} />
+                                </div>
+                            );
+                        })}
+                        <datalist id="entity-event-names">
+                            <option value="minecraft:entity_spawned" />
+                            <option value="minecraft:entity_born" />
+                            <option value="minecraft:entity_transformed" />
+                        </datalist>
+                        <AddButton label="Add event" onClick={() => setEvents(prev => [...prev, { name: '', add: [], remove: [] }])} />
+                    </div>
+                </div>
+            </Section>
+
+            <Section title="Model, Texture & Animations" defaultOpen={true}>
+                <div className="flex flex-col gap-3">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <div className="flex flex-col gap-1">
+                            <label className="text-sm font-medium text-[var(--text-secondary)]">Model (.geo.json)</label>
+                            <input type="file" accept=".json" onChange={handleGeometryFile} className="text-sm text-[var(--text-secondary)]" />
+                            {geometryError && <p className="text-xs text-red-400">{geometryError}</p>}
+                        </div>
+                        <div className="flex flex-col gap-1">
+                            <label className="text-sm font-medium text-[var(--text-secondary)]">Texture (.png)</label>
+                            <input type="file" accept="image/png" onChange={e => setTexture(e.target.files?.[0] || null)} className="text-sm text-[var(--text-secondary)]" />
+                        </div>
+                    </div>
+                    {geometry && <ModelPreview model={geometry.model} texture={texture} />}
+                    <div className="flex flex-col gap-1">
+                        <label className="text-sm font-medium text-[var(--text-secondary)]">Animations (.animation.json, optional)</label>
+                        <input type="file" accept=".json" onChange={handleAnimationFile} className="text-sm text-[var(--text-secondary)]" />
+                        {animationError && <p className="text-xs text-red-400">{animationError}</p>}
+                    </div>
+                    {animations.map((animation, index) => {
+                        const update = (changes: Partial<EntityAnimation>) => setAnimations(prev => prev.map((a, i) => (i === index ? { ...a, ...changes } : a)));
+                        return (
+                            <div key={animation.animation} className="flex gap-2 items-center p-2 bg-[var(--bg-input)] rounded-lg">
+                                <input type="checkbox" checked={animation.enabled} onChange={e => update({ enabled: e.target.checked })} title="Play this animation" />
+                                <input value={animation.name} onChange={e => update({ name: e.target.value })} className={`${smallInputClass} w-28 font-mono`} title="Short name" />
+                                <span className="text-xs font-mono text-[var(--text-tertiary)] truncate w-48" title={animation.animation}>{animation.animation}</span>
+                                <input value={animation.condition} onChange={e => update({ condition: e.target.value })} placeholder="Always" className={`${smallInputClass} flex-grow font-mono`} title="Molang condition" />
+                            </div>
+                        );
+                    })}
+                    <ToggleSwitch label="Head follows targets (animation.common.look_at_target)" checked={lookAtTarget} onChange={setLookAtTarget} />
+                </div>
+            </Section>
+
+            <Section title="Spawn Egg">
+                <div className="flex flex-col gap-3">
+                    <ToggleSwitch label="Add Spawn Egg" checked={spawnEgg.enabled} onChange={enabled => setSpawnEgg(prev => ({ ...prev, enabled }))} />
+                    {spawnEgg.enabled && (
+                        <div className="flex gap-4 p-2 bg-[var(--bg-input)] rounded-lg">
+                            <label className="flex items-center gap-2 text-sm text-[var(--text-secondary)]">
+                                Base <input type="color" value={spawnEgg.baseColor} onChange={e => setSpawnEgg(prev => ({ ...prev, baseColor: e.target.value }))} />
+                            </label>
+                            <label className="flex items-center gap-2 text-sm text-[var(--text-secondary)]">
+                                Spots <input type="color" value={spawnEgg.overlayColor} onChange={e => setSpawnEgg(prev => ({ ...prev, overlayColor: e.target.value }))} />
+                            </label>
+                        </div>
+                    )}
+                </div>
+            </Section>
+
+            {errors.length > 0 && (
+                <ul className="list-disc pl-6 p-3 text-sm text-red-400 bg-[var(--bg-app)] border border-red-500/50 rounded-lg">
+                    {errors.map((error, i) => <li key={i}>{error}</li>)}
+                </ul>
+            )}
+
+             <button onClick={handleGenerate} className="w-full mt-4 flex justify-center items-center px-6 py-3 font-semibold rounded-lg text-white bg-[var(--accent-green)] hover:bg-[var(--accent-green-hover)]">
+                Generate Entity
+            </button>
+        </div>
+    );
+};
+
+export default EntityCreator;
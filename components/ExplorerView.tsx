@@ -1,25 +1,100 @@
-import React, { useState, useEffect } from 'react';
-import { GeneratedFile, UploadedFile, AssetMapping } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { GeneratedFile, UploadedFile, AssetMapping, AddonDiagnostic } from '../types';
 import FileExplorer from './FileExplorer';
 import CodeEditor from './CodeEditor';
 import DownloadButton from './DownloadButton';
+import DiagnosticsList from './DiagnosticsList';
+import HistoryTimeline from './HistoryTimeline';
+import { validateAddon } from '../utils/addonValidator';
+import { Workspace, getAssetPaths, resolveAssetFile, createFile, movePath, deletePath, uploadFiles } from '../utils/fileOperations';
+import { ProjectHistory } from '../utils/projectHistory';
+import { useNotification } from '../contexts/NotificationContext';
 
 interface ExplorerViewProps {
   files: GeneratedFile[];
   uploadedFiles: UploadedFile[];
   assetMappings: AssetMapping[];
   addonName: string;
-  onFilesUpdate: (files: GeneratedFile[]) => void;
+  history: ProjectHistory;
+  onWorkspaceUpdate: (workspace: Workspace, label: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onRestoreHistory: (index: number) => void;
 }
 
+const AssetPreview: React.FC<{ path: string; file: File | null }> = ({ path, file }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const isImage = /\.(png|jpe?g|gif)$/i.test(path);
+
+  useEffect(() => {
+    if (!file || !isImage) return;
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file, isImage]);
+
+  return (
+    <div className="flex flex-col items-center justify-center h-full gap-4 p-6 text-[var(--text-secondary)]">
+      {!file ? (
+        <p>The uploaded file for this asset is missing.</p>
+      ) : isImage && url ? (
+        <img src={url} alt={path} className="max-w-full max-h-[60vh] min-w-[128px] object-contain border border-[var(--border-primary)] bg-[var(--bg-input)]" style={{ imageRendering: 'pixelated' }} />
+      ) : (
+        <p>Binary files can't be edited here.</p>
+      )}
+      {file && <p className="text-xs">{file.type || 'Unknown type'} · {(file.size / 1024).toFixed(1)} KB</p>}
+    </div>
+  );
+};
+
+const ProblemsPanel: React.FC<{
+  diagnostics: AddonDiagnostic[];
+  onSelectFile: (path: string) => void;
+  onApplyFix: (diagnostic: AddonDiagnostic) => void;
+  onFixAll: () => void;
+}> = ({ diagnostics, onSelectFile, onApplyFix, onFixAll }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+  const warningCount = diagnostics.filter(d => d.severity === 'warning').length;
+  const fixableCount = diagnostics.filter(d => d.fix).length;
+
+  return (
+    <div className="flex-shrink-0 border-t border-[var(--border-primary)] bg-[var(--bg-panel-secondary)]">
+      <div className="flex items-center justify-between px-3 py-1.5 text-xs">
+        <button onClick={() => setIsOpen(!isOpen)} className="flex items-center gap-2 font-semibold text-[var(--text-secondary)] hover:text-[var(--text-primary)]">
+          <span>{isOpen ? '▾' : '▸'} Problems</span>
+          <span>⛔ {errorCount}</span>
+          <span>⚠️ {warningCount}</span>
+        </button>
+        {fixableCount > 0 && (
+          <button onClick={onFixAll} className="px-2 py-0.5 rounded-md bg-[var(--bg-input)] border border-[var(--border-primary)] hover:bg-[var(--bg-active)]">
+            Fix All ({fixableCount})
+          </button>
+        )}
+      </div>
+      {isOpen && (
+        <div className="max-h-48 overflow-y-auto px-2 pb-2">
+          <DiagnosticsList diagnostics={diagnostics} onSelectFile={onSelectFile} onApplyFix={onApplyFix} />
+        </div>
+      )}
+    </div>
+  );
+};
+
 const ExplorerView: React.FC<ExplorerViewProps> = ({
   files,
   uploadedFiles,
   assetMappings,
   addonName,
-  onFilesUpdate,
+  history,
+  onWorkspaceUpdate,
+  onUndo,
+  onRedo,
+  onRestoreHistory,
 }) => {
   const [selectedFile, setSelectedFile] = useState<GeneratedFile | null>(null);
+  const [selectedAssetPath, setSelectedAssetPath] = useState<string | null>(null);
+  const { addNotification } = useNotification();
   const [isMobile, setIsMobile] = useState(window.matchMedia('(max-width: 768px)').matches);
   const [isExplorerVisible, setIsExplorerVisible] = useState(true);
 
@@ -37,6 +112,8 @@ const ExplorerView: React.FC<ExplorerViewProps> = ({
   }, [isMobile]);
 
   useEffect(() => {
+    if (selectedAssetPath && assetMappings.some(m => m.newPath === selectedAssetPath)) return;
+    setSelectedAssetPath(null);
     if (files.length > 0 && (!selectedFile || !files.find(f => f.path === selectedFile.path))) {
       const firstFile = files[0];
       setSelectedFile(firstFile);
@@ -46,34 +123,103 @@ const ExplorerView: React.FC<ExplorerViewProps> = ({
     } else if (files.length === 0) {
       setSelectedFile(null);
     }
-  }, [files, isMobile]);
+  }, [files, assetMappings, isMobile]);
 
   const handleSelectFile = (file: GeneratedFile) => {
     setSelectedFile(file);
+    setSelectedAssetPath(null);
     if (isMobile) {
       setIsExplorerVisible(false);
     }
   };
 
+  const handleSelectAsset = (path: string) => {
+    setSelectedAssetPath(path);
+    setSelectedFile(null);
+    if (isMobile) {
+      setIsExplorerVisible(false);
+    }
+  };
+
+  const assetPaths = useMemo(() => getAssetPaths(assetMappings), [assetMappings]);
+  const selectedAssetMapping = assetMappings.find(m => m.newPath === selectedAssetPath);
+
+  const workspace: Workspace = { files, uploadedFiles, assetMappings };
+  // The selected file object goes stale when the files change underneath it (undo, fixes), so always edit the live copy.
+  const currentFile = selectedFile ? files.find(f => f.path === selectedFile.path) || selectedFile : null;
+
+  const handleCreateFile = (path: string) => {
+    const content = path.toLowerCase().endsWith('.json') ? '{\n}\n' : '';
+    const next = createFile(workspace, path, content);
+    onWorkspaceUpdate(next, `Created ${path}`);
+    setSelectedFile(next.files[next.files.length - 1]);
+    setSelectedAssetPath(null);
+  };
+
+  const handleMovePath = (from: string, to: string, rewriteReferences: boolean) => {
+    const isRename = from.split('/').slice(0, -1).join('/') === to.split('/').slice(0, -1).join('/');
+    onWorkspaceUpdate(movePath(workspace, from, to, rewriteReferences), `${isRename ? 'Renamed' : 'Moved'} ${from} to ${to}`);
+    if (selectedFile && (selectedFile.path === from || selectedFile.path.startsWith(`${from}/`))) {
+      setSelectedFile({ ...selectedFile, path: to + selectedFile.path.slice(from.length) });
+    }
+    if (selectedAssetPath && (selectedAssetPath === from || selectedAssetPath.startsWith(`${from}/`))) {
+      setSelectedAssetPath(to + selectedAssetPath.slice(from.length));
+    }
+  };
+
+  const handleDeletePath = (path: string) => {
+    onWorkspaceUpdate(deletePath(workspace, path), `Deleted ${path}`);
+  };
+
+  const handleUploadFiles = async (folder: string, uploads: File[]) => {
+    try {
+      const label = uploads.length === 1 ? `Uploaded ${uploads[0].name}` : `Uploaded ${uploads.length} files`;
+      onWorkspaceUpdate(await uploadFiles(workspace, folder, uploads), label);
+      addNotification('success', `Added ${uploads.length} ${uploads.length === 1 ? 'file' : 'files'} to ${folder || 'the addon root'}.`);
+    } catch (err) {
+      addNotification('error', `Failed to upload files: ${(err as Error).message}`);
+    }
+  };
+
+  const diagnostics = useMemo(() => validateAddon(files), [files]);
+
+  const handleSelectPath = (path: string) => {
+    const file = files.find(f => f.path === path);
+    if (file) handleSelectFile(file);
+  };
+
+  const handleApplyFix = (diagnostic: AddonDiagnostic) => {
+    if (!diagnostic.fix) return;
+    onWorkspaceUpdate({ ...workspace, files: diagnostic.fix.apply(files) }, `Fix: ${diagnostic.fix.description}`);
+  };
+
+  const handleFixAll = () => {
+    const fixed = diagnostics.reduce((current, d) => (d.fix ? d.fix.apply(current) : current), files);
+    onWorkspaceUpdate({ ...workspace, files: fixed }, 'Fixed all problems');
+  };
+
   const handleContentChange = (newContent: string) => {
     if (!selectedFile) return;
     const updatedFiles = files.map((f) =>
       f.path === selectedFile.path ? { ...f, content: newContent } : f
     );
-    onFilesUpdate(updatedFiles);
+    onWorkspaceUpdate({ ...workspace, files: updatedFiles }, `Edited ${selectedFile.path}`);
   };
   
-  if (files.length === 0) {
-    return (
-        <div className="flex-grow flex items-center justify-center bg-[var(--bg-app)] text-[var(--text-secondary)]">
-            <div className="text-center p-8">
-                <h2 className="text-2xl font-bold text-[var(--text-primary)]">No Addon Loaded</h2>
-                <p className="mt-2">Use a tool like Create, Combine, or Fix to generate files.</p>
-                <p className="mt-1 text-sm">Your addon's file structure will appear here.</p>
-            </div>
-        </div>
-    )
-  }
+  const explorer = (
+    <FileExplorer
+        files={files}
+        assetPaths={assetPaths}
+        selectedFile={selectedFile}
+        selectedAssetPath={selectedAssetPath}
+        onSelectFile={handleSelectFile}
+        onSelectAsset={handleSelectAsset}
+        onCreateFile={handleCreateFile}
+        onMovePath={handleMovePath}
+        onDeletePath={handleDeletePath}
+        onUploadFiles={handleUploadFiles}
+    />
+  );
 
   // --- Mobile View ---
   if (isMobile) {
@@ -82,12 +228,10 @@ const ExplorerView: React.FC<ExplorerViewProps> = ({
         {isExplorerVisible ? (
           <div className="w-full bg-[var(--bg-panel-secondary)] flex flex-col flex-grow">
             <div className="flex-grow overflow-y-auto">
-              <FileExplorer
-                  files={files}
-                  selectedFile={selectedFile}
-                  onSelectFile={handleSelectFile}
-              />
+              {explorer}
             </div>
+            <HistoryTimeline history={history} onUndo={onUndo} onRedo={onRedo} onRestore={onRestoreHistory} />
+            <ProblemsPanel diagnostics={diagnostics} onSelectFile={handleSelectPath} onApplyFix={handleApplyFix} onFixAll={handleFixAll} />
             <div className="p-4 border-t border-[var(--border-primary)] flex-shrink-0">
               <DownloadButton
                   files={files}
@@ -98,6 +242,18 @@ const ExplorerView: React.FC<ExplorerViewProps> = ({
               />
             </div>
           </div>
+        ) : selectedAssetPath ? (
+          <>
+            <div className="flex-shrink-0 p-2 border-b border-[var(--border-primary)] text-sm text-[var(--text-secondary)] flex items-center gap-2">
+              <button onClick={() => setIsExplorerVisible(true)} className="p-1 rounded hover:bg-[var(--bg-hover)]">
+                &lt; Back
+              </button>
+              <span>{selectedAssetPath}</span>
+            </div>
+            <div className="flex-grow relative">
+              <AssetPreview path={selectedAssetPath} file={selectedAssetMapping ? resolveAssetFile(uploadedFiles, selectedAssetMapping) : null} />
+            </div>
+          </>
         ) : selectedFile ? (
           <>
             <div className="flex-shrink-0 p-2 border-b border-[var(--border-primary)] text-sm text-[var(--text-secondary)] flex items-center gap-2">
@@ -109,7 +265,7 @@ const ExplorerView: React.FC<ExplorerViewProps> = ({
             <div className="flex-grow relative">
               <CodeEditor
                   key={selectedFile.path}
-                  file={selectedFile}
+                  file={currentFile!}
                   onContentChange={handleContentChange}
               />
             </div>
@@ -124,12 +280,9 @@ const ExplorerView: React.FC<ExplorerViewProps> = ({
     <div className="flex flex-grow h-full overflow-hidden">
       <div className="w-64 flex-shrink-0 bg-[var(--bg-panel-secondary)] border-r border-[var(--border-primary)] flex flex-col">
         <div className="flex-grow overflow-y-auto">
-            <FileExplorer
-                files={files}
-                selectedFile={selectedFile}
-                onSelectFile={handleSelectFile}
-            />
+            {explorer}
         </div>
+        <HistoryTimeline history={history} onUndo={onUndo} onRedo={onRedo} onRestore={onRestoreHistory} />
         <div className="p-4 border-t border-[var(--border-primary)] flex-shrink-0">
              <DownloadButton
                 files={files}
@@ -149,16 +302,34 @@ const ExplorerView: React.FC<ExplorerViewProps> = ({
                 <div className="flex-grow relative">
                     <CodeEditor
                         key={selectedFile.path}
-                        file={selectedFile}
+                        file={currentFile!}
                         onContentChange={handleContentChange}
                     />
                 </div>
             </>
+        ) : selectedAssetPath ? (
+            <>
+                <div className="flex-shrink-0 p-2 border-b border-[var(--border-primary)] text-sm text-[var(--text-secondary)]">
+                    {selectedAssetPath}
+                </div>
+                <div className="flex-grow relative">
+                    <AssetPreview path={selectedAssetPath} file={selectedAssetMapping ? resolveAssetFile(uploadedFiles, selectedAssetMapping) : null} />
+                </div>
+            </>
+        ) : files.length === 0 ? (
+          <div className="flex-grow flex items-center justify-center text-[var(--text-secondary)]">
+            <div className="text-center p-8">
+                <h2 className="text-2xl font-bold text-[var(--text-primary)]">No Addon Loaded</h2>
+                <p className="mt-2">Use a tool like Create, Combine, or Fix to generate files, or add them in the explorer.</p>
+                <p className="mt-1 text-sm">Your addon's file structure will appear here.</p>
+            </div>
+          </div>
         ) : (
           <div className="flex items-center justify-center h-full text-[var(--text-secondary)]">
             Select a file to view its content
           </div>
         )}
+        <ProblemsPanel diagnostics={diagnostics} onSelectFile={handleSelectPath} onApplyFix={handleApplyFix} onFixAll={handleFixAll} />
       </div>
     </div>
   );
@@ -1,16 +1,25 @@
-import React, { useMemo, useState, useEffect } from 'react';
+import React, { useMemo, useState, useEffect, useRef } from 'react';
 import { GeneratedFile } from '../types';
+import { ReferenceUpdate, normalizePath, pathExists, getPathRenames, findReferenceUpdates } from '../utils/fileOperations';
 
 interface FileExplorerProps {
   files: GeneratedFile[];
+  assetPaths?: string[];
   selectedFile: GeneratedFile | null;
+  selectedAssetPath?: string | null;
   onSelectFile: (file: GeneratedFile) => void;
+  onSelectAsset?: (path: string) => void;
+  onCreateFile?: (path: string) => void;
+  onMovePath?: (from: string, to: string, rewriteReferences: boolean) => void;
+  onDeletePath?: (path: string) => void;
+  onUploadFiles?: (folder: string, files: File[]) => void;
 }
 
 // Tree node structure used internally
 interface TreeNode {
   name: string;
   file?: GeneratedFile;
+  assetPath?: string;
   children?: Tree;
 }
 interface Tree {
@@ -49,39 +58,110 @@ const FileIcon: React.FC<{ name: string; }> = ({ name }) => {
 };
 
 
-const FileExplorer: React.FC<FileExplorerProps> = ({ files, selectedFile, onSelectFile }) => {
+type ExplorerDialog =
+  | { kind: 'create'; type: 'file' | 'folder'; parent: string }
+  | { kind: 'rename'; path: string; isFolder: boolean }
+  | { kind: 'delete'; path: string; isFolder: boolean }
+  | { kind: 'references'; from: string; to: string; updates: ReferenceUpdate[] };
+
+interface ContextMenuState {
+  x: number;
+  y: number;
+  path: string; // '' is the root of the tree
+  isFolder: boolean;
+}
+
+const joinPath = (folder: string, name: string) => (folder ? `${folder}/${name}` : name);
+const parentOf = (path: string) => path.split('/').slice(0, -1).join('/');
+
+const DialogShell: React.FC<{ title: string; children: React.ReactNode; onClose: () => void }> = ({ title, children, onClose }) => (
+  <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/50 p-4" onMouseDown={onClose}>
+    <div className="w-full max-w-md bg-[var(--bg-panel)] border border-[var(--border-primary)] rounded-lg shadow-xl p-4 flex flex-col gap-3" onMouseDown={e => e.stopPropagation()}>
+      <h3 className="font-semibold text-[var(--text-primary)]">{title}</h3>
+      {children}
+    </div>
+  </div>
+);
+
+const dialogButtonClass = "text-sm px-3 py-1.5 rounded-md bg-[var(--bg-input)] border border-[var(--border-primary)] hover:bg-[var(--bg-active)]";
+const dialogPrimaryButtonClass = "text-sm px-3 py-1.5 rounded-md font-semibold text-white bg-[var(--accent-primary)] hover:bg-[var(--accent-hover)]";
+
+const FileExplorer: React.FC<FileExplorerProps> = ({
+  files,
+  assetPaths = [],
+  selectedFile,
+  selectedAssetPath,
+  onSelectFile,
+  onSelectAsset,
+  onCreateFile,
+  onMovePath,
+  onDeletePath,
+  onUploadFiles,
+}) => {
   const [openFolders, setOpenFolders] = useState(new Set<string>());
+  // Folders only exist through the paths of their files, so new empty folders are kept here until something is put in them.
+  const [emptyFolders, setEmptyFolders] = useState<string[]>([]);
+  const [contextMenu, setContextMenu] = useState<ContextMenuState | null>(null);
+  const [dialog, setDialog] = useState<ExplorerDialog | null>(null);
+  const [dialogValue, setDialogValue] = useState('');
+  const [dialogError, setDialogError] = useState('');
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+  const uploadFolderRef = useRef('');
+
+  const canEdit = !!(onCreateFile && onMovePath && onDeletePath);
+  const allPaths = useMemo(() => [...files.map(f => f.path), ...assetPaths], [files, assetPaths]);
+
+  useEffect(() => {
+    setEmptyFolders(prev => prev.filter(folder => !pathExists(allPaths, folder)));
+  }, [allPaths]);
 
   const fileTree = useMemo(() => {
     const tree: Tree = {};
 
-    files.forEach(file => {
+    const addPath = (path: string, leaf: Omit<TreeNode, 'name'> | null) => {
       let currentLevel = tree;
-      const pathParts = file.path.split('/');
+      const pathParts = path.split('/');
       pathParts.forEach((part, index) => {
-        if (index < pathParts.length - 1) { // It's a folder
+        if (index < pathParts.length - 1 || !leaf) { // It's a folder
           if (!currentLevel[part]) {
             currentLevel[part] = { name: part, children: {} };
           }
           currentLevel = currentLevel[part].children!;
         } else { // It's a file
-          currentLevel[part] = { name: part, file };
+          currentLevel[part] = { name: part, ...leaf };
         }
       });
-    });
+    };
+
+    files.forEach(file => addPath(file.path, { file }));
+    assetPaths.forEach(assetPath => addPath(assetPath, { assetPath }));
+    emptyFolders.forEach(folder => addPath(folder, null));
     return tree;
-  }, [files]);
+  }, [files, assetPaths, emptyFolders]);
 
   useEffect(() => {
     const initialOpenFolders = new Set<string>();
-    files.forEach(file => {
-        const pathParts = file.path.split('/');
+    allPaths.forEach(path => {
+        const pathParts = path.split('/');
         for (let i = 1; i < pathParts.length; i++) {
             initialOpenFolders.add(pathParts.slice(0, i).join('/'));
         }
     });
-    setOpenFolders(initialOpenFolders);
-}, [files]);
+    setOpenFolders(prev => new Set([...initialOpenFolders, ...[...prev].filter(folder => emptyFolders.includes(folder))]));
+}, [allPaths]);
+
+  useEffect(() => {
+    if (!contextMenu) return;
+    const close = () => setContextMenu(null);
+    const closeOnEscape = (e: KeyboardEvent) => { if (e.key === 'Escape') close(); };
+    window.addEventListener('click', close);
+    window.addEventListener('keydown', closeOnEscape);
+    return () => {
+      window.removeEventListener('click', close);
+      window.removeEventListener('keydown', closeOnEscape);
+    };
+  }, [contextMenu]);
 
   const toggleFolder = (path: string) => {
     setOpenFolders(prev => {
@@ -95,6 +175,126 @@ const FileExplorer: React.FC<FileExplorerProps> = ({ files, selectedFile, onSele
     });
   };
 
+  const openDialog = (next: ExplorerDialog, initialValue: string = '') => {
+    setContextMenu(null);
+    setDialog(next);
+    setDialogValue(initialValue);
+    setDialogError('');
+  };
+
+  const closeDialog = () => setDialog(null);
+
+  const handleContextMenu = (e: React.MouseEvent, path: string, isFolder: boolean) => {
+    if (!canEdit) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setContextMenu({ x: e.clientX, y: e.clientY, path, isFolder });
+  };
+
+  const startUpload = (folder: string) => {
+    setContextMenu(null);
+    uploadFolderRef.current = folder;
+    uploadInputRef.current?.click();
+  };
+
+  const handleUploadInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      onUploadFiles?.(uploadFolderRef.current, Array.from(e.target.files));
+    }
+    e.target.value = '';
+  };
+
+  /**
+   * Moves a path, first asking whether references should be rewritten when other files point at it.
+   */
+  const requestMove = (from: string, to: string) => {
+    if (from === to) return;
+    if (emptyFolders.includes(from)) {
+      setEmptyFolders(prev => prev.map(folder => (folder === from ? to : folder)));
+      return;
+    }
+    const updates = findReferenceUpdates(files, allPaths, getPathRenames(allPaths, from, to));
+    if (updates.length > 0) {
+      openDialog({ kind: 'references', from, to, updates });
+    } else {
+      onMovePath?.(from, to, false);
+    }
+  };
+
+  /** Returns an error message if `to` can't be used as the new location of `from`, or '' if it can. */
+  const validateTarget = (to: string | null, from?: string) => {
+    if (!to) return 'Enter a valid path.';
+    if (from && (to === from || to.startsWith(`${from}/`))) return to === from ? '' : 'A folder cannot be moved into itself.';
+    if (pathExists(allPaths, to) || emptyFolders.includes(to)) return `"${to}" already exists.`;
+    if (files.some(f => to.startsWith(`${f.path}/`)) || assetPaths.some(p => to.startsWith(`${p}/`))) return 'A file cannot contain other files.';
+    return '';
+  };
+
+  const handleDialogSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!dialog) return;
+
+    if (dialog.kind === 'create') {
+      const path = normalizePath(joinPath(dialog.parent, dialogValue));
+      const error = validateTarget(path);
+      if (error) return setDialogError(error);
+      if (dialog.type === 'file') {
+        onCreateFile?.(path!);
+      } else {
+        setEmptyFolders(prev => [...prev, path!]);
+      }
+      setOpenFolders(prev => new Set([...prev, ...path!.split('/').slice(0, dialog.type === 'file' ? -1 : undefined).map((_, i, parts) => parts.slice(0, i + 1).join('/'))]));
+      closeDialog();
+    } else if (dialog.kind === 'rename') {
+      const path = normalizePath(dialogValue);
+      const error = validateTarget(path, dialog.path);
+      if (error) return setDialogError(error);
+      closeDialog();
+      requestMove(dialog.path, path!);
+    } else if (dialog.kind === 'delete') {
+      if (emptyFolders.some(folder => folder === dialog.path || folder.startsWith(`${dialog.path}/`))) {
+        setEmptyFolders(prev => prev.filter(folder => folder !== dialog.path && !folder.startsWith(`${dialog.path}/`)));
+      }
+      onDeletePath?.(dialog.path);
+      closeDialog();
+    }
+  };
+
+  const handleDragStart = (e: React.DragEvent, path: string) => {
+    e.dataTransfer.setData('application/x-addon-path', path);
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const handleDragOver = (e: React.DragEvent, folder: string) => {
+    if (!canEdit) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setDropTarget(folder);
+  };
+
+  const handleDrop = (e: React.DragEvent, folder: string) => {
+    if (!canEdit) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setDropTarget(null);
+
+    if (e.dataTransfer.files.length > 0) {
+      onUploadFiles?.(folder, Array.from(e.dataTransfer.files));
+      return;
+    }
+    const from = e.dataTransfer.getData('application/x-addon-path');
+    if (!from) return;
+    const to = joinPath(folder, from.split('/').pop()!);
+    if (to === from) return;
+    const error = validateTarget(to, from);
+    if (error) {
+      openDialog({ kind: 'rename', path: from, isFolder: !files.some(f => f.path === from) && !assetPaths.includes(from) }, to);
+      setDialogError(error);
+      return;
+    }
+    requestMove(from, to);
+  };
+
   const renderTree = (tree: Tree, pathPrefix: string = '', level: number = 0) => {
     const entries = Object.values(tree).sort((a, b) => {
         if (a.children && !b.children) return -1;
@@ -112,7 +312,13 @@ const FileExplorer: React.FC<FileExplorerProps> = ({ files, selectedFile, onSele
           <div key={currentPath}>
             <div
               onClick={() => toggleFolder(currentPath)}
-              className="flex items-center gap-1 py-0.5 rounded-md cursor-pointer hover:bg-[var(--bg-hover)]"
+              onContextMenu={e => handleContextMenu(e, currentPath, true)}
+              draggable={canEdit}
+              onDragStart={e => handleDragStart(e, currentPath)}
+              onDragOver={e => handleDragOver(e, currentPath)}
+              onDragLeave={() => setDropTarget(null)}
+              onDrop={e => handleDrop(e, currentPath)}
+              className={`flex items-center gap-1 py-0.5 rounded-md cursor-pointer ${dropTarget === currentPath ? 'bg-[var(--bg-active)] ring-1 ring-[var(--accent-primary)]' : 'hover:bg-[var(--bg-hover)]'}`}
               style={{ paddingLeft: `${level * 12}px` }}
             >
               <ChevronIcon isOpen={isOpen} />
@@ -123,35 +329,151 @@ const FileExplorer: React.FC<FileExplorerProps> = ({ files, selectedFile, onSele
           </div>
         );
       } else {
+        const isSelected = node.file ? selectedFile?.path === node.file.path : selectedAssetPath === node.assetPath;
         return (
           <div
             key={currentPath}
-            onClick={() => onSelectFile(node.file!)}
+            onClick={() => (node.file ? onSelectFile(node.file) : onSelectAsset?.(node.assetPath!))}
+            onContextMenu={e => handleContextMenu(e, currentPath, false)}
+            draggable={canEdit}
+            onDragStart={e => handleDragStart(e, currentPath)}
+            onDragOver={e => handleDragOver(e, parentOf(currentPath))}
+            onDrop={e => handleDrop(e, parentOf(currentPath))}
             title={currentPath}
-            className={`flex items-center gap-1.5 py-0.5 rounded-md cursor-pointer ${selectedFile?.path === node.file?.path ? 'bg-[var(--bg-active)]' : 'hover:bg-[var(--bg-hover)]'}`}
+            className={`flex items-center gap-1.5 py-0.5 rounded-md cursor-pointer ${isSelected ? 'bg-[var(--bg-active)]' : 'hover:bg-[var(--bg-hover)]'}`}
             style={{ paddingLeft: `${(level * 12) + 16}px` }}
           >
             <FileIcon name={node.name} />
-            <span className={`text-sm truncate ${selectedFile?.path === node.file?.path ? 'text-[var(--text-primary)]' : 'text-[var(--text-secondary)]'}`}>{node.name}</span>
+            <span className={`text-sm truncate ${isSelected ? 'text-[var(--text-primary)]' : 'text-[var(--text-secondary)]'} ${node.assetPath ? 'italic' : ''}`}>{node.name}</span>
           </div>
         );
       }
     });
   };
 
-  if (files.length === 0) {
+  const renderDialog = () => {
+    if (!dialog) return null;
+
+    if (dialog.kind === 'references') {
+      const total = dialog.updates.reduce((sum, u) => sum + u.count, 0);
+      const finish = (rewriteReferences: boolean) => {
+        onMovePath?.(dialog.from, dialog.to, rewriteReferences);
+        closeDialog();
+      };
+      return (
+        <DialogShell title="Update references?" onClose={closeDialog}>
+          <p className="text-sm text-[var(--text-secondary)]">
+            Moving <span className="font-mono text-[var(--text-primary)]">{dialog.from}</span> to <span className="font-mono text-[var(--text-primary)]">{dialog.to}</span> breaks {total} {total === 1 ? 'reference' : 'references'} in:
+          </p>
+          <ul className="max-h-40 overflow-y-auto text-xs font-mono text-[var(--text-secondary)] bg-[var(--bg-input)] rounded-md p-2">
+            {dialog.updates.map(update => <li key={update.path}>{update.path} ({update.count})</li>)}
+          </ul>
+          <div className="flex justify-end gap-2">
+            <button onClick={closeDialog} className={dialogButtonClass}>Cancel</button>
+            <button onClick={() => finish(false)} className={dialogButtonClass}>Move Only</button>
+            <button onClick={() => finish(true)} className={dialogPrimaryButtonClass}>Move and Update</button>
+          </div>
+        </DialogShell>
+      );
+    }
+
+    if (dialog.kind === 'delete') {
+      return (
+        <DialogShell title={`Delete ${dialog.isFolder ? 'folder' : 'file'}?`} onClose={closeDialog}>
+          <form onSubmit={handleDialogSubmit} className="flex flex-col gap-3">
+            <p className="text-sm text-[var(--text-secondary)]">
+              <span className="font-mono text-[var(--text-primary)]">{dialog.path}</span>{dialog.isFolder && ' and everything in it'} will be removed from the addon.
+            </p>
+            <div className="flex justify-end gap-2">
+              <button type="button" onClick={closeDialog} className={dialogButtonClass}>Cancel</button>
+              <button type="submit" autoFocus className="text-sm px-3 py-1.5 rounded-md font-semibold text-white bg-red-600 hover:bg-red-700">Delete</button>
+            </div>
+          </form>
+        </DialogShell>
+      );
+    }
+
+    const title = dialog.kind === 'create' ? `New ${dialog.type === 'file' ? 'File' : 'Folder'}${dialog.parent ? ` in ${dialog.parent}` : ''}` : 'Rename or Move';
     return (
-      <div className="p-4 text-center text-sm text-[var(--text-secondary)]">
-        No files generated yet.
-      </div>
+      <DialogShell title={title} onClose={closeDialog}>
+        <form onSubmit={handleDialogSubmit} className="flex flex-col gap-3">
+          <input
+            autoFocus
+            value={dialogValue}
+            onChange={e => { setDialogValue(e.target.value); setDialogError(''); }}
+            onKeyDown={e => { if (e.key === 'Escape') closeDialog(); }}
+            placeholder={dialog.kind === 'create' ? (dialog.type === 'file' ? 'e.g. my_item.json' : 'e.g. loot_tables') : 'Full path'}
+            className="w-full bg-[var(--bg-input)] border border-[var(--border-primary)] rounded-lg p-2 text-sm font-mono text-[var(--text-primary)] outline-none focus:ring-2 focus:ring-[var(--accent-primary)]"
+          />
+          {dialog.kind === 'rename' && <p className="text-xs text-[var(--text-tertiary)]">Change the folder part of the path to move it.</p>}
+          {dialogError && <p className="text-xs text-[var(--notification-error-text)]">{dialogError}</p>}
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={closeDialog} className={dialogButtonClass}>Cancel</button>
+            <button type="submit" className={dialogPrimaryButtonClass}>{dialog.kind === 'create' ? 'Create' : 'Rename'}</button>
+          </div>
+        </form>
+      </DialogShell>
     );
-  }
+  };
+
+  const renderContextMenu = () => {
+    if (!contextMenu) return null;
+    const { path, isFolder } = contextMenu;
+    const items: { label: string; action: () => void; danger?: boolean }[] = [];
+    if (isFolder) {
+      items.push(
+        { label: 'New File', action: () => openDialog({ kind: 'create', type: 'file', parent: path }) },
+        { label: 'New Folder', action: () => openDialog({ kind: 'create', type: 'folder', parent: path }) },
+      );
+      if (onUploadFiles) items.push({ label: 'Upload Files...', action: () => startUpload(path) });
+    }
+    if (path) {
+      items.push(
+        { label: 'Rename / Move', action: () => openDialog({ kind: 'rename', path, isFolder }, path) },
+        { label: 'Delete', action: () => openDialog({ kind: 'delete', path, isFolder }), danger: true },
+      );
+    }
+    return (
+      <ul
+        className="fixed z-30 min-w-[10rem] py-1 bg-[var(--bg-panel)] border border-[var(--border-primary)] rounded-md shadow-lg text-sm"
+        style={{ top: contextMenu.y, left: contextMenu.x }}
+        onClick={e => e.stopPropagation()}
+      >
+        {items.map(item => (
+          <li key={item.label}>
+            <button onClick={item.action} className={`w-full text-left px-3 py-1.5 hover:bg-[var(--bg-hover)] ${item.danger ? 'text-red-400' : 'text-[var(--text-primary)]'}`}>
+              {item.label}
+            </button>
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  const toolbar = canEdit && (
+    <div className="flex items-center justify-end gap-1 px-1 pb-1 mb-1 border-b border-[var(--border-primary)] text-xs">
+      <button onClick={() => openDialog({ kind: 'create', type: 'file', parent: '' })} title="New file" className="px-1.5 py-0.5 rounded hover:bg-[var(--bg-hover)] text-[var(--text-secondary)]">+ File</button>
+      <button onClick={() => openDialog({ kind: 'create', type: 'folder', parent: '' })} title="New folder" className="px-1.5 py-0.5 rounded hover:bg-[var(--bg-hover)] text-[var(--text-secondary)]">+ Folder</button>
+      {onUploadFiles && <button onClick={() => startUpload('')} title="Upload files" className="px-1.5 py-0.5 rounded hover:bg-[var(--bg-hover)] text-[var(--text-secondary)]">Upload</button>}
+    </div>
+  );
 
   return (
-    <div className="p-2 flex flex-col gap-0.5">
-      {renderTree(fileTree)}
+    <div
+      className={`p-2 flex flex-col gap-0.5 min-h-full ${dropTarget === '' ? 'bg-[var(--bg-hover)]' : ''}`}
+      onContextMenu={e => handleContextMenu(e, '', true)}
+      onDragOver={e => handleDragOver(e, '')}
+      onDrop={e => handleDrop(e, '')}
+    >
+      {toolbar}
+      {allPaths.length === 0 && emptyFolders.length === 0 ? (
+        <p className="p-4 text-center text-sm text-[var(--text-secondary)]">No files generated yet.</p>
+      ) : renderTree(fileTree)}
+      <input ref={uploadInputRef} type="file" multiple className="hidden" onChange={handleUploadInput} />
+      {renderContextMenu()}
+      {renderDialog()}
     </div>
   );
 };
 
-export default FileExplorer;
\ No newline at end of file
+export default FileExplorer;
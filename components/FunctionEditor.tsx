@@ -0,0 +1,427 @@
+import React, { useState, useRef, useMemo } from 'react';
+import { GeneratedFile } from '../types';
+import { useNotification } from '../contexts/NotificationContext';
+import { BP_ROOT } from '../utils/addonTemplates';
+import { findPacks } from '../utils/packs';
+import { CommandDiagnostic, CommandSuggestion, lintFunction, suggestCommand } from '../utils/commands';
+import { functionPath, tickJsonPath, readFunctions, readTickJson, buildTickJson, isValidFunctionName, buildCallGraph } from '../utils/functions';
+import { FUNCTION_SNIPPETS, FunctionSnippet } from '../data/functionSnippets';
+import SyntaxHighlighter from './SyntaxHighlighter';
+import CommandDiagnosticsList from './CommandDiagnosticsList';
+
+interface FunctionEditorProps {
+    files: GeneratedFile[];
+    onFilesUpdate: (files: GeneratedFile[], label: string) => void;
+}
+
+// Call graph layout, in pixels.
+const NODE_WIDTH = 150;
+const NODE_HEIGHT = 28;
+const COLUMN_GAP = 60;
+const ROW_GAP = 14;
+const GRAPH_PADDING = 12;
+
+const inputClass = "w-full bg-[var(--bg-input)] border border-[var(--border-primary)] rounded-lg p-1.5 text-sm";
+
+const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+    <h4 className="pt-2 text-xs font-semibold uppercase tracking-wide text-[var(--text-tertiary)] border-t border-[var(--border-primary)]">{children}</h4>
+);
+
+/** Boxes for each function with arrows for the `function` commands between them. */
+const CallGraph: React.FC<{ functions: { [name: string]: string }; tick: string[]; selected: string | null; onSelect: (name: string) => void }> = ({ functions, tick, selected, onSelect }) => {
+    const { nodes, edges } = useMemo(() => buildCallGraph(functions, tick), [functions, tick]);
+    if (nodes.length === 0) {
+        return <p className="text-sm text-[var(--text-tertiary)]">Add a function to see which functions call each other.</p>;
+    }
+
+    const positions = new Map(nodes.map(node => [node.name, {
+        x: GRAPH_PADDING + node.depth * (NODE_WIDTH + COLUMN_GAP),
+        y: GRAPH_PADDING + node.row * (NODE_HEIGHT + ROW_GAP),
+    }]));
+    const width = GRAPH_PADDING * 2 + (Math.max(...nodes.map(n => n.depth)) + 1) * (NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP;
+    const height = GRAPH_PADDING * 2 + (Math.max(...nodes.map(n => n.row)) + 1) * (NODE_HEIGHT + ROW_GAP) - ROW_GAP;
+
+    const edgePath = (from: { x: number; y: number }, to: { x: number; y: number }, self: boolean) => {
+        if (self) {
+            // A function calling itself loops over the top of its box.
+            const x = from.x + NODE_WIDTH - 30;
+            return `M ${x} ${from.y} C ${x - 10} ${from.y - 24}, ${x + 30} ${from.y - 24}, ${x + 20} ${from.y}`;
+        }
+        const x1 = from.x + NODE_WIDTH;
+        const y1 = from.y + NODE_HEIGHT / 2;
+        const x2 = to.x;
+        const y2 = to.y + NODE_HEIGHT / 2;
+        const bend = Math.max(40, Math.abs(x2 - x1) / 2);
+        return `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`;
+    };
+
+    return (
+        <div className="overflow-auto">
+            <svg width={width} height={height + GRAPH_PADDING} className="font-mono text-xs">
+                <defs>
+                    <marker id="call-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                        <path d="M 0 0 L 10 5 L 0 10 z" fill="var(--text-tertiary)" />
+                    </marker>
+                    <marker id="call-arrow-loop" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                        <path d="M 0 0 L 10 5 L 0 10 z" fill="#f87171" />
+                    </marker>
+                </defs>
+                {edges.map(edge => (
+                    <path
+                        key={`${edge.from}>${edge.to}`}
+                        d={edgePath(positions.get(edge.from)!, positions.get(edge.to)!, edge.from === edge.to)}
+                        fill="none"
+                        stroke={edge.recursive ? '#f87171' : 'var(--text-tertiary)'}
+                        strokeWidth={1.5}
+                        strokeDasharray={edge.conditional ? '4 3' : undefined}
+                        markerEnd={edge.recursive ? 'url(#call-arrow-loop)' : 'url(#call-arrow)'}
+                    >
+                        <title>{`${edge.from} → ${edge.to}${edge.conditional ? ' (only sometimes, inside execute)' : ''}${edge.recursive ? ' (part of a loop)' : ''}`}</title>
+                    </path>
+                ))}
+                {nodes.map(node => {
+                    const { x, y } = positions.get(node.name)!;
+                    const label = `${tick.includes(node.name) ? '⏱ ' : ''}${node.name}`;
+                    return (
+                        <g key={node.name} onClick={() => !node.missing && onSelect(node.name)} className={node.missing ? '' : 'cursor-pointer'}>
+                            <title>{node.missing ? `${node.name} is called, but there's no file for it.` : node.name}</title>
+                            <rect
+                                x={x} y={y} width={NODE_WIDTH} height={NODE_HEIGHT} rx={6}
+                                fill={node.name === selected ? 'var(--bg-active)' : 'var(--bg-input)'}
+                                stroke={node.missing ? '#f87171' : node.name === selected ? 'var(--accent-primary)' : 'var(--border-primary)'}
+                                strokeDasharray={node.missing ? '4 3' : undefined}
+                            />
+                            <text x={x + 8} y={y + NODE_HEIGHT / 2} dominantBaseline="central" fill={node.missing ? '#f87171' : 'var(--text-primary)'}>
+                                {label.length > 20 ? `${label.slice(0, 19)}…` : label}
+                            </text>
+                        </g>
+                    );
+                })}
+            </svg>
+            <p className="mt-1 text-xs text-[var(--text-tertiary)]">Dashed arrows only run under an execute condition. Red arrows are part of a loop.</p>
+        </div>
+    );
+};
+
+/**
+ * Edits the behavior pack's functions by hand: a tree of every .mcfunction file, the tick.json list,
+ * a call graph, command completion and snippets. Changes stay local until they're saved to the project.
+ */
+const FunctionEditor: React.FC<FunctionEditorProps> = ({ files, onFilesUpdate }) => {
+    const packRoot = findPacks(files).find(pack => pack.kind === 'behavior')?.root ?? BP_ROOT;
+    const savedFunctions = useMemo(() => readFunctions(files, packRoot), [files, packRoot]);
+    const savedTickContent = files.find(f => f.path === tickJsonPath(packRoot))?.content;
+    const savedTick = useMemo(() => (savedTickContent === undefined ? [] : readTickJson(savedTickContent)), [savedTickContent]);
+
+    // Only unsaved edits are kept here, on top of whatever the project holds now, so undo and AI edits
+    // to other functions show up straight away. A null edit deletes the function.
+    const [edits, setEdits] = useState<{ [name: string]: string | null }>({});
+    const [tickEdit, setTickEdit] = useState<string[] | null>(null);
+    const [openName, setOpenName] = useState<string | null>(() => Object.keys(savedFunctions).sort()[0] ?? null);
+    const [newName, setNewName] = useState('');
+    const [cursor, setCursor] = useState(0);
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const preRef = useRef<HTMLPreElement>(null);
+    const { addNotification } = useNotification();
+
+    const functions = useMemo(() => {
+        const merged = { ...savedFunctions };
+        for (const [name, value] of Object.entries(edits)) {
+            if (value === null) delete merged[name];
+            else merged[name] = value;
+        }
+        return merged;
+    }, [savedFunctions, edits]);
+    const tick = tickEdit ?? savedTick ?? [];
+    const selected = openName !== null && openName in functions ? openName : null;
+    const names = useMemo(() => Object.keys(functions).sort(), [functions]);
+    const content = selected !== null ? functions[selected] ?? '' : '';
+    const diagnostics = useMemo(() => (selected !== null ? lintFunction(content, { functions: new Set(names) }) : []), [content, names, selected]);
+    const removed = Object.keys(savedFunctions).filter(name => !(name in functions));
+    const changed = names.filter(name => functions[name] !== savedFunctions[name]);
+    const tickChanged = JSON.stringify(tick) !== JSON.stringify(savedTick ?? []);
+    const hasChanges = removed.length > 0 || changed.length > 0 || tickChanged;
+
+    // Completion for the line the caret is on.
+    const lineStart = content.lastIndexOf('\n', cursor - 1) + 1;
+    const lineEnd = content.indexOf('\n', cursor) === -1 ? content.length : content.indexOf('\n', cursor);
+    const line = content.slice(lineStart, lineEnd);
+    const completion = useMemo(
+        () => (selected === null || line.trim().startsWith('#') ? null : suggestCommand(line, cursor - lineStart, { functions: names })),
+        [line, cursor, lineStart, names, selected],
+    );
+
+    const updateContent = (value: string) => {
+        if (selected === null) return;
+        setEdits(prev => ({ ...prev, [selected]: value }));
+    };
+
+    const replaceRange = (from: number, to: number, text: string) => {
+        updateContent(content.slice(0, from) + text + content.slice(to));
+        const caret = from + text.length;
+        setCursor(caret);
+        requestAnimationFrame(() => {
+            textareaRef.current?.focus();
+            textareaRef.current?.setSelectionRange(caret, caret);
+        });
+    };
+
+    const applySuggestion = (suggestion: CommandSuggestion) => {
+        if (!completion) return;
+        replaceRange(lineStart + completion.from, lineStart + completion.to, suggestion.text.endsWith('=') ? suggestion.text : `${suggestion.text} `);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        // Tab finishes a word that's been started; otherwise it's left alone so focus can move on.
+        if (e.key === 'Tab' && !e.shiftKey && completion && completion.from < completion.to && completion.suggestions.length > 0) {
+            e.preventDefault();
+            applySuggestion(completion.suggestions[0]);
+        }
+    };
+
+    const handleScroll = () => {
+        if (preRef.current && textareaRef.current) {
+            preRef.current.scrollTop = textareaRef.current.scrollTop;
+            preRef.current.scrollLeft = textareaRef.current.scrollLeft;
+        }
+    };
+
+    const syncCursor = () => setCursor(textareaRef.current?.selectionStart ?? 0);
+
+    const openFunction = (name: string) => {
+        setOpenName(name);
+        setCursor(0);
+    };
+
+    const insertSnippet = (snippet: FunctionSnippet) => {
+        if (selected === null) return;
+        const text = snippet.content.replace(/\{\{function\}\}/g, selected);
+        // Snippets go on their own lines after the caret's line.
+        const before = line.trim() ? '\n' : '';
+        const after = lineEnd < content.length || !line.trim() ? '' : '\n';
+        replaceRange(lineEnd, lineEnd, `${before}${text}${after}`);
+        if (snippet.everyTick && !tick.includes(selected)) {
+            addNotification('info', `${snippet.name} only works when ${selected} runs every tick. Use ⏱ to add it to tick.json.`);
+        }
+    };
+
+    const handleCreate = () => {
+        const name = newName.trim().replace(/\.mcfunction$/, '');
+        if (!isValidFunctionName(name)) {
+            addNotification('error', 'Function names can only use letters, numbers, underscores and dashes, with / between folders.');
+            return;
+        }
+        if (name in functions) {
+            addNotification('error', `There's already a function called ${name}.`);
+            return;
+        }
+        setEdits(prev => ({ ...prev, [name]: `# ${name}\n` }));
+        openFunction(name);
+        setNewName('');
+    };
+
+    const handleDelete = (name: string) => {
+        if (!window.confirm(`Delete ${name}? It's removed from the project when you save.`)) return;
+        setEdits(prev => ({ ...prev, [name]: null }));
+        updateTick(prev => prev.filter(t => t !== name));
+        if (selected === name) setOpenName(names.find(n => n !== name) ?? null);
+    };
+
+    const updateTick = (change: (tick: string[]) => string[]) => setTickEdit(prev => change(prev ?? savedTick ?? []));
+    const toggleTick = (name: string) => updateTick(prev => (prev.includes(name) ? prev.filter(t => t !== name) : [...prev, name]));
+    const moveTick = (index: number, offset: number) => updateTick(prev => {
+        const next = [...prev];
+        [next[index], next[index + offset]] = [next[index + offset], next[index]];
+        return next;
+    });
+
+    const handleSave = () => {
+        if (!hasChanges) {
+            addNotification('info', 'There are no changes to save.');
+            return;
+        }
+        const removedPaths = new Set(removed.map(name => functionPath(packRoot, name)));
+        const writes = new Map(changed.map(name => [functionPath(packRoot, name), functions[name]]));
+        const tickPath = tickJsonPath(packRoot);
+        if (tickChanged) writes.set(tickPath, buildTickJson(tick));
+
+        const updated = files
+            .filter(f => !removedPaths.has(f.path))
+            .map(f => (writes.has(f.path) ? { ...f, content: writes.get(f.path)! } : f));
+        writes.forEach((value, path) => {
+            if (!updated.some(f => f.path === path)) updated.push({ path, content: value });
+        });
+        onFilesUpdate(updated, changed.length === 1 && removed.length === 0 && !tickChanged ? `Function ${changed[0]}` : 'Functions');
+        setEdits({});
+        setTickEdit(null);
+
+        const errorCount = names.reduce((sum, name) => sum + lintFunction(functions[name]).filter(d => d.severity === 'error').length, 0);
+        addNotification(
+            errorCount > 0 ? 'info' : 'success',
+            errorCount > 0
+                ? `Functions saved. ${errorCount} command error${errorCount === 1 ? '' : 's'} will stop some of them from loading in game.`
+                : 'Functions saved to the project.',
+        );
+    };
+
+    const selectDiagnostic = (diagnostic: CommandDiagnostic) => {
+        const textarea = textareaRef.current;
+        if (!textarea) return;
+        const start = content.split('\n').slice(0, diagnostic.line - 1).reduce((sum, l) => sum + l.length + 1, 0);
+        textarea.focus();
+        textarea.setSelectionRange(start + diagnostic.start, start + Math.max(diagnostic.start, diagnostic.end));
+        setCursor(start + diagnostic.start);
+    };
+
+    const missingTick = tick.filter(name => !(name in functions));
+    const folders = [...new Set(names.map(name => name.includes('/') ? name.slice(0, name.lastIndexOf('/')) : ''))];
+
+    return (
+        <div className="flex flex-col gap-4">
+            <div className="flex gap-4 min-h-[480px]">
+                <div className="w-64 flex-shrink-0 flex flex-col gap-3 bg-[var(--bg-panel)] p-4 rounded-xl border border-[var(--border-primary)]">
+                    <h3 className="text-md font-bold">Functions</h3>
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            value={newName}
+                            onChange={e => setNewName(e.target.value)}
+                            onKeyDown={e => e.key === 'Enter' && handleCreate()}
+                            placeholder="folder/name"
+                            className={`${inputClass} font-mono`}
+                        />
+                        <button onClick={handleCreate} title="New function" className="px-2.5 text-sm font-semibold rounded-lg bg-[var(--bg-input)] hover:bg-[var(--bg-hover)]">+</button>
+                    </div>
+                    <div className="flex-grow overflow-y-auto space-y-2 text-sm font-mono">
+                        {names.length === 0 && <p className="font-sans text-[var(--text-tertiary)]">No functions yet.</p>}
+                        {folders.map(folder => (
+                            <div key={folder}>
+                                {folder && <p className="text-xs text-[var(--text-tertiary)]">📁 {folder}/</p>}
+                                {names.filter(name => (name.includes('/') ? name.slice(0, name.lastIndexOf('/')) : '') === folder).map(name => (
+                                    <div key={name} className={`group flex items-center gap-1 rounded ${folder ? 'pl-3' : ''} ${name === selected ? 'bg-[var(--bg-active)]' : 'hover:bg-[var(--bg-hover)]'}`}>
+                                        <button onClick={() => openFunction(name)} className="flex-grow min-w-0 truncate text-left px-1 py-0.5" title={functionPath(packRoot, name)}>
+                                            {name.slice(folder ? folder.length + 1 : 0)}
+                                            {name in savedFunctions ? (functions[name] !== savedFunctions[name] && <span className="text-[var(--accent-yellow)]" title="Unsaved changes"> •</span>) : <span className="text-[var(--accent-green)]" title="New"> •</span>}
+                                        </button>
+                                        <button
+                                            onClick={() => toggleTick(name)}
+                                            title={tick.includes(name) ? 'Stop running every tick' : 'Run every tick (tick.json)'}
+                                            className={`px-1 ${tick.includes(name) ? '' : 'opacity-30 group-hover:opacity-70'}`}
+                                        >
+                                            ⏱
+                                        </button>
+                                        <button onClick={() => handleDelete(name)} title="Delete function" className="px-1 text-[var(--text-tertiary)] opacity-0 group-hover:opacity-100 hover:text-red-400">✕</button>
+                                    </div>
+                                ))}
+                            </div>
+                        ))}
+                    </div>
+
+                    <SectionTitle>tick.json</SectionTitle>
+                    {savedTick === null && (
+                        <p className="text-xs text-[var(--accent-yellow)]">The project's tick.json can't be read. Saving a new list replaces it.</p>
+                    )}
+                    {tick.length === 0 ? (
+                        <p className="text-xs text-[var(--text-tertiary)]">Nothing runs every tick. Use ⏱ next to a function to add it.</p>
+                    ) : (
+                        <ol className="space-y-1 text-xs font-mono">
+                            {tick.map((name, index) => (
+                                <li key={name} className="flex items-center gap-1">
+                                    <span className={`flex-grow truncate ${name in functions ? '' : 'text-red-400'}`} title={name in functions ? name : `There's no function "${name}".`}>{index + 1}. {name}</span>
+                                    <button onClick={() => moveTick(index, -1)} disabled={index === 0} title="Run earlier" className="px-1 rounded hover:bg-[var(--bg-hover)] disabled:opacity-30">↑</button>
+                                    <button onClick={() => moveTick(index, 1)} disabled={index === tick.length - 1} title="Run later" className="px-1 rounded hover:bg-[var(--bg-hover)] disabled:opacity-30">↓</button>
+                                    <button onClick={() => toggleTick(name)} title="Remove from tick.json" className="px-1 rounded hover:bg-[var(--bg-hover)] hover:text-red-400">✕</button>
+                                </li>
+                            ))}
+                        </ol>
+                    )}
+                    {missingTick.length > 0 && (
+                        <p className="text-xs text-red-400">tick.json lists functions that don't exist: {missingTick.join(', ')}.</p>
+                    )}
+
+                    <button
+                        onClick={handleSave}
+                        disabled={!hasChanges}
+                        className="w-full py-2 font-semibold rounded-lg text-white bg-[var(--accent-green)] hover:bg-[var(--accent-green-hover)] disabled:bg-[var(--bg-active)] disabled:cursor-not-allowed"
+                    >
+                        Save to Project
+                    </button>
+                </div>
+
+                <div className="flex-grow min-w-0 flex flex-col gap-2">
+                    {selected === null ? (
+                        <div className="flex-grow flex items-center justify-center rounded-xl border border-[var(--border-primary)] text-sm text-[var(--text-tertiary)]">
+                            Create or open a function to start editing.
+                        </div>
+                    ) : (
+                        <>
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="font-mono text-sm truncate" title={functionPath(packRoot, selected)}>{functionPath(packRoot, selected)}</span>
+                                <div className="flex flex-wrap gap-1 justify-end">
+                                    {FUNCTION_SNIPPETS.map(snippet => (
+                                        <button
+                                            key={snippet.id}
+                                            onClick={() => insertSnippet(snippet)}
+                                            title={snippet.description}
+                                            className="px-2 py-1 text-xs font-semibold rounded-lg bg-[var(--bg-input)] hover:bg-[var(--bg-hover)]"
+                                        >
+                                            + {snippet.name}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                            <div className="relative flex-grow min-h-[320px] rounded-xl border border-[var(--border-primary)] overflow-hidden font-mono text-sm">
+                                <textarea
+                                    ref={textareaRef}
+                                    value={content}
+                                    onChange={e => { updateContent(e.target.value); setCursor(e.target.selectionStart); }}
+                                    onKeyDown={handleKeyDown}
+                                    onSelect={syncCursor}
+                                    onScroll={handleScroll}
+                                    className="absolute inset-0 z-10 w-full h-full p-4 bg-transparent text-transparent caret-white resize-none border-0 outline-none overflow-auto"
+                                    spellCheck="false"
+                                    autoCapitalize="off"
+                                    autoComplete="off"
+                                    autoCorrect="off"
+                                />
+                                <pre
+                                    ref={preRef}
+                                    className="absolute inset-0 w-full h-full m-0 p-4 bg-[var(--editor-bg)] pointer-events-none overflow-auto"
+                                    aria-hidden="true"
+                                >
+                                    <SyntaxHighlighter code={content} language="mcfunction" diagnostics={diagnostics} />
+                                </pre>
+                            </div>
+                            <div className="flex items-center gap-2 min-h-[28px] overflow-x-auto text-xs font-mono">
+                                {completion?.hints.map(hint => <span key={hint} className="flex-shrink-0 text-[var(--text-tertiary)]">{hint}</span>)}
+                                {completion?.suggestions.slice(0, 12).map((suggestion, index) => (
+                                    <button
+                                        key={suggestion.text}
+                                        onMouseDown={e => e.preventDefault()}
+                                        onClick={() => applySuggestion(suggestion)}
+                                        title={index === 0 && completion.from < completion.to ? `${suggestion.detail} (Tab)` : suggestion.detail}
+                                        className="flex-shrink-0 px-2 py-0.5 rounded bg-[var(--bg-input)] hover:bg-[var(--bg-hover)]"
+                                    >
+                                        {suggestion.text}
+                                    </button>
+                                ))}
+                            </div>
+                            {diagnostics.length > 0 ? (
+                                <CommandDiagnosticsList diagnostics={diagnostics} onSelect={selectDiagnostic} className="max-h-28 overflow-y-auto" />
+                            ) : (
+                                <p className="text-xs text-green-400 font-semibold">✅ All commands passed the syntax check.</p>
+                            )}
+                        </>
+                    )}
+                </div>
+            </div>
+
+            <div className="bg-[var(--bg-panel)] p-4 rounded-xl border border-[var(--border-primary)]">
+                <h3 className="text-md font-bold mb-2">Call Graph</h3>
+                <CallGraph functions={functions} tick={tick} selected={selected} onSelect={openFunction} />
+            </div>
+        </div>
+    );
+};
+
+export default FunctionEditor;
@@ -1,11 +1,20 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { generateFunction } from '../services/geminiService';
 import { GeneratedFile } from '../types';
 import { useNotification } from '../contexts/NotificationContext';
+import { lintFunction } from '../utils/commands';
+import SyntaxHighlighter from './SyntaxHighlighter';
+import CommandDiagnosticsList from './CommandDiagnosticsList';
+import FunctionEditor from './FunctionEditor';
 
 const CodeBlock: React.FC<{ file: GeneratedFile }> = ({ file }) => {
   const [copied, setCopied] = useState(false);
+  const [downloadAnyway, setDownloadAnyway] = useState(false);
   const { addNotification } = useNotification();
+  const diagnostics = useMemo(() => lintFunction(file.content), [file]);
+  const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+
+  useEffect(() => setDownloadAnyway(false), [file]);
 
   const handleCopy = () => {
     navigator.clipboard.writeText(file.content);
@@ -15,6 +24,12 @@ const CodeBlock: React.FC<{ file: GeneratedFile }> = ({ file }) => {
   };
   
   const handleDownload = () => {
+    // Broken commands stop the whole function from loading, so ask for a second click before saving one.
+    if (errorCount > 0 && !downloadAnyway) {
+      setDownloadAnyway(true);
+      addNotification('error', `This function has ${errorCount} command error${errorCount === 1 ? '' : 's'} and won't load in game. Try generating it again, or click download again to save it anyway.`);
+      return;
+    }
     const blob = new Blob([file.content], { type: 'text/plain;charset=utf-8' });
     const link = document.createElement('a');
     const fileName = file.path.split('/').pop() || 'function.mcfunction';
@@ -51,15 +66,26 @@ const CodeBlock: React.FC<{ file: GeneratedFile }> = ({ file }) => {
             </button>
           </div>
           <pre className="overflow-x-auto text-xs text-gray-300 font-mono">
-            <code>{file.content}</code>
+            <SyntaxHighlighter code={file.content} language="mcfunction" diagnostics={diagnostics} />
           </pre>
         </div>
+        {diagnostics.length > 0 ? (
+          <CommandDiagnosticsList diagnostics={diagnostics} className="mt-2" />
+        ) : (
+          <p className="mt-2 text-xs text-green-400 font-semibold text-left">✅ All commands passed the syntax check.</p>
+        )}
     </div>
   );
 };
 
 
-const FunctionWriter: React.FC = () => {
+interface FunctionWriterProps {
+    files: GeneratedFile[];
+    onFilesUpdate: (files: GeneratedFile[], label: string) => void;
+}
+
+const FunctionWriter: React.FC<FunctionWriterProps> = ({ files, onFilesUpdate }) => {
+    const [mode, setMode] = useState<'generate' | 'manual'>('generate');
     const [prompt, setPrompt] = useState('');
     const [functionName, setFunctionName] = useState('my_function');
     const [generatedFile, setGeneratedFile] = useState<GeneratedFile | null>(null);
@@ -90,8 +116,32 @@ const FunctionWriter: React.FC = () => {
         }
     };
 
+    const modeToggle = (
+        <div className="flex gap-1 p-1 self-start rounded-lg bg-[var(--bg-input)] border border-[var(--border-primary)]">
+            {([['generate', 'Generate with AI'], ['manual', 'Edit by Hand']] as const).map(([value, label]) => (
+                <button
+                    key={value}
+                    onClick={() => setMode(value)}
+                    className={`px-3 py-1 text-sm font-semibold rounded-md transition-colors ${mode === value ? 'bg-[var(--accent-primary)] text-white' : 'text-[var(--text-secondary)] hover:bg-[var(--bg-hover)]'}`}
+                >
+                    {label}
+                </button>
+            ))}
+        </div>
+    );
+
+    if (mode === 'manual') {
+        return (
+            <div className="flex flex-col gap-6">
+                {modeToggle}
+                <FunctionEditor files={files} onFilesUpdate={onFilesUpdate} />
+            </div>
+        );
+    }
+
     return (
         <div className="flex flex-col gap-6">
+            {modeToggle}
             <InputField as="textarea" label="Describe your Function" value={prompt} onChange={setPrompt} placeholder="First, summon a zombie. Then, give it a full set of diamond armor and a diamond sword. Finally, make it ride a chicken." rows={5} />
             <InputField label="Function Name" value={functionName} onChange={setFunctionName} placeholder="my_function" infoText=".mcfunction" />
             
@@ -0,0 +1,94 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { GenerationStage, GenerationProgress, GenerationOptions } from '../services/geminiService';
+
+interface GenerationProgressPanelProps {
+  progress: GenerationProgress | null;
+  stages: GenerationStage[];
+  onCancel: () => void;
+}
+
+const STAGE_LABELS: { [key in GenerationStage]: string } = {
+  planning: 'Planning',
+  generating: 'Generating files',
+  verifying: 'Verifying',
+  detectingToggles: 'Detecting experimental toggles',
+};
+
+// How much of the streamed response to show; the full text can run to hundreds of kilobytes.
+const PREVIEW_CHARACTERS = 600;
+
+/**
+ * Tracks one cancellable generation at a time. `start` aborts whatever was running before and returns the
+ * options to pass to the service call; the request is also aborted when the component unmounts.
+ */
+export const useGenerationProgress = () => {
+  const controllerRef = useRef<AbortController | null>(null);
+  const [progress, setProgress] = useState<GenerationProgress | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const start = (): GenerationOptions => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setProgress(null);
+    return {
+      signal: controller.signal,
+      onProgress: update => {
+        if (controllerRef.current === controller) setProgress(update);
+      },
+    };
+  };
+
+  const cancel = () => controllerRef.current?.abort();
+
+  const finish = () => {
+    controllerRef.current = null;
+    setProgress(null);
+  };
+
+  return { progress, start, cancel, finish };
+};
+
+const Spinner: React.FC = () => (
+  <svg className="animate-spin h-4 w-4 text-[var(--accent-primary)]" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+  </svg>
+);
+
+const GenerationProgressPanel: React.FC<GenerationProgressPanelProps> = ({ progress, stages, onCancel }) => {
+  const currentIndex = progress ? stages.indexOf(progress.stage) : 0;
+  const text = progress?.text || '';
+
+  return (
+    <div className="flex flex-col gap-3 p-4 bg-[var(--bg-app)] rounded-lg border border-[var(--border-primary)]">
+      <ol className="flex flex-col gap-1.5 text-sm">
+        {stages.map((stage, index) => {
+          const isDone = index < currentIndex;
+          const isCurrent = index === currentIndex;
+          return (
+            <li key={stage} className={`flex items-center gap-2 ${isCurrent ? 'text-[var(--text-primary)] font-semibold' : 'text-[var(--text-secondary)]'} ${index > currentIndex ? 'opacity-50' : ''}`}>
+              <span className="w-4 flex justify-center">{isDone ? '✓' : isCurrent ? <Spinner /> : '○'}</span>
+              {STAGE_LABELS[stage]}
+            </li>
+          );
+        })}
+      </ol>
+      <div className="flex items-center justify-between text-xs text-[var(--text-secondary)]">
+        <span>{progress?.message || 'Starting...'}</span>
+        {text && <span className="font-mono">{text.length.toLocaleString()} characters received</span>}
+      </div>
+      {text && (
+        <pre className="max-h-40 overflow-hidden p-2 rounded-md bg-[var(--editor-bg)] border border-[var(--border-primary)] text-xs font-mono text-[var(--text-tertiary)] whitespace-pre-wrap break-all">
+          {text.length > PREVIEW_CHARACTERS ? `…${text.slice(-PREVIEW_CHARACTERS)}` : text}
+        </pre>
+      )}
+      <button onClick={onCancel} className="self-end text-sm px-4 py-1.5 rounded-md bg-[var(--bg-input)] border border-[var(--border-primary)] hover:bg-[var(--bg-active)]">
+        Cancel
+      </button>
+    </div>
+  );
+};
+
+export default GenerationProgressPanel;
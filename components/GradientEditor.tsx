@@ -0,0 +1,86 @@
+import React, { useRef, useState } from 'react';
+import { GradientStop, gradientCss, sampleGradient } from '../utils/particleCurves';
+
+interface GradientEditorProps {
+    stops: GradientStop[];
+    onChange: (stops: GradientStop[]) => void;
+}
+
+const inputClass = "w-full bg-[var(--bg-input)] border border-[var(--border-primary)] rounded-lg p-1.5 text-sm";
+
+const toHex = (channel: number) => channel.toString(16).padStart(2, '0').toUpperCase();
+
+const GradientEditor: React.FC<GradientEditorProps> = ({ stops, onChange }) => {
+    const barRef = useRef<HTMLDivElement>(null);
+    const [selected, setSelected] = useState(0);
+    const [dragging, setDragging] = useState<number | null>(null);
+
+    // Stops normally run from 0 to 1, but the interpolant can be anything, such as the particle's age in seconds.
+    const start = Math.min(0, ...stops.map(s => s.time));
+    const end = Math.max(1, ...stops.map(s => s.time));
+    const toPercent = (time: number) => ((time - start) / (end - start)) * 100;
+    const current = stops[Math.min(selected, stops.length - 1)];
+
+    const timeAt = (clientX: number) => {
+        const box = barRef.current!.getBoundingClientRect();
+        return +(start + Math.min(1, Math.max(0, (clientX - box.left) / box.width)) * (end - start)).toFixed(2);
+    };
+
+    const updateStop = (index: number, patch: Partial<GradientStop>) => onChange(stops.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+
+    const addStop = (e: React.MouseEvent) => {
+        if (e.target !== barRef.current) return;
+        const time = timeAt(e.clientX);
+        const { rgb, opacity } = sampleGradient(stops, time);
+        onChange([...stops, { time, color: `#${rgb.map(toHex).join('')}`, opacity: +opacity.toFixed(2) }]);
+        setSelected(stops.length);
+    };
+
+    const removeStop = (index: number) => {
+        onChange(stops.filter((_, i) => i !== index));
+        setSelected(0);
+    };
+
+    return (
+        <div className="space-y-2">
+            <div
+                ref={barRef}
+                onClick={addStop}
+                onPointerMove={e => dragging !== null && updateStop(dragging, { time: timeAt(e.clientX) })}
+                onPointerUp={() => setDragging(null)}
+                onPointerLeave={() => setDragging(null)}
+                title="Click to add a color stop"
+                className="relative h-8 rounded-lg border border-[var(--border-primary)] cursor-copy touch-none"
+                style={{ background: `${gradientCss(stops)}, repeating-conic-gradient(#808080 0% 25%, #c0c0c0 0% 50%) 50% / 12px 12px` }}
+            >
+                {stops.map((stop, i) => (
+                    <div
+                        key={i}
+                        onPointerDown={e => { e.stopPropagation(); setSelected(i); setDragging(i); }}
+                        className={`absolute -bottom-2 w-3 h-5 -ml-1.5 rounded-sm border-2 cursor-ew-resize ${i === selected ? 'border-[var(--accent-primary)]' : 'border-white'}`}
+                        style={{ left: `${toPercent(stop.time)}%`, background: stop.color }}
+                    />
+                ))}
+            </div>
+            {current && (
+                <div className="flex items-end gap-2 pt-2">
+                    <div className="w-14">
+                        <label className="block text-xs font-medium text-[var(--text-secondary)] mb-1">Color</label>
+                        <input type="color" value={current.color} onChange={e => updateStop(selected, { color: e.target.value.toUpperCase() })} className="w-full h-8 p-0 border-0 rounded" />
+                    </div>
+                    <div className="flex-1">
+                        <label className="block text-xs font-medium text-[var(--text-secondary)] mb-1">Opacity</label>
+                        <input type="number" min={0} max={1} step={0.1} value={current.opacity} onChange={e => updateStop(selected, { opacity: parseFloat(e.target.value) })} className={inputClass} />
+                    </div>
+                    <div className="flex-1">
+                        <label className="block text-xs font-medium text-[var(--text-secondary)] mb-1">Time</label>
+                        <input type="number" step={0.05} value={current.time} onChange={e => updateStop(selected, { time: parseFloat(e.target.value) })} className={inputClass} />
+                    </div>
+                    {stops.length > 1 && <button onClick={() => removeStop(selected)} className="px-2 py-1.5 text-[var(--text-tertiary)] hover:text-red-400" title="Remove stop">✕</button>}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default GradientEditor;
@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { ProjectHistory, HistoryEntryKind, canUndo, canRedo } from '../utils/projectHistory';
+
+interface HistoryTimelineProps {
+  history: ProjectHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+  onRestore: (index: number) => void;
+}
+
+const KIND_ICONS: { [key in HistoryEntryKind]: string } = {
+  ai: '🤖',
+  manual: '✏️',
+  system: '📦',
+};
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const HistoryTimeline: React.FC<HistoryTimelineProps> = ({ history, onUndo, onRedo, onRestore }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const buttonClass = "px-2 py-0.5 rounded-md bg-[var(--bg-input)] border border-[var(--border-primary)] hover:bg-[var(--bg-active)] disabled:opacity-40 disabled:cursor-not-allowed";
+
+  return (
+    <div className="flex-shrink-0 border-t border-[var(--border-primary)]">
+      <div className="flex items-center justify-between px-3 py-1.5 text-xs">
+        <button onClick={() => setIsOpen(!isOpen)} className="font-semibold text-[var(--text-secondary)] hover:text-[var(--text-primary)]">
+          {isOpen ? '▾' : '▸'} Timeline ({history.entries.length})
+        </button>
+        <div className="flex gap-1">
+          <button onClick={onUndo} disabled={!canUndo(history)} title="Undo (Ctrl+Z)" className={buttonClass}>↶</button>
+          <button onClick={onRedo} disabled={!canRedo(history)} title="Redo (Ctrl+Shift+Z)" className={buttonClass}>↷</button>
+        </div>
+      </div>
+      {isOpen && (
+        <ol className="max-h-56 overflow-y-auto px-2 pb-2 flex flex-col-reverse gap-0.5 text-xs">
+          {history.entries.map((entry, index) => {
+            const isCurrent = index === history.index;
+            const isUndone = index > history.index;
+            return (
+              <li key={entry.id}>
+                <button
+                  onClick={() => onRestore(index)}
+                  disabled={isCurrent}
+                  title={isCurrent ? 'Current state' : 'Restore this snapshot'}
+                  className={`w-full flex items-center gap-2 px-2 py-1 rounded-md text-left ${isCurrent ? 'bg-[var(--bg-active)] text-[var(--text-primary)]' : 'hover:bg-[var(--bg-hover)] text-[var(--text-secondary)]'} ${isUndone ? 'opacity-50' : ''}`}
+                >
+                  <span className="flex-shrink-0">{KIND_ICONS[entry.kind]}</span>
+                  <span className="flex-grow truncate">{entry.label}</span>
+                  <span className="flex-shrink-0 text-[var(--text-tertiary)]">{formatTime(entry.timestamp)}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default HistoryTimeline;
@@ -1,6 +1,10 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useMemo } from 'react';
 import { GeneratedFile, UploadedFile, AssetMapping } from '../types';
 import { useNotification } from '../contexts/NotificationContext';
+import { BP_ROOT, RP_ROOT, HoldTransform, createPackManifests, createLangFiles, createTextureAtlas, createItemAttachable, createHoldAnimations, validateIdentifier, shortName } from '../utils/addonTemplates';
+import { GeometryModel, Vec3, parseGeometry, prepareAttachableGeometry } from '../utils/geometry';
+import ModelPreview from './ModelPreview';
+import { ItemPreset, PresetField, PresetValue, PresetValues, DestroySpeed, ITEM_PRESETS, PRESET_CATEGORIES, getPreset, getTierStats, validatePresetValues } from '../utils/itemPresets';
 
 // --- PROPS & STATE TYPES ---
 
@@ -36,32 +40,37 @@ const Section: React.FC<{ title: string; children: React.ReactNode; defaultOpen?
 };
 
 
-const InputField: React.FC<{ label: string; value: string; onChange: (value: string) => void; placeholder?: string; info?: string; type?: string }> = 
-({ label, value, onChange, placeholder, info, type = 'text' }) => (
+const FieldError: React.FC<{ error?: string }> = ({ error }) => (error ? <p className="text-xs text-red-400">{error}</p> : null);
+
+const InputField: React.FC<{ label: string; value: string; onChange: (value: string) => void; placeholder?: string; info?: string; type?: string; error?: string }> = 
+({ label, value, onChange, placeholder, info, type = 'text', error }) => (
     <div className="flex flex-col gap-1">
         <label className="text-sm font-medium text-[var(--text-secondary)]">{label}</label>
         <input 
             type={type}
             value={value}
             onChange={(e) => onChange(e.target.value)}
-            className="w-full bg-[var(--bg-input)] border border-[var(--border-primary)] rounded-lg p-2.5 text-sm outline-none focus:ring-2 focus:ring-[var(--accent-primary)]"
+            className={`w-full bg-[var(--bg-input)] border ${error ? 'border-red-500' : 'border-[var(--border-primary)]'} rounded-lg p-2.5 text-sm outline-none focus:ring-2 focus:ring-[var(--accent-primary)]`}
             placeholder={placeholder}
         />
         {info && <p className="text-xs text-[var(--text-tertiary)]">{info}</p>}
+        <FieldError error={error} />
     </div>
 );
 
-const NumberField: React.FC<{ label: string; value: number; onChange: (value: number) => void; min?: number; max?: number; step?: number }> =
-({ label, value, onChange, min, max, step }) => (
+const NumberField: React.FC<{ label: string; value: number; onChange: (value: number) => void; min?: number; max?: number; step?: number; info?: string; error?: string }> =
+({ label, value, onChange, min, max, step, info, error }) => (
     <div className="flex flex-col gap-1">
         <label className="text-sm font-medium text-[var(--text-secondary)]">{label}</label>
         <input 
             type="number"
-            value={value}
+            value={Number.isNaN(value) ? '' : value}
             onChange={(e) => onChange(parseFloat(e.target.value))}
             min={min} max={max} step={step}
-            className="w-full bg-[var(--bg-input)] border border-[var(--border-primary)] rounded-lg p-2.5 text-sm outline-none focus:ring-2 focus:ring-[var(--accent-primary)]"
+            className={`w-full bg-[var(--bg-input)] border ${error ? 'border-red-500' : 'border-[var(--border-primary)]'} rounded-lg p-2.5 text-sm outline-none focus:ring-2 focus:ring-[var(--accent-primary)]`}
         />
+        {info && <p className="text-xs text-[var(--text-tertiary)]">{info}</p>}
+        <FieldError error={error} />
     </div>
 );
 
@@ -74,19 +83,72 @@ const ToggleSwitch: React.FC<{ label: string; checked: boolean; onChange: (check
     </div>
 );
 
-const SelectField: React.FC<{ label: string; value: string; onChange: (value: string) => void; options: { value: string; label: string }[] }> =
-({ label, value, onChange, options }) => (
+const SelectField: React.FC<{ label: string; value: string; onChange: (value: string) => void; options: { value: string; label: string }[]; info?: string }> =
+({ label, value, onChange, options, info }) => (
     <div className="flex flex-col gap-1">
         <label className="text-sm font-medium text-[var(--text-secondary)]">{label}</label>
         <select value={value} onChange={e => onChange(e.target.value)} className="w-full bg-[var(--bg-input)] border border-[var(--border-primary)] rounded-lg p-2.5 text-sm outline-none focus:ring-2 focus:ring-[var(--accent-primary)]">
             {options.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
         </select>
+        {info && <p className="text-xs text-[var(--text-tertiary)]">{info}</p>}
     </div>
 );
 
-const IconUpload: React.FC<{ onFileChange: (file: File | null) => void }> = ({ onFileChange }) => {
+const SpeedTableEditor: React.FC<{ label: string; rows: DestroySpeed[]; onChange: (rows: DestroySpeed[]) => void; info?: string; error?: string }> =
+({ label, rows, onChange, info, error }) => {
+    const updateRow = (index: number, row: Partial<DestroySpeed>) => onChange(rows.map((r, i) => (i === index ? { ...r, ...row } : r)));
+
+    return (
+        <div className="flex flex-col gap-1">
+            <label className="text-sm font-medium text-[var(--text-secondary)]">{label}</label>
+            {rows.map((row, index) => (
+                <div key={index} className="flex gap-2 items-center">
+                    <input
+                        value={row.block}
+                        onChange={e => updateRow(index, { block: e.target.value })}
+                        placeholder="minecraft:stone"
+                        className="flex-grow bg-[var(--bg-input)] border border-[var(--border-primary)] rounded-lg p-2 text-sm font-mono outline-none focus:ring-2 focus:ring-[var(--accent-primary)]"
+                    />
+                    <input
+                        type="number"
+                        value={Number.isNaN(row.speed) ? '' : row.speed}
+                        onChange={e => updateRow(index, { speed: parseFloat(e.target.value) })}
+                        min={0} step={0.5}
+                        className="w-24 bg-[var(--bg-input)] border border-[var(--border-primary)] rounded-lg p-2 text-sm outline-none focus:ring-2 focus:ring-[var(--accent-primary)]"
+                    />
+                    <button onClick={() => onChange(rows.filter((_, i) => i !== index))} className="px-2 text-[var(--text-tertiary)] hover:text-red-400" title="Remove">✕</button>
+                </div>
+            ))}
+            <button onClick={() => onChange([...rows, { block: '', speed: 1 }])} className="self-start text-sm text-[var(--accent-primary)] hover:underline">+ Add block</button>
+            {info && <p className="text-xs text-[var(--text-tertiary)]">{info}</p>}
+            <FieldError error={error} />
+        </div>
+    );
+};
+
+const PresetFieldInput: React.FC<{ field: PresetField; value: PresetValue; onChange: (value: PresetValue) => void; error?: string }> = ({ field, value, onChange, error }) => {
+    switch (field.kind) {
+        case 'number':
+            return <NumberField label={field.label} value={value as number} onChange={onChange} min={field.min} max={field.max} step={field.step ?? (field.integer ? 1 : undefined)} info={field.info} error={error} />;
+        case 'boolean':
+            return (
+                <div className="flex flex-col gap-1">
+                    <ToggleSwitch label={field.label} checked={value as boolean} onChange={onChange} />
+                    {field.info && <p className="text-xs text-[var(--text-tertiary)]">{field.info}</p>}
+                    <FieldError error={error} />
+                </div>
+            );
+        case 'select':
+            return <SelectField label={field.label} value={value as string} onChange={onChange} options={field.options || []} info={field.info} />;
+        case 'speedTable':
+            return <SpeedTableEditor label={field.label} rows={value as DestroySpeed[]} onChange={onChange} info={field.info} error={error} />;
+        default:
+            return <InputField label={field.label} value={value as string} onChange={onChange} info={field.info} error={error} />;
+    }
+};
+
+const FileUpload: React.FC<{ id: string; label: string; accept: string; hint: string; onFileChange: (file: File | null) => void }> = ({ id, label, accept, hint, onFileChange }) => {
     const [fileName, setFileName] = useState<string | null>(null);
-    const id = 'icon-upload';
     
     const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
@@ -101,20 +163,51 @@ const IconUpload: React.FC<{ onFileChange: (file: File | null) => void }> = ({ o
 
     return (
         <div>
-            <label className="text-sm font-medium text-[var(--text-secondary)] mb-1 block">Item Icon</label>
+            <label className="text-sm font-medium text-[var(--text-secondary)] mb-1 block">{label}</label>
             <label htmlFor={id} className="w-full flex items-center gap-4 p-4 border-2 border-dashed border-[var(--border-primary)] rounded-lg cursor-pointer hover:border-[var(--accent-primary)] bg-[var(--bg-input)]">
                 <div className="w-16 h-16 bg-[var(--bg-app)] rounded-lg flex items-center justify-center text-3xl text-[var(--text-tertiary)] border border-[var(--border-primary)]">+</div>
                 <div className="text-sm text-[var(--text-secondary)]">
-                    {fileName ? `Selected: ${fileName}` : 'Upload a .png texture'}
+                    {fileName ? `Selected: ${fileName}` : hint}
                 </div>
             </label>
-            <input id={id} type="file" accept="image/png" onChange={handleChange} className="hidden" />
+            <input id={id} type="file" accept={accept} onChange={handleChange} className="hidden" />
         </div>
     );
 };
 
+const Vec3Field: React.FC<{ label: string; value: Vec3; onChange: (value: Vec3) => void; step?: number }> = ({ label, value, onChange, step = 1 }) => (
+    <div className="flex flex-col gap-1">
+        <label className="text-xs font-medium text-[var(--text-secondary)]">{label}</label>
+        <div className="flex gap-1">
+            {value.map((n, i) => (
+                <input
+                    key={i}
+                    type="number"
+                    value={Number.isNaN(n) ? '' : n}
+                    step={step}
+                    onChange={e => onChange(value.map((m, j) => (j === i ? parseFloat(e.target.value) : m)) as Vec3)}
+                    className="w-full min-w-0 bg-[var(--bg-app)] border border-[var(--border-primary)] rounded p-1.5 text-sm outline-none focus:ring-2 focus:ring-[var(--accent-primary)]"
+                />
+            ))}
+        </div>
+    </div>
+);
+
+const HoldTransformFields: React.FC<{ title: string; value: HoldTransform; onChange: (value: HoldTransform) => void }> = ({ title, value, onChange }) => (
+    <div className="flex flex-col gap-2 p-2 bg-[var(--bg-input)] rounded-lg">
+        <h4 className="text-sm font-semibold text-[var(--text-primary)]">{title}</h4>
+        <Vec3Field label="Position" value={value.position} onChange={position => onChange({ ...value, position })} />
+        <Vec3Field label="Rotation" value={value.rotation} onChange={rotation => onChange({ ...value, rotation })} step={5} />
+        <Vec3Field label="Scale" value={value.scale} onChange={scale => onChange({ ...value, scale })} step={0.1} />
+    </div>
+);
+
 
 // --- CONSTANTS ---
+// Starting points that hold a Blockbench model roughly like a vanilla sword; most models need small adjustments.
+const DEFAULT_FIRST_PERSON: HoldTransform = { position: [0, 2, 1], rotation: [-10, 45, 0], scale: [1, 1, 1] };
+const DEFAULT_THIRD_PERSON: HoldTransform = { position: [0, 0, 0], rotation: [0, 0, 0], scale: [1, 1, 1] };
+
 const CREATIVE_CATEGORIES = [
     { value: 'none', label: 'None' },
     { value: 'nature', label: 'Nature' },
@@ -131,7 +224,7 @@ const RARITIES = [
 ];
 
 const ENCHANTABLE_SLOTS = [
-    "all", "armor_head", "armor_chestplate", "armor_leggins", "armor_boot", "bow", "crossbow", 
+    "all", "armor_head", "armor_torso", "armor_legs", "armor_feet", "bow", "crossbow", 
     "elytra", "fishing_rod", "flint_and_steel", "shears", "sword", "pickaxe", "axe", 
     "shovel", "hoe", "shield"
 ].map(s => ({ value: s, label: s.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase()) }));
@@ -147,7 +240,8 @@ const ItemCreator: React.FC<ItemCreatorProps> = ({ onGenerationComplete }) => {
     const [iconFile, setIconFile] = useState<File | null>(null);
     const [stackSize, setStackSize] = useState(64);
 
-    const [specialItems, setSpecialItems] = useState(false);
+    const [presetId, setPresetId] = useState<string | null>(null);
+    const [presetValues, setPresetValues] = useState<PresetValues>({});
     
     const [enchantable, setEnchantable] = useState(false);
     const [enchantSlot, setEnchantSlot] = useState('all');
@@ -156,14 +250,78 @@ const ItemCreator: React.FC<ItemCreatorProps> = ({ onGenerationComplete }) => {
     const [useDurability, setUseDurability] = useState(false);
     const [durability, setDurability] = useState(100);
 
+    const [use3dModel, setUse3dModel] = useState(false);
+    const [geometryContent, setGeometryContent] = useState<string | null>(null);
+    const [geometryModel, setGeometryModel] = useState<GeometryModel | null>(null);
+    const [geometryError, setGeometryError] = useState<string | null>(null);
+    const [modelTexture, setModelTexture] = useState<File | null>(null);
+    const [firstPerson, setFirstPerson] = useState<HoldTransform>(DEFAULT_FIRST_PERSON);
+    const [thirdPerson, setThirdPerson] = useState<HoldTransform>(DEFAULT_THIRD_PERSON);
+
     const { addNotification } = useNotification();
 
+    const handleGeometryFile = async (file: File | null) => {
+        setGeometryContent(null);
+        setGeometryModel(null);
+        setGeometryError(null);
+        if (!file) return;
+        try {
+            const content = await file.text();
+            setGeometryModel(parseGeometry(content));
+            setGeometryContent(content);
+        } catch (err) {
+            setGeometryError((err as Error).message);
+        }
+    };
+
+    const preset = presetId ? getPreset(presetId) : null;
+
+    const fieldErrors = useMemo(() => {
+        const errors: { [key: string]: string } = preset ? validatePresetValues(preset, presetValues) : {};
+        if (!Number.isInteger(stackSize) || stackSize < 1 || stackSize > 64) errors.stackSize = 'Must be a whole number from 1 to 64.';
+        else if (useDurability && stackSize > 1) errors.stackSize = 'Items with durability must have a stack size of 1.';
+        if (useDurability && !(Number.isInteger(durability) && durability > 0)) errors.durability = 'Must be a whole number above 0.';
+        if (enchantable && !(Number.isInteger(enchantValue) && enchantValue >= 0)) errors.enchantValue = 'Must be a whole number of at least 0.';
+        return errors;
+    }, [preset, presetValues, stackSize, useDurability, durability, enchantable, enchantValue]);
+
+    const applyPreset = (next: ItemPreset | null) => {
+        setPresetId(next?.id ?? null);
+        if (!next) {
+            setPresetValues({});
+            return;
+        }
+        setPresetValues(next.defaults);
+        setStackSize(next.general.stackSize);
+        setUseDurability(next.general.durability !== undefined);
+        if (next.general.durability !== undefined) setDurability(next.general.durability);
+        setEnchantable(next.general.enchantSlot !== undefined);
+        if (next.general.enchantSlot !== undefined) setEnchantSlot(next.general.enchantSlot);
+        if (next.general.enchantValue !== undefined) setEnchantValue(next.general.enchantValue);
+    };
+
+    const updatePresetValue = (key: string, value: PresetValue) => {
+        setPresetValues(prev => ({ ...prev, [key]: value }));
+        // Picking a tool tier brings durability, the mining speed of every block row and enchantability to that tier's vanilla values.
+        const stats = key === 'tier' ? getTierStats(value as string) : null;
+        if (stats) {
+            setDurability(stats.durability);
+            setEnchantValue(stats.enchantValue);
+            setPresetValues(prev => ({ ...prev, destroySpeeds: (prev.destroySpeeds as DestroySpeed[]).map(row => ({ ...row, speed: stats.speed })) }));
+        }
+    };
+
     const handleGenerate = () => {
-        if (!identifier.includes(':')) {
-            addNotification('error', 'Identifier must be in format namespace:id');
+        const identifierError = validateIdentifier(identifier);
+        if (identifierError) {
+            addNotification('error', identifierError);
+            return;
+        }
+        if (Object.keys(fieldErrors).length > 0) {
+            addNotification('error', 'Some fields are invalid. Fix the highlighted values and try again.');
             return;
         }
-        if (!displayName) {
+        if (!displayName.trim()) {
             addNotification('error', 'Display Name is required.');
             return;
         }
@@ -171,36 +329,70 @@ const ItemCreator: React.FC<ItemCreatorProps> = ({ onGenerationComplete }) => {
             addNotification('error', 'Item Icon is required.');
             return;
         }
+        if (use3dModel) {
+            if (!geometryContent) {
+                addNotification('error', geometryError || 'Upload a Blockbench .geo.json model, or turn off the 3D model.');
+                return;
+            }
+            if (!modelTexture) {
+                addNotification('error', 'Model Texture is required for a 3D model.');
+                return;
+            }
+            if ([firstPerson, thirdPerson].some(t => [...t.position, ...t.rotation, ...t.scale].some(Number.isNaN))) {
+                addNotification('error', 'Every hold position, rotation and scale value needs a number.');
+                return;
+            }
+        }
 
-        const id_short = identifier.split(':')[1];
+        const id_short = shortName(identifier);
+        const addonName = displayName.trim();
+        const iconPath = `textures/items/${id_short}`;
         
         const itemJson = {
             "format_version": "1.21.10",
             "minecraft:item": {
                 "description": {
                     "identifier": identifier,
-                    "menu_category": {
-                        "category": creativeCategory === 'none' ? undefined : creativeCategory
-                    }
+                    ...(creativeCategory !== 'none' && { "menu_category": { "category": creativeCategory } }),
                 },
                 "components": {
-                    "minecraft:display_name": { "value": displayName },
-                    "minecraft:icon": { "texture": id_short },
+                    "minecraft:icon": id_short,
                     "minecraft:max_stack_size": stackSize,
+                    ...(preset && preset.buildComponents(presetValues)),
                     ...(useDurability && { "minecraft:durability": { "max_durability": durability } }),
                     ...(enchantable && { "minecraft:enchantable": { "slot": enchantSlot, "value": enchantValue } }),
                 }
             }
         }
 
-        const generatedFiles: GeneratedFile[] = [{
-            path: `behavior_pack/items/${id_short}.json`,
-            content: JSON.stringify(itemJson, null, 2)
-        }];
-        
-        // This is a placeholder for a full addon generation
-        addNotification('success', 'Addon generation logic is not fully implemented for all fields, but the basic structure is here!');
-        console.log("Generated Item JSON:", itemJson);
+        // The name comes from the lang file rather than minecraft:display_name, so it can be translated later.
+        const generatedFiles: GeneratedFile[] = [
+            ...createPackManifests(addonName, `Adds the ${addonName} item.`),
+            { path: `${BP_ROOT}/items/${id_short}.json`, content: JSON.stringify(itemJson, null, 2) },
+            { path: `${RP_ROOT}/textures/item_texture.json`, content: JSON.stringify(createTextureAtlas(addonName, 'atlas.items', { [id_short]: iconPath }), null, 2) },
+            ...createLangFiles(RP_ROOT, { [`item.${identifier}.name`]: addonName }),
+        ];
+        // Uploads are renamed to their destination so an icon and a model texture with the same file name can't be mixed up.
+        const iconUpload = new File([iconFile], `${RP_ROOT}/${iconPath}.png`, { type: iconFile.type });
+        const uploadedFiles: UploadedFile[] = [{ file: iconUpload, type: 'asset' }];
+        const assetMappings: AssetMapping[] = [{ originalPath: iconUpload.name, newPath: iconUpload.name }];
+
+        if (use3dModel && geometryContent && modelTexture) {
+            const geometryId = `geometry.${id_short}`;
+            const texturePath = `textures/models/${id_short}`;
+            const { content, animatedBone } = prepareAttachableGeometry(geometryContent, geometryId);
+            generatedFiles.push(
+                { path: `${RP_ROOT}/models/entity/${id_short}.geo.json`, content },
+                { path: `${RP_ROOT}/attachables/${id_short}.json`, content: JSON.stringify(createItemAttachable(identifier, geometryId, texturePath), null, 2) },
+                { path: `${RP_ROOT}/animations/${id_short}.animation.json`, content: JSON.stringify(createHoldAnimations(identifier, animatedBone, firstPerson, thirdPerson), null, 2) },
+            );
+            const textureUpload = new File([modelTexture], `${RP_ROOT}/${texturePath}.png`, { type: modelTexture.type });
+            uploadedFiles.push({ file: textureUpload, type: 'asset' });
+            assetMappings.push({ originalPath: textureUpload.name, newPath: textureUpload.name });
+        }
+
+        onGenerationComplete(generatedFiles, uploadedFiles, assetMappings, addonName);
+        addNotification('success', `${addonName} was created. You can now review and download it.`);
     };
 
     return (
@@ -209,13 +401,33 @@ const ItemCreator: React.FC<ItemCreatorProps> = ({ onGenerationComplete }) => {
             <InputField label="Identifier" value={identifier} onChange={setIdentifier} placeholder="custom:ruby_sword" />
             <InputField label="Display Name" value={displayName} onChange={setDisplayName} placeholder="Ruby Sword" />
             <SelectField label="Creative Category" value={creativeCategory} onChange={setCreativeCategory} options={CREATIVE_CATEGORIES} />
-            <IconUpload onFileChange={setIconFile} />
-            <NumberField label="Stack Size" value={stackSize} onChange={setStackSize} min={1} max={64} />
+            <FileUpload id="icon-upload" label="Item Icon" accept="image/png" hint="Upload a .png texture" onFileChange={setIconFile} />
+            <NumberField label="Stack Size" value={stackSize} onChange={setStackSize} min={1} max={64} error={fieldErrors.stackSize} />
 
-            <Section title="Presets">
-                <ToggleSwitch label="Special Items" checked={specialItems} onChange={setSpecialItems} />
-                <div className={`p-2 border border-dashed border-[var(--border-primary)] rounded-lg text-center text-sm text-[var(--text-tertiary)] ${specialItems ? 'opacity-50' : ''}`}>
-                    Normal Items Presets (Sword, Pickaxe, etc.) would go here.
+            <Section title="Presets" defaultOpen={true}>
+                <div className="flex flex-col gap-3">
+                    <p className="text-xs text-[var(--text-tertiary)]">Pick a preset to add its components. Stack size, durability and enchanting are set to match and can still be changed below.</p>
+                    {PRESET_CATEGORIES.map(category => (
+                        <div key={category.id} className="flex items-center gap-2 flex-wrap">
+                            <span className="w-24 text-sm font-medium text-[var(--text-secondary)]">{category.label}</span>
+                            {ITEM_PRESETS.filter(p => p.category === category.id).map(p => (
+                                <button
+                                    key={p.id}
+                                    onClick={() => applyPreset(presetId === p.id ? null : p)}
+                                    className={`px-3 py-1 text-sm rounded-md border ${presetId === p.id ? 'bg-[var(--accent-primary)] border-[var(--accent-primary)] text-white' : 'bg-[var(--bg-input)] border-[var(--border-primary)] text-[var(--text-secondary)] hover:border-[var(--accent-primary)]'}`}
+                                >
+                                    {p.label}
+                                </button>
+                            ))}
+                        </div>
+                    ))}
+                    {preset && (
+                        <div className="flex flex-col gap-3 p-3 bg-[var(--bg-input)] rounded-lg">
+                            {preset.fields.map(field => (
+                                <PresetFieldInput key={field.key} field={field} value={presetValues[field.key]} onChange={value => updatePresetValue(field.key, value)} error={fieldErrors[field.key]} />
+                            ))}
+                        </div>
+                    )}
                 </div>
             </Section>
             
@@ -225,18 +437,43 @@ const ItemCreator: React.FC<ItemCreatorProps> = ({ onGenerationComplete }) => {
                     {enchantable && (
                         <div className="flex gap-2 p-2 bg-[var(--bg-input)] rounded-lg">
                             <SelectField label="Slot" value={enchantSlot} onChange={setEnchantSlot} options={ENCHANTABLE_SLOTS} />
-                            <NumberField label="Value" value={enchantValue} onChange={setEnchantValue} min={0} max={30} />
+                            <NumberField label="Value" value={enchantValue} onChange={setEnchantValue} min={0} max={30} error={fieldErrors.enchantValue} />
                         </div>
                     )}
                  </div>
             </Section>
 
+            <Section title="3D Model">
+                <div className="flex flex-col gap-3">
+                    <ToggleSwitch label="Use 3D Model" checked={use3dModel} onChange={setUse3dModel} />
+                    {use3dModel && (
+                        <>
+                            <p className="text-xs text-[var(--text-tertiary)]">The model is shown in the player's hand through an attachable. The icon above is still used in the inventory.</p>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                <FileUpload id="geometry-upload" label="Model (.geo.json)" accept=".json" hint="Upload a Blockbench Bedrock model" onFileChange={handleGeometryFile} />
+                                <FileUpload id="model-texture-upload" label="Model Texture" accept="image/png" hint="Upload the model's .png texture" onFileChange={setModelTexture} />
+                            </div>
+                            <FieldError error={geometryError || undefined} />
+                            {geometryModel && (
+                                <div className="flex flex-col md:flex-row gap-3 items-start">
+                                    <ModelPreview model={geometryModel} texture={modelTexture} />
+                                    <div className="flex-grow flex flex-col gap-2 w-full">
+                                        <HoldTransformFields title="First Person" value={firstPerson} onChange={setFirstPerson} />
+                                        <HoldTransformFields title="Third Person" value={thirdPerson} onChange={setThirdPerson} />
+                                    </div>
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+            </Section>
+
             <Section title="Durability & Repair">
                  <div className="flex flex-col gap-2">
                     <ToggleSwitch label="Use Durability" checked={useDurability} onChange={setUseDurability} />
                     {useDurability && (
                         <div className="p-2 bg-[var(--bg-input)] rounded-lg">
-                            <NumberField label="Max Durability" value={durability} onChange={setDurability} min={1} />
+                            <NumberField label="Max Durability" value={durability} onChange={setDurability} min={1} error={fieldErrors.durability} />
                         </div>
                     )}
                  </div>
@@ -245,7 +482,6 @@ const ItemCreator: React.FC<ItemCreatorProps> = ({ onGenerationComplete }) => {
              <button onClick={handleGenerate} className="w-full mt-4 flex justify-center items-center px-6 py-3 font-semibold rounded-lg text-white bg-[var(--accent-green)] hover:bg-[var(--accent-green-hover)]">
                 Generate Item
             </button>
-             <p className="text-xs text-[var(--text-tertiary)] text-center">Note: This is a prototype based on your sketches. Not all fields are wired up to generate code yet.</p>
         </div>
     );
 };
@@ -0,0 +1,384 @@
+import React, { useMemo, useState } from 'react';
+import { useNotification } from '../contexts/NotificationContext';
+import { GeneratedFile } from '../types';
+import ItemSelector from './ItemSelector';
+import { VANILLA_ITEMS } from '../data/vanillaItems';
+import {
+    LootPool, LootEntry, LootCondition, LootFunction, Range, Difficulty, SimulationContext, SimulationResult,
+    CONDITION_TYPES, FUNCTION_TYPES, buildLootTable, validateLootTable, simulateLootTable,
+} from '../utils/lootTables';
+
+const DIFFICULTIES: Difficulty[] = ['peaceful', 'easy', 'normal', 'hard'];
+const SIMULATION_RUNS = [1000, 10000, 100000];
+
+const inputClass = "bg-[var(--bg-input)] p-1.5 rounded text-xs border border-transparent focus:border-[var(--accent-primary)] focus:ring-1 focus:ring-[var(--accent-primary)] outline-none";
+
+const createEntry = (): LootEntry => ({ type: 'item', name: '', weight: 1, conditions: [], functions: [] });
+const createPool = (): LootPool => ({ rolls: { min: 1, max: 1 }, conditions: [], entries: [createEntry()] });
+
+const getItemName = (id: string) => VANILLA_ITEMS.find(item => item.id === id)?.name || id;
+
+const CodeBlock: React.FC<{ file: GeneratedFile; onClear: () => void }> = ({ file, onClear }) => {
+    const [copied, setCopied] = useState(false);
+    const { addNotification } = useNotification();
+
+    const handleCopy = () => {
+      navigator.clipboard.writeText(file.content);
+      setCopied(true);
+      addNotification('info', 'Content copied to clipboard!');
+      setTimeout(() => setCopied(false), 2000);
+    };
+
+    const handleDownload = () => {
+      const blob = new Blob([file.content], { type: 'application/json' });
+      const link = document.createElement('a');
+      const fileName = file.path.split('/').pop() || 'loot_table.json';
+      link.href = URL.createObjectURL(blob);
+      link.download = fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      addNotification('success', `${fileName} downloaded.`);
+    };
+
+    return (
+      <div className="mt-4">
+          <label className="block text-sm font-medium text-[var(--text-secondary)] mb-2 text-left">{file.path}</label>
+          <div className="relative bg-[var(--bg-app)] p-4 rounded-lg border border-[var(--border-primary)]">
+            <div className="absolute top-2 right-2 flex gap-2">
+               <button onClick={onClear} title="Clear" className="p-1.5 rounded-lg bg-[var(--bg-hover)] hover:bg-[var(--bg-active)] text-[var(--text-secondary)] transition"><svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" /></svg></button>
+               <button onClick={handleDownload} title="Download file" className="p-1.5 rounded-lg bg-[var(--bg-hover)] hover:bg-[var(--bg-active)] text-[var(--text-secondary)] transition"><svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg></button>
+              <button onClick={handleCopy} title="Copy content" className="p-1.5 rounded-lg bg-[var(--bg-hover)] hover:bg-[var(--bg-active)] text-[var(--text-secondary)] transition">
+                {copied ? <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-[var(--accent-green)]" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" /></svg> : <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" /></svg>}
+              </button>
+            </div>
+            <pre className="overflow-x-auto text-xs text-gray-300 font-mono"><code>{file.content}</code></pre>
+          </div>
+      </div>
+    );
+};
+
+const RemoveButton: React.FC<{ onClick: () => void; title: string }> = ({ onClick, title }) => (
+    <button onClick={onClick} title={title} className="p-1 text-red-500 rounded-full hover:bg-red-500/10 flex-shrink-0">
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM7 9a1 1 0 000 2h6a1 1 0 100-2H7z" clipRule="evenodd" /></svg>
+    </button>
+);
+
+const NumberInput: React.FC<{ value: number; onChange: (value: number) => void; step?: number; min?: number; max?: number; title?: string }> = ({ value, onChange, step = 1, min, max, title }) => (
+    <input type="number" value={Number.isNaN(value) ? '' : value} step={step} min={min} max={max} title={title} onChange={e => onChange(parseFloat(e.target.value))} className={`w-16 text-center ${inputClass}`} />
+);
+
+const RangeInputs: React.FC<{ label: string; range: Range; onChange: (range: Range) => void; step?: number }> = ({ label, range, onChange, step }) => (
+    <div className="flex items-center gap-1 text-xs text-[var(--text-secondary)]">
+        <span>{label}</span>
+        <NumberInput value={range.min} step={step} min={0} title="Minimum" onChange={min => onChange({ ...range, min })} />
+        <span>to</span>
+        <NumberInput value={range.max} step={step} min={0} title="Maximum" onChange={max => onChange({ ...range, max })} />
+    </div>
+);
+
+const ConditionFields: React.FC<{ condition: LootCondition; onChange: (condition: LootCondition) => void }> = ({ condition, onChange }) => {
+    switch (condition.condition) {
+        case 'random_chance':
+            return <label className="flex items-center gap-1">Chance <NumberInput value={condition.chance} step={0.01} min={0} max={1} onChange={chance => onChange({ ...condition, chance })} /></label>;
+        case 'random_chance_with_looting':
+            return (
+                <>
+                    <label className="flex items-center gap-1">Chance <NumberInput value={condition.chance} step={0.005} min={0} max={1} onChange={chance => onChange({ ...condition, chance })} /></label>
+                    <label className="flex items-center gap-1">+ per Looting level <NumberInput value={condition.lootingMultiplier} step={0.005} min={0} onChange={lootingMultiplier => onChange({ ...condition, lootingMultiplier })} /></label>
+                </>
+            );
+        case 'random_difficulty_chance':
+            return (
+                <>
+                    <label className="flex items-center gap-1">Default <NumberInput value={condition.defaultChance} step={0.05} min={0} max={1} onChange={defaultChance => onChange({ ...condition, defaultChance })} /></label>
+                    {DIFFICULTIES.map(difficulty => (
+                        <label key={difficulty} className="flex items-center gap-1 capitalize">
+                            {difficulty}
+                            <input
+                                type="number"
+                                step={0.05}
+                                min={0}
+                                max={1}
+                                placeholder="default"
+                                value={condition.chances[difficulty] ?? ''}
+                                onChange={e => {
+                                    const chances = { ...condition.chances };
+                                    if (e.target.value === '') delete chances[difficulty];
+                                    else chances[difficulty] = parseFloat(e.target.value);
+                                    onChange({ ...condition, chances });
+                                }}
+                                className={`w-16 text-center ${inputClass}`}
+                            />
+                        </label>
+                    ))}
+                </>
+            );
+        default:
+            return null;
+    }
+};
+
+const ConditionList: React.FC<{ conditions: LootCondition[]; onChange: (conditions: LootCondition[]) => void }> = ({ conditions, onChange }) => (
+    <div className="flex flex-col gap-1">
+        {conditions.map((condition, i) => (
+            <div key={i} className="flex flex-wrap items-center gap-2 text-xs text-[var(--text-secondary)] bg-[var(--bg-panel-secondary)] p-1.5 rounded">
+                <span className="font-semibold text-[var(--text-primary)]">{CONDITION_TYPES.find(type => type.type === condition.condition)?.label}</span>
+                <ConditionFields condition={condition} onChange={updated => onChange(conditions.map((c, ci) => ci === i ? updated : c))} />
+                <span className="flex-grow" />
+                <RemoveButton title="Remove condition" onClick={() => onChange(conditions.filter((_, ci) => ci !== i))} />
+            </div>
+        ))}
+        <select
+            value=""
+            onChange={e => {
+                const type = CONDITION_TYPES.find(t => t.type === e.target.value);
+                if (type) onChange([...conditions, type.create()]);
+            }}
+            className={`w-fit text-[var(--accent-primary)] ${inputClass}`}
+        >
+            <option value="">+ Add condition</option>
+            {CONDITION_TYPES.map(type => <option key={type.type} value={type.type}>{type.label}</option>)}
+        </select>
+    </div>
+);
+
+const FunctionFields: React.FC<{ fn: LootFunction; onChange: (fn: LootFunction) => void }> = ({ fn, onChange }) => {
+    switch (fn.function) {
+        case 'set_count':
+            return <RangeInputs label="Count" range={fn.count} onChange={count => onChange({ ...fn, count })} />;
+        case 'looting_enchant':
+            return <RangeInputs label="Extra per Looting level" range={fn.count} onChange={count => onChange({ ...fn, count })} />;
+        case 'set_data':
+            return <RangeInputs label="Data" range={fn.data} onChange={data => onChange({ ...fn, data })} />;
+        case 'set_damage':
+            return <RangeInputs label="Damage" range={fn.damage} step={0.05} onChange={damage => onChange({ ...fn, damage })} />;
+        case 'enchant_with_levels':
+            return (
+                <>
+                    <RangeInputs label="Levels" range={fn.levels} onChange={levels => onChange({ ...fn, levels })} />
+                    <label className="flex items-center gap-1"><input type="checkbox" checked={fn.treasure} onChange={e => onChange({ ...fn, treasure: e.target.checked })} /> Treasure</label>
+                </>
+            );
+        case 'enchant_randomly':
+            return <label className="flex items-center gap-1"><input type="checkbox" checked={fn.treasure} onChange={e => onChange({ ...fn, treasure: e.target.checked })} /> Treasure</label>;
+        case 'furnace_smelt':
+            return <span className="text-[var(--text-tertiary)]">Drops the cooked item if the mob was on fire.</span>;
+    }
+};
+
+const FunctionList: React.FC<{ functions: LootFunction[]; onChange: (functions: LootFunction[]) => void }> = ({ functions, onChange }) => (
+    <div className="flex flex-col gap-1">
+        {functions.map((fn, i) => (
+            <div key={i} className="flex flex-wrap items-center gap-2 text-xs text-[var(--text-secondary)] bg-[var(--bg-panel-secondary)] p-1.5 rounded">
+                <span className="font-semibold text-[var(--text-primary)]">{FUNCTION_TYPES.find(type => type.type === fn.function)?.label}</span>
+                <FunctionFields fn={fn} onChange={updated => onChange(functions.map((f, fi) => fi === i ? updated : f))} />
+                <span className="flex-grow" />
+                <RemoveButton title="Remove function" onClick={() => onChange(functions.filter((_, fi) => fi !== i))} />
+            </div>
+        ))}
+        <select
+            value=""
+            onChange={e => {
+                const type = FUNCTION_TYPES.find(t => t.type === e.target.value);
+                if (type) onChange([...functions, type.create()]);
+            }}
+            className={`w-fit text-[var(--accent-primary)] ${inputClass}`}
+        >
+            <option value="">+ Add function</option>
+            {FUNCTION_TYPES.map(type => <option key={type.type} value={type.type}>{type.label}</option>)}
+        </select>
+    </div>
+);
+
+const EntryCard: React.FC<{ entry: LootEntry; totalWeight: number; onChange: (entry: LootEntry) => void; onRemove: () => void }> = ({ entry, totalWeight, onChange, onRemove }) => (
+    <div className="bg-[var(--bg-app)] p-3 rounded-lg border border-[var(--border-primary)] flex flex-col gap-3">
+        <div className="flex items-center gap-2">
+            <select value={entry.type} onChange={e => onChange({ ...entry, type: e.target.value as LootEntry['type'], name: '' })} className={inputClass}>
+                <option value="item">Item</option>
+                <option value="loot_table">Loot table</option>
+                <option value="empty">Nothing</option>
+            </select>
+            {entry.type === 'item' && <ItemSelector value={entry.name} onChange={name => onChange({ ...entry, name })} />}
+            {entry.type === 'loot_table' && <input type="text" value={entry.name} placeholder="loot_tables/entities/zombie.json" onChange={e => onChange({ ...entry, name: e.target.value })} className={`w-full ${inputClass}`} />}
+            {entry.type === 'empty' && <span className="flex-grow text-xs text-[var(--text-tertiary)]">Takes up a roll without dropping anything.</span>}
+            <label className="flex items-center gap-1 text-xs text-[var(--text-secondary)]">Weight <NumberInput value={entry.weight} min={1} onChange={weight => onChange({ ...entry, weight })} /></label>
+            <span className="w-12 text-right text-xs text-[var(--text-tertiary)]" title="Chance of being picked on each roll">
+                {totalWeight > 0 && entry.weight > 0 ? `${Math.round((entry.weight / totalWeight) * 100)}%` : '—'}
+            </span>
+            <RemoveButton title="Remove entry" onClick={onRemove} />
+        </div>
+        <div>
+            <h4 className="text-xs font-semibold text-green-400 mb-1">Conditions</h4>
+            <ConditionList conditions={entry.conditions} onChange={conditions => onChange({ ...entry, conditions })} />
+        </div>
+        {entry.type === 'item' && (
+            <div>
+                <h4 className="text-xs font-semibold text-sky-400 mb-1">Functions</h4>
+                <FunctionList functions={entry.functions} onChange={functions => onChange({ ...entry, functions })} />
+            </div>
+        )}
+    </div>
+);
+
+const SimulationPanel: React.FC<{ pools: LootPool[]; disabled: boolean }> = ({ pools, disabled }) => {
+    const [context, setContext] = useState<SimulationContext>({ killedByPlayer: true, lootingLevel: 0, difficulty: 'normal', onFire: false });
+    const [runs, setRuns] = useState(10000);
+    const [result, setResult] = useState<SimulationResult | null>(null);
+
+    return (
+        <div className="flex flex-col gap-4 p-4 bg-[var(--bg-panel-secondary)] rounded-lg border border-[var(--border-primary)]">
+            <h3 className="font-bold">Drop Simulator</h3>
+            <div className="flex flex-wrap items-center gap-4 text-sm text-[var(--text-secondary)]">
+                <label className="flex items-center gap-2"><input type="checkbox" checked={context.killedByPlayer} onChange={e => setContext({ ...context, killedByPlayer: e.target.checked })} /> Killed by player</label>
+                <label className="flex items-center gap-2"><input type="checkbox" checked={context.onFire} onChange={e => setContext({ ...context, onFire: e.target.checked })} /> On fire</label>
+                <label className="flex items-center gap-2">Looting
+                    <select value={context.lootingLevel} onChange={e => setContext({ ...context, lootingLevel: parseInt(e.target.value) })} className={inputClass}>
+                        {[0, 1, 2, 3].map(level => <option key={level} value={level}>{level === 0 ? 'None' : `Level ${level}`}</option>)}
+                    </select>
+                </label>
+                <label className="flex items-center gap-2">Difficulty
+                    <select value={context.difficulty} onChange={e => setContext({ ...context, difficulty: e.target.value as Difficulty })} className={`capitalize ${inputClass}`}>
+                        {DIFFICULTIES.map(difficulty => <option key={difficulty} value={difficulty}>{difficulty}</option>)}
+                    </select>
+                </label>
+                <label className="flex items-center gap-2">Runs
+                    <select value={runs} onChange={e => setRuns(parseInt(e.target.value))} className={inputClass}>
+                        {SIMULATION_RUNS.map(count => <option key={count} value={count}>{count.toLocaleString()}</option>)}
+                    </select>
+                </label>
+                <button onClick={() => setResult(simulateLootTable(pools, context, runs))} disabled={disabled} className="px-4 py-1.5 text-sm font-semibold rounded-lg text-white bg-[var(--accent-green)] hover:bg-[var(--accent-green-hover)] disabled:opacity-50 disabled:cursor-not-allowed">
+                    Simulate
+                </button>
+            </div>
+            {disabled && <p className="text-xs text-[var(--text-tertiary)]">Fix the problems listed below to run the simulator.</p>}
+            {result && (
+                <div className="flex flex-col gap-2">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-xs text-[var(--text-secondary)] border-b border-[var(--border-primary)]">
+                                <th className="py-1.5">Drop</th>
+                                <th className="py-1.5 text-right">Average per kill</th>
+                                <th className="py-1.5 text-right">Drop chance</th>
+                                <th className="py-1.5 text-right">Most in one kill</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {result.drops.map(drop => (
+                                <tr key={drop.item} className="border-b border-[var(--border-primary)] last:border-0">
+                                    <td className="py-1.5" title={drop.item}>{getItemName(drop.item)}</td>
+                                    <td className="py-1.5 text-right font-mono">{drop.averageCount.toFixed(2)}</td>
+                                    <td className="py-1.5 text-right font-mono">{(drop.dropChance * 100).toFixed(1)}%</td>
+                                    <td className="py-1.5 text-right font-mono">{drop.maxCount}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <p className="text-xs text-[var(--text-tertiary)]">
+                        {result.runs.toLocaleString()} runs, {((result.emptyRuns / result.runs) * 100).toFixed(1)}% dropped nothing. Nested loot tables are counted as a single drop.
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const LootTableEditor: React.FC = () => {
+    const { addNotification } = useNotification();
+    const [path, setPath] = useState('loot_tables/entities/my_mob.json');
+    const [pools, setPools] = useState<LootPool[]>([createPool()]);
+    const [activePool, setActivePool] = useState(0);
+    const [generatedFile, setGeneratedFile] = useState<GeneratedFile | null>(null);
+
+    const errors = useMemo(() => validateLootTable(path, pools), [path, pools]);
+    const pool = pools[activePool];
+    const totalWeight = pool ? pool.entries.filter(entry => entry.weight > 0).reduce((sum, entry) => sum + entry.weight, 0) : 0;
+
+    const updatePool = (updated: Partial<LootPool>) => setPools(pools.map((p, i) => i === activePool ? { ...p, ...updated } : p));
+    const updateEntry = (index: number, entry: LootEntry) => updatePool({ entries: pool.entries.map((e, i) => i === index ? entry : e) });
+
+    const addPool = () => {
+        setPools([...pools, createPool()]);
+        setActivePool(pools.length);
+    };
+
+    const removePool = (index: number) => {
+        setPools(pools.filter((_, i) => i !== index));
+        setActivePool(Math.max(0, activePool >= index ? activePool - 1 : activePool));
+    };
+
+    const handleGenerate = () => {
+        if (errors.length > 0) {
+            addNotification('error', 'Please fix the problems listed above the Generate button.');
+            return;
+        }
+        setGeneratedFile({ path, content: JSON.stringify(buildLootTable(pools), null, 2) });
+        addNotification('success', 'Loot table generated!');
+    };
+
+    return (
+        <div className="flex flex-col gap-6 max-w-6xl mx-auto">
+            <h2 className="text-2xl font-bold text-[var(--text-primary)]">Loot Table Editor</h2>
+            <input type="text" placeholder="Path (e.g., loot_tables/entities/my_mob.json)" value={path} onChange={e => setPath(e.target.value)} className="w-full bg-[var(--bg-input)] rounded border p-2.5 border-[var(--border-primary)]"/>
+
+            <div className="flex flex-col md:flex-row gap-6">
+                {/* Pools Column */}
+                <div className="w-full md:w-1/4 flex flex-col gap-2">
+                    <h3 className="font-bold">Pools</h3>
+                    {pools.map((p, index) => (
+                        <div key={index} onClick={() => setActivePool(index)} className={`flex items-center justify-between p-2 rounded-lg cursor-pointer border ${activePool === index ? 'bg-[var(--bg-active)] border-[var(--accent-primary)]' : 'bg-[var(--bg-panel-secondary)] border-transparent hover:border-[var(--border-primary)]'}`}>
+                            <span>Pool {index + 1} <span className="text-xs text-[var(--text-tertiary)]">({p.entries.length} {p.entries.length === 1 ? 'entry' : 'entries'})</span></span>
+                            <RemoveButton title="Remove pool" onClick={() => removePool(index)} />
+                        </div>
+                    ))}
+                    <button onClick={addPool} className="w-full mt-2 py-2 text-sm text-center rounded-lg bg-[var(--bg-input)] hover:bg-[var(--bg-hover)]">+ Add Pool</button>
+                </div>
+
+                {/* Entries Column */}
+                <div className="w-full md:w-3/4 flex flex-col gap-4 p-4 bg-[var(--bg-panel-secondary)] rounded-lg border border-[var(--border-primary)]">
+                    {!pool ? (
+                        <div className="text-center text-[var(--text-secondary)]">Select or add a pool to see its entries.</div>
+                    ) : (
+                        <>
+                            <div className="flex flex-wrap items-center justify-between gap-2">
+                                <h3 className="font-bold">Pool {activePool + 1}</h3>
+                                <RangeInputs label="Rolls" range={pool.rolls} onChange={rolls => updatePool({ rolls })} />
+                            </div>
+                            <div>
+                                <h4 className="text-xs font-semibold text-green-400 mb-1">Pool Conditions</h4>
+                                <ConditionList conditions={pool.conditions} onChange={conditions => updatePool({ conditions })} />
+                            </div>
+                            <div className="flex flex-col gap-4 max-h-[60vh] overflow-y-auto pr-2">
+                                {pool.entries.map((entry, index) => (
+                                    <EntryCard
+                                        key={index}
+                                        entry={entry}
+                                        totalWeight={totalWeight}
+                                        onChange={updated => updateEntry(index, updated)}
+                                        onRemove={() => updatePool({ entries: pool.entries.filter((_, i) => i !== index) })}
+                                    />
+                                ))}
+                            </div>
+                            <button onClick={() => updatePool({ entries: [...pool.entries, createEntry()] })} className="w-full py-2 text-sm text-center rounded-lg bg-[var(--bg-input)] hover:bg-[var(--bg-hover)]">+ Add Entry</button>
+                        </>
+                    )}
+                </div>
+            </div>
+
+            <SimulationPanel pools={pools} disabled={errors.length > 0} />
+
+            {errors.length > 0 && (
+                <ul className="list-disc pl-6 p-3 text-sm text-red-400 bg-[var(--bg-app)] border border-red-500/50 rounded-lg">
+                    {errors.map((error, i) => <li key={i}>{error}</li>)}
+                </ul>
+            )}
+            <button onClick={handleGenerate} className="w-full flex justify-center items-center px-6 py-3 font-semibold rounded-lg text-white bg-[var(--accent-primary)] hover:bg-[var(--accent-hover)]">
+                Generate Loot Table
+            </button>
+
+            {generatedFile && <CodeBlock file={generatedFile} onClear={() => setGeneratedFile(null)} />}
+        </div>
+    );
+};
+
+export default LootTableEditor;
@@ -0,0 +1,123 @@
+import React, { useRef, useEffect, useMemo, useState } from 'react';
+import { GeometryModel, Vec3, getModelFaces } from '../utils/geometry';
+
+interface ModelPreviewProps {
+    model: GeometryModel;
+    texture: File | null;
+}
+
+const SIZE = 320;
+const FALLBACK_COLORS: { [face: string]: string } = { up: '#b0b0b0', down: '#505050', north: '#909090', south: '#909090', east: '#787878', west: '#787878' };
+
+/**
+ * Draws a Bedrock model on a 2D canvas with an orthographic camera. Faces are sorted back to front and textured
+ * with an affine transform, which is exact for rectangles under an orthographic projection. Drag to rotate.
+ */
+const ModelPreview: React.FC<ModelPreviewProps> = ({ model, texture }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const dragRef = useRef<{ x: number; y: number } | null>(null);
+    const [angles, setAngles] = useState({ yaw: 35, pitch: -25 });
+    const [image, setImage] = useState<HTMLImageElement | null>(null);
+
+    const faces = useMemo(() => getModelFaces(model), [model]);
+
+    useEffect(() => {
+        if (!texture) {
+            setImage(null);
+            return;
+        }
+        const url = URL.createObjectURL(texture);
+        const img = new Image();
+        img.onload = () => setImage(img);
+        img.src = url;
+        return () => URL.revokeObjectURL(url);
+    }, [texture]);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+
+        const yaw = (angles.yaw * Math.PI) / 180;
+        const pitch = (angles.pitch * Math.PI) / 180;
+        const view = ([x, y, z]: Vec3): Vec3 => {
+            const x1 = x * Math.cos(yaw) + z * Math.sin(yaw);
+            const z1 = -x * Math.sin(yaw) + z * Math.cos(yaw);
+            return [x1, y * Math.cos(pitch) - z1 * Math.sin(pitch), y * Math.sin(pitch) + z1 * Math.cos(pitch)];
+        };
+
+        // Centre the model and scale it to fit, whatever its size.
+        const points = faces.flatMap(face => face.corners);
+        const min = [0, 1, 2].map(i => Math.min(...points.map(p => p[i])));
+        const max = [0, 1, 2].map(i => Math.max(...points.map(p => p[i])));
+        const center: Vec3 = [(min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2];
+        const radius = Math.max(1, ...points.map(p => Math.hypot(p[0] - center[0], p[1] - center[1], p[2] - center[2])));
+        const scale = (SIZE * 0.45) / radius;
+        const project = (p: Vec3): Vec3 => {
+            const [x, y, z] = view([p[0] - center[0], p[1] - center[1], p[2] - center[2]]);
+            return [SIZE / 2 + x * scale, SIZE / 2 - y * scale, z];
+        };
+
+        const projected = faces
+            .map(face => ({ face, corners: face.corners.map(project) }))
+            .filter(({ corners: [tl, tr, bl] }) => (tr[0] - tl[0]) * (bl[1] - tl[1]) - (tr[1] - tl[1]) * (bl[0] - tl[0]) > 0)
+            .sort((a, b) => a.corners.reduce((s, c) => s + c[2], 0) - b.corners.reduce((s, c) => s + c[2], 0));
+
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.clearRect(0, 0, SIZE, SIZE);
+        ctx.imageSmoothingEnabled = false;
+        const pixelsPerUnitX = image ? image.width / model.textureWidth : 1;
+        const pixelsPerUnitY = image ? image.height / model.textureHeight : 1;
+
+        for (const { face, corners: [tl, tr, bl, br] } of projected) {
+            ctx.save();
+            ctx.beginPath();
+            ctx.moveTo(tl[0], tl[1]);
+            ctx.lineTo(tr[0], tr[1]);
+            ctx.lineTo(br[0], br[1]);
+            ctx.lineTo(bl[0], bl[1]);
+            ctx.closePath();
+            const [u, v] = [face.uv.uv[0] * pixelsPerUnitX, face.uv.uv[1] * pixelsPerUnitY];
+            const [w, h] = [face.uv.size[0] * pixelsPerUnitX, face.uv.size[1] * pixelsPerUnitY];
+            if (image && w !== 0 && h !== 0) {
+                ctx.clip();
+                const a = (tr[0] - tl[0]) / w, b = (tr[1] - tl[1]) / w;
+                const c = (bl[0] - tl[0]) / h, d = (bl[1] - tl[1]) / h;
+                ctx.setTransform(a, b, c, d, tl[0] - a * u - c * v, tl[1] - b * u - d * v);
+                ctx.drawImage(image, 0, 0);
+            } else {
+                ctx.fillStyle = FALLBACK_COLORS[face.face];
+                ctx.fill();
+                ctx.strokeStyle = 'rgba(0, 0, 0, 0.3)';
+                ctx.stroke();
+            }
+            ctx.restore();
+        }
+    }, [faces, image, angles, model]);
+
+    const handleMouseMove = (e: React.MouseEvent) => {
+        if (!dragRef.current) return;
+        const dx = e.clientX - dragRef.current.x;
+        const dy = e.clientY - dragRef.current.y;
+        dragRef.current = { x: e.clientX, y: e.clientY };
+        setAngles(prev => ({ yaw: prev.yaw + dx * 0.5, pitch: Math.max(-90, Math.min(90, prev.pitch + dy * 0.5)) }));
+    };
+
+    return (
+        <div className="flex flex-col items-center gap-1">
+            <canvas
+                ref={canvasRef}
+                width={SIZE}
+                height={SIZE}
+                className="bg-[var(--editor-bg)] rounded-lg border border-[var(--border-primary)] cursor-grab active:cursor-grabbing"
+                onMouseDown={e => (dragRef.current = { x: e.clientX, y: e.clientY })}
+                onMouseMove={handleMouseMove}
+                onMouseUp={() => (dragRef.current = null)}
+                onMouseLeave={() => (dragRef.current = null)}
+            />
+            <p className="text-xs text-[var(--text-tertiary)]">Drag to rotate. {image ? '' : 'Upload the model texture to see it applied.'}</p>
+        </div>
+    );
+};
+
+export default ModelPreview;
@@ -1,71 +1,183 @@
-import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { GeneratedFile } from '../types';
 import { useNotification } from '../contexts/NotificationContext';
 import { generateParticleSettingsFromPrompt } from '../services/geminiService';
+import { RP_ROOT, shortName } from '../utils/addonTemplates';
+import { findPacks, packPath } from '../utils/packs';
+import {
+    ParticleSettings, MolangValue, EmitterShape, EmitterRate, EmitDirection, MATERIALS, FACING_CAMERA_MODES,
+    defaultSettings, toMolangValue, buildParticleJson, parseParticleJson, findParticleFiles, applyGeneratedSettings,
+} from '../utils/particles';
+import { PreviewVariables, createCurve, resolvePreviewValue, sampleGradient } from '../utils/particleCurves';
+import { lintMolang } from '../utils/molang';
+import CurveEditor from './CurveEditor';
+import GradientEditor from './GradientEditor';
 
-// Type definitions
-interface ParticleSettings {
-    identifier: string;
-    texture: string;
-    lifespan: number;
-    rate: number;
-    maxParticles: number;
-    emitterShape: 'point' | 'sphere' | 'box';
-    emitterRadius: number;
-    direction: 'outward' | 'upward';
-    initialSpeed: number;
-    gravity: number;
-    airDrag: number;
-    startSize: number;
-    endSize: number;
-    startColor: string;
-    endColor: string;
-    startOpacity: number;
-    endOpacity: number;
+interface ParticleEditorProps {
+    files: GeneratedFile[];
+    onFilesUpdate: (files: GeneratedFile[], label: string) => void;
 }
 
-const defaultSettings: ParticleSettings = {
-    identifier: 'custom:my_particle',
-    texture: 'textures/particle/particles',
-    lifespan: 2.0,
-    rate: 10,
-    maxParticles: 100,
-    emitterShape: 'point',
-    emitterRadius: 0.5,
-    direction: 'outward',
-    initialSpeed: 2.0,
-    gravity: -1.0,
-    airDrag: 1.0,
-    startSize: 0.1,
-    endSize: 0.01,
-    startColor: '#FFFFFF',
-    endColor: '#FFFFFF',
-    startOpacity: 1.0,
-    endOpacity: 0.0,
+const NEW_PARTICLE = '__new__';
+// Preview scale: one block is this many pixels, and the floor used for collisions sits this many blocks below the emitter.
+const PIXELS_PER_BLOCK = 40;
+const FLOOR_DEPTH = 4;
+
+const inputClass = "w-full bg-[var(--bg-input)] border border-[var(--border-primary)] rounded-lg p-1.5 text-sm";
+
+/**
+ * A text field for a number or a Molang expression. It keeps its own text so that partial input
+ * such as "0." or "-" isn't rewritten while the user is still typing.
+ */
+const MolangInput: React.FC<{ value: MolangValue; onChange: (v: MolangValue) => void; className?: string }> = ({ value, onChange, className }) => {
+    const [text, setText] = useState(String(value));
+    useEffect(() => {
+        if (toMolangValue(text) !== value) setText(String(value));
+    }, [value]);
+    return (
+        <input type="text" value={text} onChange={e => { setText(e.target.value); onChange(toMolangValue(e.target.value)); }} className={className ?? inputClass} />
+    );
 };
 
-const ControlSlider: React.FC<{ label: string; value: number; onChange: (v: number) => void; min: number; max: number; step: number; hint?: string }> = ({ label, value, onChange, min, max, step, hint }) => (
+const ControlSlider: React.FC<{ label: string; value: MolangValue; onChange: (v: MolangValue) => void; min: number; max: number; step: number; hint?: string }> = ({ label, value, onChange, min, max, step, hint }) => {
+    const isExpression = typeof value === 'string';
+    const problem = isExpression && value.trim() !== '' ? lintMolang(value)[0] : undefined;
+    return (
+        <div>
+            <div className="flex items-center justify-between">
+                <label className="block text-sm font-medium text-[var(--text-secondary)]" title={hint}>{label}</label>
+                <button
+                    onClick={() => onChange(isExpression ? (Number.isNaN(parseFloat(value)) ? min : parseFloat(value)) : String(value))}
+                    title={isExpression ? 'Use a fixed number' : 'Use a Molang expression'}
+                    className="px-1.5 text-xs font-mono rounded text-[var(--text-tertiary)] hover:text-[var(--accent-primary)] hover:bg-[var(--bg-hover)]"
+                >
+                    {isExpression ? '123' : 'ƒx'}
+                </button>
+            </div>
+            {isExpression ? (
+                <>
+                    <input type="text" value={value} onChange={e => onChange(e.target.value)} placeholder="e.g. math.random(0.5, 1.5)" className={`${inputClass} font-mono`} />
+                    {problem && <p className={`mt-1 text-xs ${problem.severity === 'error' ? 'text-red-400' : 'text-[var(--accent-yellow)]'}`}>{problem.message}</p>}
+                </>
+            ) : (
+                <div className="flex items-center gap-2">
+                    <input type="range" min={min} max={max} step={step} value={value} onChange={e => onChange(parseFloat(e.target.value))} className="w-full h-2 bg-[var(--bg-input)] rounded-lg appearance-none cursor-pointer" />
+                    <input type="number" min={min} max={max} step={step} value={value} onChange={e => onChange(parseFloat(e.target.value))} className="w-16 bg-[var(--bg-input)] text-center text-sm rounded border border-[var(--border-primary)]" />
+                </div>
+            )}
+        </div>
+    );
+};
+
+const VectorField: React.FC<{ label: string; values: MolangValue[]; onChange: (values: any) => void }> = ({ label, values, onChange }) => (
     <div>
-        <label className="block text-sm font-medium text-[var(--text-secondary)]" title={hint}>{label}</label>
-        <div className="flex items-center gap-2">
-            <input type="range" min={min} max={max} step={step} value={value} onChange={e => onChange(parseFloat(e.target.value))} className="w-full h-2 bg-[var(--bg-input)] rounded-lg appearance-none cursor-pointer" />
-            <input type="number" min={min} max={max} step={step} value={value} onChange={e => onChange(parseFloat(e.target.value))} className="w-16 bg-[var(--bg-input)] text-center text-sm rounded border border-[var(--border-primary)]" />
+        <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1">{label}</label>
+        <div className="flex gap-2">
+            {values.map((v, i) => (
+                <MolangInput key={i} value={v} onChange={next => onChange(values.map((old, j) => (j === i ? next : old)))} className={`${inputClass} text-center`} />
+            ))}
         </div>
     </div>
 );
 
-const ParticleEditor: React.FC = () => {
+const NumberInput: React.FC<{ label: string; value: number; onChange: (v: number) => void; step?: number }> = ({ label, value, onChange, step = 1 }) => (
+    <div className="flex-1">
+        <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1">{label}</label>
+        <input type="number" step={step} value={value} onChange={e => onChange(parseFloat(e.target.value))} className={inputClass} />
+    </div>
+);
+
+const Checkbox: React.FC<{ label: string; checked: boolean; onChange: (v: boolean) => void }> = ({ label, checked, onChange }) => (
+    <label className="flex items-center gap-2 text-sm text-[var(--text-secondary)] cursor-pointer">
+        <input type="checkbox" checked={checked} onChange={e => onChange(e.target.checked)} className="h-4 w-4 rounded" />
+        {label}
+    </label>
+);
+
+const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+    <h4 className="pt-2 text-xs font-semibold uppercase tracking-wide text-[var(--text-tertiary)] border-t border-[var(--border-primary)]">{children}</h4>
+);
+
+/** Works out a field's value for the preview, using `fallback` when the expression is beyond it. */
+type PreviewResolver = (value: MolangValue, fallback: number) => number;
+
+/** Picks a spawn position, in blocks, inside or on the emitter shape. */
+const spawnPosition = (settings: ParticleSettings, resolve: PreviewResolver): [number, number, number] => {
+    const random = () => Math.random() * 2 - 1;
+    const offset = settings.offset.map((v, i) => resolve(v, defaultSettings.offset[i] as number));
+    const radius = resolve(settings.emitterRadius, defaultSettings.emitterRadius as number);
+    let point: [number, number, number] = [0, 0, 0];
+    switch (settings.emitterShape) {
+        case 'sphere': {
+            let v: [number, number, number];
+            do v = [random(), random(), random()]; while (Math.hypot(...v) > 1 || Math.hypot(...v) === 0);
+            const scale = settings.surfaceOnly ? radius / Math.hypot(...v) : radius;
+            point = [v[0] * scale, v[1] * scale, v[2] * scale];
+            break;
+        }
+        case 'disc': {
+            const angle = Math.random() * Math.PI * 2;
+            const distance = settings.surfaceOnly ? radius : Math.sqrt(Math.random()) * radius;
+            const a = Math.cos(angle) * distance, b = Math.sin(angle) * distance;
+            point = settings.discNormal === 'x' ? [0, a, b] : settings.discNormal === 'y' ? [a, 0, b] : [a, b, 0];
+            break;
+        }
+        case 'box':
+        case 'entity_aabb': {
+            const half = settings.emitterShape === 'box' ? settings.boxSize.map((v, i) => resolve(v, defaultSettings.boxSize[i] as number)) : [0.3, 0.9, 0.3];
+            point = [random() * half[0], random() * half[1], random() * half[2]];
+            if (settings.surfaceOnly) {
+                const axis = Math.floor(Math.random() * 3);
+                point[axis] = Math.sign(random()) * half[axis];
+            }
+            break;
+        }
+    }
+    return [point[0] + offset[0], point[1] + offset[1], point[2] + offset[2]];
+};
+
+const spawnDirection = (direction: EmitDirection, position: [number, number, number]): [number, number, number] => {
+    if (direction === 'upward') return [0, 1, 0];
+    let v = position;
+    // Particles from a point (or the exact center) head off in a random direction.
+    if (Math.hypot(...v) === 0) v = [Math.random() * 2 - 1, Math.random() * 2 - 1, Math.random() * 2 - 1];
+    const length = Math.hypot(...v) || 1;
+    const sign = direction === 'inward' ? -1 : 1;
+    return [sign * v[0] / length, sign * v[1] / length, sign * v[2] / length];
+};
+
+const ParticleEditor: React.FC<ParticleEditorProps> = ({ files, onFilesUpdate }) => {
     const [settings, setSettings] = useState<ParticleSettings>(defaultSettings);
+    const [source, setSource] = useState(NEW_PARTICLE);
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const particlesRef = useRef<any[]>([]);
+    const importInputRef = useRef<HTMLInputElement>(null);
     const { addNotification } = useNotification();
     const [aiPrompt, setAiPrompt] = useState('');
     const [isAiLoading, setIsAiLoading] = useState(false);
 
-    const updateSetting = (key: keyof ParticleSettings, value: any) => {
+    const projectFiles = useMemo(() => findParticleFiles(files), [files]);
+    const content = useMemo(() => JSON.stringify(buildParticleJson(settings), null, 2), [settings]);
+    const keptComponents = Object.keys(settings.extraComponents);
+    const fileName = `${shortName(settings.identifier) || 'particle'}.json`;
+    const resourcePackRoot = findPacks(files).find(pack => pack.kind === 'resource')?.root ?? RP_ROOT;
+    const path = source === NEW_PARTICLE ? packPath(resourcePackRoot, `particles/${fileName}`) : source;
+
+    const updateSetting = <K extends keyof ParticleSettings>(key: K, value: ParticleSettings[K]) => {
         setSettings(prev => ({ ...prev, [key]: value }));
     };
-    
-    // The main simulation and drawing loop
+    const updateCollision = (patch: Partial<ParticleSettings['collision']>) => setSettings(prev => ({ ...prev, collision: { ...prev.collision, ...patch } }));
+    const updateUv = (patch: Partial<ParticleSettings['uv']>) => setSettings(prev => ({ ...prev, uv: { ...prev.uv, ...patch } }));
+    const updateCurve = (index: number, curve: ParticleSettings['curves'][number]) => setSettings(prev => ({ ...prev, curves: prev.curves.map((c, i) => (i === index ? curve : c)) }));
+    const removeCurve = (index: number) => setSettings(prev => ({ ...prev, curves: prev.curves.filter((_, i) => i !== index) }));
+    const addCurve = () => setSettings(prev => {
+        const names = prev.curves.map(c => c.name);
+        let n = prev.curves.length + 1;
+        while (names.includes(`variable.curve_${n}`)) n++;
+        return { ...prev, curves: [...prev.curves, createCurve(`variable.curve_${n}`)] };
+    });
+
+    // The main simulation and drawing loop. Positions are in blocks with y pointing up, like in game.
     useEffect(() => {
         const canvas = canvasRef.current;
         if (!canvas) return;
@@ -73,123 +185,176 @@ const ParticleEditor: React.FC = () => {
         if (!ctx) return;
 
         let animationFrameId: number;
+        let lastTime: number | null = null;
+        let cycleTime = 0;
+        let pending = 0;
+        let burstDone = false;
+
+        const emitterVariables: PreviewVariables = {
+            emitter_random_1: Math.random(),
+            emitter_random_2: Math.random(),
+            emitter_random_3: Math.random(),
+            emitter_random_4: Math.random(),
+        };
+        const resolve = (value: MolangValue, fallback: number, variables: PreviewVariables = emitterVariables) =>
+            resolvePreviewValue(value, { ...variables, emitter_age: cycleTime }, settings.curves, fallback);
+
+        const activeTime = Math.max(0.05, resolve(settings.activeTime, defaultSettings.activeTime as number));
+        emitterVariables.emitter_lifetime = activeTime;
+        const maxParticles = resolve(settings.maxParticles, defaultSettings.maxParticles as number);
+        // A "once" emitter is replayed after its particles have died so the preview doesn't go blank.
+        const cycleLength = settings.lifetimeMode === 'once' ? activeTime + resolve(settings.lifespan, defaultSettings.lifespan as number) : activeTime;
+
+        const emit = () => {
+            const variables: PreviewVariables = {
+                ...emitterVariables,
+                particle_age: 0,
+                particle_random_1: Math.random(),
+                particle_random_2: Math.random(),
+                particle_random_3: Math.random(),
+                particle_random_4: Math.random(),
+            };
+            const particleResolve: PreviewResolver = (value, fallback) => resolve(value, fallback, variables);
+            const position = spawnPosition(settings, particleResolve);
+            const direction = spawnDirection(settings.direction, position);
+            const speed = particleResolve(settings.initialSpeed, defaultSettings.initialSpeed as number);
+            variables.particle_lifetime = Math.max(0.01, particleResolve(settings.lifespan, defaultSettings.lifespan as number));
+            particlesRef.current.push({ position, velocity: direction.map(d => d * speed), variables });
+        };
 
         const loop = (timestamp: number) => {
+            const dt = lastTime === null ? 0 : Math.min(0.1, (timestamp - lastTime) / 1000);
+            lastTime = timestamp;
             ctx.clearRect(0, 0, canvas.width, canvas.height);
-            
-            // Emit new particles
-            if (particlesRef.current.length < settings.maxParticles) {
-                 for (let i = 0; i < Math.floor(settings.rate / 60); i++) {
-                    let posX = canvas.width / 2, posY = canvas.height / 2;
-                    let velX = (Math.random() - 0.5) * settings.initialSpeed;
-                    let velY = (Math.random() - 0.5) * settings.initialSpeed;
-                    
-                    if(settings.direction === 'upward') {
-                        velY = -Math.random() * settings.initialSpeed;
-                    }
-                    particlesRef.current.push({ x: posX, y: posY, vx: velX, vy: velY, age: 0, maxAge: settings.lifespan * 1000 });
-                 }
+            const centerX = canvas.width / 2, centerY = canvas.height / 2;
+            const floorY = centerY + FLOOR_DEPTH * PIXELS_PER_BLOCK;
+
+            cycleTime += dt;
+            if (cycleTime >= cycleLength) {
+                cycleTime -= cycleLength;
+                burstDone = false;
+            }
+            const active = cycleTime < activeTime;
+            if (active && settings.rateMode === 'steady') {
+                pending += resolve(settings.rate, defaultSettings.rate as number) * dt;
+                for (; pending >= 1; pending--) if (particlesRef.current.length < maxParticles) emit();
+            } else if (active && !burstDone) {
+                // Manual emitters spawn when the game tells them to; the preview stands in with a single burst.
+                const count = settings.rateMode === 'instant' ? resolve(settings.burstCount, defaultSettings.burstCount as number) : maxParticles;
+                for (let i = 0; i < count; i++) emit();
+                burstDone = true;
+            }
+
+            if (settings.collision.enabled) {
+                ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
+                ctx.beginPath();
+                ctx.moveTo(0, floorY);
+                ctx.lineTo(canvas.width, floorY);
+                ctx.stroke();
             }
 
             // Update and draw particles
-            particlesRef.current = particlesRef.current.filter(p => p.age < p.maxAge);
+            particlesRef.current = particlesRef.current.filter(p => p.variables.particle_age < p.variables.particle_lifetime);
             particlesRef.current.forEach(p => {
-                p.vx *= (1 - settings.airDrag * 0.01);
-                p.vy *= (1 - settings.airDrag * 0.01);
-                p.vy += settings.gravity * 0.01;
-                p.x += p.vx;
-                p.y += p.vy;
-                p.age += 16; // rough delta time
-
-                const lifeRatio = p.age / p.maxAge;
-                const size = settings.startSize + (settings.endSize - settings.startSize) * lifeRatio;
-                
-                const r1 = parseInt(settings.startColor.slice(1, 3), 16);
-                const g1 = parseInt(settings.startColor.slice(3, 5), 16);
-                const b1 = parseInt(settings.startColor.slice(5, 7), 16);
-                const r2 = parseInt(settings.endColor.slice(1, 3), 16);
-                const g2 = parseInt(settings.endColor.slice(3, 5), 16);
-                const b2 = parseInt(settings.endColor.slice(5, 7), 16);
-
-                const r = Math.round(r1 + (r2 - r1) * lifeRatio);
-                const g = Math.round(g1 + (g2 - g1) * lifeRatio);
-                const b = Math.round(b1 + (b2 - b1) * lifeRatio);
-
-                const opacity = settings.startOpacity + (settings.endOpacity - settings.startOpacity) * lifeRatio;
+                const variables: PreviewVariables = p.variables;
+                const particleResolve: PreviewResolver = (value, fallback) => resolve(value, fallback, variables);
+                const gravity = particleResolve(settings.gravity, defaultSettings.gravity as number);
+                const drag = particleResolve(settings.airDrag, defaultSettings.airDrag as number);
+                p.velocity[1] += gravity * dt;
+                p.velocity = p.velocity.map((v: number) => v - v * drag * dt);
+                p.position = p.position.map((v: number, i: number) => v + p.velocity[i] * dt);
+                variables.particle_age += dt;
+
+                const floor = -FLOOR_DEPTH + settings.collision.radius;
+                if (settings.collision.enabled && p.position[1] < floor) {
+                    if (settings.collision.expireOnContact) variables.particle_age = variables.particle_lifetime;
+                    p.position[1] = floor;
+                    p.velocity[1] = -p.velocity[1] * settings.collision.restitution;
+                    p.velocity[0] = Math.sign(p.velocity[0]) * Math.max(0, Math.abs(p.velocity[0]) - settings.collision.drag * dt);
+                    p.velocity[2] = Math.sign(p.velocity[2]) * Math.max(0, Math.abs(p.velocity[2]) - settings.collision.drag * dt);
+                }
+
+                // Sizes and colors are worked out the same way the written file describes them.
+                const lifeRatio = Math.min(1, variables.particle_age / variables.particle_lifetime);
+                const startSize = particleResolve(settings.startSize, defaultSettings.startSize as number);
+                const size = settings.startSize === settings.endSize ? startSize : startSize + (particleResolve(settings.endSize, startSize) - startSize) * lifeRatio;
+                const { rgb: [r, g, b], opacity } = sampleGradient(settings.gradient, particleResolve(settings.colorInterpolant, lifeRatio));
 
                 ctx.fillStyle = `rgba(${r}, ${g}, ${b}, ${opacity})`;
                 ctx.beginPath();
-                ctx.arc(p.x, p.y, size * 20, 0, Math.PI * 2);
+                ctx.arc(centerX + p.position[0] * PIXELS_PER_BLOCK, centerY - p.position[1] * PIXELS_PER_BLOCK, Math.max(0, size * PIXELS_PER_BLOCK / 2), 0, Math.PI * 2);
                 ctx.fill();
             });
 
             animationFrameId = requestAnimationFrame(loop);
         };
-        
-        loop(0);
+
+        animationFrameId = requestAnimationFrame(loop);
 
         return () => {
             cancelAnimationFrame(animationFrameId);
         };
     }, [settings]);
 
-    const handleGenerateJson = () => {
-        const particleJson = {
-            format_version: "1.20.50",
-            particle_effect: {
-                description: {
-                    identifier: settings.identifier,
-                    basic_render_parameters: {
-                        material: "particles_alpha",
-                        texture: settings.texture,
-                    },
-                },
-                components: {
-                    "minecraft:emitter_rate_steady": {
-                        spawn_rate: settings.rate,
-                        max_particles: settings.maxParticles,
-                    },
-                    "minecraft:emitter_lifetime_looping": { active_time: 1 },
-                    "minecraft:emitter_shape_point": {
-                        direction: settings.direction === 'upward' ? [0, 1, 0] : "outwards",
-                    },
-                    "minecraft:particle_lifetime_expression": {
-                        max_lifetime: settings.lifespan,
-                    },
-                    "minecraft:particle_initial_speed": settings.initialSpeed,
-                    "minecraft:particle_motion_dynamic": {
-                        linear_acceleration: [0, settings.gravity, 0],
-                        linear_drag_coefficient: settings.airDrag,
-                    },
-                    "minecraft:particle_appearance_billboard": {
-                        size: [`variable.particle_age / variable.particle_lifetime * ${settings.endSize - settings.startSize} + ${settings.startSize}`],
-                        facing_camera_mode: "lookat_xyz",
-                    },
-                    "minecraft:particle_appearance_tinting": {
-                        color: {
-                            gradient: [
-                                { time: 0.0, color: settings.startColor },
-                                { time: 1.0, color: settings.endColor },
-                            ],
-                            interpolant: `variable.particle_age / variable.particle_lifetime`,
-                        },
-                    },
-                },
-            },
-        };
+    const loadParticle = (text: string, name: string) => {
+        try {
+            const loaded = parseParticleJson(text);
+            setSettings(loaded);
+            particlesRef.current = [];
+            const kept = Object.keys(loaded.extraComponents);
+            addNotification('success', `Loaded ${loaded.identifier} from ${name}.`);
+            if (kept.length > 0) addNotification('info', `${kept.length} component(s) can't be edited here and will be saved unchanged.`);
+            return true;
+        } catch (err) {
+            addNotification('error', `Couldn't read ${name}: ${(err as Error).message}`);
+            return false;
+        }
+    };
 
-        const content = JSON.stringify(particleJson);
+    const openSource = (value: string) => {
+        if (value === NEW_PARTICLE) {
+            setSettings(defaultSettings);
+            setSource(value);
+            return;
+        }
+        const file = files.find(f => f.path === value);
+        if (file && loadParticle(file.content, value)) setSource(value);
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        if (loadParticle(await file.text(), file.name)) setSource(NEW_PARTICLE);
+    };
+
+    const handleGenerateJson = () => {
         const blob = new Blob([content], { type: 'application/json' });
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
-        const fileName = settings.identifier.split(':')[1] || 'particle';
-        a.download = `${fileName}.json`;
+        a.download = fileName;
         a.click();
         URL.revokeObjectURL(url);
         addNotification('success', 'Particle JSON downloaded!');
     };
-    
+
+    const handleSave = () => {
+        if (!settings.identifier.includes(':')) {
+            addNotification('error', 'The identifier needs a namespace, e.g. "custom:my_particle".');
+            return;
+        }
+        const exists = files.some(f => f.path === path);
+        if (source === NEW_PARTICLE && exists) {
+            addNotification('error', `${path} already exists. Open it from the file list to edit it.`);
+            return;
+        }
+        const updated = exists ? files.map(f => (f.path === path ? { ...f, content } : f)) : [...files, { path, content }];
+        onFilesUpdate(updated, `Particle ${settings.identifier}`);
+        setSource(path);
+        addNotification('success', `${exists ? 'Saved' : 'Added'} ${path}.`);
+    };
+
     const handleAiGenerate = async () => {
         if (!aiPrompt.trim()) {
             addNotification('info', 'Please describe the particle effect.');
@@ -198,7 +363,7 @@ const ParticleEditor: React.FC = () => {
         setIsAiLoading(true);
         try {
             const newSettings = await generateParticleSettingsFromPrompt(aiPrompt);
-            setSettings(prev => ({ ...prev, ...newSettings }));
+            setSettings(prev => applyGeneratedSettings(prev, newSettings));
             addNotification('success', 'AI settings applied!');
         } catch (err) {
             addNotification('error', (err as Error).message);
@@ -207,52 +372,200 @@ const ParticleEditor: React.FC = () => {
         }
     };
 
+    const usesRadius = settings.emitterShape === 'sphere' || settings.emitterShape === 'disc';
+
     return (
         <div className="flex flex-grow gap-6 p-6 overflow-hidden h-full">
             <div className="w-[400px] flex-shrink-0 flex flex-col gap-4 bg-[var(--bg-panel)] p-4 rounded-xl border border-[var(--border-primary)]">
-                <h3 className="text-lg font-bold">Particle Controls</h3>
+                <div className="flex items-center justify-between">
+                    <h3 className="text-lg font-bold">Particle Controls</h3>
+                    <button onClick={() => importInputRef.current?.click()} className="px-3 py-1 text-sm font-semibold rounded-lg bg-[var(--bg-input)] hover:bg-[var(--bg-hover)]">Import JSON</button>
+                    <input ref={importInputRef} type="file" accept=".json" onChange={handleImport} className="hidden" />
+                </div>
                 <div className="flex-grow overflow-y-auto pr-2 space-y-4">
-                     <div>
+                    <div>
+                        <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1">File</label>
+                        <select value={source} onChange={e => openSource(e.target.value)} className={inputClass}>
+                            <option value={NEW_PARTICLE}>New particle</option>
+                            {projectFiles.length > 0 && (
+                                <optgroup label="Current project">
+                                    {projectFiles.map(p => <option key={p} value={p}>{p}</option>)}
+                                </optgroup>
+                            )}
+                        </select>
+                    </div>
+                    <div>
                         <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1">Identifier</label>
-                        <input type="text" value={settings.identifier} onChange={e => updateSetting('identifier', e.target.value)} className="w-full bg-[var(--bg-input)] border border-[var(--border-primary)] rounded-lg p-1.5 text-sm" />
+                        <input type="text" value={settings.identifier} onChange={e => updateSetting('identifier', e.target.value)} className={inputClass} />
                     </div>
                     <div>
                         <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1">Texture Path</label>
-                        <input type="text" value={settings.texture} onChange={e => updateSetting('texture', e.target.value)} className="w-full bg-[var(--bg-input)] border border-[var(--border-primary)] rounded-lg p-1.5 text-sm" />
+                        <input type="text" value={settings.texture} onChange={e => updateSetting('texture', e.target.value)} className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1">Material</label>
+                        <select value={settings.material} onChange={e => updateSetting('material', e.target.value)} className={inputClass}>
+                            {MATERIALS.map(m => <option key={m} value={m}>{m}</option>)}
+                        </select>
+                    </div>
+
+                    <SectionTitle>Emitter</SectionTitle>
+                    <div className="flex gap-4">
+                        <div className="flex-1">
+                            <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1">Rate</label>
+                            <select value={settings.rateMode} onChange={e => updateSetting('rateMode', e.target.value as EmitterRate)} className={inputClass}>
+                                <option value="steady">Steady</option>
+                                <option value="instant">Instant burst</option>
+                                <option value="manual">Manual</option>
+                            </select>
+                        </div>
+                        <div className="flex-1">
+                            <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1">Lifetime</label>
+                            <select value={settings.lifetimeMode} onChange={e => updateSetting('lifetimeMode', e.target.value as ParticleSettings['lifetimeMode'])} className={inputClass}>
+                                <option value="looping">Looping</option>
+                                <option value="once">Once</option>
+                            </select>
+                        </div>
+                    </div>
+                    {settings.rateMode === 'steady' && <ControlSlider label="Spawn Rate" value={settings.rate} onChange={v => updateSetting('rate', v)} min={1} max={200} step={1} />}
+                    {settings.rateMode === 'instant' && <ControlSlider label="Particles per Burst" value={settings.burstCount} onChange={v => updateSetting('burstCount', v)} min={1} max={500} step={1} />}
+                    {settings.rateMode !== 'instant' && <ControlSlider label="Max Particles" value={settings.maxParticles} onChange={v => updateSetting('maxParticles', v)} min={10} max={1000} step={10} hint={settings.rateMode === 'manual' ? 'Manual emitters spawn particles from events; the preview shows one burst.' : undefined} />}
+                    <ControlSlider label="Active Time (s)" value={settings.activeTime} onChange={v => updateSetting('activeTime', v)} min={0.1} max={10} step={0.1} />
+                    <div>
+                        <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1">Shape</label>
+                        <select value={settings.emitterShape} onChange={e => updateSetting('emitterShape', e.target.value as EmitterShape)} className={inputClass}>
+                            <option value="point">Point</option>
+                            <option value="sphere">Sphere</option>
+                            <option value="box">Box</option>
+                            <option value="disc">Disc</option>
+                            <option value="entity_aabb">Entity bounding box</option>
+                        </select>
+                    </div>
+                    {usesRadius && <ControlSlider label="Radius" value={settings.emitterRadius} onChange={v => updateSetting('emitterRadius', v)} min={0} max={5} step={0.1} />}
+                    {settings.emitterShape === 'box' && <VectorField label="Half Size (x, y, z)" values={settings.boxSize} onChange={v => updateSetting('boxSize', v)} />}
+                    {settings.emitterShape === 'disc' && (
+                        <div>
+                            <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1">Facing Axis</label>
+                            <select value={settings.discNormal} onChange={e => updateSetting('discNormal', e.target.value as ParticleSettings['discNormal'])} className={inputClass}>
+                                <option value="x">X</option>
+                                <option value="y">Y (flat)</option>
+                                <option value="z">Z</option>
+                            </select>
+                        </div>
+                    )}
+                    {settings.emitterShape !== 'point' && <Checkbox label="Spawn on the surface only" checked={settings.surfaceOnly} onChange={v => updateSetting('surfaceOnly', v)} />}
+                    {settings.emitterShape !== 'entity_aabb' && <VectorField label="Offset (x, y, z)" values={settings.offset} onChange={v => updateSetting('offset', v)} />}
+                    <div>
+                        <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1">Direction</label>
+                        <select value={settings.direction} onChange={e => updateSetting('direction', e.target.value as EmitDirection)} className={inputClass}>
+                            <option value="outward">Outward</option>
+                            <option value="inward">Inward</option>
+                            <option value="upward">Upward</option>
+                        </select>
                     </div>
+
+                    <SectionTitle>Motion</SectionTitle>
                     <ControlSlider label="Lifespan (s)" value={settings.lifespan} onChange={v => updateSetting('lifespan', v)} min={0.1} max={10} step={0.1} />
-                    <ControlSlider label="Spawn Rate" value={settings.rate} onChange={v => updateSetting('rate', v)} min={1} max={200} step={1} />
-                    <ControlSlider label="Max Particles" value={settings.maxParticles} onChange={v => updateSetting('maxParticles', v)} min={10} max={1000} step={10} />
                     <ControlSlider label="Initial Speed" value={settings.initialSpeed} onChange={v => updateSetting('initialSpeed', v)} min={0} max={20} step={0.1} />
-                    <ControlSlider label="Gravity" value={settings.gravity} onChange={v => updateSetting('gravity', v)} min={-20} max={20} step={0.1} hint="Negative for up, positive for down" />
+                    <ControlSlider label="Gravity" value={settings.gravity} onChange={v => updateSetting('gravity', v)} min={-20} max={20} step={0.1} hint="Negative pulls particles down, positive lifts them up" />
                     <ControlSlider label="Air Drag" value={settings.airDrag} onChange={v => updateSetting('airDrag', v)} min={0} max={10} step={0.1} />
+                    <Checkbox label="Collide with blocks" checked={settings.collision.enabled} onChange={v => updateCollision({ enabled: v })} />
+                    {settings.collision.enabled && (
+                        <div className="space-y-3 pl-6">
+                            <div className="flex gap-2">
+                                <NumberInput label="Radius" value={settings.collision.radius} onChange={v => updateCollision({ radius: v })} step={0.05} />
+                                <NumberInput label="Bounciness" value={settings.collision.restitution} onChange={v => updateCollision({ restitution: v })} step={0.1} />
+                                <NumberInput label="Friction" value={settings.collision.drag} onChange={v => updateCollision({ drag: v })} step={0.5} />
+                            </div>
+                            <Checkbox label="Disappear on contact" checked={settings.collision.expireOnContact} onChange={v => updateCollision({ expireOnContact: v })} />
+                        </div>
+                    )}
+
+                    <SectionTitle>Appearance</SectionTitle>
                     <ControlSlider label="Start Size" value={settings.startSize} onChange={v => updateSetting('startSize', v)} min={0} max={2} step={0.01} />
                     <ControlSlider label="End Size" value={settings.endSize} onChange={v => updateSetting('endSize', v)} min={0} max={2} step={0.01} />
-                     <div className="flex gap-4">
-                        <div className="flex-1">
-                             <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1">Start Color</label>
-                             <input type="color" value={settings.startColor} onChange={e => updateSetting('startColor', e.target.value)} className="w-full h-8 p-0 border-0 rounded" />
+                    <div>
+                        <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1">Facing</label>
+                        <select value={settings.facingCameraMode} onChange={e => updateSetting('facingCameraMode', e.target.value)} className={inputClass}>
+                            {FACING_CAMERA_MODES.map(m => <option key={m} value={m}>{m}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1">Color</label>
+                        <GradientEditor stops={settings.gradient} onChange={stops => updateSetting('gradient', stops)} />
+                    </div>
+                    {settings.gradient.length > 1 && (
+                        <div>
+                            <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1" title="The value that moves along the gradient. By default it goes from 0 to 1 over the particle's life.">Color Input</label>
+                            <input type="text" value={settings.colorInterpolant} onChange={e => updateSetting('colorInterpolant', e.target.value)} className={`${inputClass} font-mono`} />
                         </div>
-                        <div className="flex-1">
-                            <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1">End Color</label>
-                             <input type="color" value={settings.endColor} onChange={e => updateSetting('endColor', e.target.value)} className="w-full h-8 p-0 border-0 rounded" />
+                    )}
+                    <Checkbox label="Lit by the world (particle_appearance_lighting)" checked={settings.lighting} onChange={v => updateSetting('lighting', v)} />
+
+                    <SectionTitle>Curves</SectionTitle>
+                    {settings.curves.map((curve, i) => (
+                        <div key={i} className="space-y-2 p-3 bg-[var(--bg-app)] rounded-lg border border-[var(--border-primary)]">
+                            <CurveEditor curve={curve} onChange={updated => updateCurve(i, updated)} />
+                            <div className="flex justify-between text-sm">
+                                <button onClick={() => setSettings(prev => ({ ...prev, startSize: curve.name, endSize: curve.name }))} className="text-[var(--accent-primary)] hover:underline">Use for size</button>
+                                <button onClick={() => removeCurve(i)} className="text-[var(--text-tertiary)] hover:text-red-400">Remove curve</button>
+                            </div>
                         </div>
-                    </div>
+                    ))}
+                    <button onClick={addCurve} className="text-sm text-[var(--accent-primary)] hover:underline text-left">+ Add curve</button>
+
+                    <SectionTitle>Texture UV</SectionTitle>
+                    <Checkbox label="Use part of the texture" checked={settings.uv.enabled} onChange={v => updateUv({ enabled: v })} />
+                    {settings.uv.enabled && (
+                        <div className="space-y-3">
+                            <div className="flex gap-2">
+                                <NumberInput label="Texture Width" value={settings.uv.textureWidth} onChange={v => updateUv({ textureWidth: v })} />
+                                <NumberInput label="Texture Height" value={settings.uv.textureHeight} onChange={v => updateUv({ textureHeight: v })} />
+                            </div>
+                            <VectorField label="UV (u, v)" values={settings.uv.base} onChange={v => updateUv({ base: v })} />
+                            <VectorField label="UV Size (w, h)" values={settings.uv.size} onChange={v => updateUv({ size: v })} />
+                            <Checkbox label="Flipbook animation" checked={settings.uv.flipbook} onChange={v => updateUv({ flipbook: v })} />
+                            {settings.uv.flipbook && (
+                                <>
+                                    <VectorField label="Step per Frame (u, v)" values={settings.uv.step} onChange={v => updateUv({ step: v })} />
+                                    <div className="flex gap-2">
+                                        <NumberInput label="Frames per Second" value={settings.uv.framesPerSecond} onChange={v => updateUv({ framesPerSecond: v })} />
+                                        <div className="flex-1">
+                                            <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1">Frame Count</label>
+                                            <MolangInput value={settings.uv.maxFrame} onChange={v => updateUv({ maxFrame: v })} />
+                                        </div>
+                                    </div>
+                                    <Checkbox label="Stretch frames over the particle's life" checked={settings.uv.stretchToLifetime} onChange={v => updateUv({ stretchToLifetime: v })} />
+                                    <Checkbox label="Loop" checked={settings.uv.loop} onChange={v => updateUv({ loop: v })} />
+                                </>
+                            )}
+                        </div>
+                    )}
+
+                    {keptComponents.length > 0 && (
+                        <div className="p-3 text-xs text-[var(--accent-yellow)] bg-[var(--bg-app)] border border-[var(--border-primary)] rounded-lg">
+                            Kept unchanged from the imported file: {keptComponents.join(', ')}
+                        </div>
+                    )}
                 </div>
             </div>
             <div className="flex-grow flex flex-col gap-4">
-                 <div className="flex-grow flex items-center justify-center bg-grid-pattern bg-black/30 p-4 rounded-xl border border-[var(--border-primary)] relative">
+                <div className="flex-grow flex items-center justify-center bg-grid-pattern bg-black/30 p-4 rounded-xl border border-[var(--border-primary)] relative">
                     <canvas ref={canvasRef} width={512} height={512} />
+                    <p className="absolute bottom-2 left-3 text-xs text-[var(--text-tertiary)]">Expressions the preview can't evaluate use default values.</p>
                 </div>
-                 <div className="h-48 flex-shrink-0 flex flex-col gap-2 bg-[var(--bg-panel)] p-4 rounded-xl border border-[var(--border-primary)]">
+                <div className="h-48 flex-shrink-0 flex flex-col gap-2 bg-[var(--bg-panel)] p-4 rounded-xl border border-[var(--border-primary)]">
                     <h3 className="text-md font-bold">AI Generation</h3>
                     <div className="flex gap-2 flex-grow">
                         <textarea value={aiPrompt} onChange={e => setAiPrompt(e.target.value)} placeholder="Describe a particle effect, e.g., 'a burst of purple fire that floats upwards'" className="w-full bg-[var(--bg-input)] border border-[var(--border-primary)] rounded-lg p-2.5 text-sm resize-none min-h-[80px]" />
                         <div className="flex flex-col gap-2">
                             <button onClick={handleAiGenerate} disabled={isAiLoading} className="w-32 h-full flex justify-center items-center font-semibold rounded-lg text-white bg-[var(--accent-primary)] hover:bg-[var(--accent-hover)] disabled:bg-[var(--bg-active)]">
-                               {isAiLoading ? '...' : 'Apply AI'}
+                                {isAiLoading ? '...' : 'Apply AI'}
+                            </button>
+                            <button onClick={handleSave} title={path} className="w-32 h-full flex justify-center items-center font-semibold rounded-lg text-white bg-[var(--accent-green)] hover:bg-[var(--accent-green-hover)]">
+                                {source === NEW_PARTICLE ? 'Add to Project' : 'Save to Project'}
                             </button>
-                            <button onClick={handleGenerateJson} className="w-32 h-full flex justify-center items-center font-semibold rounded-lg text-white bg-[var(--accent-green)] hover:bg-[var(--accent-green-hover)]">Download JSON</button>
+                            <button onClick={handleGenerateJson} className="w-32 h-full flex justify-center items-center font-semibold rounded-lg bg-[var(--bg-input)] hover:bg-[var(--bg-hover)]">Download JSON</button>
                         </div>
                     </div>
                 </div>
@@ -261,4 +574,4 @@ const ParticleEditor: React.FC = () => {
     );
 };
 
-export default ParticleEditor;
\ No newline at end of file
+export default ParticleEditor;
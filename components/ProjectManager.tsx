@@ -0,0 +1,150 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ProjectSummary, listProjects, renameProject, duplicateProject, deleteProject } from '../utils/projectStore';
+import { useNotification } from '../contexts/NotificationContext';
+
+interface ProjectManagerProps {
+  currentProjectId: string | null;
+  onOpenProject: (id: string) => void;
+  onNewProject: () => void;
+  onProjectDeleted: (id: string) => void;
+}
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const ProjectManager: React.FC<ProjectManagerProps> = ({ currentProjectId, onOpenProject, onNewProject, onProjectDeleted }) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const { addNotification } = useNotification();
+
+  const refresh = useCallback(async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (err) {
+      console.error('Failed to list projects', err);
+      addNotification('error', 'Could not load your saved projects.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [addNotification]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleStartRename = (project: ProjectSummary) => {
+    setRenamingId(project.id);
+    setRenameValue(project.name);
+  };
+
+  const handleRename = async () => {
+    if (!renamingId) return;
+    if (!renameValue.trim()) {
+      addNotification('error', 'Project name cannot be empty.');
+      return;
+    }
+    try {
+      await renameProject(renamingId, renameValue.trim());
+      setRenamingId(null);
+      await refresh();
+    } catch (err) {
+      addNotification('error', `Failed to rename project: ${(err as Error).message}`);
+    }
+  };
+
+  const handleDuplicate = async (id: string) => {
+    try {
+      const copy = await duplicateProject(id);
+      addNotification('success', `Created "${copy.name}".`);
+      await refresh();
+    } catch (err) {
+      addNotification('error', `Failed to duplicate project: ${(err as Error).message}`);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteProject(id);
+      setConfirmDeleteId(null);
+      onProjectDeleted(id);
+      await refresh();
+    } catch (err) {
+      addNotification('error', `Failed to delete project: ${(err as Error).message}`);
+    }
+  };
+
+  const buttonClass = "text-xs px-3 py-1.5 rounded-md bg-[var(--bg-input)] border border-[var(--border-primary)] hover:bg-[var(--bg-active)] transition-colors";
+
+  return (
+    <div className="flex flex-col gap-6 max-w-4xl mx-auto">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-[var(--text-primary)]">Projects</h2>
+          <p className="text-sm text-[var(--text-secondary)] mt-1">Your addons are saved in this browser automatically, including textures and sounds.</p>
+        </div>
+        <button onClick={onNewProject} className="px-4 py-2 font-semibold rounded-lg text-white bg-[var(--accent-primary)] hover:bg-[var(--accent-hover)]">
+          New Project
+        </button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-[var(--text-secondary)]">Loading projects...</p>
+      ) : projects.length === 0 ? (
+        <div className="text-center p-8 text-[var(--text-secondary)] bg-[var(--bg-app)] rounded-lg border border-[var(--border-primary)]">
+          <p className="font-bold text-[var(--text-primary)]">No saved projects yet</p>
+          <p className="text-sm mt-2">Generate, fix, combine or load an addon and it will be saved here.</p>
+        </div>
+      ) : (
+        <ul className="flex flex-col gap-3">
+          {projects.map(project => (
+            <li key={project.id} className={`p-4 bg-[var(--bg-app)] rounded-lg border ${project.id === currentProjectId ? 'border-[var(--accent-primary)]' : 'border-[var(--border-primary)]'} flex flex-col md:flex-row md:items-center gap-3`}>
+              <div className="flex-grow min-w-0">
+                {renamingId === project.id ? (
+                  <input
+                    autoFocus
+                    value={renameValue}
+                    onChange={e => setRenameValue(e.target.value)}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') handleRename();
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    onBlur={handleRename}
+                    className="w-full bg-[var(--bg-input)] border border-[var(--border-primary)] rounded-lg p-1.5 text-sm text-[var(--text-primary)] outline-none focus:ring-2 focus:ring-[var(--accent-primary)]"
+                  />
+                ) : (
+                  <p className="font-semibold text-[var(--text-primary)] truncate">
+                    {project.name}
+                    {project.id === currentProjectId && <span className="ml-2 text-xs text-[var(--accent-primary)]">(open)</span>}
+                  </p>
+                )}
+                <p className="text-xs text-[var(--text-secondary)] mt-1">
+                  {project.fileCount} {project.fileCount === 1 ? 'file' : 'files'} · {project.assetCount} {project.assetCount === 1 ? 'asset' : 'assets'} · Updated {formatDate(project.updatedAt)}
+                </p>
+              </div>
+              <div className="flex flex-wrap gap-2 flex-shrink-0">
+                {confirmDeleteId === project.id ? (
+                  <>
+                    <span className="text-xs self-center text-[var(--notification-error-text)]">Delete permanently?</span>
+                    <button onClick={() => handleDelete(project.id)} className={`${buttonClass} text-red-400`}>Delete</button>
+                    <button onClick={() => setConfirmDeleteId(null)} className={buttonClass}>Cancel</button>
+                  </>
+                ) : (
+                  <>
+                    <button onClick={() => onOpenProject(project.id)} className={buttonClass}>Open</button>
+                    <button onClick={() => handleStartRename(project)} className={buttonClass}>Rename</button>
+                    <button onClick={() => handleDuplicate(project.id)} className={buttonClass}>Duplicate</button>
+                    <button onClick={() => setConfirmDeleteId(project.id)} className={`${buttonClass} text-red-400`}>Delete</button>
+                  </>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ProjectManager;
@@ -0,0 +1,310 @@
+import React, { useMemo, useState } from 'react';
+import { GeneratedFile } from '../types';
+import { useNotification } from '../contexts/NotificationContext';
+import { shortName } from '../utils/addonTemplates';
+import {
+    SpawnRulesDefinition, SpawnCondition, PopulationControl, SpawnPlacement, SpawnDifficulty, NumberRange,
+    POPULATION_CONTROLS, SPAWN_PLACEMENTS, SPAWN_DIFFICULTIES, BIOME_TAG_GROUPS,
+    createSpawnCondition, buildSpawnRules, findProjectEntities, validateSpawnRules,
+} from '../utils/spawnRules';
+
+interface SpawnRulesEditorProps {
+    files: GeneratedFile[];
+    onFilesUpdate: (files: GeneratedFile[], label: string) => void;
+}
+
+// --- HELPER & UI COMPONENTS ---
+
+const Section: React.FC<{ title: string; children: React.ReactNode; defaultOpen?: boolean; action?: React.ReactNode }> = ({ title, children, defaultOpen = false, action }) => {
+    const [isOpen, setIsOpen] = useState(defaultOpen);
+
+    return (
+        <div className="bg-[var(--bg-app)] border border-[var(--border-primary)] rounded-lg">
+            <div className="flex items-center justify-between w-full p-4">
+                <button onClick={() => setIsOpen(!isOpen)} className="flex items-center gap-2 flex-grow text-left">
+                    <svg className={`w-5 h-5 text-[var(--text-tertiary)] transition-transform ${isOpen ? 'rotate-90' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                    </svg>
+                    <h3 className="font-bold text-md text-[var(--text-primary)]">{title}</h3>
+                </button>
+                {action}
+            </div>
+            {isOpen && (
+                <div className="p-4 border-t border-[var(--border-primary)]">
+                    {children}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const inputClass = "w-full bg-[var(--bg-input)] border border-[var(--border-primary)] rounded-lg p-2.5 text-sm outline-none focus:ring-2 focus:ring-[var(--accent-primary)]";
+const smallInputClass = "bg-[var(--bg-input)] border border-[var(--border-primary)] rounded-md p-1.5 text-sm outline-none focus:ring-2 focus:ring-[var(--accent-primary)]";
+
+const SelectField: React.FC<{ label: string; value: string; onChange: (value: string) => void; options: { value: string; label: string }[] }> =
+({ label, value, onChange, options }) => (
+    <div className="flex flex-col gap-1">
+        <label className="text-sm font-medium text-[var(--text-secondary)]">{label}</label>
+        <select value={value} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+            {options.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+        </select>
+    </div>
+);
+
+const NumberField: React.FC<{ label: string; value: number; onChange: (value: number) => void; min?: number; max?: number }> =
+({ label, value, onChange, min, max }) => (
+    <div className="flex flex-col gap-1">
+        <label className="text-sm font-medium text-[var(--text-secondary)]">{label}</label>
+        <input type="number" value={Number.isNaN(value) ? '' : value} onChange={(e) => onChange(parseFloat(e.target.value))} min={min} max={max} className={inputClass} />
+    </div>
+);
+
+const ToggleSwitch: React.FC<{ label: string; checked: boolean; onChange: (checked: boolean) => void; }> = ({ label, checked, onChange }) => (
+    <div className="flex items-center justify-between bg-[var(--bg-input)] p-2 rounded-lg">
+        <label className="text-sm font-medium text-[var(--text-secondary)]">{label}</label>
+        <button onClick={() => onChange(!checked)} className={`w-10 h-5 rounded-full transition-colors ${checked ? 'bg-[var(--accent-primary)]' : 'bg-[var(--bg-app)]'}`}>
+            <span className={`block w-3.5 h-3.5 rounded-full bg-white transform transition-transform ${checked ? 'translate-x-5' : 'translate-x-1'}`}></span>
+        </button>
+    </div>
+);
+
+const RemoveButton: React.FC<{ onClick: () => void }> = ({ onClick }) => (
+    <button onClick={onClick} className="px-2 text-[var(--text-tertiary)] hover:text-red-400" title="Remove">✕</button>
+);
+
+/** A toggle followed by a min/max pair that only shows while the toggle is on. */
+const RangeFilter: React.FC<{ label: string; enabled: boolean; range: NumberRange; min: number; max: number; onChange: (enabled: boolean, range: NumberRange) => void; children?: React.ReactNode }> =
+({ label, enabled, range, min, max, onChange, children }) => (
+    <div className="flex flex-col gap-2">
+        <ToggleSwitch label={label} checked={enabled} onChange={checked => onChange(checked, range)} />
+        {enabled && (
+            <div className="flex items-center gap-2 pl-2 text-sm text-[var(--text-secondary)]">
+                <input type="number" value={Number.isNaN(range.min) ? '' : range.min} min={min} max={max} onChange={e => onChange(true, { ...range, min: parseFloat(e.target.value) })} className={`w-20 ${smallInputClass}`} />
+                <span>to</span>
+                <input type="number" value={Number.isNaN(range.max) ? '' : range.max} min={min} max={max} onChange={e => onChange(true, { ...range, max: parseFloat(e.target.value) })} className={`w-20 ${smallInputClass}`} />
+                {children}
+            </div>
+        )}
+    </div>
+);
+
+/**
+ * Biome tags as chips. Clicking a chip cycles it through required, excluded and unused.
+ */
+const BiomeTagPicker: React.FC<{ condition: SpawnCondition; onChange: (biomes: SpawnCondition['biomes']) => void }> = ({ condition, onChange }) => {
+    const [customTag, setCustomTag] = useState('');
+    const { biomes } = condition;
+    const knownTags = BIOME_TAG_GROUPS.flatMap(group => group.tags);
+    const customTags = [...biomes.include, ...biomes.exclude].filter(tag => !knownTags.includes(tag));
+
+    const cycleTag = (tag: string) => {
+        if (biomes.include.includes(tag)) onChange({ ...biomes, include: biomes.include.filter(t => t !== tag), exclude: [...biomes.exclude, tag] });
+        else if (biomes.exclude.includes(tag)) onChange({ ...biomes, exclude: biomes.exclude.filter(t => t !== tag) });
+        else onChange({ ...biomes, include: [...biomes.include, tag] });
+    };
+
+    const addCustomTag = () => {
+        const tag = customTag.trim().toLowerCase();
+        if (tag && !biomes.include.includes(tag) && !biomes.exclude.includes(tag)) onChange({ ...biomes, include: [...biomes.include, tag] });
+        setCustomTag('');
+    };
+
+    const renderChip = (tag: string) => {
+        const state = biomes.include.includes(tag) ? 'include' : biomes.exclude.includes(tag) ? 'exclude' : 'none';
+        return (
+            <button
+                key={tag}
+                onClick={() => cycleTag(tag)}
+                className={`px-2 py-1 text-xs rounded-full border transition-colors ${
+                    state === 'include' ? 'bg-[var(--accent-green)] border-[var(--accent-green)] text-white'
+                    : state === 'exclude' ? 'bg-red-500/20 border-red-500/50 text-red-400 line-through'
+                    : 'bg-[var(--bg-input)] border-[var(--border-primary)] text-[var(--text-secondary)] hover:border-[var(--accent-primary)]'}`}
+            >
+                {tag}
+            </button>
+        );
+    };
+
+    return (
+        <div className="flex flex-col gap-3">
+            <div className="flex items-center gap-2 text-sm text-[var(--text-secondary)]">
+                <span>Biome must have</span>
+                <select value={biomes.match} onChange={e => onChange({ ...biomes, match: e.target.value as 'any' | 'all' })} className={smallInputClass}>
+                    <option value="any">any</option>
+                    <option value="all">all</option>
+                </select>
+                <span>of the green tags and none of the red ones.</span>
+            </div>
+            {BIOME_TAG_GROUPS.map(group => (
+                <div key={group.label} className="flex flex-col gap-1">
+                    <span className="text-xs text-[var(--text-tertiary)]">{group.label}</span>
+                    <div className="flex flex-wrap gap-1.5">{group.tags.map(renderChip)}</div>
+                </div>
+            ))}
+            <div className="flex flex-col gap-1">
+                <span className="text-xs text-[var(--text-tertiary)]">Custom tags</span>
+                <div className="flex flex-wrap items-center gap-1.5">
+                    {customTags.map(renderChip)}
+                    <input type="text" value={customTag} onChange={e => setCustomTag(e.target.value)} onKeyDown={e => e.key === 'Enter' && addCustomTag()} placeholder="my_biome_tag" className={`w-36 text-xs ${smallInputClass}`} />
+                    <button onClick={addCustomTag} className="text-sm text-[var(--accent-primary)] hover:underline">+ Add Tag</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const ConditionEditor: React.FC<{ condition: SpawnCondition; onChange: (condition: SpawnCondition) => void }> = ({ condition, onChange }) => {
+    const update = (changes: Partial<SpawnCondition>) => onChange({ ...condition, ...changes });
+
+    return (
+        <div className="flex flex-col gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <SelectField label="Spawns" value={condition.placement} onChange={v => update({ placement: v as SpawnPlacement })} options={SPAWN_PLACEMENTS.map(p => ({ value: p.value, label: p.label }))} />
+                <NumberField label="Weight" value={condition.weight} min={1} onChange={weight => update({ weight })} />
+            </div>
+            <BiomeTagPicker condition={condition} onChange={biomes => update({ biomes })} />
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <RangeFilter label="Brightness filter" enabled={condition.brightness.enabled} range={condition.brightness} min={0} max={15} onChange={(enabled, range) => update({ brightness: { ...condition.brightness, ...range, enabled } })}>
+                    <label className="flex items-center gap-1 text-xs"><input type="checkbox" checked={condition.brightness.adjustForWeather} onChange={e => update({ brightness: { ...condition.brightness, adjustForWeather: e.target.checked } })} /> Adjust for weather</label>
+                </RangeFilter>
+                <div className="flex flex-col gap-2">
+                    <ToggleSwitch label="Difficulty filter" checked={condition.difficulty.enabled} onChange={enabled => update({ difficulty: { ...condition.difficulty, enabled } })} />
+                    {condition.difficulty.enabled && (
+                        <div className="flex items-center gap-2 pl-2 text-sm text-[var(--text-secondary)]">
+                            <select value={condition.difficulty.min} onChange={e => update({ difficulty: { ...condition.difficulty, min: e.target.value as SpawnDifficulty } })} className={`capitalize ${smallInputClass}`}>
+                                {SPAWN_DIFFICULTIES.map(d => <option key={d} value={d}>{d}</option>)}
+                            </select>
+                            <span>to</span>
+                            <select value={condition.difficulty.max} onChange={e => update({ difficulty: { ...condition.difficulty, max: e.target.value as SpawnDifficulty } })} className={`capitalize ${smallInputClass}`}>
+                                {SPAWN_DIFFICULTIES.map(d => <option key={d} value={d}>{d}</option>)}
+                            </select>
+                        </div>
+                    )}
+                </div>
+                <RangeFilter label="Herd size" enabled={condition.herd.enabled} range={condition.herd} min={1} max={64} onChange={(enabled, range) => update({ herd: { ...range, enabled } })} />
+                <RangeFilter label="Height filter" enabled={condition.height.enabled} range={condition.height} min={-64} max={320} onChange={(enabled, range) => update({ height: { ...range, enabled } })} />
+                <div className="flex flex-col gap-2">
+                    <ToggleSwitch label="Density limit" checked={condition.density.enabled} onChange={enabled => update({ density: { ...condition.density, enabled } })} />
+                    {condition.density.enabled && (
+                        <div className="flex items-center gap-2 pl-2 text-sm text-[var(--text-secondary)]">
+                            <span>Surface</span>
+                            <input type="number" min={0} value={Number.isNaN(condition.density.surface) ? '' : condition.density.surface} onChange={e => update({ density: { ...condition.density, surface: parseFloat(e.target.value) } })} className={`w-20 ${smallInputClass}`} />
+                            <span>Underground</span>
+                            <input type="number" min={0} value={Number.isNaN(condition.density.underground) ? '' : condition.density.underground} onChange={e => update({ density: { ...condition.density, underground: parseFloat(e.target.value) } })} className={`w-20 ${smallInputClass}`} />
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// --- MAIN COMPONENT ---
+
+const SpawnRulesEditor: React.FC<SpawnRulesEditorProps> = ({ files, onFilesUpdate }) => {
+    const { addNotification } = useNotification();
+    const entities = useMemo(() => findProjectEntities(files), [files]);
+    const [definition, setDefinition] = useState<SpawnRulesDefinition>(() => ({
+        identifier: entities[0]?.identifier || 'custom:my_mob',
+        populationControl: 'animal',
+        conditions: [createSpawnCondition('animal')],
+    }));
+
+    const { errors, warnings } = useMemo(() => validateSpawnRules(definition, entities), [definition, entities]);
+    const entity = entities.find(e => e.identifier === definition.identifier);
+    const content = JSON.stringify(buildSpawnRules(definition), null, 2);
+    const targetPath = entity ? entity.spawnRulesPath || `${entity.packRoot ? `${entity.packRoot}/` : ''}spawn_rules/${shortName(entity.identifier)}.json` : null;
+
+    const updateCondition = (index: number, condition: SpawnCondition) =>
+        setDefinition({ ...definition, conditions: definition.conditions.map((c, i) => i === index ? condition : c) });
+
+    const handlePopulationChange = (populationControl: PopulationControl) => {
+        // Swap untouched defaults for the new category's, but keep conditions the user has edited.
+        const previousDefault = JSON.stringify(createSpawnCondition(definition.populationControl));
+        setDefinition({
+            ...definition,
+            populationControl,
+            conditions: definition.conditions.map(c => JSON.stringify(c) === previousDefault ? createSpawnCondition(populationControl) : c),
+        });
+    };
+
+    const handleAddToProject = () => {
+        if (errors.length > 0 || !targetPath) {
+            addNotification('error', 'Please fix the problems listed above before adding the spawn rules.');
+            return;
+        }
+        const exists = files.some(f => f.path === targetPath);
+        const updated = exists ? files.map(f => f.path === targetPath ? { ...f, content } : f) : [...files, { path: targetPath, content }];
+        onFilesUpdate(updated, `Spawn rules for ${definition.identifier}`);
+        addNotification('success', `${exists ? 'Updated' : 'Added'} ${targetPath}.`);
+    };
+
+    const handleDownload = () => {
+        if (errors.length > 0) {
+            addNotification('error', 'Please fix the problems listed above before downloading.');
+            return;
+        }
+        const fileName = `${shortName(definition.identifier)}.json`;
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(new Blob([content], { type: 'application/json' }));
+        link.download = fileName;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        addNotification('success', `${fileName} downloaded.`);
+    };
+
+    return (
+        <div className="flex flex-col gap-6 max-w-4xl mx-auto">
+            <h2 className="text-2xl font-bold text-[var(--text-primary)]">Spawn Rules Editor</h2>
+
+            <Section title="Entity" defaultOpen>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="flex flex-col gap-1">
+                        <label className="text-sm font-medium text-[var(--text-secondary)]">Entity Identifier</label>
+                        <input type="text" list="spawn-rules-entities" value={definition.identifier} onChange={e => setDefinition({ ...definition, identifier: e.target.value })} placeholder="custom:my_mob" className={inputClass} />
+                        <datalist id="spawn-rules-entities">
+                            {entities.map(e => <option key={e.identifier} value={e.identifier}>{e.path}</option>)}
+                        </datalist>
+                        <p className="text-xs text-[var(--text-tertiary)]">
+                            {entity ? `Defined in ${entity.path}` : entities.length > 0 ? `${entities.length} ${entities.length === 1 ? 'entity' : 'entities'} in the current project.` : 'No project is open, or it has no entities.'}
+                        </p>
+                    </div>
+                    <SelectField label="Population Control" value={definition.populationControl} onChange={v => handlePopulationChange(v as PopulationControl)} options={POPULATION_CONTROLS.map(p => ({ value: p, label: p }))} />
+                </div>
+            </Section>
+
+            {definition.conditions.map((condition, index) => (
+                <Section key={index} title={`Spawn Condition ${index + 1}`} defaultOpen action={<RemoveButton onClick={() => setDefinition({ ...definition, conditions: definition.conditions.filter((_, i) => i !== index) })} />}>
+                    <ConditionEditor condition={condition} onChange={c => updateCondition(index, c)} />
+                </Section>
+            ))}
+            <button onClick={() => setDefinition({ ...definition, conditions: [...definition.conditions, createSpawnCondition(definition.populationControl)] })} className="text-sm text-[var(--accent-primary)] hover:underline text-left">+ Add Spawn Condition</button>
+
+            <Section title="Preview">
+                <pre className="overflow-x-auto text-xs text-gray-300 font-mono bg-[var(--bg-input)] p-3 rounded-lg"><code>{content}</code></pre>
+            </Section>
+
+            {warnings.length > 0 && (
+                <ul className="list-disc pl-6 p-3 text-sm text-[var(--accent-yellow)] bg-[var(--bg-app)] border border-[var(--border-primary)] rounded-lg">
+                    {warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+                </ul>
+            )}
+            {errors.length > 0 && (
+                <ul className="list-disc pl-6 p-3 text-sm text-red-400 bg-[var(--bg-app)] border border-red-500/50 rounded-lg">
+                    {errors.map((error, i) => <li key={i}>{error}</li>)}
+                </ul>
+            )}
+            <div className="flex gap-4">
+                <button onClick={handleDownload} className="flex-1 px-6 py-3 font-semibold rounded-lg bg-[var(--bg-hover)] hover:bg-[var(--bg-active)] text-[var(--text-primary)]">
+                    Download JSON
+                </button>
+                <button onClick={handleAddToProject} disabled={!targetPath} title={targetPath ? `Writes ${targetPath}` : 'The entity must be in the current project'} className="flex-1 px-6 py-3 font-semibold rounded-lg text-white bg-[var(--accent-primary)] hover:bg-[var(--accent-hover)] disabled:opacity-50 disabled:cursor-not-allowed">
+                    Add to Project
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default SpawnRulesEditor;
@@ -3,9 +3,16 @@ import React from 'react';
 interface StatusBarProps {
   addonName: string;
   fileCount: number;
+  saveStatus?: 'idle' | 'saving' | 'saved' | 'error';
 }
 
-const StatusBar: React.FC<StatusBarProps> = ({ addonName, fileCount }) => {
+const SAVE_STATUS_LABELS = {
+  saving: 'Saving...',
+  saved: 'Saved to browser',
+  error: 'Save failed',
+};
+
+const StatusBar: React.FC<StatusBarProps> = ({ addonName, fileCount, saveStatus = 'idle' }) => {
   return (
     <footer className="bg-[var(--bg-app)] border-t border-[var(--border-primary)] px-4 py-1 text-xs text-[var(--text-secondary)] flex justify-between items-center flex-shrink-0">
       <div className="flex items-center gap-4">
@@ -22,6 +29,12 @@ const StatusBar: React.FC<StatusBarProps> = ({ addonName, fileCount }) => {
             <span>{fileCount} {fileCount === 1 ? 'file' : 'files'}</span>
           </>
         )}
+        {saveStatus !== 'idle' && (
+          <>
+            <div className="w-px h-3 bg-[var(--border-primary)]"></div>
+            <span className={saveStatus === 'error' ? 'text-[var(--notification-error-text)]' : ''}>{SAVE_STATUS_LABELS[saveStatus]}</span>
+          </>
+        )}
       </div>
       <div>Minecraft: BE 1.21.114+</div>
     </footer>
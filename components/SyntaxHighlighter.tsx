@@ -1,17 +1,59 @@
 import React from 'react';
+import { CommandDiagnostic, tokenizeCommand, isCommandLine } from '../utils/commands';
+
+export type HighlightLanguage = 'js' | 'json' | 'mcfunction' | 'text';
 
 interface SyntaxHighlighterProps {
     code: string;
-    language: 'js' | 'json' | 'text';
+    language: HighlightLanguage;
+    /** Problems to underline; only used for mcfunction. */
+    diagnostics?: CommandDiagnostic[];
 }
 
-const SyntaxHighlighter: React.FC<SyntaxHighlighterProps> = React.memo(({ code, language }) => {
-    const highlight = (code: string, language: 'js' | 'json' | 'text') => {
+const commandTokenType = (text: string, isCommandName: boolean) => {
+    if (isCommandName) return 'keyword';
+    if (text.startsWith('@')) return 'className';
+    if (/^["{[]/.test(text)) return 'string';
+    if (/^[~^]|^-?\d/.test(text)) return 'number';
+    return 'default';
+};
+
+/** Colors each line of a function file and marks the characters diagnostics point at. */
+const highlightFunction = (code: string, diagnostics: CommandDiagnostic[]) =>
+    code.split('\n').flatMap((line, i) => {
+        const types: string[] = new Array(line.length).fill('default');
+        const problems: (CommandDiagnostic['severity'] | undefined)[] = new Array(line.length).fill(undefined);
+        if (!isCommandLine(line)) {
+            types.fill('comment');
+        } else {
+            tokenizeCommand(line).forEach((token, j, tokens) => {
+                const isCommandName = j === 0 || tokens[j - 1].text === 'run';
+                types.fill(commandTokenType(token.text, isCommandName), token.start, token.end);
+            });
+        }
+        for (const d of diagnostics.filter(d => d.line === i + 1)) {
+            // "Missing ..." problems point just past the end of the line; mark the last character instead.
+            const start = Math.min(d.start, Math.max(0, line.length - 1));
+            for (let c = start; c < Math.max(d.end, start + 1) && c < line.length; c++) {
+                if (problems[c] !== 'error') problems[c] = d.severity;
+            }
+        }
+        const tokens: { type: string; value: string; problem?: CommandDiagnostic['severity'] }[] = [];
+        for (let c = 0; c < line.length; c++) {
+            const last = tokens[tokens.length - 1];
+            if (last && last.type === types[c] && last.problem === problems[c]) last.value += line[c];
+            else tokens.push({ type: types[c], value: line[c], problem: problems[c] });
+        }
+        return i === 0 ? tokens : [{ type: 'default', value: '\n' }, ...tokens];
+    });
+
+const SyntaxHighlighter: React.FC<SyntaxHighlighterProps> = React.memo(({ code, language, diagnostics = [] }) => {
+    const highlight = (code: string, language: HighlightLanguage) => {
         if (language === 'text' || !code) {
             return <code style={{color: 'var(--editor-default)'}}>{code}</code>;
         }
         
-        let tokens: { type: string; value: string }[] = [];
+        let tokens: { type: string; value: string; problem?: CommandDiagnostic['severity'] }[] = [];
 
         if (language === 'json') {
             const jsonRegex = /("(\\u[a-zA-Z0-9]{4}|\\[^u]|[^\\"])*"(\s*:)?|\b(true|false|null)\b|-?\d+(?:\.\d*)?(?:[eE][+\-]?\d+)?|[\[\]\{\},:])/g;
@@ -58,6 +100,8 @@ const SyntaxHighlighter: React.FC<SyntaxHighlighterProps> = React.memo(({ code,
             }
             const postMatch = code.substring(lastIndex);
             if(postMatch) tokens.push({type: 'default', value: postMatch});
+        } else if (language === 'mcfunction') {
+            tokens = highlightFunction(code, diagnostics);
         }
 
         return (
@@ -73,7 +117,11 @@ const SyntaxHighlighter: React.FC<SyntaxHighlighterProps> = React.memo(({ code,
                         case 'comment': color = 'var(--text-tertiary)'; break;
                         case 'className': color = 'var(--accent-yellow)'; break;
                     }
-                    return <span key={i} style={{ color }}>{token.value}</span>;
+                    const underline = token.problem && {
+                        textDecoration: 'underline wavy',
+                        textDecorationColor: token.problem === 'error' ? 'var(--notification-error-text)' : 'var(--accent-yellow)',
+                    };
+                    return <span key={i} style={{ color, ...underline }}>{token.value}</span>;
                 })}
             </code>
         );
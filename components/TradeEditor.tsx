@@ -1,29 +1,15 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { useNotification } from '../contexts/NotificationContext';
 import { GeneratedFile } from '../types';
 import { downloadAddon } from '../utils/fileConverter';
+import { BP_ROOT, RP_ROOT, createPackManifests, createLangFiles, shortName } from '../utils/addonTemplates';
+import { buildRenderController } from '../utils/entityDefinition';
+import {
+    Trade, TradeTier, TraderOptions, DEFAULT_TRADER_LOOK,
+    createId, tierExpDefault, buildTradeTable, parseTradeTable, buildTraderEntity, buildTraderClientEntity,
+} from '../utils/tradeTables';
 import ItemSelector from './ItemSelector';
 
-// --- TYPE DEFINITIONS ---
-interface TradeItem {
-    item: string;
-    quantity: number;
-}
-
-interface Trade {
-    id: string;
-    wants: TradeItem[];
-    gives: TradeItem[];
-    max_uses: number;
-    xp_reward: boolean;
-}
-
-interface TradeTier {
-    id: string;
-    level: number;
-    trades: Trade[];
-}
-
 const CodeBlock: React.FC<{ files: GeneratedFile[]; onClear: () => void; addonName: string }> = ({ files, onClear, addonName }) => {
     const [activeFile, setActiveFile] = useState(files[0]);
     const { addNotification } = useNotification();
@@ -46,9 +32,9 @@ const CodeBlock: React.FC<{ files: GeneratedFile[]; onClear: () => void; addonNa
                 <button onClick={handleDownload} className="px-3 py-1.5 text-sm font-semibold rounded-lg bg-[var(--accent-green)] hover:bg-[var(--accent-green-hover)] text-white">Download .mcaddon</button>
             </div>
         </div>
-        <div className="flex gap-2 border-b border-[var(--border-primary)]">
+        <div className="flex flex-wrap gap-2 border-b border-[var(--border-primary)]">
             {files.map(file => (
-                <button key={file.path} onClick={() => setActiveFile(file)} className={`px-3 py-2 text-sm border-b-2 ${activeFile.path === file.path ? 'border-[var(--accent-primary)] text-[var(--text-primary)]' : 'border-transparent text-[var(--text-secondary)]'}`}>
+                <button key={file.path} title={file.path} onClick={() => setActiveFile(file)} className={`px-3 py-2 text-sm border-b-2 ${activeFile.path === file.path ? 'border-[var(--accent-primary)] text-[var(--text-primary)]' : 'border-transparent text-[var(--text-secondary)]'}`}>
                     {file.path.split('/').pop()}
                 </button>
             ))}
@@ -67,21 +53,32 @@ const TradeEditor: React.FC = () => {
     const [addonName, setAddonName] = useState('MyTradeAddon');
     const [npcIdentifier, setNpcIdentifier] = useState('custom:shopkeeper');
     const [displayName, setDisplayName] = useState('Shopkeeper');
-    const [professionName, setProfessionName] = useState('shopkeeper');
 
-    const [tiers, setTiers] = useState<TradeTier[]>([{ id: `tier-${Date.now()}`, level: 1, trades: [] }]);
+    const [tiers, setTiers] = useState<TradeTier[]>([{ id: createId('tier'), expRequired: 0, trades: [] }]);
     const [activeTierId, setActiveTierId] = useState<string | null>(tiers[0]?.id || null);
 
+    // Trader entity
+    const [generateEntity, setGenerateEntity] = useState(true);
+    const [wanders, setWanders] = useState(false);
+    const [invulnerable, setInvulnerable] = useState(true);
+    const [spawnEgg, setSpawnEgg] = useState({ enabled: true, baseColor: '#3a7d44', overlayColor: '#f2c14e' });
+    const [geometry, setGeometry] = useState(DEFAULT_TRADER_LOOK.geometry);
+    const [texture, setTexture] = useState(DEFAULT_TRADER_LOOK.texture);
+
     const [generatedFiles, setGeneratedFiles] = useState<GeneratedFile[] | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
 
     // --- STATE UPDATE HANDLERS ---
     const addTier = () => {
-        const newLevel = tiers.length > 0 ? Math.max(...tiers.map(t => t.level)) + 1 : 1;
-        const newTier = { id: `tier-${Date.now()}`, level: newLevel, trades: [] };
+        const newTier = { id: createId('tier'), expRequired: tierExpDefault(tiers.length), trades: [] };
         setTiers([...tiers, newTier]);
         setActiveTierId(newTier.id);
     };
 
+    const updateTier = (id: string, changes: Partial<TradeTier>) => {
+        setTiers(tiers.map(t => t.id === id ? { ...t, ...changes } : t));
+    };
+
     const removeTier = (id: string) => {
         setTiers(tiers.filter(t => t.id !== id));
         if (activeTierId === id) {
@@ -90,7 +87,7 @@ const TradeEditor: React.FC = () => {
     };
 
     const addTrade = (tierId: string) => {
-        const newTrade: Trade = { id: `trade-${Date.now()}`, wants: [{item: 'minecraft:emerald', quantity: 1}], gives: [{item: 'minecraft:diamond', quantity: 1}], max_uses: 10, xp_reward: true };
+        const newTrade: Trade = { id: createId('trade'), wants: [{item: 'minecraft:emerald', quantity: 1}], gives: [{item: 'minecraft:diamond', quantity: 1}], max_uses: 10, trader_exp: 2, xp_reward: true };
         setTiers(tiers.map(t => t.id === tierId ? { ...t, trades: [...t.trades, newTrade] } : t));
     };
 
@@ -104,67 +101,74 @@ const TradeEditor: React.FC = () => {
     
     const activeTier = tiers.find(t => t.id === activeTierId);
 
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const imported = parseTradeTable(await file.text());
+            if (imported.tiers.length === 0) {
+                addNotification('error', `${file.name} has no tiers.`);
+                return;
+            }
+            setTiers(imported.tiers);
+            setActiveTierId(imported.tiers[0].id);
+            addNotification('success', `Imported ${imported.tiers.length} tiers from ${file.name}.`);
+            imported.warnings.forEach(warning => addNotification('info', warning));
+        } catch (err) {
+            addNotification('error', `Couldn't import ${file.name}: ${(err as Error).message}`);
+        }
+    };
+
     // --- FILE GENERATION ---
     const handleGenerate = () => {
         if (!npcIdentifier.includes(':')) {
             addNotification('error', 'NPC Identifier must include a namespace (e.g., custom:trader).');
             return;
         }
+        const unordered = tiers.findIndex((tier, i) => i > 0 && tier.expRequired < tiers[i - 1].expRequired);
+        if (unordered !== -1) {
+            addNotification('error', `Tier ${unordered + 1} unlocks with less experience than the tier before it.`);
+            return;
+        }
 
-        const tradeJson: any = {
-            tiers: tiers.map(tier => ({
-                total_exp_required: tier.level * 10, // Example logic
-                groups: [{
-                    trades: tier.trades.map(trade => ({
-                        wants: trade.wants,
-                        gives: trade.gives,
-                        trader_exp: trade.xp_reward ? 3 : 0,
-                        max_uses: trade.max_uses,
-                        reward_exp: trade.xp_reward,
-                    }))
-                }]
-            }))
-        };
-
+        const tablePath = `trading/${shortName(npcIdentifier)}.json`;
         const files: GeneratedFile[] = [
             {
-                path: `behavior_pack/trading/${npcIdentifier.split(':')[1]}.json`,
-                content: JSON.stringify(tradeJson, null, 2),
-            },
-            {
-                path: `resource_pack/texts/en_US.lang`,
-                content: `entity.${npcIdentifier}.name=${displayName}`
+                path: `${BP_ROOT}/${tablePath}`,
+                content: JSON.stringify(buildTradeTable(tiers), null, 2),
             },
-            {
-                path: `behavior_pack/manifest.json`,
-                content: JSON.stringify({
-                    format_version: 2,
-                    header: { name: `${addonName} BP`, description: `Behavior pack for ${addonName}`, uuid: crypto.randomUUID(), version: [1,0,0], min_engine_version: [1,21,114] },
-                    modules: [{ type: "data", uuid: crypto.randomUUID(), version: [1,0,0] }],
-                    dependencies: [{ module_name: "@minecraft/server", version: "1.12.0-beta" }]
-                }, null, 2)
-            },
-            {
-                path: `resource_pack/manifest.json`,
-                content: JSON.stringify({
-                    format_version: 2,
-                    header: { name: `${addonName} RP`, description: `Resource pack for ${addonName}`, uuid: crypto.randomUUID(), version: [1,0,0], min_engine_version: [1,21,114] },
-                    modules: [{ type: "resources", uuid: crypto.randomUUID(), version: [1,0,0] }]
-                }, null, 2)
-            }
+            ...createPackManifests(addonName, `Trades for ${displayName}`),
         ];
-        
+
+        if (generateEntity) {
+            const options: TraderOptions = { identifier: npcIdentifier, tablePath, wanders, invulnerable, spawnEgg, geometry, texture };
+            files.push(
+                { path: `${BP_ROOT}/entities/${shortName(npcIdentifier)}.json`, content: JSON.stringify(buildTraderEntity(options), null, 2) },
+                { path: `${RP_ROOT}/entity/${shortName(npcIdentifier)}.entity.json`, content: JSON.stringify(buildTraderClientEntity(options), null, 2) },
+                { path: `${RP_ROOT}/render_controllers/${shortName(npcIdentifier)}.render_controllers.json`, content: JSON.stringify(buildRenderController(npcIdentifier), null, 2) },
+            );
+        }
+        files.push(...createLangFiles(RP_ROOT, {
+            [`entity.${npcIdentifier}.name`]: displayName,
+            ...(generateEntity && spawnEgg.enabled && { [`item.spawn_egg.entity.${npcIdentifier}.name`]: `Spawn ${displayName}` }),
+        }));
+
         setGeneratedFiles(files);
         addNotification('success', 'Addon files generated!');
     };
-    
+
     if (generatedFiles) {
         return <CodeBlock files={generatedFiles} onClear={() => setGeneratedFiles(null)} addonName={addonName} />;
     }
 
     return (
         <div className="flex flex-col gap-6 max-w-6xl mx-auto">
-            <h2 className="text-2xl font-bold text-[var(--text-primary)]">Villager Trade Editor</h2>
+            <div className="flex items-center justify-between">
+                <h2 className="text-2xl font-bold text-[var(--text-primary)]">Villager Trade Editor</h2>
+                <button onClick={() => importInputRef.current?.click()} className="px-3 py-1.5 text-sm font-semibold rounded-lg bg-[var(--bg-input)] hover:bg-[var(--bg-hover)]">Import Trade Table</button>
+                <input ref={importInputRef} type="file" accept=".json" onChange={handleImport} className="hidden" />
+            </div>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <input type="text" placeholder="Addon Name (for download)" value={addonName} onChange={e => setAddonName(e.target.value)} className="w-full bg-[var(--bg-input)] rounded border p-2.5 border-[var(--border-primary)]"/>
                 <input type="text" placeholder="NPC Identifier (e.g., custom:trader)" value={npcIdentifier} onChange={e => setNpcIdentifier(e.target.value)} className="w-full bg-[var(--bg-input)] rounded border p-2.5 border-[var(--border-primary)]"/>
@@ -177,7 +181,7 @@ const TradeEditor: React.FC = () => {
                     <h3 className="font-bold">Trade Tiers</h3>
                     {tiers.map((tier, index) => (
                         <div key={tier.id} onClick={() => setActiveTierId(tier.id)} className={`flex items-center justify-between p-2 rounded-lg cursor-pointer border ${activeTierId === tier.id ? 'bg-[var(--bg-active)] border-[var(--accent-primary)]' : 'bg-[var(--bg-panel-secondary)] border-transparent hover:border-[var(--border-primary)]'}`}>
-                            <span>Tier {index + 1}</span>
+                            <span>Tier {index + 1} <span className="text-xs text-[var(--text-tertiary)]">({tier.expRequired} XP)</span></span>
                             <button onClick={(e) => {e.stopPropagation(); removeTier(tier.id)}} className="p-1 text-red-500 rounded-full hover:bg-red-500/10"><svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM7 9a1 1 0 000 2h6a1 1 0 100-2H7z" clipRule="evenodd" /></svg></button>
                         </div>
                     ))}
@@ -190,7 +194,13 @@ const TradeEditor: React.FC = () => {
                         <div className="text-center text-[var(--text-secondary)]">Select or add a tier to see its trades.</div>
                     ) : (
                         <>
-                            <h3 className="font-bold">Trades for Tier {tiers.findIndex(t => t.id === activeTierId) + 1}</h3>
+                            <div className="flex items-center justify-between">
+                                <h3 className="font-bold">Trades for Tier {tiers.findIndex(t => t.id === activeTierId) + 1}</h3>
+                                <div className="flex items-center gap-2">
+                                    <label className="text-xs text-[var(--text-secondary)]">Experience to unlock:</label>
+                                    <input type="number" min="0" value={activeTier.expRequired} onChange={e => updateTier(activeTier.id, { expRequired: parseInt(e.target.value) || 0 })} className="w-20 bg-[var(--bg-input)] p-1 rounded text-xs text-center"/>
+                                </div>
+                            </div>
                             <div className="flex flex-col gap-4 max-h-[50vh] overflow-y-auto pr-2">
                                 {activeTier.trades.map(trade => (
                                      <div key={trade.id} className="bg-[var(--bg-app)] p-3 rounded-lg border border-[var(--border-primary)]">
@@ -235,6 +245,9 @@ const TradeEditor: React.FC = () => {
                                             <div className="flex items-center gap-2">
                                                 <label className="text-xs text-[var(--text-secondary)]">Max Uses:</label>
                                                 <input type="number" value={trade.max_uses} onChange={e => updateTrade(activeTier.id, trade.id, {max_uses: parseInt(e.target.value)})} className="w-20 bg-[var(--bg-input)] p-1 rounded text-xs text-center"/>
+                                                <label className="text-xs text-[var(--text-secondary)] ml-2">Trader XP:</label>
+                                                <input type="number" min="0" value={trade.trader_exp} onChange={e => updateTrade(activeTier.id, trade.id, {trader_exp: parseInt(e.target.value) || 0})} className="w-16 bg-[var(--bg-input)] p-1 rounded text-xs text-center"/>
+                                                <label className="flex items-center gap-1 text-xs text-[var(--text-secondary)] ml-2"><input type="checkbox" checked={trade.xp_reward} onChange={e => updateTrade(activeTier.id, trade.id, {xp_reward: e.target.checked})} /> Gives player XP</label>
                                             </div>
                                             <button onClick={() => removeTrade(activeTier.id, trade.id)} className="text-xs text-red-500 hover:underline">Remove</button>
                                         </div>
@@ -247,6 +260,33 @@ const TradeEditor: React.FC = () => {
                 </div>
             </div>
 
+            <div className="flex flex-col gap-4 p-4 bg-[var(--bg-panel-secondary)] rounded-lg border border-[var(--border-primary)]">
+                <label className="flex items-center gap-2 font-bold">
+                    <input type="checkbox" checked={generateEntity} onChange={e => setGenerateEntity(e.target.checked)} />
+                    Generate a trader entity that uses this table
+                </label>
+                {generateEntity && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                        <div className="flex flex-col gap-2">
+                            <label className="flex items-center gap-2 text-[var(--text-secondary)]"><input type="checkbox" checked={wanders} onChange={e => setWanders(e.target.checked)} /> Wanders around (otherwise stays in place)</label>
+                            <label className="flex items-center gap-2 text-[var(--text-secondary)]"><input type="checkbox" checked={invulnerable} onChange={e => setInvulnerable(e.target.checked)} /> Can't be hurt</label>
+                            <label className="flex items-center gap-2 text-[var(--text-secondary)]"><input type="checkbox" checked={spawnEgg.enabled} onChange={e => setSpawnEgg({ ...spawnEgg, enabled: e.target.checked })} /> Spawn egg</label>
+                            {spawnEgg.enabled && (
+                                <div className="flex items-center gap-3 pl-6 text-xs text-[var(--text-secondary)]">
+                                    <label className="flex items-center gap-1">Base <input type="color" value={spawnEgg.baseColor} onChange={e => setSpawnEgg({ ...spawnEgg, baseColor: e.target.value })} /></label>
+                                    <label className="flex items-center gap-1">Spots <input type="color" value={spawnEgg.overlayColor} onChange={e => setSpawnEgg({ ...spawnEgg, overlayColor: e.target.value })} /></label>
+                                </div>
+                            )}
+                        </div>
+                        <div className="flex flex-col gap-2">
+                            <input type="text" placeholder="Geometry" value={geometry} onChange={e => setGeometry(e.target.value)} className="w-full bg-[var(--bg-input)] rounded border p-2 border-[var(--border-primary)] font-mono text-xs"/>
+                            <input type="text" placeholder="Texture path" value={texture} onChange={e => setTexture(e.target.value)} className="w-full bg-[var(--bg-input)] rounded border p-2 border-[var(--border-primary)] font-mono text-xs"/>
+                            <p className="text-xs text-[var(--text-tertiary)]">Defaults to the vanilla wandering trader's look. Point these at your own model to reskin the trader.</p>
+                        </div>
+                    </div>
+                )}
+            </div>
+
             <button onClick={handleGenerate} className="w-full flex justify-center items-center px-6 py-3 font-semibold rounded-lg text-white bg-[var(--accent-primary)] hover:bg-[var(--accent-hover)] mt-4">
                 Generate Addon
             </button>
@@ -0,0 +1,242 @@
+/**
+ * Bedrock command syntax, one usage line per overload, written the way the game's /help prints them.
+ *
+ * - A bare word is a literal, and `a|b` is a choice of literals.
+ * - `<name: type>` is a required argument and `[name: type]` an optional one. A type written as
+ *   `a|b|c` is a choice of words.
+ * - Other types are read by the command parser: int, float, bool, angle, pos, pos2, target, scoretarget,
+ *   objective, operation, compare, range, axes, word, string, id, block, states, item, entity, json,
+ *   rawtext, function, time, xp, message, command and chain. `message` and `command` take the rest of the
+ *   line; `chain` continues with another /execute subcommand.
+ *
+ * Commands that change often, such as /camera, only have their targets checked.
+ */
+export const COMMAND_SYNTAX: { [command: string]: string[] } = {
+    aimassist: ['<players: target> <options: message>'],
+    alwaysday: ['[lock: bool]'],
+    camera: ['<players: target> <options: message>'],
+    camerashake: [
+        'add <player: target> [intensity: float] [seconds: float] [shakeType: positional|rotational]',
+        'stop [player: target]',
+    ],
+    clear: ['[player: target] [itemName: item] [data: int] [maxCount: int]'],
+    clearspawnpoint: ['[player: target]'],
+    clone: [
+        '<begin: pos> <end: pos> <destination: pos> [maskMode: replace|masked] [cloneMode: force|move|normal]',
+        '<begin: pos> <end: pos> <destination: pos> filtered <cloneMode: force|move|normal> <tileName: block> [blockStates: states]',
+    ],
+    controlscheme: ['<players: target> <options: message>'],
+    damage: [
+        '<target: target> <amount: int> [cause: word]',
+        '<target: target> <amount: int> <cause: word> entity <damager: target>',
+    ],
+    daylock: ['[lock: bool]'],
+    dialogue: [
+        'open <npc: target> <player: target> [sceneName: string]',
+        'change <npc: target> <sceneName: string> [players: target]',
+    ],
+    difficulty: ['<difficulty: peaceful|easy|normal|hard|p|e|n|h|0|1|2|3>'],
+    effect: [
+        '<player: target> clear [effect: id]',
+        '<player: target> <effect: id> infinite [amplifier: int] [hideParticles: bool]',
+        '<player: target> <effect: id> [seconds: int] [amplifier: int] [hideParticles: bool]',
+    ],
+    enchant: ['<player: target> <enchantmentName: id> [level: int]'],
+    event: ['entity <target: target> <eventName: id>'],
+    execute: [
+        'as <origin: target> <chained: chain>',
+        'at <origin: target> <chained: chain>',
+        'align <axes: axes> <chained: chain>',
+        'anchored <anchor: eyes|feet> <chained: chain>',
+        'facing entity <origin: target> <anchor: eyes|feet> <chained: chain>',
+        'facing <position: pos> <chained: chain>',
+        'in <dimension: overworld|nether|the_end> <chained: chain>',
+        'positioned as <origin: target> <chained: chain>',
+        'positioned <position: pos> <chained: chain>',
+        'rotated as <origin: target> <chained: chain>',
+        'rotated <yaw: angle> <pitch: angle> <chained: chain>',
+        'if|unless block <position: pos> <block: block> [blockStates: states] [chained: chain]',
+        'if|unless blocks <begin: pos> <end: pos> <destination: pos> <scanMode: all|masked> [chained: chain]',
+        'if|unless entity <target: target> [chained: chain]',
+        'if|unless score <target: scoretarget> <objective: objective> matches <range: range> [chained: chain]',
+        'if|unless score <target: scoretarget> <objective: objective> <operation: compare> <source: scoretarget> <objective: objective> [chained: chain]',
+        'run <command: command>',
+    ],
+    fill: [
+        '<from: pos> <to: pos> <tileName: block> [blockStates: states] replace [replaceTileName: block] [replaceBlockStates: states]',
+        '<from: pos> <to: pos> <tileName: block> [blockStates: states] [oldBlockHandling: destroy|hollow|keep|outline|replace]',
+    ],
+    fog: [
+        '<victim: target> push <fogId: id> <userProvidedId: string>',
+        '<victim: target> pop|remove <userProvidedId: string>',
+    ],
+    function: ['<name: function>'],
+    gamemode: ['<gameMode: survival|creative|adventure|spectator|default|s|c|a|d|0|1|2|5|6> [player: target]'],
+    gamerule: ['[rule: word] [value: word]'],
+    give: ['<player: target> <itemName: item> [amount: int] [data: int] [components: json]'],
+    hud: ['<target: target> <visible: hide|reset> [hudElement: word]'],
+    inputpermission: [
+        'query <targets: target> <permission: word> [state: enabled|disabled]',
+        'set <targets: target> <permission: word> <state: enabled|disabled>',
+    ],
+    kill: ['[target: target]'],
+    list: [''],
+    locate: [
+        'structure <structure: id> [useNewChunksOnly: bool]',
+        'biome <biome: id>',
+    ],
+    loot: [
+        'give <players: target> loot <lootTable: string> [tool: word]',
+        'give <players: target> kill <entity: target> [tool: word]',
+        'spawn|insert <position: pos> loot <lootTable: string> [tool: word]',
+        'spawn|insert <position: pos> kill <entity: target> [tool: word]',
+        'replace entity <entity: target> <slotType: word> <slotId: int> [count: int] loot <lootTable: string> [tool: word]',
+        'replace entity <entity: target> <slotType: word> <slotId: int> [count: int] kill <entity: target> [tool: word]',
+        'replace block <position: pos> slot.container <slotId: int> [count: int] loot <lootTable: string> [tool: word]',
+        'replace block <position: pos> slot.container <slotId: int> [count: int] kill <entity: target> [tool: word]',
+    ],
+    me: ['<message: message>'],
+    mobevent: ['<event: id> [value: bool]'],
+    music: [
+        'play|queue <trackName: string> [volume: float] [fadeSeconds: float] [repeatMode: loop|play_once]',
+        'stop [fadeSeconds: float]',
+        'volume <volume: float>',
+    ],
+    particle: ['<effect: id> [position: pos]'],
+    place: [
+        'structure <structure: id> [pos: pos] [ignoreStartHeight: bool] [keepJigsaws: bool] [includeEntities: bool] [liquidSettings: word]',
+        'jigsaw <pool: id> <jigsawTarget: id> <maxDepth: int> [pos: pos] [keepJigsaws: bool] [includeEntities: bool] [liquidSettings: word]',
+        'feature|featurerule <feature: id> [position: pos]',
+    ],
+    playanimation: ['<entity: target> <animation: id> [nextState: string] [blendOutTime: float] [stopExpression: string] [controller: string]'],
+    playsound: ['<sound: id> [player: target] [position: pos] [volume: float] [pitch: float] [minimumVolume: float]'],
+    recipe: ['give|take <player: target> <recipe: string>'],
+    replaceitem: [
+        'block <position: pos> slot.container <slotId: int> <oldItemHandling: destroy|keep> <itemName: item> [amount: int] [data: int] [components: json]',
+        'block <position: pos> slot.container <slotId: int> <itemName: item> [amount: int] [data: int] [components: json]',
+        'entity <target: target> <slotType: word> <slotId: int> <oldItemHandling: destroy|keep> <itemName: item> [amount: int] [data: int] [components: json]',
+        'entity <target: target> <slotType: word> <slotId: int> <itemName: item> [amount: int] [data: int] [components: json]',
+    ],
+    ride: [
+        '<riders: target> start_riding <ride: target> [teleportRules: teleport_ride|teleport_rider] [howToFill: if_group_fits|until_full]',
+        '<riders: target> stop_riding',
+        '<rides: target> evict_riders',
+        '<rides: target> summon_rider <entityType: entity> [spawnEvent: id] [nameTag: string]',
+        '<riders: target> summon_ride <entityType: entity> [rideRules: no_ride_change|reassign_rides|skip_riders] [spawnEvent: id] [nameTag: string]',
+    ],
+    say: ['<message: message>'],
+    schedule: [
+        'on_area_loaded add circle <center: pos> <radius: int> <function: function>',
+        'on_area_loaded add tickingarea <name: string> <function: function>',
+        'on_area_loaded add <from: pos> <to: pos> <function: function>',
+        'on_area_loaded clear function <function: function>',
+        'on_area_loaded clear tickingarea <name: string> [function: function]',
+        'delay add <function: function> <time: time> [mode: append|replace]',
+        'delay clear <function: function>',
+    ],
+    scoreboard: [
+        'objectives add <objective: objective> dummy [displayName: string]',
+        'objectives list',
+        'objectives remove <objective: objective>',
+        'objectives setdisplay list|sidebar [objective: objective] [sortOrder: ascending|descending]',
+        'objectives setdisplay belowname [objective: objective]',
+        'players list [playerName: scoretarget]',
+        'players reset <player: scoretarget> [objective: objective]',
+        'players test <player: scoretarget> <objective: objective> <min: word> [max: word]',
+        'players random <player: scoretarget> <objective: objective> <min: int> <max: int>',
+        'players set|add|remove <player: scoretarget> <objective: objective> <count: int>',
+        'players operation <targetName: scoretarget> <targetObjective: objective> <operation: operation> <selector: scoretarget> <objective: objective>',
+    ],
+    scriptevent: ['<messageId: id> [message: message]'],
+    setblock: ['<position: pos> <tileName: block> [blockStates: states] [oldBlockHandling: destroy|keep|replace]'],
+    setworldspawn: ['[spawnPoint: pos]'],
+    spawnpoint: ['[player: target] [spawnPos: pos]'],
+    spreadplayers: ['<center: pos2> <spreadDistance: float> <maxRange: float> <victim: target> [maxHeight: angle]'],
+    stopsound: ['<player: target> [sound: id]'],
+    structure: [
+        'save <name: string> <from: pos> <to: pos> [saveMode: disk|memory]',
+        'save <name: string> <from: pos> <to: pos> [includeEntities: bool] [saveMode: disk|memory] [includeBlocks: bool]',
+        'load <name: string> <to: pos> [rotation: 0_degrees|90_degrees|180_degrees|270_degrees] [mirror: none|x|xz|z] [includeEntities: bool] [includeBlocks: bool] [waterlogged: bool] [integrity: float] [seed: string]',
+        'load <name: string> <to: pos> [rotation: 0_degrees|90_degrees|180_degrees|270_degrees] [mirror: none|x|xz|z] [animationMode: block_by_block|layer_by_layer] [animationSeconds: float] [includeEntities: bool] [includeBlocks: bool] [waterlogged: bool] [integrity: float] [seed: string]',
+        'delete <name: string>',
+    ],
+    summon: [
+        '<entityType: entity> [spawnPos: pos] facing <lookAtEntity: target> [spawnEvent: id] [nameTag: string]',
+        '<entityType: entity> [spawnPos: pos] facing <lookAtPosition: pos> [spawnEvent: id] [nameTag: string]',
+        '<entityType: entity> [spawnPos: pos] [yRot: angle] [xRot: angle] [spawnEvent: id] [nameTag: string]',
+        '<entityType: entity> <nameTag: string> [spawnPos: pos]',
+    ],
+    tag: [
+        '<entity: target> add|remove <name: string>',
+        '<entity: target> list',
+    ],
+    teleport: [
+        '<destination: target> [checkForBlocks: bool]',
+        '<victim: target> <destination: target> [checkForBlocks: bool]',
+        '<destination: pos> facing <lookAtEntity: target> [checkForBlocks: bool]',
+        '<destination: pos> facing <lookAtPosition: pos> [checkForBlocks: bool]',
+        '<destination: pos> [yRot: angle] [xRot: angle] [checkForBlocks: bool]',
+        '<victim: target> <destination: pos> facing <lookAtEntity: target> [checkForBlocks: bool]',
+        '<victim: target> <destination: pos> facing <lookAtPosition: pos> [checkForBlocks: bool]',
+        '<victim: target> <destination: pos> [yRot: angle] [xRot: angle] [checkForBlocks: bool]',
+    ],
+    tell: ['<target: target> <message: message>'],
+    tellraw: ['<target: target> <rawJsonMessage: rawtext>'],
+    testfor: ['<victim: target>'],
+    testforblock: ['<position: pos> <tileName: block> [blockStates: states]'],
+    testforblocks: ['<begin: pos> <end: pos> <destination: pos> [mode: all|masked]'],
+    tickingarea: [
+        'add circle <center: pos> <radius: int> [name: string] [preload: bool]',
+        'add <from: pos> <to: pos> [name: string] [preload: bool]',
+        'remove <position: pos>',
+        'remove <name: string>',
+        'remove_all',
+        'list [allDimensions: all-dimensions]',
+        'preload <position: pos> [preload: bool]',
+        'preload <name: string> [preload: bool]',
+    ],
+    time: [
+        'add|set <amount: int>',
+        'set <time: day|night|noon|midnight|sunrise|sunset>',
+        'query <time: daytime|gametime|day>',
+    ],
+    title: [
+        '<player: target> clear|reset',
+        '<player: target> times <fadeIn: int> <stay: int> <fadeOut: int>',
+        '<player: target> title|subtitle|actionbar <titleText: message>',
+    ],
+    titleraw: [
+        '<player: target> clear|reset',
+        '<player: target> times <fadeIn: int> <stay: int> <fadeOut: int>',
+        '<player: target> title|subtitle|actionbar <rawJsonTitleText: rawtext>',
+    ],
+    toggledownfall: [''],
+    weather: [
+        'clear|rain|thunder [duration: int]',
+        'query',
+    ],
+    xp: ['<amount: xp> [player: target]'],
+};
+
+/** Other names the game accepts for a command. */
+export const COMMAND_ALIASES: { [alias: string]: string } = {
+    tp: 'teleport',
+    msg: 'tell',
+    w: 'tell',
+};
+
+/** Selector arguments and the kind of value each takes. */
+export const SELECTOR_ARGUMENTS: { [name: string]: 'coordinate' | 'float' | 'int' | 'gamemode' | 'string' | 'entity' | 'scores' | 'object' } = {
+    x: 'coordinate', y: 'coordinate', z: 'coordinate',
+    dx: 'float', dy: 'float', dz: 'float',
+    r: 'float', rm: 'float',
+    rx: 'float', rxm: 'float', ry: 'float', rym: 'float',
+    c: 'int', l: 'int', lm: 'int',
+    m: 'gamemode',
+    name: 'string', tag: 'string', family: 'string',
+    type: 'entity',
+    scores: 'scores',
+    hasitem: 'object', haspermission: 'object', has_property: 'object',
+};
+
+export const SELECTOR_TYPES = ['@a', '@e', '@p', '@r', '@s', '@n', '@initiator'];
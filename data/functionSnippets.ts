@@ -0,0 +1,58 @@
+export interface FunctionSnippet {
+    id: string;
+    name: string;
+    description: string;
+    /** Commands to insert. `{{function}}` becomes the name of the function being edited. */
+    content: string;
+    /** The pattern only works when the function runs every tick from tick.json. */
+    everyTick: boolean;
+}
+
+export const FUNCTION_SNIPPETS: FunctionSnippet[] = [
+    {
+        id: 'join',
+        name: 'Join detection',
+        description: 'Runs commands once for each player the first time they join the world.',
+        everyTick: true,
+        content: [
+            '# First join: players without the "joined" tag are new',
+            'execute as @a[tag=!joined] run tellraw @s {"rawtext":[{"text":"Welcome, "},{"selector":"@s"},{"text":"!"}]}',
+            'execute as @a[tag=!joined] run give @s bread 5',
+            'tag @a[tag=!joined] add joined',
+        ].join('\n'),
+    },
+    {
+        id: 'timer',
+        name: 'Timer',
+        description: 'Counts ticks on a scoreboard and runs commands every second.',
+        everyTick: true,
+        content: [
+            '# Timer: needs "scoreboard objectives add timer dummy" to have run once',
+            'scoreboard players add .ticks timer 1',
+            'execute if score .ticks timer matches 20.. run say One second has passed',
+            'execute if score .ticks timer matches 20.. run scoreboard players set .ticks timer 0',
+        ].join('\n'),
+    },
+    {
+        id: 'raycast',
+        name: 'Raycast',
+        description: 'Steps forward one block at a time until it hits a block. Start it with "execute as @p at @s anchored eyes positioned ^ ^ ^ run function <this function>".',
+        everyTick: false,
+        content: [
+            '# Raycast step: needs "scoreboard objectives add ray dummy" to have run once, and "scoreboard players set @s ray 0" before the first step',
+            'scoreboard players add @s ray 1',
+            'execute unless block ~ ~ ~ air run particle minecraft:basic_flame_particle ~ ~ ~',
+            'execute if block ~ ~ ~ air if score @s ray matches ..64 positioned ^ ^ ^1 run function {{function}}',
+        ].join('\n'),
+    },
+    {
+        id: 'cooldown',
+        name: 'Cooldown',
+        description: 'Counts a per-player cooldown down to zero each tick.',
+        everyTick: true,
+        content: [
+            '# Cooldown: needs "scoreboard objectives add cooldown dummy" to have run once',
+            'scoreboard players remove @a[scores={cooldown=1..}] cooldown 1',
+        ].join('\n'),
+    },
+];
@@ -0,0 +1,115 @@
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createMockProvider } from './providers/mockProvider';
+
+/**
+ * A single piece of request content. Mirrors the shape the Gemini API uses so that
+ * existing helpers like `filesToGenerativeParts` can be passed through unchanged.
+ */
+export interface AiContentPart {
+    text?: string;
+    inlineData?: {
+        mimeType: string;
+        data: string;
+    };
+}
+
+/**
+ * Fields shared by every request sent to a provider.
+ * `operation` is a stable name for the calling feature (e.g. 'summarizeAddon'); providers
+ * that don't talk to a real model use it to pick a fixture or a default response.
+ */
+export interface AiRequest {
+    operation: string;
+    model: string;
+    parts: AiContentPart[];
+    systemInstruction?: string;
+    temperature?: number;
+    /** Cancels the request. Providers reject with an `AbortError` once it fires. */
+    signal?: AbortSignal;
+    /** Receives the response text accumulated so far while it streams in. */
+    onText?: (textSoFar: string) => void;
+}
+
+export type AiTextRequest = AiRequest;
+
+export interface AiJsonRequest extends AiRequest {
+    schema: object;
+}
+
+export interface AiImageRequest {
+    operation: string;
+    model: string;
+    prompt: string;
+    /** Optional multimodal input, e.g. an image to refine. */
+    parts?: AiContentPart[];
+    outputMimeType?: 'image/png' | 'image/jpeg';
+    aspectRatio?: string;
+    signal?: AbortSignal;
+}
+
+export interface AiChatOptions {
+    operation: string;
+    model: string;
+    systemInstruction: string;
+    /** Allows the model to ground its answers with a web search, if the provider supports it. */
+    useWebSearch?: boolean;
+}
+
+export interface AiChatSource {
+    uri: string;
+    title: string;
+}
+
+export interface AiChatResponse {
+    text: string;
+    sources: AiChatSource[];
+}
+
+export interface AiChatSession {
+    sendMessage: (message: string) => Promise<AiChatResponse>;
+}
+
+/**
+ * The contract every model host must fulfil. All methods return raw model output;
+ * parsing and validation stay in the service layer so they behave the same for every provider.
+ */
+export interface AiProvider {
+    readonly name: string;
+    /** Generates free-form (usually Markdown) text, streaming it to `request.onText` when given. */
+    generateText: (request: AiTextRequest) => Promise<string>;
+    /** Generates text that conforms to `request.schema`. The result is the unparsed JSON string. */
+    generateJson: (request: AiJsonRequest) => Promise<string>;
+    /** Generates a single image and returns it as a base64 string without a data URL prefix. */
+    generateImage: (request: AiImageRequest) => Promise<string>;
+    startChat: (options: AiChatOptions) => AiChatSession;
+}
+
+let activeProvider: AiProvider | null = null;
+
+/**
+ * Builds the provider selected by the `AI_PROVIDER` environment variable.
+ * 'mock' replays local fixtures with no network access; anything else uses Gemini.
+ */
+const createDefaultProvider = (): AiProvider => {
+    if (process.env.AI_PROVIDER === 'mock') {
+        return createMockProvider();
+    }
+    return createGeminiProvider(process.env.API_KEY);
+};
+
+/**
+ * Returns the provider all AI features should use, creating the default one on first use.
+ */
+export const getAiProvider = (): AiProvider => {
+    if (!activeProvider) {
+        activeProvider = createDefaultProvider();
+    }
+    return activeProvider;
+};
+
+/**
+ * Replaces the active provider, e.g. with a mock in tests. Pass `null` to fall back to the default.
+ */
+export const setAiProvider = (provider: AiProvider | null): void => {
+    activeProvider = provider;
+};
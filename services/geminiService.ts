@@ -1,13 +1,14 @@
 
 
 
-import { GoogleGenAI, Type, Chat, Modality } from "@google/genai";
+import { Type } from "@google/genai";
 import { filesToGenerativeParts } from "../utils/fileConverter";
-import { GeneratedFile, UploadedFile, AssetMapping } from "../types";
+import { GeneratedFile, UploadedFile, AssetMapping, AddonDiagnostic } from "../types";
 import { generateCacheKey, getFromCache, setInCache } from '../utils/caching';
-import JSZip from 'jszip';
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { importAddonFiles } from '../utils/packImport';
+import { isTextPath } from '../utils/fileOperations';
+import { validateAddon, validateAndAutoFix, formatDiagnostics } from '../utils/addonValidator';
+import { getAiProvider, AiChatSession, AiContentPart } from './aiProvider';
 
 const addonPlanSchema = {
     type: Type.OBJECT,
@@ -118,9 +119,9 @@ const particleSettingsSchema = {
         lifespan: { type: Type.NUMBER, description: "Average lifespan of a particle in seconds." },
         rate: { type: Type.NUMBER, description: "Number of particles to emit per second." },
         maxParticles: { type: Type.NUMBER, description: "Maximum number of particles that can exist at once." },
-        emitterShape: { type: Type.STRING, description: "Shape of the emitter ('point', 'sphere', 'box')." },
-        emitterRadius: { type: Type.NUMBER, description: "Radius of the emitter shape (for sphere)." },
-        direction: { type: Type.STRING, description: "Initial direction of particles ('outward', 'upward')." },
+        emitterShape: { type: Type.STRING, description: "Shape of the emitter ('point', 'sphere', 'box', 'disc', 'entity_aabb')." },
+        emitterRadius: { type: Type.NUMBER, description: "Radius of the emitter shape (for sphere and disc)." },
+        direction: { type: Type.STRING, description: "Initial direction of particles ('outward', 'inward', 'upward')." },
         initialSpeed: { type: Type.NUMBER, description: "Initial speed of particles." },
         gravity: { type: Type.NUMBER, description: "Gravity effect on particles (can be negative)." },
         airDrag: { type: Type.NUMBER, description: "Air drag coefficient." },
@@ -151,6 +152,36 @@ const experimentalTogglesSchema = {
     required: ["toggles", "reasoning"]
 };
 
+export type GenerationStage = 'planning' | 'generating' | 'verifying' | 'detectingToggles';
+
+/**
+ * A progress update from a long-running AI call. While the model's response streams in,
+ * `text` holds what has arrived so far.
+ */
+export interface GenerationProgress {
+    stage: GenerationStage;
+    message: string;
+    text?: string;
+}
+
+export interface GenerationOptions {
+    signal?: AbortSignal;
+    onProgress?: (progress: GenerationProgress) => void;
+}
+
+export const isAbortError = (err: unknown): boolean => (err as Error)?.name === 'AbortError';
+
+/**
+ * Announces a new stage and returns the request fields that stream the response into further progress updates.
+ */
+const reportProgress = (options: GenerationOptions, stage: GenerationStage, message: string) => {
+    options.onProgress?.({ stage, message });
+    return {
+        signal: options.signal,
+        onText: (text: string) => options.onProgress?.({ stage, message, text }),
+    };
+};
+
 const parseJsonResponse = (responseText: string) => {
     try {
         const jsonText = responseText.trim();
@@ -166,35 +197,12 @@ const parseJsonResponse = (responseText: string) => {
 }
 
 /**
- * Unzips any compressed files (.zip, .mcaddon, .mcpack) into a flat list of files.
+ * Reads the text files of an upload so they can be checked by the addon validator.
  */
-const processAndUnzipFiles = async (uploadedFiles: UploadedFile[]): Promise<UploadedFile[]> => {
-    const processedFiles: UploadedFile[] = [];
-    
-    for (const uploadedFile of uploadedFiles) {
-        const fileName = uploadedFile.file.name.toLowerCase();
-        if (fileName.endsWith('.zip') || fileName.endsWith('.mcaddon') || fileName.endsWith('.mcpack')) {
-            try {
-                const zip = await JSZip.loadAsync(uploadedFile.file);
-                for (const path in zip.files) {
-                    if (!zip.files[path].dir) {
-                        const fileObject = zip.files[path];
-                        const blob = await fileObject.async('blob');
-                        // Use the internal path as the file name for identification
-                        const newFile = new File([blob], fileObject.name, { type: blob.type });
-                        processedFiles.push({ file: newFile, type: 'addon_file' });
-                    }
-                }
-            } catch (e) {
-                console.error(`Failed to unzip ${uploadedFile.file.name}, adding the file itself.`, e);
-                processedFiles.push(uploadedFile); // If unzipping fails, just add the original zip
-            }
-        } else {
-            processedFiles.push(uploadedFile);
-        }
-    }
-    return processedFiles;
-}
+const readTextFiles = async (files: UploadedFile[]): Promise<GeneratedFile[]> => {
+    const textFiles = files.filter(f => isTextPath(f.file.name));
+    return Promise.all(textFiles.map(async f => ({ path: f.file.name, content: await f.file.text() })));
+};
 
 /**
  * Intelligently converts files to parts for the Gemini API.
@@ -202,13 +210,12 @@ const processAndUnzipFiles = async (uploadedFiles: UploadedFile[]): Promise<Uplo
  * Binary files are sent as a list of paths to reduce payload size.
  */
 const filesToSmartParts = async (files: UploadedFile[]) => {
-    const TEXT_EXTENSIONS = ['.json', '.js', '.mcfunction', '.lang', '.md', '.txt'];
     const parts = [];
     const binaryFilePaths = [];
   
     for (const uploadedFile of files) {
       const fileName = uploadedFile.file.name;
-      const isText = TEXT_EXTENSIONS.some(ext => fileName.toLowerCase().endsWith(ext));
+      const isText = isTextPath(fileName);
   
       if (isText) {
         try {
@@ -229,32 +236,76 @@ const filesToSmartParts = async (files: UploadedFile[]) => {
     return parts;
 };
 
-const performSingleGeneration = async (systemInstruction: string, prompt: string, parts: any[], temperature: number) => {
-    const contents = { parts: [{ text: prompt }, ...parts] };
-  
-    const response = await ai.models.generateContent({
+const performSingleGeneration = async (
+    operation: string,
+    systemInstruction: string,
+    prompt: string,
+    parts: AiContentPart[],
+    temperature: number,
+    options: GenerationOptions = {},
+    stage: GenerationStage = 'generating',
+    message: string = 'Generating addon files...'
+) => {
+    const responseText = await getAiProvider().generateJson({
+      operation,
       model: 'gemini-2.5-pro',
-      contents: contents,
-      config: {
-        systemInstruction,
-        responseMimeType: "application/json",
-        responseSchema: fileGenerationSchema,
-        temperature: temperature,
-      },
+      parts: [{ text: prompt }, ...parts],
+      systemInstruction,
+      schema: fileGenerationSchema,
+      temperature: temperature,
+      ...reportProgress(options, stage, message),
     });
   
-    const result = parseJsonResponse(response.text);
+    const result = parseJsonResponse(responseText);
     return result as { files: GeneratedFile[], assetMappings?: AssetMapping[], summaryReport?: string };
 }
 
-const generateAddonFiles = async (systemInstruction: string, prompt: string, uploadedFiles: UploadedFile[], useSmartParts: boolean = false) => {
+/**
+ * Removes the fix callbacks so diagnostics can be cached and passed around as plain data.
+ */
+const toPlainDiagnostics = (diagnostics: AddonDiagnostic[]): AddonDiagnostic[] =>
+    diagnostics.map(({ fix, ...diagnostic }) => diagnostic);
+
+/**
+ * Runs the deterministic validator over the files and applies its auto-fixes. Only when errors
+ * remain that no rule can fix is the AI asked to repair them, and it is told exactly which ones.
+ */
+const validateAndRepairFiles = async (files: GeneratedFile[], originalRequest: string, options: GenerationOptions = {}): Promise<{ files: GeneratedFile[], diagnostics: AddonDiagnostic[] }> => {
+    options.signal?.throwIfAborted();
+    reportProgress(options, 'verifying', 'Validating files...');
+    const firstPass = validateAndAutoFix(files);
+    console.log(`Validator applied ${firstPass.fixed.length} automatic fix(es).`);
+
+    const unresolvedErrors = firstPass.remaining.filter(d => d.severity === 'error');
+    if (unresolvedErrors.length === 0) {
+        return { files: firstPass.files, diagnostics: toPlainDiagnostics(firstPass.remaining) };
+    }
+
+    console.log(`Asking the AI to repair ${unresolvedErrors.length} remaining validation error(s)...`);
+    const repairSystemInstruction = `You are the repair stage of a Minecraft Bedrock addon IDE. A deterministic validator has checked the addon files and found errors it cannot fix automatically. Fix ONLY the listed errors, changing as little as possible. Do not rename identifiers, regenerate UUIDs, or restructure files unless an error requires it. Return the COMPLETE set of files, including unchanged ones. Respond ONLY with the JSON structure defined in the schema.`;
+    const repairPrompt = `The original user request was: "${originalRequest}". The validator reported these errors:\n\n${formatDiagnostics(unresolvedErrors)}`;
+    const fileParts = firstPass.files.map(f => ({
+        text: `File path: ${f.path}\n\n---\n\n${f.content}`
+    }));
+
+    const repairResult = await performSingleGeneration('repairAddonFiles', repairSystemInstruction, repairPrompt, fileParts, 0.0, options, 'verifying', `Repairing ${unresolvedErrors.length} validation error(s)...`);
+    if (!repairResult.files || repairResult.files.length === 0) {
+        console.warn("The AI repair step returned no files. Keeping the validated files.");
+        return { files: firstPass.files, diagnostics: toPlainDiagnostics(firstPass.remaining) };
+    }
+
+    const secondPass = validateAndAutoFix(repairResult.files);
+    return { files: secondPass.files, diagnostics: toPlainDiagnostics(secondPass.remaining) };
+};
+
+const generateAddonFiles = async (systemInstruction: string, prompt: string, uploadedFiles: UploadedFile[], useSmartParts: boolean = false, options: GenerationOptions = {}) => {
   const parts = useSmartParts ? await filesToSmartParts(uploadedFiles) : await filesToGenerativeParts(uploadedFiles);
 
   // --- Caching Logic Start ---
   // Note: Caching with smart parts might be less effective if file content is the primary differentiator.
   const partIdentifier = parts.map(p => p.text || p.inlineData.mimeType).join('|');
   const cacheKey = await generateCacheKey([systemInstruction, prompt, partIdentifier]);
-  const cachedData = getFromCache<{ files: GeneratedFile[], assetMappings?: AssetMapping[], summaryReport?: string }>(cacheKey);
+  const cachedData = await getFromCache<{ files: GeneratedFile[], assetMappings?: AssetMapping[], summaryReport?: string, diagnostics?: AddonDiagnostic[] }>('generation', cacheKey);
 
   if (cachedData) {
       console.log("Cache hit! Returning cached addon files.", cacheKey);
@@ -264,90 +315,25 @@ const generateAddonFiles = async (systemInstruction: string, prompt: string, upl
   // --- Caching Logic End ---
 
   // Step 1: Initial Generation
-  const initialResult = await performSingleGeneration(systemInstruction, prompt, parts, 0.1);
+  const initialResult = await performSingleGeneration('generateAddonFiles', systemInstruction, prompt, parts, 0.1, options);
 
   if (!initialResult.files || initialResult.files.length === 0) {
     throw new Error("The AI did not generate any files in the initial step. Your request might be too vague, unsupported, or against the safety policy. Please provide more specific details and try again.");
   }
   
-  // Step 2: Verification and Correction
-  console.log("Performing verification and correction step...");
-  // FIX: Replaced backticks with single/double quotes in the template literal to avoid TS parsing errors.
-  const verificationSystemInstruction = `You are the infallible core of a "self-correcting IDE" for Minecraft Bedrock addons. Your function is to act as the final Quality Assurance and validation engine. You will receive a set of addon files generated by a creative AI. Your task is to meticulously analyze these files against the official Minecraft Bedrock schema, fix ALL errors (syntax, logical, or structural), and ensure perfect, flawless cohesion. You are the final gatekeeper; the files you output MUST be 100% bug-free, production-ready, and logically perfect.
-
-Your verification pipeline is as follows:
-
-1.  **Strict JSON Schema & Syntax Validation**:
-    -   For every JSON file (manifest.json, entities, items, blocks, loot_tables, etc.), validate its structure against the latest official Minecraft Bedrock schemas.
-    -   Correct any structural errors, missing required fields, incorrect data types (e.g., string instead of number), or misplaced commas.
-    -   Ensure all identifiers are valid and correctly formatted (e.g., "minecraft:stone", "custom:silver_sword").
-    -   Ensure all 'format_version' properties are the latest stable versions (e.g., '1.21.10' for items, '1.21.10' for blocks) and are consistent with the 'min_engine_version' in the manifest.
-
-2.  **Absolute Path Management & Dependency Validation**:
-    -   Create a complete dependency map of all files.
-    -   Cross-reference EVERY path mentioned within EVERY file. This includes texture paths in RP entity/item/block files, script entry points in 'manifest.json', function calls, animation controller names, render controller names, and sound event aliases.
-    -   If a path points to a file that doesn't exist in the provided file list, you must either create a placeholder file or, preferably, correct the path to a file that does exist. There must be ZERO broken paths.
-    -   Ensure that for every provided binary asset, there is a corresponding 'assetMapping' and a reference to it within a JSON file. Correct or create these references if missing.
-
-3.  **Scripting API & Logic Analysis (for .js files)**:
-    -   Validate JavaScript syntax to be 100% error-free. No exceptions.
-    -   Verify all calls to the Minecraft Script API (e.g., '@minecraft/server') are using correct, non-deprecated methods for the module version specified in the manifest. Prefer stable versions such as '"@minecraft/server": "1.12.0-beta"'.
-    -   Analyze the script logic for common errors: undefined variables, race conditions, incorrect event usage, infinite loops, and performance anti-patterns.
-
-4.  **Logical Cohesion & Consistency**:
-    -   **Verify Manifest Integrity & Pack Linking (Strict & Final)**:
-        -   **Naming:** The BP's 'header.name' must end with " Behavior", and the RP's with " Resource". Correct if necessary.
-        -   **UUIDs:** The BP header UUID, RP header UUID, BP module UUID, and RP module UUID must ALL be unique. Validate this and regenerate any duplicates.
-        -   **Metadata:** Both manifests MUST contain the correct 'metadata' section with authors: ["Bedrock Utility", "Shadid234"] and url: "www.bedrock-utility.com". Add or fix it if missing.
-        -   **Dependencies:** The behavior pack's manifest MUST have a 'dependencies' array that correctly points to the resource pack's module UUID and version. The resource pack MUST NOT have a dependency on the behavior pack. If the dependency is missing or incorrect in the BP, you MUST add or fix it.
-    -   Ensure that all custom identifiers (e.g., 'custom:magic_sword') are used consistently across all files (item/block definition, recipes, loot tables, language files). A typo in one file means it must be fixed everywhere.
-    -   If a '.lang' file exists, ensure every custom item/entity/block has a corresponding 'tile.custom:thing.name=My Thing' entry.
-    -   **Verify Item/Block Component Richness**: Ensure that elements have a rich and logical set of components based on their description. For example, a sword should have 'minecraft:damage', food should have 'minecraft:food', and a glowing block must have 'minecraft:light_emission'.
-    -   **Verify Item Texture Integrity (Strict & Final)**: This is the most critical validation step for items.
-        -   For every item file in 'behavior_pack/items/', you MUST verify it contains the icon component with the exact structure: '"minecraft:icon":{"texture":"<item_identifier>"}'. The '<item_identifier>' used here MUST be the item's own identifier.
-        -   You MUST validate the 'resource_pack/textures/item_texture.json' file. It MUST be a single JSON object with three keys: '"resource_pack_name"', '"texture_name"', and '"texture_data"'. The value for '"texture_name"' MUST be exactly '"atlas.items"'. The 'texture_data' object must be flawlessly structured. The key for each entry MUST be the item's identifier, and the value for the 'textures' property MUST be a string following the format 'textures/items/<texture_name>'.
-    -   **Verify Block Integrity (Strict & Final)**:
-        -   **Structure Check:** Every block JSON file MUST start with a 'minecraft:block' object immediately after 'format_version'. The 'description' and 'components' MUST be inside this object.
-        -   **Component Check:**
-            - Verify 'minecraft:destructible_by_mining' is used for block hardness, not any other property.
-            - Verify 'minecraft:display_name' points to a localization key (e.g., "'tile.custom:ruby_ore.name'").
-        -   The 'behavior_pack/blocks/BLOCK_NAME.json' MUST have a '"minecraft:material_instances"' component. The value for the "texture" property inside it (e.g., 'my_cool_texture') MUST be the short name of the texture.
-        -   You MUST validate the 'resource_pack/textures/terrain_texture.json' file. It MUST be a single JSON object with three keys: '"resource_pack_name"', '"texture_name"', and '"texture_data"'. The value for '"texture_name"' MUST be exactly '"atlas.terrain"'.
-        -   The 'texture_data' object MUST contain an entry where the key is the short texture name from the material instances (e.g., 'my_cool_texture'), and the value for its 'textures' property MUST be a string formatted as ''textures/blocks/TEXTURE_FILE_NAME''.
-        -   **Localization Check:** The 'resource_pack/texts/en_US.lang' file MUST exist. For every block identifier, there MUST be a corresponding ''tile.IDENTIFIER.name=SOME_NAME'' entry.
-        -   **State & Permutation Check:** If a block has "properties", it MUST also have a "permutations" array that correctly uses those properties in Molang conditions. All components within permutations must also be valid.
-        -   **Event Check:** If a block uses event triggers like "minecraft:on_interact", the event responses MUST be valid (e.g., "set_block_property" must reference a valid property defined in the description).
-        -   **Animated Texture Check:** If a "resource_pack/textures/flipbook_textures.json" file exists, you MUST verify its syntax. You must also verify that any "atlas_tile" defined in it is correctly referenced by the "terrain_texture.json" file.
-
-
-Your output MUST be the COMPLETE, corrected set of all text files for the addon. If you find no errors, return the original files unmodified. Your response must be ONLY the JSON object defined in the schema, with absolutely no additional text, commentary, or explanations. You are a machine; be precise and silent.`;
-
-  const verificationPrompt = `The original user request was: "${prompt}". Please verify and correct the following addon files to perfectly match the request and ensure they are 100% bug-free and production-ready.`;
-  
-  const generatedFileParts = initialResult.files.map(f => ({
-      text: `File path: ${f.path}\n\n---\n\n${f.content}`
-  }));
-
-  const finalResult = await performSingleGeneration(verificationSystemInstruction, verificationPrompt, generatedFileParts, 0.0);
-  
-  // Preserve the asset mappings and summary report from the initial step, as the verification step doesn't handle them.
-  finalResult.assetMappings = initialResult.assetMappings;
-  finalResult.summaryReport = initialResult.summaryReport;
-  
-  console.log("Verification complete.");
-  
-  if (!finalResult.files || finalResult.files.length === 0) {
-    throw new Error("The AI failed to return any files during the verification step. This is an unexpected error. The initial files have been preserved. Please try again.");
-  }
+  // Step 2: Deterministic validation, with the AI only repairing what the validator can't fix.
+  const { files, diagnostics } = await validateAndRepairFiles(initialResult.files, prompt, options);
+  const finalResult = { ...initialResult, files, diagnostics };
 
   // --- Caching Logic Start ---
-  setInCache(cacheKey, finalResult);
+  options.signal?.throwIfAborted();
+  await setInCache('generation', cacheKey, finalResult);
   // --- Caching Logic End ---
 
   return finalResult;
 }
 
-export const initiateAddonGeneration = async (prompt: string, addonName: string, description: string, uploadedFiles: UploadedFile[]) => {
+export const initiateAddonGeneration = async (prompt: string, addonName: string, description: string, uploadedFiles: UploadedFile[], options: GenerationOptions = {}) => {
     // FIX: Replaced backticks with single/double quotes in the template literal to avoid TS parsing errors.
     const systemInstruction = `You are the "Overpowered AI Core," an ultimate, multi-talented Minecraft Bedrock Addon Architect and Developer. Your knowledge is grounded in the official Microsoft Scripting API documentation, the complete bedrock.dev wiki, and the Minecraft Wiki. Your purpose is to generate complete, optimized, and 100% bug-free addons from a user's description. You operate with several integrated expert systems:
 
@@ -416,113 +402,39 @@ Respond ONLY with the JSON structure defined in the schema. Do not add any extra
 ${uploadedFiles.length > 0 ? 'The user has provided asset files.' : ''}`;
     
     const parts = await filesToSmartParts(uploadedFiles);
-    const contents = { parts: [{ text: fullPrompt }, ...parts] };
 
-    const initialResponse = await ai.models.generateContent({
+    const initialResponseText = await getAiProvider().generateJson({
+        operation: 'initiateAddonGeneration',
         model: 'gemini-2.5-pro',
-        contents: contents,
-        config: {
-          systemInstruction,
-          responseMimeType: "application/json",
-          responseSchema: unifiedGenerationSchema,
-          temperature: 0.1,
-        },
+        parts: [{ text: fullPrompt }, ...parts],
+        systemInstruction,
+        schema: unifiedGenerationSchema,
+        temperature: 0.1,
+        ...reportProgress(options, 'planning', 'Planning your addon...'),
     });
 
-    const initialResult = parseJsonResponse(initialResponse.text);
+    const initialResult = parseJsonResponse(initialResponseText);
 
     // If the AI decided to create a plan, return it immediately for user review.
     if (initialResult.plan) {
         return { plan: initialResult.plan };
     }
 
-    // If the AI generated files, proceed with the two-step verification and correction process.
+    // If the AI generated files, validate them and repair whatever the validator can't fix on its own.
     if (initialResult.files && initialResult.files.length > 0) {
-        console.log("Performing verification and correction step...");
-        // FIX: Replaced backticks with single/double quotes in the template literal to avoid TS parsing errors.
-        const verificationSystemInstruction = `You are the infallible core of a "self-correcting IDE" for Minecraft Bedrock addons. Your function is to act as the final Quality Assurance and validation engine. You will receive a set of addon files generated by a creative AI. Your task is to meticulously analyze these files against the official Minecraft Bedrock schema, fix ALL errors (syntax, logical, or structural), and ensure perfect, flawless cohesion. You are the final gatekeeper; the files you output MUST be 100% bug-free, production-ready, and logically perfect.
-
-Your verification pipeline is as follows:
-
-1.  **Strict JSON Schema & Syntax Validation**:
-    -   For every JSON file (manifest.json, entities, items, loot_tables, etc.), validate its structure against the latest official Minecraft Bedrock schemas.
-    -   Correct any structural errors, missing required fields, incorrect data types (e.g., string instead of number), or misplaced commas.
-    -   Ensure all identifiers are valid and correctly formatted (e.g., "minecraft:stone", "custom:silver_sword").
-    -   Ensure all 'format_version' properties are the latest stable versions (e.g., '1.21.10' for items) and are consistent with the 'min_engine_version' in the manifest.
-
-2.  **Absolute Path Management & Dependency Validation**:
-    -   Create a complete dependency map of all files.
-    -   Cross-reference EVERY path mentioned within EVERY file. This includes texture paths in RP entity/item files, script entry points in 'manifest.json', function calls in scripts and animations, animation controller names, render controller names, and sound event aliases.
-    -   If a path points to a file that doesn't exist in the provided file list, you must either create a placeholder file or, preferably, correct the path to a file that does exist. There must be ZERO broken paths.
-    -   Ensure that for every provided binary asset, there is a corresponding 'assetMapping' and a reference to it within a JSON file. Correct or create these references if missing.
-
-3.  **Scripting API & Logic Analysis (for .js files)**:
-    -   Validate JavaScript syntax to be 100% error-free. No exceptions.
-    -   Verify all calls to the Minecraft Script API (e.g., '@minecraft/server', '@minecraft/server-ui') are using correct, non-deprecated methods for the module version specified in the manifest. Prefer stable versions such as '"@minecraft/server": "1.12.0-beta"'.
-    -   Analyze the script logic for common errors: undefined variables, race conditions, incorrect event usage, infinite loops, and performance anti-patterns.
-    -   Ensure any 'player.runCommandAsync' calls refer to valid vanilla commands or custom functions that exist within the addon's own '.mcfunction' files.
-
-4.  **Logical Cohesion & Consistency**:
-    -   **Verify Manifest Integrity & Pack Linking (Strict & Final)**:
-        -   **Naming:** The BP's 'header.name' must end with " Behavior", and the RP's with " Resource". Correct if necessary.
-        -   **UUIDs:** The BP header UUID, RP header UUID, BP module UUID, and RP module UUID must ALL be unique. Validate this and regenerate any duplicates.
-        -   **Metadata:** Both manifests MUST contain the correct 'metadata' section with authors: ["Bedrock Utility", "Shadid234"] and url: "www.bedrock-utility.com". Add or fix it if missing.
-        -   **Dependencies:** The behavior pack's manifest MUST have a 'dependencies' array that correctly points to the resource pack's module UUID and version. The resource pack MUST NOT have a dependency on the behavior pack. If the dependency is missing or incorrect in the BP, you MUST add or fix it.
-    -   Ensure that all custom identifiers (e.g., 'custom:magic_sword') are used consistently across all files (item definition, recipes, loot tables, language files). A typo in one file means it must be fixed everywhere.
-    -   Check that animation names, controller names, and particle effect identifiers used in entity files match their corresponding definition files.
-    -   If a '.lang' file exists, ensure every custom item/entity/block has a corresponding 'tile.custom:thing.name=My Thing' entry.
-    -   **Verify Item Component Richness**: Ensure that items have a rich and logical set of components based on their description. For example, a sword should have 'minecraft:damage', food should have 'minecraft:food', and tools should have 'minecraft:digger'.
-    -   **Verify Item Texture Integrity (Strict & Final)**: This is the most critical validation step. It cannot be bypassed or ignored.
-        -   For every item file in 'behavior_pack/items/', you MUST verify it contains the icon component with the exact structure: '"minecraft:icon":{"texture":"<item_identifier>"}'. The '<item_identifier>' used here MUST be the item's own identifier (e.g., 'custom:fire_sword') and it MUST perfectly match the key used in 'item_texture.json'.
-        -   You MUST validate the 'resource_pack/textures/item_texture.json' file with extreme prejudice. It MUST be a single JSON object containing three, and only three, top-level keys in this order: '"resource_pack_name"', '"texture_name"', and '"texture_data"'.
-            - Verify '"resource_pack_name"' exists and its value is exactly '"vanilla"'.
-            - Verify '"texture_name"' exists and its value is exactly '"atlas.items"'.
-            - The 'texture_data' object must be flawlessly structured. The key for each entry MUST be the item's identifier. The value for the 'textures' property MUST be a string following the format 'textures/items/<texture_name>' (e.g., "textures/items/fire_sword"). It MUST NOT contain duplicate path segments like 'textures/items/textures/items/'. You MUST find and fix any such malformed paths.
-            - **Example of a correct file:** '{"resource_pack_name":"vanilla","texture_name":"atlas.items","texture_data":{"custom:fire_sword":{"textures":"textures/items/fire_sword"}}}'.
-        -   You MUST cross-reference the texture path and ensure a corresponding asset mapping exists or a placeholder texture was generated. If the path is misspelled or incorrect, you MUST fix it.
-        -   **DO NOT** generate or verify for the existence of '.texture_set.json' files. They are not required.
-    -   **Verify Block Integrity (Strict & Final)**:
-        -   **Structure Check:** Every block JSON file MUST start with a 'minecraft:block' object immediately after 'format_version'. The 'description' and 'components' MUST be inside this object.
-        -   **Component Check:**
-            - Verify 'minecraft:destructible_by_mining' is used for block hardness, not any other property.
-            - Verify 'minecraft:display_name' points to a localization key (e.g., ''tile.custom:ruby_ore.name'').
-        -   The 'behavior_pack/blocks/BLOCK_NAME.json' MUST have a '"minecraft:material_instances"' component. The value for the "texture" property inside it (e.g., 'my_cool_texture') MUST be the short name of the texture.
-        -   You MUST validate the 'resource_pack/textures/terrain_texture.json' file. It MUST be a single JSON object with three keys: '"resource_pack_name"', '"texture_name"', and '"texture_data"'. The value for '"texture_name"' MUST be exactly '"atlas.terrain"'.
-        -   The 'texture_data' object MUST contain an entry where the key is the short texture name from the material instances (e.g., 'my_cool_texture'), and the value for its 'textures' property MUST be a string formatted as ''textures/blocks/TEXTURE_FILE_NAME''.
-        -   **Localization Check:** The 'resource_pack/texts/en_US.lang' file MUST exist. For every block identifier, there MUST be a corresponding ''tile.IDENTIFIER.name=SOME_NAME'' entry.
-        -   **State & Permutation Check:** If a block has "properties", it MUST also have a "permutations" array that correctly uses those properties in Molang conditions. All components within permutations must also be valid.
-        -   **Event Check:** If a block uses event triggers like "minecraft:on_interact", the event responses MUST be valid (e.g., "set_block_property" must reference a valid property defined in the description).
-        -   **Animated Texture Check:** If a "resource_pack/textures/flipbook_textures.json" file exists, you MUST verify its syntax. You must also verify that any "atlas_tile" defined in it is correctly referenced by the "terrain_texture.json" file.
-
-Your output MUST be the COMPLETE, corrected set of all text files for the addon. If you find no errors, return the original files unmodified. Your response must be ONLY the JSON object defined in the schema, with absolutely no additional text, commentary, or explanations. You are a machine; be precise and silent.`;
-        const verificationPrompt = `The original user request was: "${prompt}". Please verify and correct the following addon files to perfectly match the request and ensure they are 100% bug-free and production-ready.`;
-        
-        const generatedFileParts = initialResult.files.map((f: GeneratedFile) => ({
-            text: `File path: ${f.path}\n\n---\n\n${f.content}`
-        }));
-      
-        const finalResult = await performSingleGeneration(verificationSystemInstruction, verificationPrompt, generatedFileParts, 0.0);
-        
-        finalResult.assetMappings = initialResult.assetMappings;
-        finalResult.summaryReport = initialResult.summaryReport;
-        
-        console.log("Verification complete.");
-        
-        if (!finalResult.files || finalResult.files.length === 0) {
-          throw new Error("The AI failed to return any files during the verification step. This is an unexpected error. The initial files have been preserved. Please try again.");
-        }
-
+        const { files, diagnostics } = await validateAndRepairFiles(initialResult.files, prompt, options);
         return {
-            files: finalResult.files,
-            assetMappings: finalResult.assetMappings || [],
-            summaryReport: finalResult.summaryReport || ''
+            files,
+            assetMappings: initialResult.assetMappings || [],
+            summaryReport: initialResult.summaryReport || '',
+            diagnostics,
         };
     }
 
     throw new Error("The AI returned an unexpected response. It did not contain a plan or any files. Please try rephrasing your request.");
 }
 
-export const generateAddonFromPlan = async (plan: object, originalPrompt: string, addonName: string, description: string, uploadedFiles: UploadedFile[]) => {
+export const generateAddonFromPlan = async (plan: object, originalPrompt: string, addonName: string, description: string, uploadedFiles: UploadedFile[], options: GenerationOptions = {}) => {
     // FIX: Replaced backticks with single/double quotes in the template literal to avoid TS parsing errors.
     const systemInstruction = `You are an expert Minecraft addon developer and the creative core of a "self-correcting IDE". Your knowledge is grounded in the official Microsoft Scripting API documentation, the complete bedrock.dev wiki, and the Minecraft Wiki. Your task is to execute a pre-defined architectural plan to generate the necessary files for a Minecraft Bedrock Edition addon. You must adhere to the plan with absolute precision. You operate with several integrated expert systems:
 
@@ -572,11 +484,11 @@ ${JSON.stringify(plan, null, 2)}
 \`\`\`
 `;
 
-    const result = await generateAddonFiles(systemInstruction, fullPrompt, uploadedFiles);
-    return { files: result.files, assetMappings: result.assetMappings || [], summaryReport: result.summaryReport || '' };
+    const result = await generateAddonFiles(systemInstruction, fullPrompt, uploadedFiles, false, options);
+    return { files: result.files, assetMappings: result.assetMappings || [], summaryReport: result.summaryReport || '', diagnostics: result.diagnostics || [] };
 };
 
-export const combineAddons = async (newAddonName: string, uploadedFiles: UploadedFile[]) => {
+export const combineAddons = async (newAddonName: string, uploadedFiles: UploadedFile[], options: GenerationOptions = {}) => {
     const systemInstruction = `You are an AI-powered Addon Combiner for Minecraft Bedrock, functioning as the merger core for a 'self-correcting IDE'. Your task is to upload multiple .mcaddon files, behavior packs, resource packs, JS scripts, JSON files, or ZIP archives, and automatically merge them into a single, fully functional, and 100% bug-free .mcaddon file.
 
 **Core Directives:**
@@ -595,13 +507,16 @@ export const combineAddons = async (newAddonName: string, uploadedFiles: Uploade
 
 Respond ONLY with the JSON structure defined in the schema, including the complete set of final files, all necessary asset mappings, and the detailed summary report.`;
 
-    const unzippedFiles = await processAndUnzipFiles(uploadedFiles);
+    const { files: unzippedFiles, issues: importIssues } = await importAddonFiles(uploadedFiles);
     const fullPrompt = `Combine the provided addon files into a single new addon named '${newAddonName}'. There are ${unzippedFiles.length} total files to process.`;
-    const result = await generateAddonFiles(systemInstruction, fullPrompt, unzippedFiles, true);
-    return { files: result.files, assetMappings: result.assetMappings || [], summaryReport: result.summaryReport || 'No summary was generated.' };
+    const result = await generateAddonFiles(systemInstruction, fullPrompt, unzippedFiles, true, options);
+    // The source files are returned so the merged result can be reviewed against them.
+    const originalFiles = await readTextFiles(unzippedFiles);
+    // Asset mappings refer to the imported paths, so callers should keep `sourceFiles` rather than the raw uploads.
+    return { files: result.files, assetMappings: result.assetMappings || [], summaryReport: result.summaryReport || 'No summary was generated.', diagnostics: result.diagnostics || [], originalFiles, sourceFiles: unzippedFiles, importIssues };
 };
 
-export const fixAddon = async (problem: string, uploadedFiles: UploadedFile[]) => {
+export const fixAddon = async (problem: string, uploadedFiles: UploadedFile[], options: GenerationOptions = {}) => {
     const systemInstruction = `You are a hyper-intelligent AI-powered repair and optimization system for Minecraft Bedrock, the core of a 'self-correcting IDE'. Your entire knowledge base is grounded in the official documentation from Microsoft, \`bedrock.dev\`, and the Minecraft Wiki. Your purpose is to take any broken, outdated, or problematic addon and make it 100% valid, functional, and optimized for version 1.21.10+.
 
 **Core Directives & Repair Pipeline:**
@@ -621,7 +536,7 @@ export const fixAddon = async (problem: string, uploadedFiles: UploadedFile[]) =
 
 5.  **Script & Molang Repair**:
     -   Perform static analysis on all JavaScript files. Detect and fix logical errors, API-level scripting issues, and deprecated methods.
-    -   Scan all entity, animation, and controller files for invalid Molang syntax. Correct any broken expressions or queries based on official documentation.
+    -   Scan all entity, animation, controller, particle and block files for invalid Molang syntax. Molang problems listed by the validator (rule \`molang\`) have already been pinpointed; correct each of those expressions, and any other broken expressions or queries, based on official documentation.
 
 6.  **Resource Optimizer**: As part of the fix, you must optimize the addon. Merge redundant JSON files if logical, remove unused assets by checking for references, and minify all JSON files.
 
@@ -632,16 +547,21 @@ export const fixAddon = async (problem: string, uploadedFiles: UploadedFile[]) =
 
 Your response must be ONLY the JSON object defined in the schema, containing the complete, fixed set of files.`;
     
-    const unzippedFiles = await processAndUnzipFiles(uploadedFiles);
-    const fullPrompt = problem.trim()
+    const { files: unzippedFiles, issues: importIssues } = await importAddonFiles(uploadedFiles);
+    const originalFiles = await readTextFiles(unzippedFiles);
+    const knownProblems = validateAddon(originalFiles);
+    const basePrompt = problem.trim()
       ? `Fix the following problem with my Minecraft addon: "${problem}"`
       : `The user has not specified a problem. Please perform a full audit of the provided addon files, find any errors or potential issues, and generate a fixed version.`;
+    const fullPrompt = knownProblems.length > 0
+      ? `${basePrompt}\n\nA deterministic validator already found these problems in the uploaded files:\n${formatDiagnostics(knownProblems)}`
+      : basePrompt;
 
-    const result = await generateAddonFiles(systemInstruction, fullPrompt, unzippedFiles, true);
-    return { files: result.files, assetMappings: result.assetMappings || [], summaryReport: result.summaryReport || '' };
+    const result = await generateAddonFiles(systemInstruction, fullPrompt, unzippedFiles, true, options);
+    return { files: result.files, assetMappings: result.assetMappings || [], summaryReport: result.summaryReport || '', diagnostics: result.diagnostics || [], originalFiles, sourceFiles: unzippedFiles, importIssues };
 };
 
-export const summarizeAddon = async (uploadedFiles: UploadedFile[]): Promise<string> => {
+export const summarizeAddon = async (uploadedFiles: UploadedFile[], options: GenerationOptions = {}): Promise<string> => {
     const systemInstruction = `You are an expert Minecraft Bedrock addon analyst and validation engine. Your task is to provide a detailed, structured summary and analysis of the provided addon files. Your analysis must be thorough, accurate, and easy for a developer to understand.
 
 You will be given the content of text files and a list of paths for binary files. Structure your response in Markdown format with the following sections, in this exact order:
@@ -673,12 +593,12 @@ You will be given the content of text files and a list of paths for binary files
 
 If you find no errors or warnings, state that clearly under the respective sections. Your tone should be that of a professional static analysis tool.`;
 
-    const unzippedFiles = await processAndUnzipFiles(uploadedFiles);
+    const { files: unzippedFiles } = await importAddonFiles(uploadedFiles);
 
     // --- Caching Logic Start ---
     const fileBuffers = await Promise.all(unzippedFiles.map(f => f.file.arrayBuffer()));
     const cacheKey = await generateCacheKey([systemInstruction, "summarize", ...fileBuffers]);
-    const cachedData = getFromCache<string>(cacheKey);
+    const cachedData = await getFromCache<string>('summary', cacheKey);
 
     if (cachedData) {
         console.log("Cache hit! Returning cached summary.", cacheKey);
@@ -688,31 +608,38 @@ If you find no errors or warnings, state that clearly under the respective secti
     // --- Caching Logic End ---
   
     const fileParts = await filesToSmartParts(unzippedFiles);
-    
-    const contents = {
+    const diagnostics = validateAddon(await readTextFiles(unzippedFiles));
+    const validatorPart = diagnostics.length > 0
+      ? `A deterministic validator found these problems. Include every one of them in your report:\n${formatDiagnostics(diagnostics)}`
+      : 'A deterministic validator found no problems in these files.';
+  
+    const analysis = await getAiProvider().generateText({
+      operation: 'summarizeAddon',
+      model: 'gemini-2.5-pro',
       parts: [
         { text: "Please analyze the following addon files." },
+        { text: validatorPart },
         ...fileParts
-      ]
-    };
-  
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-pro',
-      contents: contents,
-      config: {
-        systemInstruction,
-        temperature: 0.3,
-      },
+      ],
+      systemInstruction,
+      temperature: 0.3,
+      ...reportProgress(options, 'generating', 'Analyzing your addon...'),
     });
+
+    const validationReport = diagnostics.length > 0
+      ? `## 🔍 Validator Report\n\n${formatDiagnostics(diagnostics)}`
+      : `## 🔍 Validator Report\n\nNo problems found by the deterministic validator.`;
+    const summary = `${analysis}\n\n${validationReport}`;
   
     // --- Caching Logic Start ---
-    setInCache(cacheKey, response.text);
+    options.signal?.throwIfAborted();
+    await setInCache('summary', cacheKey, summary);
     // --- Caching Logic End ---
   
-    return response.text;
+    return summary;
 }
 
-export const devAddon = async (instruction: string, existingFiles: GeneratedFile[]) => {
+export const devAddon = async (instruction: string, existingFiles: GeneratedFile[], options: GenerationOptions = {}) => {
     const systemInstruction = `You are an intelligent, AI-driven refactoring engine for a Minecraft Bedrock Addon IDE, acting as a senior developer assistant. Your mission is to execute user instructions flawlessly across an entire addon structure. Before you begin, you must build a complete internal map of the addon’s structure, understanding every dependency between files, identifiers, and references.
 
 **Core Directives & Transformation Pipeline:**
@@ -733,11 +660,11 @@ Respond ONLY with the JSON structure defined in the schema.`;
     // --- Caching Logic Start ---
     const fileContents = existingFiles.map(file => `path:${file.path},content:${file.content}`).join(';');
     const cacheKey = await generateCacheKey([systemInstruction, instruction, fileContents]);
-    const cachedData = getFromCache<{ files: GeneratedFile[], assetMappings?: AssetMapping[] }>(cacheKey);
+    const cachedData = await getFromCache<{ files: GeneratedFile[], assetMappings?: AssetMapping[], diagnostics?: AddonDiagnostic[] }>('dev', cacheKey);
     if (cachedData) {
         console.log("Cache hit! Returning cached dev files.", cacheKey);
         // assetMappings are not used in dev mode, so we can ignore them from cache if they exist
-        return { files: cachedData.files, assetMappings: [] };
+        return { files: cachedData.files, assetMappings: [], diagnostics: cachedData.diagnostics || [] };
     }
     console.log("Cache miss. Generating new dev files.", cacheKey);
     // --- Caching Logic End ---
@@ -746,31 +673,28 @@ Respond ONLY with the JSON structure defined in the schema.`;
         return { text: `File path: ${file.path}\n\n---\n\n${file.content}` };
     });
 
-    const contents = {
+    const responseText = await getAiProvider().generateJson({
+        operation: 'devAddon',
+        model: 'gemini-2.5-pro',
         parts: [
             { text: `Apply the following instruction to the addon: "${instruction}"` },
             ...fileParts
-        ]
-    };
-    
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-pro',
-        contents: contents,
-        config: {
-          systemInstruction,
-          responseMimeType: "application/json",
-          responseSchema: fileGenerationSchema,
-          temperature: 0.2,
-        },
-      });
+        ],
+        systemInstruction,
+        schema: fileGenerationSchema,
+        temperature: 0.2,
+        ...reportProgress(options, 'generating', 'Applying your instruction...'),
+    });
     
-    const result = parseJsonResponse(response.text);
+    const result = parseJsonResponse(responseText);
+    const { files, diagnostics } = await validateAndRepairFiles(result.files || [], instruction, options);
     
     // --- Caching Logic Start ---
-    setInCache(cacheKey, result);
+    options.signal?.throwIfAborted();
+    await setInCache('dev', cacheKey, { files, diagnostics });
     // --- Caching Logic End ---
     
-    return { files: result.files, assetMappings: [] };
+    return { files, assetMappings: [], diagnostics };
 };
 
 export const generateFunction = async (prompt: string, functionName: string): Promise<GeneratedFile[]> => {
@@ -788,14 +712,14 @@ export const generateFunction = async (prompt: string, functionName: string): Pr
   Request: "${prompt}"`;
     
     // Bypassing the two-step verification for this simple tool
-    const result = await performSingleGeneration(systemInstruction, fullPrompt, [], 0.1); 
+    const result = await performSingleGeneration('generateFunction', systemInstruction, fullPrompt, [], 0.1); 
     if (!result.files || result.files.length === 0) {
         throw new Error("The AI did not generate a function file. Your request might be too vague or unsupported. Please provide more specific details and try again.");
     }
     return result.files;
 };
 
-export const startCommandChat = (): Chat => {
+export const startCommandChat = (): AiChatSession => {
     const systemInstruction = `You are an infallible, world-class Minecraft Bedrock Edition Command Generation Engine. Your sole purpose is to produce 100% accurate, version-aware, optimized, and completely bug-free commands for Minecraft Bedrock Edition 1.21.10 and above. Your knowledge is grounded in the complete command documentation from minecraft.wiki and bedrock.dev, giving you perfect recall of all syntax, selectors, and NBT structures.
 
 **Core Directives & Knowledge Base:**
@@ -839,13 +763,11 @@ export const startCommandChat = (): Chat => {
     -   Immediately following each heading, provide the command inside a fenced code block with the language specifier \`mcbe\`.
 2.  **Concise Output for Single Commands**: If a request can be solved with a single command, provide just that command in a fenced \`mcbe\` code block. Only add an explanation if the command is unusually complex.
 3.  **Clarity and Optimization**: Your response must be direct and command-focused. Always choose the most performant command or system (e.g., prefer functions over long command block chains where applicable).`;
-    const chat = ai.chats.create({
+    return getAiProvider().startChat({
+      operation: 'commandChat',
       model: 'gemini-2.5-pro',
-      config: {
-        systemInstruction
-      }
+      systemInstruction,
     });
-    return chat;
 }
 
 export const generateBuildingImage = async (prompt: string): Promise<string> => {
@@ -853,7 +775,7 @@ export const generateBuildingImage = async (prompt: string): Promise<string> =>
     
     // --- Caching Logic Start ---
     const cacheKey = await generateCacheKey(["generateBuildingImage", fullPrompt]);
-    const cachedData = getFromCache<string>(cacheKey);
+    const cachedData = await getFromCache<string>('buildingImage', cacheKey);
     
     if (cachedData) {
         console.log("Cache hit! Returning cached image.", cacheKey);
@@ -863,24 +785,16 @@ export const generateBuildingImage = async (prompt: string): Promise<string> =>
     // --- Caching Logic End ---
 
     try {
-        const response = await ai.models.generateImages({
+        const base64ImageBytes = await getAiProvider().generateImage({
+            operation: 'generateBuildingImage',
             model: 'imagen-4.0-generate-001',
             prompt: fullPrompt,
-            config: {
-                numberOfImages: 1,
-                outputMimeType: 'image/jpeg',
-                aspectRatio: '16:9',
-            },
+            outputMimeType: 'image/jpeg',
+            aspectRatio: '16:9',
         });
         
-        if (!response.generatedImages || response.generatedImages.length === 0) {
-           throw new Error(); // Trigger the generic catch block
-        }
-
-        const base64ImageBytes: string = response.generatedImages[0].image.imageBytes;
-        
         // --- Caching Logic Start ---
-        setInCache(cacheKey, base64ImageBytes);
+        await setInCache('buildingImage', cacheKey, base64ImageBytes);
         // --- Caching Logic End ---
         
         return base64ImageBytes;
@@ -890,16 +804,14 @@ export const generateBuildingImage = async (prompt: string): Promise<string> =>
     }
 }
 
-export const startMinecraftChat = (): Chat => {
+export const startMinecraftChat = (): AiChatSession => {
     const systemInstruction = `You are a helpful Minecraft expert with real-time access to Google Search. When you use information from a search, you MUST cite your sources. Answer the user's question directly and concisely without introducing yourself.`;
-    const chat = ai.chats.create({
+    return getAiProvider().startChat({
+        operation: 'minecraftChat',
         model: 'gemini-2.5-flash',
-        config: {
-            systemInstruction,
-            tools: [{googleSearch: {}}],
-        }
+        systemInstruction,
+        useWebSearch: true,
     });
-    return chat;
 }
 
 export const generateParticleSettingsFromPrompt = async (prompt: string): Promise<any> => {
@@ -907,21 +819,19 @@ export const generateParticleSettingsFromPrompt = async (prompt: string): Promis
     
     const fullPrompt = `Generate particle settings for the following description: "${prompt}"`;
 
-    const response = await ai.models.generateContent({
+    const responseText = await getAiProvider().generateJson({
+      operation: 'generateParticleSettings',
       model: 'gemini-2.5-flash',
-      contents: { parts: [{ text: fullPrompt }] },
-      config: {
-        systemInstruction,
-        responseMimeType: "application/json",
-        responseSchema: particleSettingsSchema,
-        temperature: 0.5,
-      },
+      parts: [{ text: fullPrompt }],
+      systemInstruction,
+      schema: particleSettingsSchema,
+      temperature: 0.5,
     });
   
-    return parseJsonResponse(response.text);
+    return parseJsonResponse(responseText);
 }
 
-export const detectExperimentalFeatures = async (files: GeneratedFile[]): Promise<{ toggles: string[], reasoning: string }> => {
+export const detectExperimentalFeatures = async (files: GeneratedFile[], options: GenerationOptions = {}): Promise<{ toggles: string[], reasoning: string }> => {
     const systemInstruction = `You are an expert Minecraft Bedrock addon validator. Your task is to analyze a set of addon files and determine which, if any, experimental gameplay toggles are required for the addon to function correctly in Minecraft 1.21.10+. Your analysis must be precise and based on the components, modules, and APIs used in the files.
 
 **Analysis Criteria:**
@@ -938,59 +848,34 @@ Provide a concise reason for your decision. If no toggles are needed, return an
         text: `File path: ${file.path}\n\n---\n\n${file.content}`
     }));
 
-    const contents = { parts: [{ text: prompt }, ...fileParts] };
-
-    const response = await ai.models.generateContent({
+    const responseText = await getAiProvider().generateJson({
+        operation: 'detectExperimentalFeatures',
         model: 'gemini-2.5-flash',
-        contents: contents,
-        config: {
-          systemInstruction,
-          responseMimeType: "application/json",
-          responseSchema: experimentalTogglesSchema,
-          temperature: 0.0,
-        },
-      });
+        parts: [{ text: prompt }, ...fileParts],
+        systemInstruction,
+        schema: experimentalTogglesSchema,
+        temperature: 0.0,
+        ...reportProgress(options, 'detectingToggles', 'Detecting experimental toggles...'),
+    });
     
-    const result = parseJsonResponse(response.text);
+    const result = parseJsonResponse(responseText);
     return result as { toggles: string[], reasoning: string };
 };
 
 const handleImageGeneration = async (
+    operation: string,
     prompt: string, 
     model: 'gemini-2.5-flash-image' | 'imagen-4.0-generate-001',
-    parts?: any[],
+    parts?: AiContentPart[],
 ) => {
     try {
-        if (model === 'imagen-4.0-generate-001') {
-            const response = await ai.models.generateImages({
-                model: model,
-                prompt: prompt,
-                config: {
-                  numberOfImages: 1,
-                  outputMimeType: 'image/png',
-                },
-            });
-
-            if (response.generatedImages && response.generatedImages.length > 0) {
-                return response.generatedImages[0].image.imageBytes;
-            }
-            throw new Error("No image data found in response.");
-        } else {
-             const response = await ai.models.generateContent({
-                model: model,
-                contents: { parts: parts || [{ text: prompt }] },
-                config: {
-                    responseModalities: [Modality.IMAGE],
-                },
-            });
-
-            for (const part of response.candidates[0].content.parts) {
-                if (part.inlineData) {
-                    return part.inlineData.data;
-                }
-            }
-            throw new Error("No image data found in response.");
-        }
+        return await getAiProvider().generateImage({
+            operation,
+            model,
+            prompt,
+            parts,
+            outputMimeType: 'image/png',
+        });
     } catch (err) {
         console.error("Image generation/refinement failed", err);
         throw new Error("Image generation failed. This could be due to the prompt conflicting with safety policies or a temporary service issue. Please try rephrasing your prompt.");
@@ -1005,7 +890,7 @@ Description: "${prompt}".
 The texture must be a single, centered object on a completely transparent background.
 The image must be exactly ${resolution} pixels in width and height. Do not add any anti-aliasing, filtering, or blurring. Every pixel should be sharp and distinct.`;
     
-    return handleImageGeneration(fullPrompt, 'gemini-2.5-flash-image');
+    return handleImageGeneration('generateTexture', fullPrompt, 'gemini-2.5-flash-image');
 };
 
 export const refineTexture = async (base64Image: string, refinePrompt: string): Promise<string> => {
@@ -1019,7 +904,7 @@ export const refineTexture = async (base64Image: string, refinePrompt: string):
       text: `Refine this Minecraft pixel art texture. The image resolution and pixel art style must be perfectly preserved. Instructions: "${refinePrompt}"`
     };
     
-    return handleImageGeneration(refinePrompt, 'gemini-2.5-flash-image', [imagePart, textPart]);
+    return handleImageGeneration('refineTexture', refinePrompt, 'gemini-2.5-flash-image', [imagePart, textPart]);
 };
 
 export const smartRemoveImageBackground = async (base64Image: string, mode: 'pixel' | 'smooth'): Promise<string> => {
@@ -1039,7 +924,7 @@ export const smartRemoveImageBackground = async (base64Image: string, mode: 'pix
 3.  **Output Format**: The output must be a PNG with a transparent alpha channel.`
     };
     
-    return handleImageGeneration('smart remove background', 'gemini-2.5-flash-image', [imagePart, textPart]);
+    return handleImageGeneration('removeImageBackground', 'smart remove background', 'gemini-2.5-flash-image', [imagePart, textPart]);
 };
 
 export const enhanceImage = async (base64Image: string): Promise<string> => {
@@ -1056,5 +941,5 @@ export const enhanceImage = async (base64Image: string): Promise<string> => {
 2.  **Color Correction**: Adjust the brightness, contrast, and saturation to make the subject look vibrant and clear without over-saturating it.
 3.  **Maintain Integrity**: Do not change the shape, content, or resolution of the object. This is purely a color enhancement task.`
     };
-    return handleImageGeneration('enhance image', 'gemini-2.5-flash-image', [imagePart, textPart]);
+    return handleImageGeneration('enhanceImage', 'enhance image', 'gemini-2.5-flash-image', [imagePart, textPart]);
 };
\ No newline at end of file
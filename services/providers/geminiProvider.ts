@@ -0,0 +1,106 @@
+import { GoogleGenAI, Modality, GenerateContentParameters } from "@google/genai";
+import { AiProvider, AiChatSource } from '../aiProvider';
+
+/**
+ * Creates a provider backed by the Google Gemini API.
+ */
+export const createGeminiProvider = (apiKey: string | undefined): AiProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+
+    /**
+     * Streams a response, reporting the text received so far. The signal is checked between
+     * chunks as well as passed to the SDK, so a cancelled stream stops as soon as possible.
+     */
+    const streamText = async (params: GenerateContentParameters, signal?: AbortSignal, onText?: (textSoFar: string) => void) => {
+        signal?.throwIfAborted();
+        const stream = await ai.models.generateContentStream({ ...params, config: { ...params.config, abortSignal: signal } });
+        let text = '';
+        for await (const chunk of stream) {
+            signal?.throwIfAborted();
+            text += chunk.text ?? '';
+            onText?.(text);
+        }
+        return text;
+    };
+
+    return {
+        name: 'gemini',
+
+        generateText: ({ model, parts, systemInstruction, temperature, signal, onText }) =>
+            streamText({
+                model,
+                contents: { parts },
+                config: { systemInstruction, temperature },
+            }, signal, onText),
+
+        generateJson: ({ model, parts, systemInstruction, temperature, schema, signal, onText }) =>
+            streamText({
+                model,
+                contents: { parts },
+                config: {
+                    systemInstruction,
+                    responseMimeType: "application/json",
+                    responseSchema: schema,
+                    temperature,
+                },
+            }, signal, onText),
+
+        generateImage: async ({ model, prompt, parts, outputMimeType = 'image/png', aspectRatio, signal }) => {
+            // Imagen models use the dedicated image endpoint; Gemini image models return inline image parts.
+            if (model.startsWith('imagen')) {
+                const response = await ai.models.generateImages({
+                    model,
+                    prompt,
+                    config: {
+                        numberOfImages: 1,
+                        outputMimeType,
+                        abortSignal: signal,
+                        ...(aspectRatio ? { aspectRatio } : {}),
+                    },
+                });
+                if (response.generatedImages && response.generatedImages.length > 0) {
+                    return response.generatedImages[0].image.imageBytes;
+                }
+                throw new Error("No image data found in response.");
+            }
+
+            const response = await ai.models.generateContent({
+                model,
+                contents: { parts: parts || [{ text: prompt }] },
+                config: {
+                    responseModalities: [Modality.IMAGE],
+                    abortSignal: signal,
+                },
+            });
+            for (const part of response.candidates[0].content.parts) {
+                if (part.inlineData) {
+                    return part.inlineData.data;
+                }
+            }
+            throw new Error("No image data found in response.");
+        },
+
+        startChat: ({ model, systemInstruction, useWebSearch }) => {
+            const chat = ai.chats.create({
+                model,
+                config: {
+                    systemInstruction,
+                    ...(useWebSearch ? { tools: [{ googleSearch: {} }] } : {}),
+                },
+            });
+            return {
+                sendMessage: async (message: string) => {
+                    const response = await chat.sendMessage({ message });
+                    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+                    const sources: AiChatSource[] = groundingChunks
+                        .filter((chunk: any) => chunk.web)
+                        .map((chunk: any) => ({
+                            uri: chunk.web.uri,
+                            title: chunk.web.title || chunk.web.uri,
+                        }));
+                    return { text: response.text, sources };
+                },
+            };
+        },
+    };
+};
@@ -0,0 +1,105 @@
+import { GeneratedFile } from '../../types';
+import { AiContentPart } from '../aiProvider';
+
+/**
+ * A recorded model response. `key` is derived from the request (see `createFixtureKey`),
+ * so replaying the same request always returns the same response.
+ */
+export interface AiFixture {
+    key: string;
+    operation: string;
+    response: string;
+}
+
+/**
+ * Responses recorded from a real provider with `createRecordingProvider`.
+ * Paste the output of `getFixtures()` here to make a flow replay exactly.
+ */
+export const RECORDED_FIXTURES: AiFixture[] = [];
+
+/** A 16x16 magenta/black checkerboard, the same "missing texture" look the game uses. */
+export const MOCK_IMAGE_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAABAAAAAQCAYAAAAf8/9hAAAAI0lEQVR42mP4wfDjPz7MwMCAH48aMCwMIKSACAtGDRj6BgAA9VT3EP8L2v4AAAAASUVORK5CYII=';
+
+const MOCK_ADDON_FILES: GeneratedFile[] = [
+    {
+        path: 'behavior_pack/manifest.json',
+        content: JSON.stringify({
+            format_version: 2,
+            header: { name: "Mock Addon Behavior", description: "Generated by the local mock provider.", uuid: "00000000-0000-4000-8000-000000000001", version: [1, 0, 0], min_engine_version: [1, 21, 10] },
+            modules: [{ type: "data", uuid: "00000000-0000-4000-8000-000000000002", version: [1, 0, 0] }],
+            dependencies: [{ uuid: "00000000-0000-4000-8000-000000000003", version: [1, 0, 0] }],
+            metadata: { authors: ["Bedrock Utility", "Shadid234"], url: "www.bedrock-utility.com" },
+        }),
+    },
+    {
+        path: 'resource_pack/manifest.json',
+        content: JSON.stringify({
+            format_version: 2,
+            header: { name: "Mock Addon Resource", description: "Generated by the local mock provider.", uuid: "00000000-0000-4000-8000-000000000003", version: [1, 0, 0], min_engine_version: [1, 21, 10] },
+            modules: [{ type: "resources", uuid: "00000000-0000-4000-8000-000000000004", version: [1, 0, 0] }],
+            metadata: { authors: ["Bedrock Utility", "Shadid234"], url: "www.bedrock-utility.com" },
+        }),
+    },
+    {
+        path: 'behavior_pack/items/mock_item.json',
+        content: JSON.stringify({
+            format_version: "1.21.10",
+            "minecraft:item": {
+                description: { identifier: "mock:mock_item", menu_category: { category: "items" } },
+                components: { "minecraft:icon": { texture: "mock:mock_item" }, "minecraft:display_name": { value: "item.mock:mock_item.name" } },
+            },
+        }),
+    },
+    {
+        path: 'resource_pack/textures/item_texture.json',
+        content: JSON.stringify({
+            resource_pack_name: "vanilla",
+            texture_name: "atlas.items",
+            texture_data: { "mock:mock_item": { textures: "textures/items/mock_item" } },
+        }),
+    },
+    {
+        path: 'resource_pack/texts/en_US.lang',
+        content: 'item.mock:mock_item.name=Mock Item',
+    },
+];
+
+/**
+ * Recovers the files that were sent to the model as "File path: ...\n\n---\n\n..." parts.
+ */
+const filesFromParts = (parts: AiContentPart[]): GeneratedFile[] => {
+    const files: GeneratedFile[] = [];
+    for (const part of parts) {
+        const match = part.text?.match(/^File path: (.+?)\n\n---\n\n([\s\S]*)$/);
+        if (match) {
+            files.push({ path: match[1], content: match[2] });
+        }
+    }
+    return files;
+};
+
+const promptText = (parts: AiContentPart[]) => parts.map(p => p.text || '').join('\n');
+
+/**
+ * Deterministic fallbacks used when no recorded fixture matches a request.
+ * Editing flows echo their input so the rest of the app can be exercised end to end.
+ */
+export const DEFAULT_RESPONSES: { [operation: string]: (parts: AiContentPart[]) => string } = {
+    initiateAddonGeneration: () => JSON.stringify({ files: MOCK_ADDON_FILES, assetMappings: [], summaryReport: 'Generated by the local mock provider.' }),
+    generateAddonFiles: () => JSON.stringify({ files: MOCK_ADDON_FILES, assetMappings: [], summaryReport: 'Generated by the local mock provider.' }),
+    repairAddonFiles: (parts) => JSON.stringify({ files: filesFromParts(parts) }),
+    devAddon: (parts) => JSON.stringify({ files: filesFromParts(parts) }),
+    generateFunction: (parts) => {
+        const name = promptText(parts).match(/function named '([^']+)'/)?.[1] || 'mock';
+        return JSON.stringify({ files: [{ path: `functions/${name}.mcfunction`, content: `say Hello from ${name}` }] });
+    },
+    summarizeAddon: (parts) => `## Mock Summary\n\nThe local mock provider received ${filesFromParts(parts).length} text file(s). No analysis was performed.`,
+    detectExperimentalFeatures: () => JSON.stringify({ toggles: [], reasoning: 'The local mock provider does not analyze files, so no toggles are reported.' }),
+    generateParticleSettings: () => JSON.stringify({
+        identifier: 'mock:particle', texture: 'textures/particle/particles', lifespan: 1, rate: 10, maxParticles: 50,
+        emitterShape: 'point', emitterRadius: 0, direction: 'outward', initialSpeed: 2, gravity: -1, airDrag: 0,
+        startSize: 0.2, endSize: 0.1, startColor: '#FFFFFF', endColor: '#FF00FF', startOpacity: 1, endOpacity: 0,
+    }),
+};
+
+export const DEFAULT_CHAT_RESPONSE = (message: string) => `This is a response from the local mock provider. You said:\n\n> ${message}`;
@@ -0,0 +1,111 @@
+import { generateCacheKey } from '../../utils/caching';
+import { AiProvider, AiContentPart, AiRequest } from '../aiProvider';
+import { AiFixture, RECORDED_FIXTURES, DEFAULT_RESPONSES, DEFAULT_CHAT_RESPONSE, MOCK_IMAGE_BASE64 } from './mockFixtures';
+
+/**
+ * Derives the fixture key for a request. Only the fields that change the model's answer are hashed,
+ * so switching models or temperatures does not invalidate recorded fixtures.
+ */
+export const createFixtureKey = (operation: string, systemInstruction: string | undefined, parts: AiContentPart[]): Promise<string> => {
+    const partIdentifiers = parts.map(p => p.text ?? `${p.inlineData?.mimeType}:${p.inlineData?.data}`);
+    return generateCacheKey([operation, systemInstruction || '', ...partIdentifiers]);
+};
+
+const MOCK_STREAM_CHUNKS = 4;
+
+/**
+ * Hands a finished response to `onText` in a few chunks, yielding between them,
+ * so progress reporting and cancellation behave as they do with a real stream.
+ */
+const streamResponse = async (response: string, { signal, onText }: Pick<AiRequest, 'signal' | 'onText'>) => {
+    const chunkSize = Math.max(1, Math.ceil(response.length / MOCK_STREAM_CHUNKS));
+    for (let end = chunkSize; end < response.length + chunkSize; end += chunkSize) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+        signal?.throwIfAborted();
+        onText?.(response.slice(0, end));
+    }
+    return response;
+};
+
+/**
+ * Creates a provider that never touches the network. Requests are answered from `fixtures`
+ * when one matches, and from the deterministic defaults in `mockFixtures.ts` otherwise.
+ */
+export const createMockProvider = (fixtures: AiFixture[] = RECORDED_FIXTURES): AiProvider => {
+    const fixturesByKey = new Map(fixtures.map(f => [f.key, f.response]));
+
+    const replay = async (operation: string, systemInstruction: string | undefined, parts: AiContentPart[], fallback: () => string) => {
+        const key = await createFixtureKey(operation, systemInstruction, parts);
+        return fixturesByKey.get(key) ?? fallback();
+    };
+
+    const defaultFor = (operation: string, parts: AiContentPart[]) => () => {
+        const defaultResponse = DEFAULT_RESPONSES[operation];
+        if (!defaultResponse) {
+            throw new Error(`The mock AI provider has no fixture or default response for '${operation}'.`);
+        }
+        return defaultResponse(parts);
+    };
+
+    return {
+        name: 'mock',
+
+        generateText: async (request) =>
+            streamResponse(await replay(request.operation, request.systemInstruction, request.parts, defaultFor(request.operation, request.parts)), request),
+
+        generateJson: async (request) =>
+            streamResponse(await replay(request.operation, request.systemInstruction, request.parts, defaultFor(request.operation, request.parts)), request),
+
+        generateImage: async ({ operation, prompt, parts, signal }) => {
+            signal?.throwIfAborted();
+            return replay(operation, prompt, parts || [], () => MOCK_IMAGE_BASE64);
+        },
+
+        startChat: ({ operation, systemInstruction }) => ({
+            sendMessage: async (message: string) => {
+                const text = await replay(operation, systemInstruction, [{ text: message }], () => DEFAULT_CHAT_RESPONSE(message));
+                return { text, sources: [] };
+            },
+        }),
+    };
+};
+
+/**
+ * Wraps a real provider and records every response it returns as a fixture that
+ * `createMockProvider` can replay later.
+ */
+export const createRecordingProvider = (inner: AiProvider): { provider: AiProvider; getFixtures: () => AiFixture[] } => {
+    const fixtures: AiFixture[] = [];
+
+    const record = async (operation: string, systemInstruction: string | undefined, parts: AiContentPart[], response: string) => {
+        const key = await createFixtureKey(operation, systemInstruction, parts);
+        fixtures.push({ key, operation, response });
+        return response;
+    };
+
+    const provider: AiProvider = {
+        name: `recording(${inner.name})`,
+
+        generateText: async (request) =>
+            record(request.operation, request.systemInstruction, request.parts, await inner.generateText(request)),
+
+        generateJson: async (request) =>
+            record(request.operation, request.systemInstruction, request.parts, await inner.generateJson(request)),
+
+        generateImage: async (request) =>
+            record(request.operation, request.prompt, request.parts || [], await inner.generateImage(request)),
+
+        startChat: (options) => {
+            const session = inner.startChat(options);
+            return {
+                sendMessage: async (message: string) => {
+                    const response = await session.sendMessage(message);
+                    await record(options.operation, options.systemInstruction, [{ text: message }], response.text);
+                    return response;
+                },
+            };
+        },
+    };
+
+    return { provider, getFixtures: () => [...fixtures] };
+};
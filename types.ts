@@ -12,3 +12,23 @@ export interface AssetMapping {
   originalPath: string;
   newPath: string;
 }
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export interface AddonFix {
+  description: string;
+  apply: (files: GeneratedFile[]) => GeneratedFile[];
+}
+
+/**
+ * A single problem reported by the addon validator.
+ * `pointer` is a JSON pointer (RFC 6901) into `file`, or '' when the problem concerns the whole file.
+ */
+export interface AddonDiagnostic {
+  ruleId: string;
+  severity: DiagnosticSeverity;
+  file: string;
+  pointer: string;
+  message: string;
+  fix?: AddonFix;
+}
@@ -0,0 +1,110 @@
+import { GeneratedFile } from '../types';
+
+/** Where the manual creators put each pack; the same canonical roots the importer normalizes uploads to. */
+export const BP_ROOT = 'behavior_pack';
+export const RP_ROOT = 'resource_pack';
+
+const MIN_ENGINE_VERSION = [1, 21, 0];
+
+/**
+ * Creates a behavior and resource pack manifest pair with fresh UUIDs. The behavior pack depends on
+ * the resource pack, so applying the behavior pack to a world applies both.
+ */
+export const createPackManifests = (addonName: string, description: string): GeneratedFile[] => {
+    const rpHeaderUuid = crypto.randomUUID();
+    const rpManifest = {
+        format_version: 2,
+        header: { name: `${addonName} Resource`, description, uuid: rpHeaderUuid, version: [1, 0, 0], min_engine_version: MIN_ENGINE_VERSION },
+        modules: [{ type: 'resources', uuid: crypto.randomUUID(), version: [1, 0, 0] }],
+    };
+    const bpManifest = {
+        format_version: 2,
+        header: { name: `${addonName} Behavior`, description, uuid: crypto.randomUUID(), version: [1, 0, 0], min_engine_version: MIN_ENGINE_VERSION },
+        modules: [{ type: 'data', uuid: crypto.randomUUID(), version: [1, 0, 0] }],
+        dependencies: [{ uuid: rpHeaderUuid, version: [1, 0, 0] }],
+    };
+    return [
+        { path: `${BP_ROOT}/manifest.json`, content: JSON.stringify(bpManifest, null, 2) },
+        { path: `${RP_ROOT}/manifest.json`, content: JSON.stringify(rpManifest, null, 2) },
+    ];
+};
+
+/**
+ * Creates `texts/en_US.lang` and the `languages.json` that makes the game load it.
+ */
+export const createLangFiles = (root: string, entries: { [key: string]: string }): GeneratedFile[] => [
+    { path: `${root}/texts/en_US.lang`, content: Object.entries(entries).map(([key, value]) => `${key}=${value}`).join('\n') },
+    { path: `${root}/texts/languages.json`, content: JSON.stringify(['en_US'], null, 2) },
+];
+
+/**
+ * Creates an item_texture.json or terrain_texture.json mapping short texture names to pack-relative paths (without extension).
+ */
+export const createTextureAtlas = (addonName: string, textureName: 'atlas.items' | 'atlas.terrain', textures: { [shortName: string]: string }) => ({
+    resource_pack_name: addonName,
+    texture_name: textureName,
+    texture_data: Object.fromEntries(Object.entries(textures).map(([shortName, path]) => [shortName, { textures: path }])),
+});
+
+export const IDENTIFIER_PATTERN = /^[a-z0-9_.-]+:[a-z0-9_.-]+$/;
+
+/**
+ * Checks a namespaced identifier such as `custom:ruby_sword`. Returns an error message, or null if it's valid.
+ */
+export const validateIdentifier = (identifier: string): string | null => {
+    if (!IDENTIFIER_PATTERN.test(identifier)) return 'Identifier must be in the format namespace:name, using lowercase letters, numbers and underscores.';
+    if (identifier.startsWith('minecraft:')) return 'The "minecraft" namespace is reserved. Use your own namespace, e.g. custom:name.';
+    return null;
+};
+
+/** The part of an identifier after the namespace, used for file and texture names. */
+export const shortName = (identifier: string) => identifier.split(':')[1];
+
+/** Position, rotation and scale for a held model, as used by the hold animations of an attachable. */
+export interface HoldTransform {
+    position: [number, number, number];
+    rotation: [number, number, number];
+    scale: [number, number, number];
+}
+
+/**
+ * Creates the attachable that renders an item's 3D model in the player's hand. It uses the vanilla
+ * `controller.render.item_default` render controller, which also draws the enchantment glint.
+ */
+export const createItemAttachable = (identifier: string, geometryId: string, texturePath: string) => {
+    const name = shortName(identifier);
+    return {
+        format_version: '1.10.0',
+        'minecraft:attachable': {
+            description: {
+                identifier,
+                materials: { default: 'entity_alphatest', enchanted: 'entity_alphatest_glint' },
+                textures: { default: texturePath, enchanted: 'textures/misc/enchanted_item_glint' },
+                geometry: { default: geometryId },
+                animations: {
+                    hold_first_person: `animation.${name}.hold_first_person`,
+                    hold_third_person: `animation.${name}.hold_third_person`,
+                },
+                scripts: {
+                    animate: [{ hold_first_person: 'c.is_first_person' }, { hold_third_person: '!c.is_first_person' }],
+                },
+                render_controllers: ['controller.render.item_default'],
+            },
+        },
+    };
+};
+
+/**
+ * Creates the looping first- and third-person hold animations referenced by `createItemAttachable`.
+ */
+export const createHoldAnimations = (identifier: string, bone: string, firstPerson: HoldTransform, thirdPerson: HoldTransform) => {
+    const name = shortName(identifier);
+    const toAnimation = (transform: HoldTransform) => ({ loop: true, bones: { [bone]: { ...transform } } });
+    return {
+        format_version: '1.8.0',
+        animations: {
+            [`animation.${name}.hold_first_person`]: toAnimation(firstPerson),
+            [`animation.${name}.hold_third_person`]: toAnimation(thirdPerson),
+        },
+    };
+};
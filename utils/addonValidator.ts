@@ -0,0 +1,795 @@
+import { GeneratedFile, AddonDiagnostic } from '../types';
+import { lintMolang } from './molang';
+import { lintFunction, findFunctionCycles, functionNameFromPath } from './commands';
+import { isManifestPath, manifestRoot, getPackKind, findPackRootForPath, packPath } from './packs';
+
+/**
+ * Everything a rule needs to inspect an addon. JSON files are parsed once up front;
+ * files that fail to parse are absent from `json` and reported by the 'json-syntax' rule.
+ */
+interface ValidationContext {
+    files: GeneratedFile[];
+    json: Map<string, any>;
+    packs: PackInfo[];
+}
+
+interface PackInfo {
+    /** Directory that contains the manifest, without a trailing slash ('' for the archive root). */
+    root: string;
+    manifestPath: string;
+    manifest: any;
+    type: 'behavior' | 'resource' | 'unknown';
+}
+
+interface ValidationRule {
+    id: string;
+    run: (context: ValidationContext) => AddonDiagnostic[];
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// --- JSON HELPERS ---
+
+/**
+ * Removes // and /* *\/ comments, which the game tolerates in JSON files but JSON.parse does not.
+ */
+const stripJsonComments = (text: string): string => {
+    let result = '';
+    let inString = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            result += char;
+            if (char === '\\') {
+                result += text[++i] ?? '';
+            } else if (char === '"') {
+                inString = false;
+            }
+        } else if (char === '"') {
+            inString = true;
+            result += char;
+        } else if (char === '/' && text[i + 1] === '/') {
+            while (i < text.length && text[i] !== '\n') i++;
+            result += '\n';
+        } else if (char === '/' && text[i + 1] === '*') {
+            i += 2;
+            while (i < text.length && !(text[i] === '*' && text[i + 1] === '/')) i++;
+            i++;
+        } else {
+            result += char;
+        }
+    }
+    return result;
+};
+
+export const parseAddonJson = (content: string): any => JSON.parse(stripJsonComments(content));
+
+/**
+ * Builds an RFC 6901 JSON pointer from path segments.
+ */
+const pointer = (...segments: (string | number)[]): string =>
+    segments.map(s => '/' + String(s).replace(/~/g, '~0').replace(/\//g, '~1')).join('');
+
+const isPlainObject = (value: any): boolean => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Returns a copy of `files` with the JSON file at `path` replaced by the result of `mutate`.
+ * Files are re-parsed from their current content so fixes can be applied one after another.
+ */
+const updateJsonFile = (files: GeneratedFile[], path: string, mutate: (json: any) => any): GeneratedFile[] =>
+    files.map(file => {
+        if (file.path !== path) return file;
+        const updated = mutate(parseAddonJson(file.content));
+        return { ...file, content: JSON.stringify(updated) };
+    });
+
+const upsertFile = (files: GeneratedFile[], path: string, content: string): GeneratedFile[] =>
+    files.some(f => f.path === path)
+        ? files.map(f => (f.path === path ? { ...f, content } : f))
+        : [...files, { path, content }];
+
+const sameFiles = (a: GeneratedFile[], b: GeneratedFile[]): boolean =>
+    a.length === b.length && a.every((file, i) => file.path === b[i].path && file.content === b[i].content);
+
+const toDisplayName = (identifier: string): string =>
+    (identifier.split(':').pop() || identifier)
+        .split('_')
+        .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+        .join(' ');
+
+// --- CONTEXT ---
+
+const buildContext = (files: GeneratedFile[]): ValidationContext => {
+    const json = new Map<string, any>();
+    for (const file of files) {
+        if (!file.path.toLowerCase().endsWith('.json')) continue;
+        try {
+            json.set(file.path, parseAddonJson(file.content));
+        } catch {
+            // Reported by the 'json-syntax' rule.
+        }
+    }
+
+    const packs: PackInfo[] = files
+        .filter(f => isManifestPath(f.path) && json.has(f.path))
+        .map(f => ({
+            root: manifestRoot(f.path),
+            manifestPath: f.path,
+            manifest: json.get(f.path),
+            type: getPackKind(json.get(f.path)) ?? 'unknown',
+        }));
+
+    return { files, json, packs };
+};
+
+/**
+ * Finds the pack a file belongs to, i.e. the pack with the longest root that prefixes its path.
+ */
+const packForPath = (context: ValidationContext, path: string): PackInfo | undefined => {
+    const root = findPackRootForPath(context.packs.map(p => p.root), path);
+    return context.packs.find(p => p.root === root);
+};
+
+const filesInPacks = (context: ValidationContext, type: PackInfo['type'], folder: string): GeneratedFile[] =>
+    context.files.filter(f => {
+        const pack = packForPath(context, f.path);
+        return pack?.type === type && f.path.startsWith(packPath(pack.root, `${folder}/`)) && context.json.has(f.path);
+    });
+
+const singlePack = (context: ValidationContext, type: PackInfo['type']): PackInfo | undefined => {
+    const packs = context.packs.filter(p => p.type === type);
+    return packs.length === 1 ? packs[0] : undefined;
+};
+
+// --- RULES ---
+
+const jsonSyntaxRule: ValidationRule = {
+    id: 'json-syntax',
+    run: ({ files }) => files
+        .filter(f => f.path.toLowerCase().endsWith('.json'))
+        .flatMap(f => {
+            try {
+                parseAddonJson(f.content);
+                return [];
+            } catch (e) {
+                return [{ ruleId: 'json-syntax', severity: 'error' as const, file: f.path, pointer: '', message: `Invalid JSON: ${(e as Error).message}` }];
+            }
+        }),
+};
+
+const manifestUuidRule: ValidationRule = {
+    id: 'manifest-uuid',
+    run: ({ packs }) => {
+        const diagnostics: AddonDiagnostic[] = [];
+        const seen = new Set<string>();
+
+        for (const pack of packs) {
+            const slots: { ptr: string; value: any; set: (json: any, uuid: string) => void }[] = [
+                { ptr: pointer('header', 'uuid'), value: pack.manifest?.header?.uuid, set: (json, uuid) => { json.header = { ...json.header, uuid }; } },
+                ...(Array.isArray(pack.manifest?.modules) ? pack.manifest.modules : []).map((module: any, index: number) => ({
+                    ptr: pointer('modules', index, 'uuid'),
+                    value: module?.uuid,
+                    set: (json: any, uuid: string) => { json.modules[index] = { ...json.modules[index], uuid }; },
+                })),
+            ];
+
+            for (const slot of slots) {
+                const isValid = typeof slot.value === 'string' && UUID_PATTERN.test(slot.value);
+                const isDuplicate = isValid && seen.has(slot.value.toLowerCase());
+                if (isValid && !isDuplicate) {
+                    seen.add(slot.value.toLowerCase());
+                    continue;
+                }
+                diagnostics.push({
+                    ruleId: 'manifest-uuid',
+                    severity: 'error',
+                    file: pack.manifestPath,
+                    pointer: slot.ptr,
+                    message: isDuplicate
+                        ? `UUID "${slot.value}" is already used by another header or module. Every UUID must be unique.`
+                        : `"${slot.value ?? ''}" is not a valid UUID.`,
+                    fix: {
+                        description: 'Generate a new UUID',
+                        apply: files => updateJsonFile(files, pack.manifestPath, json => {
+                            slot.set(json, crypto.randomUUID());
+                            return json;
+                        }),
+                    },
+                });
+            }
+        }
+        return diagnostics;
+    },
+};
+
+const manifestDependencyRule: ValidationRule = {
+    id: 'manifest-dependency',
+    run: (context) => {
+        const bp = singlePack(context, 'behavior');
+        const rp = singlePack(context, 'resource');
+        if (!bp || !rp) return [];
+
+        const diagnostics: AddonDiagnostic[] = [];
+        const rpHeaderUuid: string | undefined = rp.manifest?.header?.uuid;
+        const rpModuleUuids: string[] = (rp.manifest?.modules || []).map((m: any) => m?.uuid);
+        const bpDependencies: any[] = Array.isArray(bp.manifest?.dependencies) ? bp.manifest.dependencies : [];
+
+        // The game links packs through the header UUID, but older tools in this app linked the module UUID. Accept both.
+        const isLinked = bpDependencies.some(d => d?.uuid && (d.uuid === rpHeaderUuid || rpModuleUuids.includes(d.uuid)));
+        if (!isLinked && rpHeaderUuid) {
+            diagnostics.push({
+                ruleId: 'manifest-dependency',
+                severity: 'error',
+                file: bp.manifestPath,
+                pointer: pointer('dependencies'),
+                message: 'The behavior pack does not depend on the resource pack, so the resource pack will not be applied automatically.',
+                fix: {
+                    description: 'Add a dependency on the resource pack',
+                    apply: files => updateJsonFile(files, bp.manifestPath, json => ({
+                        ...json,
+                        dependencies: [
+                            ...(Array.isArray(json.dependencies) ? json.dependencies : []),
+                            { uuid: rpHeaderUuid, version: rp.manifest?.header?.version || [1, 0, 0] },
+                        ],
+                    })),
+                },
+            });
+        }
+
+        const bpUuids = [bp.manifest?.header?.uuid, ...(bp.manifest?.modules || []).map((m: any) => m?.uuid)];
+        const rpDependencies: any[] = Array.isArray(rp.manifest?.dependencies) ? rp.manifest.dependencies : [];
+        rpDependencies.forEach((dependency, index) => {
+            if (!dependency?.uuid || !bpUuids.includes(dependency.uuid)) return;
+            diagnostics.push({
+                ruleId: 'manifest-dependency',
+                severity: 'error',
+                file: rp.manifestPath,
+                pointer: pointer('dependencies', index),
+                message: 'The resource pack must not depend on the behavior pack; this creates a circular dependency.',
+                fix: {
+                    description: 'Remove the dependency on the behavior pack',
+                    apply: files => updateJsonFile(files, rp.manifestPath, json => ({
+                        ...json,
+                        dependencies: json.dependencies.filter((d: any) => !bpUuids.includes(d?.uuid)),
+                    })),
+                },
+            });
+        });
+
+        return diagnostics;
+    },
+};
+
+const manifestSelfDependencyRule: ValidationRule = {
+    id: 'manifest-self-dependency',
+    run: ({ packs }) => packs.flatMap(pack => {
+        const ownUuids = [pack.manifest?.header?.uuid, ...(Array.isArray(pack.manifest?.modules) ? pack.manifest.modules : []).map((m: any) => m?.uuid)]
+            .filter((uuid): uuid is string => typeof uuid === 'string');
+        const dependencies: any[] = Array.isArray(pack.manifest?.dependencies) ? pack.manifest.dependencies : [];
+        return dependencies.flatMap((dependency, index) => {
+            if (typeof dependency?.uuid !== 'string' || !ownUuids.includes(dependency.uuid)) return [];
+            return [{
+                ruleId: 'manifest-self-dependency',
+                severity: 'error' as const,
+                file: pack.manifestPath,
+                pointer: pointer('dependencies', index, 'uuid'),
+                message: `The pack depends on its own UUID "${dependency.uuid}", so the game cannot load it.`,
+                fix: {
+                    description: 'Remove the dependency on the pack itself',
+                    apply: (files: GeneratedFile[]) => updateJsonFile(files, pack.manifestPath, json => ({
+                        ...json,
+                        dependencies: json.dependencies.filter((d: any) => !ownUuids.includes(d?.uuid)),
+                    })),
+                },
+            }];
+        });
+    }),
+};
+
+const manifestScriptEntryRule: ValidationRule = {
+    id: 'manifest-script-entry',
+    run: (context) => context.packs.flatMap(pack =>
+        (Array.isArray(pack.manifest?.modules) ? pack.manifest.modules : []).flatMap((module: any, index: number) => {
+            if (module?.type !== 'script' || typeof module.entry !== 'string') return [];
+            const entryPath = packPath(pack.root, module.entry);
+            if (context.files.some(f => f.path === entryPath)) return [];
+            return [{
+                ruleId: 'manifest-script-entry',
+                severity: 'error' as const,
+                file: pack.manifestPath,
+                pointer: pointer('modules', index, 'entry'),
+                message: `Script entry point "${module.entry}" does not exist in the pack.`,
+            }];
+        })
+    ),
+};
+
+const ATLASES = [
+    { fileName: 'item_texture.json', textureName: 'atlas.items' },
+    { fileName: 'terrain_texture.json', textureName: 'atlas.terrain' },
+];
+
+const textureAtlasShapeRule: ValidationRule = {
+    id: 'texture-atlas-shape',
+    run: (context) => {
+        const diagnostics: AddonDiagnostic[] = [];
+        for (const atlas of ATLASES) {
+            for (const file of context.files.filter(f => f.path.endsWith(`textures/${atlas.fileName}`))) {
+                const json = context.json.get(file.path);
+                if (json === undefined) continue;
+                if (!isPlainObject(json)) {
+                    diagnostics.push({ ruleId: 'texture-atlas-shape', severity: 'error', file: file.path, pointer: '', message: `${atlas.fileName} must be a single JSON object.` });
+                    continue;
+                }
+                if (typeof json.resource_pack_name !== 'string') {
+                    diagnostics.push({
+                        ruleId: 'texture-atlas-shape', severity: 'warning', file: file.path, pointer: pointer('resource_pack_name'),
+                        message: 'Missing "resource_pack_name".',
+                        fix: { description: 'Set "resource_pack_name" to "vanilla"', apply: files => updateJsonFile(files, file.path, j => ({ ...j, resource_pack_name: 'vanilla' })) },
+                    });
+                }
+                if (json.texture_name !== atlas.textureName) {
+                    diagnostics.push({
+                        ruleId: 'texture-atlas-shape', severity: 'error', file: file.path, pointer: pointer('texture_name'),
+                        message: `"texture_name" must be "${atlas.textureName}".`,
+                        fix: { description: `Set "texture_name" to "${atlas.textureName}"`, apply: files => updateJsonFile(files, file.path, j => ({ ...j, texture_name: atlas.textureName })) },
+                    });
+                }
+                if (!isPlainObject(json.texture_data)) {
+                    diagnostics.push({
+                        ruleId: 'texture-atlas-shape', severity: 'error', file: file.path, pointer: pointer('texture_data'),
+                        message: '"texture_data" must be an object that maps short names to textures.',
+                        fix: { description: 'Replace "texture_data" with an empty object', apply: files => updateJsonFile(files, file.path, j => ({ ...j, texture_data: {} })) },
+                    });
+                    continue;
+                }
+                for (const [shortName, entry] of Object.entries<any>(json.texture_data)) {
+                    const textures = entry?.textures;
+                    const isValid = typeof textures === 'string' || Array.isArray(textures) || isPlainObject(textures);
+                    if (!isValid) {
+                        diagnostics.push({ ruleId: 'texture-atlas-shape', severity: 'error', file: file.path, pointer: pointer('texture_data', shortName, 'textures'), message: `Entry "${shortName}" has no "textures" path.` });
+                    }
+                }
+            }
+        }
+        return diagnostics;
+    },
+};
+
+/**
+ * Reads the short texture name an item's icon points to. Supports both the current object form
+ * ({ "texture": "name" } or { "textures": { "default": "name" } }) and the legacy string form.
+ */
+const getIconTextureName = (icon: any): string | undefined => {
+    if (typeof icon === 'string') return icon;
+    if (typeof icon?.texture === 'string') return icon.texture;
+    if (typeof icon?.textures?.default === 'string') return icon.textures.default;
+    return undefined;
+};
+
+/**
+ * Builds a fix that adds `shortName` to an atlas, creating the atlas file when the pack doesn't have one yet.
+ */
+const addAtlasEntryFix = (rp: PackInfo, atlasFileName: string, textureName: string, shortName: string, texturePath: string) => ({
+    description: `Add "${shortName}" to ${atlasFileName}`,
+    apply: (files: GeneratedFile[]) => {
+        const atlasPath = packPath(rp.root, `textures/${atlasFileName}`);
+        const existing = files.find(f => f.path === atlasPath);
+        let atlas: any = { resource_pack_name: 'vanilla', texture_name: textureName, texture_data: {} };
+        if (existing) {
+            try {
+                atlas = parseAddonJson(existing.content);
+            } catch {
+                return files; // Leave unparseable atlases to the 'json-syntax' rule.
+            }
+        }
+        atlas.texture_data = { ...(isPlainObject(atlas.texture_data) ? atlas.texture_data : {}), [shortName]: { textures: texturePath } };
+        return upsertFile(files, atlasPath, JSON.stringify(atlas));
+    },
+});
+
+const getAtlasKeys = (context: ValidationContext, rp: PackInfo, atlasFileName: string): Set<string> => {
+    const atlas = context.json.get(packPath(rp.root, `textures/${atlasFileName}`));
+    return new Set(isPlainObject(atlas?.texture_data) ? Object.keys(atlas.texture_data) : []);
+};
+
+const itemIconRule: ValidationRule = {
+    id: 'item-icon',
+    run: (context) => {
+        const rp = singlePack(context, 'resource');
+        const atlasKeys = rp ? getAtlasKeys(context, rp, 'item_texture.json') : new Set<string>();
+        const diagnostics: AddonDiagnostic[] = [];
+
+        for (const file of filesInPacks(context, 'behavior', 'items')) {
+            const item = context.json.get(file.path)?.['minecraft:item'];
+            const identifier: string | undefined = item?.description?.identifier;
+            if (!identifier) continue;
+
+            const icon = item?.components?.['minecraft:icon'];
+            const textureName = getIconTextureName(icon);
+            if (!textureName) {
+                diagnostics.push({
+                    ruleId: 'item-icon', severity: 'warning', file: file.path, pointer: pointer('minecraft:item', 'components', 'minecraft:icon'),
+                    message: `Item "${identifier}" has no "minecraft:icon" and will be invisible in the inventory.`,
+                    fix: {
+                        description: `Use "${identifier}" as the icon texture`,
+                        apply: files => updateJsonFile(files, file.path, json => {
+                            json['minecraft:item'].components = { ...json['minecraft:item'].components, 'minecraft:icon': { texture: identifier } };
+                            return json;
+                        }),
+                    },
+                });
+                continue;
+            }
+
+            if (rp && !atlasKeys.has(textureName)) {
+                const fileName = textureName.split(':').pop();
+                diagnostics.push({
+                    ruleId: 'item-icon', severity: 'error', file: file.path, pointer: pointer('minecraft:item', 'components', 'minecraft:icon'),
+                    message: `Icon texture "${textureName}" is not defined in item_texture.json.`,
+                    fix: addAtlasEntryFix(rp, 'item_texture.json', 'atlas.items', textureName, `textures/items/${fileName}`),
+                });
+            }
+        }
+        return diagnostics;
+    },
+};
+
+const blockStructureRule: ValidationRule = {
+    id: 'block-structure',
+    run: (context) => filesInPacks(context, 'behavior', 'blocks').flatMap(file => {
+        const json = context.json.get(file.path);
+        if (!isPlainObject(json?.['minecraft:block'])) {
+            return [{ ruleId: 'block-structure', severity: 'error' as const, file: file.path, pointer: pointer('minecraft:block'), message: 'Block files must wrap "description" and "components" in a "minecraft:block" object.' }];
+        }
+        if (typeof json['minecraft:block'].description?.identifier !== 'string') {
+            return [{ ruleId: 'block-structure', severity: 'error' as const, file: file.path, pointer: pointer('minecraft:block', 'description', 'identifier'), message: 'Block is missing "description.identifier".' }];
+        }
+        return [];
+    }),
+};
+
+const blockTextureRule: ValidationRule = {
+    id: 'block-texture',
+    run: (context) => {
+        const rp = singlePack(context, 'resource');
+        if (!rp) return [];
+        const atlasKeys = getAtlasKeys(context, rp, 'terrain_texture.json');
+        const diagnostics: AddonDiagnostic[] = [];
+
+        for (const file of filesInPacks(context, 'behavior', 'blocks')) {
+            const materials = context.json.get(file.path)?.['minecraft:block']?.components?.['minecraft:material_instances'];
+            if (!isPlainObject(materials)) continue;
+            for (const [face, material] of Object.entries<any>(materials)) {
+                const texture = material?.texture;
+                // Instances may reference another face (e.g. "texture": "*"), which doesn't need an atlas entry.
+                if (typeof texture !== 'string' || atlasKeys.has(texture) || texture in materials) continue;
+                diagnostics.push({
+                    ruleId: 'block-texture', severity: 'error', file: file.path,
+                    pointer: pointer('minecraft:block', 'components', 'minecraft:material_instances', face, 'texture'),
+                    message: `Texture "${texture}" is not defined in terrain_texture.json.`,
+                    fix: addAtlasEntryFix(rp, 'terrain_texture.json', 'atlas.terrain', texture, `textures/blocks/${texture}`),
+                });
+                atlasKeys.add(texture); // Report each missing texture once.
+            }
+        }
+        return diagnostics;
+    },
+};
+
+/**
+ * Parses a .lang file into its keys. Comments (##) and blank lines are ignored.
+ */
+const parseLangKeys = (content: string): Set<string> =>
+    new Set(content.split(/\r?\n/)
+        .map(line => line.split('#')[0].trim())
+        .filter(line => line.includes('='))
+        .map(line => line.slice(0, line.indexOf('=')).trim()));
+
+const langEntryRule: ValidationRule = {
+    id: 'lang-entry',
+    run: (context) => {
+        const rp = singlePack(context, 'resource');
+        if (!rp) return [];
+        const langPath = packPath(rp.root, 'texts/en_US.lang');
+        const langFile = context.files.find(f => f.path === langPath);
+        const keys = langFile ? parseLangKeys(langFile.content) : new Set<string>();
+
+        const required: { key: string; identifier: string; file: string; ptr: string }[] = [];
+        for (const file of filesInPacks(context, 'behavior', 'blocks')) {
+            const identifier = context.json.get(file.path)?.['minecraft:block']?.description?.identifier;
+            if (typeof identifier === 'string') {
+                required.push({ key: `tile.${identifier}.name`, identifier, file: file.path, ptr: pointer('minecraft:block', 'description', 'identifier') });
+            }
+        }
+        for (const file of filesInPacks(context, 'behavior', 'items')) {
+            const item = context.json.get(file.path)?.['minecraft:item'];
+            const identifier = item?.description?.identifier;
+            const displayName = item?.components?.['minecraft:display_name']?.value;
+            // Items with a literal display name don't need a lang entry.
+            if (typeof identifier === 'string' && (displayName === undefined || displayName === `item.${identifier}.name`)) {
+                required.push({ key: `item.${identifier}.name`, identifier, file: file.path, ptr: pointer('minecraft:item', 'description', 'identifier') });
+            }
+        }
+
+        return required
+            .filter(r => !keys.has(r.key))
+            .map(r => ({
+                ruleId: 'lang-entry',
+                severity: 'warning' as const,
+                file: r.file,
+                pointer: r.ptr,
+                message: `Missing "${r.key}" in texts/en_US.lang; the game will show the raw key instead of a name.`,
+                fix: {
+                    description: `Add "${r.key}=${toDisplayName(r.identifier)}"`,
+                    apply: (files: GeneratedFile[]) => {
+                        const current = files.find(f => f.path === langPath)?.content || '';
+                        if (parseLangKeys(current).has(r.key)) return files;
+                        const separator = current && !current.endsWith('\n') ? '\n' : '';
+                        return upsertFile(files, langPath, `${current}${separator}${r.key}=${toDisplayName(r.identifier)}`);
+                    },
+                },
+            }));
+    },
+};
+
+/** A Molang expression found in a file, with the JSON path to it. */
+interface MolangSource {
+    file: string;
+    segments: (string | number)[];
+    expression: string;
+}
+
+// Lines in behavior pack controllers and animation timelines may also be slash commands or entity events.
+const isCommandLine = (line: string) => /^\s*(\/|@s\s)/.test(line);
+
+/** Collects every string in a value that may also be a list or keyframe map, skipping keyframe interpolation modes. */
+const collectStrings = (value: any, segments: (string | number)[], out: { segments: (string | number)[]; expression: string }[]) => {
+    if (typeof value === 'string') out.push({ segments, expression: value });
+    else if (Array.isArray(value)) value.forEach((v, i) => collectStrings(v, [...segments, i], out));
+    else if (isPlainObject(value)) Object.entries(value).forEach(([k, v]) => k !== 'lerp_mode' && collectStrings(v, [...segments, k], out));
+};
+
+// Particle component fields that hold Molang. Others, such as "facing_camera_mode" or event names, are plain strings.
+const PARTICLE_MOLANG_KEYS = new Set([
+    'spawn_rate', 'max_particles', 'num_particles', 'active_time', 'sleep_time', 'activation_expression', 'expiration_expression',
+    'max_lifetime', 'radius', 'offset', 'half_dimensions', 'linear_acceleration', 'linear_drag_coefficient', 'rotation_acceleration',
+    'rotation_drag_coefficient', 'size', 'uv', 'uv_size', 'base_UV', 'size_UV', 'step_UV', 'max_frame', 'interpolant', 'rotation', 'rotation_rate',
+    'creation_expression', 'per_update_expression', 'per_render_expression', 'enabled', 'input', 'horizontal_range',
+]);
+
+const collectParticleStrings = (value: any, segments: (string | number)[], out: { segments: (string | number)[]; expression: string }[]) => {
+    if (!isPlainObject(value)) return;
+    for (const [key, child] of Object.entries<any>(value)) {
+        if (PARTICLE_MOLANG_KEYS.has(key) && (typeof child === 'string' || Array.isArray(child))) collectStrings(child, [...segments, key], out);
+        else if (isPlainObject(child)) collectParticleStrings(child, [...segments, key], out);
+    }
+};
+
+const findMolangSources = (context: ValidationContext): MolangSource[] => {
+    const sources: MolangSource[] = [];
+    const add = (file: string, found: { segments: (string | number)[]; expression: string }[]) =>
+        found.forEach(f => sources.push({ file, ...f }));
+
+    for (const type of ['behavior', 'resource'] as const) {
+        for (const file of filesInPacks(context, type, 'animation_controllers')) {
+            const controllers = context.json.get(file.path)?.animation_controllers;
+            if (!isPlainObject(controllers)) continue;
+            for (const [id, controller] of Object.entries<any>(controllers)) {
+                for (const [name, state] of Object.entries<any>(isPlainObject(controller?.states) ? controller.states : {})) {
+                    const base = ['animation_controllers', id, 'states', name];
+                    const found: { segments: (string | number)[]; expression: string }[] = [];
+                    (Array.isArray(state?.transitions) ? state.transitions : []).forEach((t: any, i: number) => collectStrings(t, [...base, 'transitions', i], found));
+                    (Array.isArray(state?.animations) ? state.animations : []).forEach((a: any, i: number) => isPlainObject(a) && collectStrings(a, [...base, 'animations', i], found));
+                    for (const key of ['on_entry', 'on_exit']) {
+                        (Array.isArray(state?.[key]) ? state[key] : []).forEach((line: any, i: number) => {
+                            if (typeof line === 'string' && !(type === 'behavior' && isCommandLine(line))) found.push({ segments: [...base, key, i], expression: line });
+                        });
+                    }
+                    add(file.path, found);
+                }
+            }
+        }
+        for (const file of filesInPacks(context, type, 'animations')) {
+            const animations = context.json.get(file.path)?.animations;
+            if (!isPlainObject(animations)) continue;
+            for (const [id, animation] of Object.entries<any>(animations)) {
+                const found: { segments: (string | number)[]; expression: string }[] = [];
+                for (const key of ['anim_time_update', 'blend_weight', 'start_delay', 'loop_delay']) collectStrings(animation?.[key], ['animations', id, key], found);
+                for (const [bone, channels] of Object.entries<any>(isPlainObject(animation?.bones) ? animation.bones : {})) {
+                    for (const channel of ['rotation', 'position', 'scale']) collectStrings(channels?.[channel], ['animations', id, 'bones', bone, channel], found);
+                }
+                const timeline: { segments: (string | number)[]; expression: string }[] = [];
+                collectStrings(animation?.timeline, ['animations', id, 'timeline'], timeline);
+                found.push(...timeline.filter(t => !(type === 'behavior' && isCommandLine(t.expression))));
+                add(file.path, found);
+            }
+        }
+        for (const file of filesInPacks(context, type, 'entity')) {
+            const root = type === 'behavior' ? 'minecraft:entity' : 'minecraft:client_entity';
+            const scripts = context.json.get(file.path)?.[root]?.description?.scripts;
+            if (!isPlainObject(scripts)) continue;
+            const found: { segments: (string | number)[]; expression: string }[] = [];
+            const base = [root, 'description', 'scripts'];
+            for (const key of ['initialize', 'pre_animation', 'scale', 'scalex', 'scaley', 'scalez']) collectStrings(scripts[key], [...base, key], found);
+            // Plain entries in "animate" are animation names; only the conditions in { name: condition } entries are Molang.
+            (Array.isArray(scripts.animate) ? scripts.animate : []).forEach((entry: any, i: number) => isPlainObject(entry) && collectStrings(entry, [...base, 'animate', i], found));
+            add(file.path, found);
+        }
+    }
+
+    for (const file of filesInPacks(context, 'resource', 'render_controllers')) {
+        const controllers = context.json.get(file.path)?.render_controllers;
+        if (!isPlainObject(controllers)) continue;
+        for (const [id, controller] of Object.entries<any>(controllers)) {
+            const found: { segments: (string | number)[]; expression: string }[] = [];
+            const base = ['render_controllers', id];
+            for (const key of ['geometry', 'textures', 'color', 'overlay_color', 'is_hurt_color', 'on_fire_color', 'uv_anim']) collectStrings(controller?.[key], [...base, key], found);
+            for (const key of ['materials', 'part_visibility']) {
+                (Array.isArray(controller?.[key]) ? controller[key] : []).forEach((entry: any, i: number) => collectStrings(entry, [...base, key, i], found));
+            }
+            add(file.path, found);
+        }
+    }
+
+    for (const file of filesInPacks(context, 'resource', 'particles')) {
+        const effect = context.json.get(file.path)?.particle_effect;
+        const found: { segments: (string | number)[]; expression: string }[] = [];
+        collectParticleStrings(effect?.components, ['particle_effect', 'components'], found);
+        collectParticleStrings(effect?.curves, ['particle_effect', 'curves'], found);
+        add(file.path, found);
+    }
+
+    for (const file of filesInPacks(context, 'behavior', 'blocks')) {
+        const permutations = context.json.get(file.path)?.['minecraft:block']?.permutations;
+        (Array.isArray(permutations) ? permutations : []).forEach((permutation: any, i: number) => {
+            if (typeof permutation?.condition === 'string') sources.push({ file: file.path, segments: ['minecraft:block', 'permutations', i, 'condition'], expression: permutation.condition });
+        });
+    }
+    return sources;
+};
+
+const molangRule: ValidationRule = {
+    id: 'molang',
+    run: (context) => findMolangSources(context)
+        .filter(source => source.expression.trim() !== '')
+        .flatMap(source => lintMolang(source.expression).map(d => ({
+            ruleId: 'molang',
+            severity: d.severity,
+            file: source.file,
+            pointer: pointer(...source.segments),
+            message: `${d.message} In "${source.expression}" at characters ${d.start + 1}-${Math.max(d.start + 1, d.end)}.`,
+        }))),
+};
+
+/** .mcfunction files in behavior packs, by the name `function` calls them with. */
+const functionFiles = (context: ValidationContext): Map<string, GeneratedFile> => {
+    const functions = new Map<string, GeneratedFile>();
+    for (const file of context.files) {
+        const pack = packForPath(context, file.path);
+        const name = functionNameFromPath(file.path);
+        if (pack?.type === 'behavior' && name !== null && file.path.startsWith(packPath(pack.root, 'functions/'))) functions.set(name, file);
+    }
+    return functions;
+};
+
+const functionSyntaxRule: ValidationRule = {
+    id: 'function-syntax',
+    run: (context) => {
+        const functions = functionFiles(context);
+        const names = new Set(functions.keys());
+        return [...functions.values()].flatMap(file => lintFunction(file.content, { functions: names }).map(d => ({
+            ruleId: 'function-syntax',
+            severity: d.severity,
+            file: file.path,
+            pointer: '',
+            message: `Line ${d.line}: ${d.message}`,
+        })));
+    },
+};
+
+const functionRecursionRule: ValidationRule = {
+    id: 'function-recursion',
+    run: (context) => {
+        const functions = functionFiles(context);
+        const contents = Object.fromEntries([...functions].map(([name, file]) => [name, file.content]));
+        return findFunctionCycles(contents).map(cycle => ({
+            ruleId: 'function-recursion',
+            severity: cycle.conditional ? 'warning' as const : 'error' as const,
+            file: functions.get(cycle.path[0])!.path,
+            pointer: '',
+            message: cycle.conditional
+                ? `Function "${cycle.path[0]}" calls itself (${cycle.path.join(' → ')}) behind an /execute condition; make sure the condition eventually stops it.`
+                : `Function "${cycle.path[0]}" always calls itself (${cycle.path.join(' → ')}), so it never finishes and the game cuts it off.`,
+        }));
+    },
+};
+
+const tickJsonRule: ValidationRule = {
+    id: 'tick-json',
+    run: (context) => {
+        const functions = functionFiles(context);
+        return context.packs.filter(pack => pack.type === 'behavior').flatMap(pack => {
+            const file = packPath(pack.root, 'functions/tick.json');
+            const json = context.json.get(file);
+            if (json === undefined) return [];
+            if (!isPlainObject(json) || !Array.isArray(json.values)) {
+                return [{ ruleId: 'tick-json', severity: 'error' as const, file, pointer: '', message: 'tick.json needs a "values" array listing the functions to run every tick.' }];
+            }
+            return json.values.flatMap((value: unknown, index: number) => {
+                if (typeof value !== 'string') {
+                    return [{ ruleId: 'tick-json', severity: 'error' as const, file, pointer: pointer('values', index), message: 'Each tick.json entry must be a function name string.' }];
+                }
+                if (functions.has(value)) return [];
+                return [{ ruleId: 'tick-json', severity: 'error' as const, file, pointer: pointer('values', index), message: `tick.json runs "${value}", but there's no functions/${value}.mcfunction in the behavior pack.` }];
+            });
+        });
+    },
+};
+
+const RULES: ValidationRule[] = [
+    jsonSyntaxRule,
+    manifestUuidRule,
+    manifestDependencyRule,
+    manifestSelfDependencyRule,
+    manifestScriptEntryRule,
+    textureAtlasShapeRule,
+    itemIconRule,
+    blockStructureRule,
+    blockTextureRule,
+    langEntryRule,
+    molangRule,
+    functionSyntaxRule,
+    functionRecursionRule,
+    tickJsonRule,
+];
+
+// --- PUBLIC API ---
+
+/**
+ * Runs every rule over the addon and returns its diagnostics, errors first.
+ */
+export const validateAddon = (files: GeneratedFile[]): AddonDiagnostic[] => {
+    const context = buildContext(files);
+    const severityOrder = { error: 0, warning: 1, info: 2 };
+    return RULES
+        .flatMap(rule => rule.run(context))
+        .sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity]);
+};
+
+/**
+ * Validates the addon and applies every available auto-fix. Fixes are built from the files as they
+ * were when their rule ran, so each rule runs again on the files the previous rule's fixes produced;
+ * one fix (e.g. a regenerated UUID) can change what later rules report.
+ * Returns the fixed files, the diagnostics that were fixed and the ones that remain.
+ */
+export const validateAndAutoFix = (files: GeneratedFile[], maxPasses: number = 5) => {
+    let currentFiles = files;
+    const fixed: AddonDiagnostic[] = [];
+
+    for (let pass = 0; pass < maxPasses; pass++) {
+        let applied = false;
+        for (const rule of RULES) {
+            const fixable = rule.run(buildContext(currentFiles)).filter(d => d.fix);
+            for (const diagnostic of fixable) {
+                // A fix can bail out (e.g. on a file it can't parse); only count the ones that changed something.
+                const next = diagnostic.fix!.apply(currentFiles);
+                if (sameFiles(currentFiles, next)) continue;
+                currentFiles = next;
+                fixed.push(diagnostic);
+                applied = true;
+            }
+        }
+        if (!applied) break;
+    }
+
+    return { files: currentFiles, fixed, remaining: validateAddon(currentFiles) };
+};
+
+/**
+ * Formats diagnostics as a Markdown list, for reports and for prompts sent to the AI.
+ */
+export const formatDiagnostics = (diagnostics: AddonDiagnostic[]): string =>
+    diagnostics
+        .map(d => `- **${d.severity.toUpperCase()}** \`${d.file}${d.pointer ? `#${d.pointer}` : ''}\` (${d.ruleId}): ${d.message}`)
+        .join('\n');
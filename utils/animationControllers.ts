@@ -0,0 +1,221 @@
+import { GeneratedFile } from '../types';
+import { parseAddonJson } from './addonValidator';
+import { PackKind, findPacks, findPackForPath } from './packs';
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export interface StateAnimation {
+    name: string;
+    /** Molang blend weight. Empty means the animation plays at full weight and is written as a plain string. */
+    blend: string;
+}
+
+export interface StateTransition {
+    target: string;
+    condition: string;
+}
+
+export interface ControllerState {
+    name: string;
+    animations: StateAnimation[];
+    transitions: StateTransition[];
+    onEntry: string[];
+    onExit: string[];
+    blendTransition: number | null;
+    blendViaShortestPath: boolean;
+    /** Where the node sits in the graph. Not saved to the file. */
+    position: Point;
+    /** Keys the editor doesn't handle (particle and sound effects, variables...), written back unchanged. */
+    extra: { [key: string]: any };
+}
+
+export interface AnimationController {
+    id: string;
+    initialState: string;
+    states: ControllerState[];
+    extra: { [key: string]: any };
+}
+
+export interface ControllerFile {
+    formatVersion: string;
+    controllers: AnimationController[];
+}
+
+/** An animation controller file found in one of the project's packs. */
+export interface ProjectControllerFile {
+    path: string;
+    kind: PackKind;
+}
+
+export const NODE_WIDTH = 160;
+export const NODE_HEIGHT = 56;
+
+const CONTROLLER_PREFIX = 'controller.animation.';
+
+/** Default position of the nth state, laid out left to right in rows of four. */
+export const gridPosition = (index: number): Point => ({ x: 40 + (index % 4) * 220, y: 40 + Math.floor(index / 4) * 150 });
+
+export const createState = (name: string, index: number): ControllerState => ({
+    name,
+    animations: [],
+    transitions: [],
+    onEntry: [],
+    onExit: [],
+    blendTransition: null,
+    blendViaShortestPath: false,
+    position: gridPosition(index),
+    extra: {},
+});
+
+export const createController = (id: string): AnimationController => ({
+    id,
+    initialState: 'default',
+    states: [createState('default', 0)],
+    extra: {},
+});
+
+const withoutKeys = (object: { [key: string]: any }, keys: string[]) =>
+    Object.fromEntries(Object.entries(object).filter(([key]) => !keys.includes(key)));
+
+const STATE_KEYS = ['animations', 'transitions', 'on_entry', 'on_exit', 'blend_transition', 'blend_via_shortest_path'];
+
+const parseState = (name: string, json: any, index: number): ControllerState => {
+    const state = createState(name, index);
+    const animations = Array.isArray(json?.animations) ? json.animations : [];
+    state.animations = animations.flatMap((entry: any): StateAnimation[] =>
+        typeof entry === 'string'
+            ? [{ name: entry, blend: '' }]
+            : Object.entries(entry ?? {}).map(([animation, blend]) => ({ name: animation, blend: String(blend) })));
+    const transitions = Array.isArray(json?.transitions) ? json.transitions : [];
+    state.transitions = transitions.flatMap((entry: any) =>
+        Object.entries(entry ?? {}).map(([target, condition]) => ({ target, condition: String(condition) })));
+    state.onEntry = Array.isArray(json?.on_entry) ? json.on_entry.map(String) : [];
+    state.onExit = Array.isArray(json?.on_exit) ? json.on_exit.map(String) : [];
+    state.blendViaShortestPath = json?.blend_via_shortest_path === true;
+    state.extra = withoutKeys(json ?? {}, STATE_KEYS);
+    // Curve-shaped blend transitions aren't editable here, so they're kept as they are.
+    if (typeof json?.blend_transition === 'number') state.blendTransition = json.blend_transition;
+    else if (json?.blend_transition !== undefined) state.extra.blend_transition = json.blend_transition;
+    return state;
+};
+
+/**
+ * Reads an animation controller file. Throws a readable error when the file isn't one.
+ */
+export const parseControllerFile = (content: string): ControllerFile => {
+    const json = parseAddonJson(content);
+    const controllers = json?.animation_controllers;
+    if (!controllers || typeof controllers !== 'object') throw new Error('This file has no "animation_controllers" object.');
+    return {
+        formatVersion: typeof json.format_version === 'string' ? json.format_version : '1.10.0',
+        controllers: Object.entries(controllers).map(([id, controller]: [string, any]) => {
+            const states = Object.entries(controller?.states ?? {}).map(([name, state], i) => parseState(name, state, i));
+            return {
+                id,
+                initialState: typeof controller?.initial_state === 'string' ? controller.initial_state : states[0]?.name ?? 'default',
+                states,
+                extra: withoutKeys(controller ?? {}, ['initial_state', 'states']),
+            };
+        }),
+    };
+};
+
+const buildState = (state: ControllerState) => ({
+    ...(state.animations.length > 0 && { animations: state.animations.map(a => (a.blend.trim() ? { [a.name]: a.blend } : a.name)) }),
+    ...(state.onEntry.length > 0 && { on_entry: state.onEntry }),
+    ...(state.onExit.length > 0 && { on_exit: state.onExit }),
+    ...(state.transitions.length > 0 && { transitions: state.transitions.map(t => ({ [t.target]: t.condition })) }),
+    ...(state.blendTransition !== null && { blend_transition: state.blendTransition }),
+    ...(state.blendViaShortestPath && { blend_via_shortest_path: true }),
+    ...state.extra,
+});
+
+export const buildControllerFile = (file: ControllerFile) => ({
+    format_version: file.formatVersion,
+    animation_controllers: Object.fromEntries(file.controllers.map(controller => [controller.id, {
+        initial_state: controller.initialState,
+        ...controller.extra,
+        states: Object.fromEntries(controller.states.map(state => [state.name, buildState(state)])),
+    }])),
+});
+
+/**
+ * Lists the animation controller files in the project's packs, with the kind of pack each one is in.
+ */
+export const findControllerFiles = (files: GeneratedFile[]): ProjectControllerFile[] => {
+    const packs = findPacks(files);
+    return files
+        .filter(file => /(^|\/)animation_controllers\/.+\.json$/i.test(file.path))
+        .map(file => ({ path: file.path, kind: findPackForPath(packs, file.path)?.kind ?? (/resource|(^|\/)rp\//i.test(file.path) ? 'resource' : 'behavior') }))
+        .sort((a, b) => a.path.localeCompare(b.path));
+};
+
+/**
+ * Renames the state at `index` and points transitions and the initial state at the new name.
+ * States are addressed by index because names are briefly duplicated while the user types.
+ */
+export const renameState = (controller: AnimationController, index: number, to: string): AnimationController => {
+    const from = controller.states[index].name;
+    // If another state still has the old name, links keep pointing at that one.
+    const retarget = controller.states.every((state, i) => i === index || state.name !== from);
+    return {
+        ...controller,
+        initialState: retarget && controller.initialState === from ? to : controller.initialState,
+        states: controller.states.map((state, i) => ({
+            ...state,
+            name: i === index ? to : state.name,
+            transitions: retarget ? state.transitions.map(t => (t.target === from ? { ...t, target: to } : t)) : state.transitions,
+        })),
+    };
+};
+
+/**
+ * Removes the state at `index` along with every transition into it.
+ */
+export const removeState = (controller: AnimationController, index: number): AnimationController => {
+    const name = controller.states[index].name;
+    const remaining = controller.states.filter((_, i) => i !== index);
+    const stillNamed = remaining.some(state => state.name === name);
+    const states = stillNamed ? remaining : remaining.map(state => ({ ...state, transitions: state.transitions.filter(t => t.target !== name) }));
+    return { ...controller, states, initialState: !stillNamed && controller.initialState === name ? states[0]?.name ?? 'default' : controller.initialState };
+};
+
+// Behavior pack on_entry/on_exit lines are slash commands, entity events or Molang assignments.
+const isBehaviorPackLine = (line: string) => line.startsWith('/') || /^@s\s+\S+$/.test(line) || line.trim().endsWith(';');
+
+/**
+ * Checks a controller file and returns every problem found, so the editor can list them all at once.
+ */
+export const validateControllerFile = (file: ControllerFile, kind: PackKind): string[] => {
+    const errors: string[] = [];
+    const ids = new Set<string>();
+    if (file.controllers.length === 0) errors.push('Add at least one controller.');
+    for (const controller of file.controllers) {
+        if (!controller.id.startsWith(CONTROLLER_PREFIX) || controller.id.length === CONTROLLER_PREFIX.length) {
+            errors.push(`"${controller.id}": controller names must start with "${CONTROLLER_PREFIX}".`);
+        }
+        if (ids.has(controller.id)) errors.push(`"${controller.id}" is defined more than once.`);
+        ids.add(controller.id);
+        const names = controller.states.map(s => s.name);
+        if (controller.states.length === 0) errors.push(`${controller.id}: add at least one state.`);
+        else if (!names.includes(controller.initialState)) errors.push(`${controller.id}: the initial state "${controller.initialState}" doesn't exist.`);
+        new Set(names.filter((name, i) => names.indexOf(name) !== i)).forEach(name => errors.push(`${controller.id}: there are several states named "${name}".`));
+        for (const state of controller.states) {
+            const label = `${controller.id} → ${state.name}`;
+            if (!/^[A-Za-z0-9_.]+$/.test(state.name)) errors.push(`${label}: state names may only use letters, numbers, "_" and ".".`);
+            state.animations.forEach(a => !a.name.trim() && errors.push(`${label}: an animation has no name.`));
+            for (const t of state.transitions) {
+                if (!names.includes(t.target)) errors.push(`${label}: transition to "${t.target}", which doesn't exist.`);
+                if (!t.condition.trim()) errors.push(`${label}: the transition to "${t.target}" has no condition.`);
+            }
+            if (kind === 'behavior') {
+                [...state.onEntry, ...state.onExit].filter(line => !isBehaviorPackLine(line)).forEach(line =>
+                    errors.push(`${label}: "${line}" should be a /command, an "@s namespace:event" or a Molang expression ending in ";".`));
+            }
+        }
+    }
+    return errors;
+};
@@ -0,0 +1,278 @@
+import { IDENTIFIER_PATTERN } from './addonTemplates';
+
+export type BlockStateKind = 'boolean' | 'integer' | 'enum';
+
+/**
+ * A custom block state. Integer states are a min..max range, enum states a list of strings; booleans
+ * always have the values false and true.
+ */
+export interface BlockStateDefinition {
+    name: string;
+    kind: BlockStateKind;
+    min: number;
+    max: number;
+    values: string[];
+}
+
+export type PlacementDirectionState = 'minecraft:cardinal_direction' | 'minecraft:facing_direction';
+export type PlacementPositionState = 'minecraft:block_face' | 'minecraft:vertical_half';
+
+export interface BlockTraits {
+    placementDirection: PlacementDirectionState[];
+    yRotationOffset: number;
+    placementPosition: PlacementPositionState[];
+}
+
+export type ConditionOperator = '==' | '!=';
+
+export interface ConditionClause {
+    state: string;
+    operator: ConditionOperator;
+    value: string;
+}
+
+/**
+ * A permutation's condition is either built from clauses joined by `joiner`, or written by hand as Molang
+ * when `customCondition` is set.
+ */
+export interface BlockPermutation {
+    clauses: ConditionClause[];
+    joiner: '&&' | '||';
+    customCondition: string | null;
+    components: {
+        rotation?: [number, number, number];
+        lightEmission?: number;
+        secondsToDestroy?: number;
+        geometry?: string;
+        texture?: string;
+    };
+}
+
+export type RenderMethod = 'opaque' | 'alpha_test' | 'blend' | 'double_sided' | 'alpha_test_single_sided';
+
+export interface MaterialInstance {
+    key: string;
+    texture: string;
+    renderMethod: RenderMethod;
+    faceDimming: boolean;
+    ambientOcclusion: boolean;
+}
+
+export interface BlockDefinition {
+    identifier: string;
+    menuCategory: string;
+    menuGroup: string;
+    hiddenInCommands: boolean;
+    states: BlockStateDefinition[];
+    traits: BlockTraits;
+    /** Short texture names, as declared in terrain_texture.json. */
+    textures: string[];
+    geometry: string;
+    materialInstances: MaterialInstance[];
+    destructibleByMining: boolean;
+    secondsToDestroy: number;
+    lightEmission: number;
+    loot: string;
+    permutations: BlockPermutation[];
+}
+
+export const FULL_BLOCK_GEOMETRY = 'minecraft:geometry.full_block';
+export const FACE_KEYS = ['*', 'up', 'down', 'north', 'south', 'east', 'west'];
+export const RENDER_METHODS: RenderMethod[] = ['opaque', 'alpha_test', 'blend', 'double_sided', 'alpha_test_single_sided'];
+
+// Bedrock rejects a state with more than 16 values.
+const MAX_STATE_VALUES = 16;
+
+const TRAIT_STATE_VALUES: { [state: string]: string[] } = {
+    'minecraft:cardinal_direction': ['north', 'south', 'east', 'west'],
+    'minecraft:facing_direction': ['down', 'up', 'north', 'south', 'west', 'east'],
+    'minecraft:block_face': ['down', 'up', 'north', 'south', 'west', 'east'],
+    'minecraft:vertical_half': ['bottom', 'top'],
+};
+
+/** Lists the values a custom state can take, as strings the way they're picked in the condition builder. */
+export const getStateValues = (state: BlockStateDefinition): string[] => {
+    switch (state.kind) {
+        case 'boolean':
+            return ['false', 'true'];
+        case 'integer':
+            return Number.isInteger(state.min) && Number.isInteger(state.max) && state.max >= state.min && state.max - state.min < MAX_STATE_VALUES
+                ? Array.from({ length: state.max - state.min + 1 }, (_, i) => String(state.min + i))
+                : [];
+        case 'enum':
+            return state.values;
+    }
+};
+
+/**
+ * Every state a condition can test: the custom states plus the ones the enabled traits add.
+ */
+export const getConditionStates = (definition: Pick<BlockDefinition, 'states' | 'traits'>): { name: string; values: string[]; quoted: boolean }[] => [
+    ...definition.states.map(state => ({ name: state.name, values: getStateValues(state), quoted: state.kind === 'enum' })),
+    ...[...definition.traits.placementDirection, ...definition.traits.placementPosition].map(name => ({ name, values: TRAIT_STATE_VALUES[name], quoted: true })),
+];
+
+/**
+ * Builds the Molang condition for a permutation, e.g. `q.block_state('custom:open') == true && q.block_state('minecraft:cardinal_direction') == 'north'`.
+ */
+export const buildCondition = (permutation: BlockPermutation, definition: Pick<BlockDefinition, 'states' | 'traits'>): string => {
+    if (permutation.customCondition !== null) return permutation.customCondition.trim();
+    const states = getConditionStates(definition);
+    return permutation.clauses
+        .map(clause => {
+            const quoted = states.find(state => state.name === clause.state)?.quoted ?? true;
+            return `q.block_state('${clause.state}') ${clause.operator} ${quoted ? `'${clause.value}'` : clause.value}`;
+        })
+        .join(` ${permutation.joiner} `);
+};
+
+const toStateJson = (state: BlockStateDefinition) => {
+    switch (state.kind) {
+        case 'boolean':
+            return [false, true];
+        case 'integer':
+            return { values: { min: state.min, max: state.max } };
+        case 'enum':
+            return state.values;
+    }
+};
+
+const toMaterialInstancesJson = (instances: { key: string; texture: string; renderMethod: RenderMethod; faceDimming: boolean; ambientOcclusion: boolean }[]) =>
+    Object.fromEntries(instances.map(instance => [instance.key, {
+        texture: instance.texture,
+        render_method: instance.renderMethod,
+        face_dimming: instance.faceDimming,
+        ambient_occlusion: instance.ambientOcclusion,
+    }]));
+
+const toGeometryJson = (geometry: string) => (geometry === FULL_BLOCK_GEOMETRY ? geometry : { identifier: geometry });
+
+/**
+ * Builds the behavior pack block file. Textures in `materialInstances` are short names from terrain_texture.json.
+ */
+export const buildBlockJson = (definition: BlockDefinition) => {
+    const { traits } = definition;
+    const description: any = {
+        identifier: definition.identifier,
+        ...(definition.menuCategory !== 'none' && {
+            menu_category: {
+                category: definition.menuCategory,
+                ...(definition.menuGroup && { group: definition.menuGroup }),
+                ...(definition.hiddenInCommands && { is_hidden_in_commands: true }),
+            },
+        }),
+    };
+    if (definition.states.length > 0) description.states = Object.fromEntries(definition.states.map(state => [state.name, toStateJson(state)]));
+    if (traits.placementDirection.length > 0 || traits.placementPosition.length > 0) {
+        description.traits = {
+            ...(traits.placementDirection.length > 0 && { 'minecraft:placement_direction': { enabled_states: traits.placementDirection, y_rotation_offset: traits.yRotationOffset } }),
+            ...(traits.placementPosition.length > 0 && { 'minecraft:placement_position': { enabled_states: traits.placementPosition } }),
+        };
+    }
+
+    const baseInstance = definition.materialInstances.find(instance => instance.key === '*') || definition.materialInstances[0];
+    const permutations = definition.permutations.map(permutation => {
+        const { rotation, lightEmission, secondsToDestroy, geometry, texture } = permutation.components;
+        return {
+            condition: buildCondition(permutation, definition),
+            components: {
+                ...(rotation && { 'minecraft:transformation': { rotation } }),
+                ...(lightEmission !== undefined && { 'minecraft:light_emission': lightEmission }),
+                ...(secondsToDestroy !== undefined && { 'minecraft:destructible_by_mining': { seconds_to_destroy: secondsToDestroy } }),
+                ...(geometry && { 'minecraft:geometry': toGeometryJson(geometry) }),
+                ...(texture && baseInstance && { 'minecraft:material_instances': toMaterialInstancesJson([{ ...baseInstance, key: '*', texture }]) }),
+            },
+        };
+    });
+
+    return {
+        format_version: '1.21.10',
+        'minecraft:block': {
+            description,
+            components: {
+                'minecraft:geometry': toGeometryJson(definition.geometry),
+                'minecraft:material_instances': toMaterialInstancesJson(definition.materialInstances),
+                'minecraft:destructible_by_mining': definition.destructibleByMining ? { seconds_to_destroy: definition.secondsToDestroy } : false,
+                ...(definition.lightEmission > 0 && { 'minecraft:light_emission': definition.lightEmission }),
+                ...(definition.loot.trim() && { 'minecraft:loot': definition.loot.trim() }),
+            },
+            ...(permutations.length > 0 && { permutations }),
+        },
+    };
+};
+
+const validateState = (state: BlockStateDefinition, index: number, names: string[]): string | null => {
+    if (!IDENTIFIER_PATTERN.test(state.name)) return `State ${index + 1}: name must be namespaced, e.g. custom:open.`;
+    if (state.name.startsWith('minecraft:')) return `State ${state.name}: the "minecraft" namespace is reserved for vanilla states and traits.`;
+    if (names.indexOf(state.name) !== index) return `State ${state.name} is defined twice.`;
+    if (state.kind === 'integer') {
+        if (!Number.isInteger(state.min) || !Number.isInteger(state.max)) return `State ${state.name}: min and max must be whole numbers.`;
+        if (state.max <= state.min) return `State ${state.name}: max must be greater than min.`;
+        if (state.max - state.min + 1 > MAX_STATE_VALUES) return `State ${state.name}: a state can have at most ${MAX_STATE_VALUES} values.`;
+    }
+    if (state.kind === 'enum') {
+        if (state.values.length < 2) return `State ${state.name}: add at least two values.`;
+        if (state.values.length > MAX_STATE_VALUES) return `State ${state.name}: a state can have at most ${MAX_STATE_VALUES} values.`;
+        if (state.values.some(value => !/^[a-z0-9_]+$/.test(value))) return `State ${state.name}: values may only use lowercase letters, numbers and underscores.`;
+        if (new Set(state.values).size !== state.values.length) return `State ${state.name}: values must be unique.`;
+    }
+    return null;
+};
+
+const validatePermutation = (permutation: BlockPermutation, index: number, definition: BlockDefinition): string | null => {
+    const label = `Permutation ${index + 1}`;
+    if (permutation.customCondition !== null) {
+        if (!permutation.customCondition.trim()) return `${label}: the condition is empty.`;
+    } else {
+        if (permutation.clauses.length === 0) return `${label}: add at least one condition.`;
+        const states = getConditionStates(definition);
+        for (const clause of permutation.clauses) {
+            const state = states.find(s => s.name === clause.state);
+            if (!state) return `${label}: ${clause.state || 'a condition'} is not a state of this block.`;
+            if (!state.values.includes(clause.value)) return `${label}: ${clause.value || '(empty)'} is not a value of ${clause.state}.`;
+        }
+    }
+    const { components } = permutation;
+    if (Object.values(components).every(value => value === undefined)) return `${label}: set at least one component.`;
+    if (components.rotation?.some(angle => Number.isNaN(angle) || angle % 90 !== 0)) return `${label}: rotations must be multiples of 90 degrees.`;
+    if (components.lightEmission !== undefined && !(Number.isInteger(components.lightEmission) && components.lightEmission >= 0 && components.lightEmission <= 15)) return `${label}: light emission must be a whole number from 0 to 15.`;
+    if (components.secondsToDestroy !== undefined && !(components.secondsToDestroy >= 0)) return `${label}: time to destroy can't be negative.`;
+    if (components.geometry !== undefined && components.geometry !== FULL_BLOCK_GEOMETRY && !/^geometry\.[a-z0-9_.-]+$/.test(components.geometry)) return `${label}: geometry must be an identifier like geometry.my_block.`;
+    if (components.texture !== undefined && !definition.textures.includes(components.texture)) return `${label}: pick one of the block's textures.`;
+    return null;
+};
+
+/**
+ * Checks a block definition and returns every problem found, so the form can list them all at once.
+ */
+export const validateBlockDefinition = (definition: BlockDefinition): string[] => {
+    const errors: string[] = [];
+    const names = definition.states.map(state => state.name);
+    definition.states.forEach((state, index) => {
+        const error = validateState(state, index, names);
+        if (error) errors.push(error);
+    });
+    const textureNames = definition.textures;
+    textureNames.forEach((name, index) => {
+        if (!name) errors.push(`Texture ${index + 1} needs a name.`);
+        else if (!/^[a-z0-9_]+$/.test(name)) errors.push(`Texture "${name}": names may only use lowercase letters, numbers and underscores.`);
+        else if (textureNames.indexOf(name) !== index) errors.push(`Texture "${name}" is defined twice.`);
+    });
+    if (definition.traits.yRotationOffset % 90 !== 0) errors.push('Traits: the Y rotation offset must be 0, 90, 180 or 270.');
+    if (definition.materialInstances.length === 0) errors.push('Add at least one material instance.');
+    const keys = definition.materialInstances.map(instance => instance.key);
+    definition.materialInstances.forEach((instance, index) => {
+        if (!instance.key.trim()) errors.push(`Material instance ${index + 1} needs a face or material name.`);
+        else if (keys.indexOf(instance.key) !== index) errors.push(`Material instance "${instance.key}" is defined twice.`);
+        if (!textureNames.includes(instance.texture)) errors.push(`Material instance "${instance.key}" needs one of the block's textures.`);
+    });
+    if (definition.geometry !== FULL_BLOCK_GEOMETRY && !/^geometry\.[a-z0-9_.-]+$/.test(definition.geometry)) errors.push('Geometry must be an identifier like geometry.my_block.');
+    if (definition.destructibleByMining && !(definition.secondsToDestroy >= 0)) errors.push('Time to destroy must be 0 or more seconds.');
+    if (!(Number.isInteger(definition.lightEmission) && definition.lightEmission >= 0 && definition.lightEmission <= 15)) errors.push('Light emission must be a whole number from 0 to 15.');
+    if (definition.loot.trim() && !/^loot_tables\/.+\.json$/.test(definition.loot.trim())) errors.push('Loot must be a path like loot_tables/blocks/my_block.json.');
+    definition.permutations.forEach((permutation, index) => {
+        const error = validatePermutation(permutation, index, definition);
+        if (error) errors.push(error);
+    });
+    return errors;
+};
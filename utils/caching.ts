@@ -1,3 +1,5 @@
+import { createMetaDataDatabase, requestToPromise } from './indexedDb';
+
 /**
  * Generates a SHA-256 hash from a series of strings and ArrayBuffers to be used as a cache key.
  */
@@ -24,29 +26,161 @@ export const generateCacheKey = async (parts: (string | ArrayBuffer)[]): Promise
     return hashHex;
 };
 
+export type CacheNamespace = 'generation' | 'summary' | 'dev' | 'buildingImage';
+
+export const CACHE_NAMESPACES: { [key in CacheNamespace]: { label: string; ttlMs: number } } = {
+    generation: { label: 'Addon generation', ttlMs: 7 * 24 * 60 * 60 * 1000 },
+    summary: { label: 'Addon summaries', ttlMs: 7 * 24 * 60 * 60 * 1000 },
+    dev: { label: 'Develop changes', ttlMs: 3 * 24 * 60 * 60 * 1000 },
+    buildingImage: { label: 'Building images', ttlMs: 30 * 24 * 60 * 60 * 1000 },
+};
+
+export const DEFAULT_CACHE_BUDGET_BYTES = 50 * 1024 * 1024;
+const BUDGET_STORAGE_KEY = 'addon-gen-cache-budget';
+
+const DB_NAME = 'bedrock-utility-cache';
+const DB_VERSION = 1;
+const META_STORE = 'entries';
+const DATA_STORE = 'entryData';
+
 /**
- * Retrieves and parses a JSON item from sessionStorage.
+ * What the cache inspector shows for an entry. The cached value itself lives in a separate store,
+ * so listing and evicting entries never has to load it.
  */
-export const getFromCache = <T>(key: string): T | null => {
+export interface CacheEntrySummary {
+    id: string;
+    namespace: CacheNamespace;
+    key: string;
+    size: number;
+    createdAt: number;
+    lastAccessedAt: number;
+    expiresAt: number;
+}
+
+interface StoredCacheData {
+    id: string;
+    data: unknown;
+}
+
+const { withTransaction } = createMetaDataDatabase(DB_NAME, DB_VERSION, META_STORE, DATA_STORE);
+
+const toEntryId = (namespace: CacheNamespace, key: string) => `${namespace}:${key}`;
+
+const removeEntry = (meta: IDBObjectStore, data: IDBObjectStore, id: string) => {
+    meta.delete(id);
+    data.delete(id);
+};
+
+export const getCacheBudget = (): number => {
+    const stored = Number(localStorage.getItem(BUDGET_STORAGE_KEY));
+    return stored > 0 ? stored : DEFAULT_CACHE_BUDGET_BYTES;
+};
+
+/**
+ * Drops expired entries, then the least recently used ones until the cache fits in `budget`.
+ */
+const evict = async (meta: IDBObjectStore, data: IDBObjectStore, budget: number) => {
+    const now = Date.now();
+    const entries = await requestToPromise(meta.getAll() as IDBRequest<CacheEntrySummary[]>);
+    const live = entries.filter(entry => {
+        if (entry.expiresAt > now) return true;
+        removeEntry(meta, data, entry.id);
+        return false;
+    });
+    let total = live.reduce((sum, entry) => sum + entry.size, 0);
+    for (const entry of live.sort((a, b) => a.lastAccessedAt - b.lastAccessedAt)) {
+        if (total <= budget) break;
+        removeEntry(meta, data, entry.id);
+        total -= entry.size;
+    }
+};
+
+/**
+ * Changes the byte budget and immediately evicts whatever no longer fits.
+ */
+export const setCacheBudget = async (bytes: number): Promise<void> => {
+    localStorage.setItem(BUDGET_STORAGE_KEY, String(bytes));
+    await withTransaction('readwrite', (meta, data) => evict(meta, data, bytes));
+};
+
+/**
+ * Retrieves a cached value, or null if there is none or it has expired. A hit marks the entry as recently used.
+ */
+export const getFromCache = async <T>(namespace: CacheNamespace, key: string): Promise<T | null> => {
+    const id = toEntryId(namespace, key);
     try {
-        const item = sessionStorage.getItem(key);
-        if (!item) return null;
-        return JSON.parse(item) as T;
+        return await withTransaction('readwrite', async (meta, data) => {
+            const entry = await requestToPromise(meta.get(id) as IDBRequest<CacheEntrySummary | undefined>);
+            if (!entry) return null;
+            if (entry.expiresAt <= Date.now()) {
+                removeEntry(meta, data, id);
+                return null;
+            }
+            const stored = await requestToPromise(data.get(id) as IDBRequest<StoredCacheData | undefined>);
+            if (!stored) {
+                meta.delete(id);
+                return null;
+            }
+            meta.put({ ...entry, lastAccessedAt: Date.now() });
+            return stored.data as T;
+        });
     } catch (error) {
-        console.error(`Failed to retrieve or parse cache for key "${key}"`, error);
+        console.error(`Failed to retrieve cache for key "${id}"`, error);
         return null;
     }
 };
 
 /**
- * Stringifies and stores a JSON item in sessionStorage.
+ * Stores a value under the namespace's TTL, evicting least recently used entries to stay within the budget.
+ * Values larger than the whole budget are not cached. Resolves to whether the value was stored.
  */
-export const setInCache = <T>(key: string, data: T): void => {
+export const setInCache = async <T>(namespace: CacheNamespace, key: string, value: T): Promise<boolean> => {
+    const id = toEntryId(namespace, key);
+    const size = new TextEncoder().encode(JSON.stringify(value)).length;
+    const budget = getCacheBudget();
+    if (size > budget) {
+        console.warn(`Not caching "${id}": ${size} bytes exceeds the cache budget of ${budget} bytes.`);
+        return false;
+    }
+    const now = Date.now();
+    const entry: CacheEntrySummary = { id, namespace, key, size, createdAt: now, lastAccessedAt: now, expiresAt: now + CACHE_NAMESPACES[namespace].ttlMs };
     try {
-        const item = JSON.stringify(data);
-        sessionStorage.setItem(key, item);
+        await withTransaction('readwrite', async (meta, data) => {
+            meta.put(entry);
+            data.put({ id, data: value } as StoredCacheData);
+            await evict(meta, data, budget);
+        });
+        return true;
     } catch (error) {
-        console.error(`Failed to set cache for key "${key}"`, error);
-        // This can happen if storage is full
+        console.error(`Failed to set cache for key "${id}"`, error);
+        return false;
     }
 };
+
+/**
+ * Lists unexpired entries, most recently used first.
+ */
+export const listCacheEntries = async (): Promise<CacheEntrySummary[]> => {
+    const entries = await withTransaction('readonly', meta => requestToPromise(meta.getAll() as IDBRequest<CacheEntrySummary[]>));
+    const now = Date.now();
+    return entries.filter(entry => entry.expiresAt > now).sort((a, b) => b.lastAccessedAt - a.lastAccessedAt);
+};
+
+export const deleteCacheEntry = async (id: string): Promise<void> => {
+    await withTransaction('readwrite', async (meta, data) => removeEntry(meta, data, id));
+};
+
+/**
+ * Removes every entry, or only those in `namespace`.
+ */
+export const clearCache = async (namespace?: CacheNamespace): Promise<void> => {
+    await withTransaction('readwrite', async (meta, data) => {
+        if (!namespace) {
+            meta.clear();
+            data.clear();
+            return;
+        }
+        const entries = await requestToPromise(meta.getAll() as IDBRequest<CacheEntrySummary[]>);
+        entries.filter(entry => entry.namespace === namespace).forEach(entry => removeEntry(meta, data, entry.id));
+    });
+};
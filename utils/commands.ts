@@ -0,0 +1,640 @@
+import { COMMAND_SYNTAX, COMMAND_ALIASES, SELECTOR_ARGUMENTS, SELECTOR_TYPES } from '../data/commandGrammar';
+import { VANILLA_ITEMS } from '../data/vanillaItems';
+
+export interface CommandDiagnostic {
+    severity: 'error' | 'warning';
+    message: string;
+    /** 1-based line in the function file. */
+    line: number;
+    /** Character offsets into the line, end exclusive. */
+    start: number;
+    end: number;
+}
+
+/** A problem with a single command; offsets are into the command text. */
+export type CommandProblem = Omit<CommandDiagnostic, 'line'>;
+
+export interface CommandToken {
+    text: string;
+    start: number;
+    end: number;
+}
+
+// --- TOKENIZER ---
+
+// Returns the index just past the closing quote, or the end of the text when the string is never closed.
+const skipString = (text: string, i: number): number => {
+    for (i++; i < text.length; i++) {
+        if (text[i] === '\\') i++;
+        else if (text[i] === '"') return i + 1;
+    }
+    return text.length;
+};
+
+const isClosedString = (text: string) => text.length > 1 && skipString(text, 0) === text.length && text.endsWith('"');
+
+/**
+ * Splits a command on spaces, keeping quoted strings, selector arguments, block states and JSON
+ * together even when they contain spaces.
+ */
+export const tokenizeCommand = (command: string): CommandToken[] => {
+    const tokens: CommandToken[] = [];
+    let i = 0;
+    while (i < command.length) {
+        if (/\s/.test(command[i])) {
+            i++;
+            continue;
+        }
+        const start = i;
+        let depth = 0;
+        while (i < command.length && (depth > 0 || !/\s/.test(command[i]))) {
+            const char = command[i];
+            if (char === '"') {
+                i = skipString(command, i);
+                continue;
+            }
+            if (char === '[' || char === '{') depth++;
+            else if ((char === ']' || char === '}') && depth > 0) depth--;
+            i++;
+        }
+        tokens.push({ text: command.slice(start, i), start, end: i });
+    }
+    return tokens;
+};
+
+/** Splits the inside of brackets on top-level commas, with each part's offset. */
+const splitTopLevel = (text: string, offset: number): { text: string; start: number }[] => {
+    const parts: { text: string; start: number }[] = [];
+    let depth = 0, partStart = 0;
+    for (let i = 0; i <= text.length; i++) {
+        const char = text[i];
+        if (char === '"') {
+            i = skipString(text, i) - 1;
+        } else if (char === '[' || char === '{') {
+            depth++;
+        } else if (char === ']' || char === '}') {
+            depth--;
+        } else if ((char === ',' && depth === 0) || i === text.length) {
+            const raw = text.slice(partStart, i);
+            const lead = raw.length - raw.trimStart().length;
+            if (raw.trim()) parts.push({ text: raw.trim(), start: offset + partStart + lead });
+            partStart = i + 1;
+        }
+    }
+    return parts;
+};
+
+// --- GRAMMAR ---
+
+type Param =
+    | { kind: 'literal'; values: string[]; optional: false }
+    | { kind: 'argument'; name: string; type: string; values: string[] | null; optional: boolean };
+
+interface Scope {
+    source: string;
+    tokens: CommandToken[];
+}
+
+interface Failure {
+    message: string;
+    start: number;
+    end: number;
+    /** What would have been accepted here, so failures of several overloads at the same spot can be merged. */
+    expected?: string[];
+    found?: string;
+    /** Leftover tokens after a shorter overload matched; any other complaint about the same spot is more useful. */
+    trailing?: boolean;
+}
+
+/** A match when `failure` is absent, with any problems that didn't stop it matching. */
+type Result = { problems: CommandProblem[]; failure?: Failure };
+
+/** `null` means the token isn't this kind of argument at all. */
+type Read = { next: number; problems: CommandProblem[] } | Failure | null;
+
+type Reader = (scope: Scope, index: number) => Read;
+
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)$/;
+const INTEGER = /^[-+]?\d+$/;
+const IDENTIFIER = /^[A-Za-z0-9_.\-]+(:[A-Za-z0-9_.\-/]+)?$/;
+const RANGE = /^!?(-?\d+|-?\d+\.\.(-?\d+)?|\.\.-?\d+)$/;
+const COORDINATE_PARTS = /[~^]([-+]?(\d+\.?\d*|\.\d+))?|[-+]?(\d+\.?\d*|\.\d+)/g;
+const OPERATIONS = ['=', '+=', '-=', '*=', '/=', '%=', '<', '>', '><'];
+const COMPARISONS = ['=', '<', '<=', '>', '>='];
+const GAME_MODES = ['survival', 'creative', 'adventure', 'spectator', 'default', 's', 'c', 'a', 'd', '0', '1', '2', '5', '6'];
+
+const ok = (next: number, problems: CommandProblem[] = []): Read => ({ next, problems });
+
+const error = (message: string, start: number, end: number): CommandProblem => ({ severity: 'error', message, start, end });
+
+/** Reads one token that passes `test`, then runs `check` for problems that don't stop it matching. */
+const single = (test: (text: string) => boolean, check?: (token: CommandToken) => CommandProblem[]): Reader =>
+    (scope, index) => {
+        const token = scope.tokens[index];
+        return test(token.text) ? ok(index + 1, check?.(token) ?? []) : null;
+    };
+
+const checkQuoted = (token: CommandToken): CommandProblem[] =>
+    token.text.startsWith('"') && !isClosedString(token.text) ? [error('This string is never closed with a matching ".', token.start, token.end)] : [];
+
+const isQuoted = (text: string) => text.startsWith('"');
+
+const readCoordinates = (count: number): Reader => (scope, index) => {
+    const { tokens } = scope;
+    const parts: string[] = [];
+    let i = index;
+    // "~~1~" is three coordinates, so parts are counted rather than tokens.
+    while (parts.length < count && i < tokens.length) {
+        const found = tokens[i].text.match(COORDINATE_PARTS) ?? [];
+        if (found.length === 0 || found.join('') !== tokens[i].text) {
+            if (parts.length === 0) return null;
+            return { message: `Expected ${count} coordinates, but found "${tokens[i].text}".`, start: tokens[i].start, end: tokens[i].end };
+        }
+        if (parts.length + found.length > count) {
+            return { message: `"${tokens[i].text}" has more coordinates than fit here.`, start: tokens[i].start, end: tokens[i].end };
+        }
+        parts.push(...found);
+        i++;
+    }
+    const range = { start: tokens[index].start, end: tokens[i - 1].end };
+    if (parts.length < count) return { message: `Expected ${count} coordinates, but found only ${parts.length}.`, ...range };
+    const local = parts.filter(p => p.startsWith('^')).length;
+    if (local > 0 && local < parts.length) return { message: 'Local coordinates (^) can\'t be mixed with world or relative (~) coordinates.', ...range };
+    return ok(i);
+};
+
+const checkRange = (text: string, start: number, end: number): CommandProblem[] => {
+    const [min, max] = text.replace(/^!/, '').split('..').map(n => (n === '' ? NaN : Number(n)));
+    return min > max ? [{ severity: 'warning', message: `The range ${text} is empty because ${min} is greater than ${max}.`, start, end }] : [];
+};
+
+const SELECTOR_VALUE_TESTS: { [kind: string]: (value: string) => boolean } = {
+    coordinate: value => /^~?([-+]?(\d+\.?\d*|\.\d+))?$/.test(value) && value !== '',
+    float: value => NUMBER.test(value),
+    int: value => INTEGER.test(value),
+    gamemode: value => GAME_MODES.includes(value.replace(/^!/, '')),
+    string: value => !isQuoted(value.replace(/^!/, '')) || isClosedString(value.replace(/^!/, '')),
+    entity: value => IDENTIFIER.test(value.replace(/^!/, '')),
+    object: value => /^[{[][\s\S]*[}\]]$/.test(value),
+};
+
+// Arguments that may appear more than once, for example to require several tags.
+const REPEATABLE_ARGUMENTS = new Set(['name', 'tag', 'family', 'type', 'hasitem', 'has_property']);
+
+const checkScores = (value: string, start: number): CommandProblem[] => {
+    if (!/^\{[\s\S]*\}$/.test(value)) return [error('scores is written as scores={objective=range}, e.g. scores={kills=5..}.', start, start + value.length)];
+    return splitTopLevel(value.slice(1, -1), start + 1).flatMap(entry => {
+        const [objective, range = ''] = entry.text.split('=').map(s => s.trim());
+        const end = entry.start + entry.text.length;
+        if (!objective || !RANGE.test(range)) return [error(`"${entry.text}" isn't a valid score check; use objective=range, e.g. kills=1..5.`, entry.start, end)];
+        return checkRange(range, entry.start, end);
+    });
+};
+
+const checkSelector = (token: CommandToken): CommandProblem[] => {
+    const [, type, rest] = /^(@[A-Za-z]*)([\s\S]*)$/.exec(token.text)!;
+    const problems: CommandProblem[] = [];
+    if (!SELECTOR_TYPES.includes(type)) {
+        problems.push(error(`Unknown selector "${type}". Use one of ${SELECTOR_TYPES.join(', ')}.`, token.start, token.start + type.length));
+    }
+    if (!rest) return problems;
+    if (!rest.startsWith('[') || !rest.endsWith(']')) {
+        return [...problems, error('Selector arguments go in square brackets, e.g. @e[type=zombie].', token.start + type.length, token.end)];
+    }
+    const seen = new Set<string>();
+    for (const entry of splitTopLevel(rest.slice(1, -1), token.start + type.length + 1)) {
+        const end = entry.start + entry.text.length;
+        const equals = entry.text.indexOf('=');
+        if (equals === -1) {
+            problems.push(error(`Expected name=value, but found "${entry.text}".`, entry.start, end));
+            continue;
+        }
+        const key = entry.text.slice(0, equals).trim();
+        const value = entry.text.slice(equals + 1).trim();
+        const kind = SELECTOR_ARGUMENTS[key];
+        if (!kind) {
+            problems.push(error(`Unknown selector argument "${key}".`, entry.start, entry.start + key.length));
+        } else if (kind === 'scores') {
+            problems.push(...checkScores(value, end - value.length));
+        } else if (!SELECTOR_VALUE_TESTS[kind](value)) {
+            problems.push(error(`"${value}" isn't a valid value for ${key}.`, end - value.length, end));
+        } else if (seen.has(key) && !REPEATABLE_ARGUMENTS.has(key)) {
+            problems.push(error(`${key} can only be used once in a selector.`, entry.start, end));
+        }
+        seen.add(key);
+    }
+    return problems;
+};
+
+const checkBlockStates = (text: string, start: number): CommandProblem[] => {
+    if (!text.endsWith(']')) return [error('Block states are missing their closing ].', start, start + text.length)];
+    return splitTopLevel(text.slice(1, -1), start + 1)
+        .filter(entry => !/^"[^"]+"\s*[=:]\s*(true|false|[-+]?\d+(\.\d+)?|"[^"]*")$/.test(entry.text))
+        .map(entry => error(`"${entry.text}" isn't a valid block state; use "name"=value, e.g. ["facing_direction"=2].`, entry.start, entry.start + entry.text.length));
+};
+
+const readBlock: Reader = (scope, index) => {
+    const token = scope.tokens[index];
+    // States may follow the name without a space: stone["stone_type"="granite"].
+    const bracket = token.text.indexOf('[');
+    const name = bracket === -1 ? token.text : token.text.slice(0, bracket);
+    if (!IDENTIFIER.test(name)) return null;
+    return ok(index + 1, bracket === -1 ? [] : checkBlockStates(token.text.slice(bracket), token.start + bracket));
+};
+
+const parseJson = (token: CommandToken): { value?: any; problems: CommandProblem[] } => {
+    try {
+        return { value: JSON.parse(token.text), problems: [] };
+    } catch (e) {
+        return { problems: [error(`Invalid JSON: ${(e as Error).message}`, token.start, token.end)] };
+    }
+};
+
+const RAWTEXT_KEYS = ['text', 'translate', 'score', 'selector', 'rawtext'];
+
+const checkRawtextComponents = (components: any, token: CommandToken): CommandProblem[] => {
+    if (!Array.isArray(components)) return [error('"rawtext" must be a list of text components.', token.start, token.end)];
+    return components.flatMap((component: any, i: number): CommandProblem[] => {
+        if (!component || typeof component !== 'object' || !RAWTEXT_KEYS.some(key => key in component)) {
+            return [error(`Text component ${i + 1} needs one of ${RAWTEXT_KEYS.map(k => `"${k}"`).join(', ')}.`, token.start, token.end)];
+        }
+        if (component.score && (typeof component.score.name !== 'string' || typeof component.score.objective !== 'string')) {
+            return [error(`Text component ${i + 1} has a "score" without a "name" and "objective".`, token.start, token.end)];
+        }
+        return component.rawtext ? checkRawtextComponents(component.rawtext, token) : [];
+    });
+};
+
+const readRawtext: Reader = (scope, index) => {
+    const token = scope.tokens[index];
+    if (!token.text.startsWith('{')) return null;
+    const { value, problems } = parseJson(token);
+    if (problems.length > 0) return ok(index + 1, problems);
+    if (!Array.isArray(value?.rawtext)) return ok(index + 1, [error('Raw JSON text must look like {"rawtext":[{"text":"Hello"}]}.', token.start, token.end)]);
+    return ok(index + 1, checkRawtextComponents(value.rawtext, token));
+};
+
+const readRest: Reader = (scope) => ok(scope.tokens.length);
+
+const fromResult = (result: Result, scope: Scope): Read => (result.failure ?? ok(scope.tokens.length, result.problems));
+
+const READERS: { [type: string]: { description: string; read: Reader } } = {
+    int: { description: 'a whole number', read: single(text => INTEGER.test(text)) },
+    float: { description: 'a number', read: single(text => NUMBER.test(text)) },
+    bool: { description: 'true or false', read: single(text => text === 'true' || text === 'false') },
+    angle: { description: 'an angle', read: single(text => /^~?([-+]?(\d+\.?\d*|\.\d+))?$/.test(text)) },
+    pos: { description: 'a position (x y z)', read: readCoordinates(3) },
+    pos2: { description: 'a position (x z)', read: readCoordinates(2) },
+    target: {
+        description: 'a target selector or player name',
+        read: single(text => text.startsWith('@') || isQuoted(text) || /^[A-Za-z_][\w\-]*$/.test(text), token => (token.text.startsWith('@') ? checkSelector(token) : checkQuoted(token))),
+    },
+    scoretarget: {
+        description: 'a score holder',
+        read: single(text => !/^[{[]/.test(text), token => (token.text.startsWith('@') ? checkSelector(token) : checkQuoted(token))),
+    },
+    objective: { description: 'an objective name', read: single(text => !/^[@{[]/.test(text), checkQuoted) },
+    operation: { description: 'an operation (=, +=, -=, *=, /=, %=, <, >, ><)', read: single(text => OPERATIONS.includes(text)) },
+    compare: { description: 'a comparison (=, <, <=, >, >=)', read: single(text => COMPARISONS.includes(text)) },
+    range: { description: 'a range such as 1..5', read: single(text => RANGE.test(text), token => checkRange(token.text, token.start, token.end)) },
+    axes: { description: 'axes such as xz', read: single(text => /^(?!.*(.).*\1)[xyz]{1,3}$/.test(text)) },
+    word: { description: 'a value', read: single(() => true) },
+    string: { description: 'a name', read: single(() => true, checkQuoted) },
+    id: { description: 'an identifier', read: single(text => isQuoted(text) || IDENTIFIER.test(text), checkQuoted) },
+    block: { description: 'a block name', read: readBlock },
+    states: { description: 'block states in [ ]', read: single(text => text.startsWith('['), token => checkBlockStates(token.text, token.start)) },
+    item: { description: 'an item name', read: single(text => IDENTIFIER.test(text)) },
+    entity: { description: 'an entity type', read: single(text => IDENTIFIER.test(text)) },
+    json: { description: 'JSON', read: single(text => /^[{[]/.test(text), token => parseJson(token).problems) },
+    rawtext: { description: 'raw JSON text', read: readRawtext },
+    function: { description: 'a function name', read: single(text => isQuoted(text) || /^[\w\-./]+$/.test(text), checkQuoted) },
+    time: { description: 'a time such as 20, 5s or 1d', read: single(text => /^\d+(\.\d+)?[tsd]?$/i.test(text)) },
+    xp: { description: 'an amount such as 10 or 5L', read: single(text => /^-?\d+[lL]?$/.test(text)) },
+    message: { description: 'a message', read: readRest },
+    command: { description: 'a command', read: (scope, index) => fromResult(matchCommand(scope, index), scope) },
+    chain: { description: 'an /execute subcommand', read: (scope, index) => fromResult(matchOverloads(scope, overloadsFor('execute'), index), scope) },
+};
+
+const parseUsage = (usage: string): Param[] =>
+    (usage.match(/<[^>]+>|\[[^\]]+\]|\S+/g) ?? []).map((part): Param => {
+        if (!/^[<[]/.test(part)) return { kind: 'literal', values: part.split('|'), optional: false };
+        const [name, type] = part.slice(1, -1).split(':').map(s => s.trim());
+        return { kind: 'argument', name, type, values: READERS[type] ? null : type.split('|'), optional: part.startsWith('[') };
+    });
+
+const overloadCache = new Map<string, Param[][]>();
+
+const overloadsFor = (command: string): Param[][] => {
+    if (!overloadCache.has(command)) overloadCache.set(command, (COMMAND_SYNTAX[command] ?? []).map(parseUsage));
+    return overloadCache.get(command)!;
+};
+
+// --- MATCHING ---
+
+const describeParam = (param: Param): string[] => {
+    if (param.kind === 'literal' || param.values) return param.values!.map(v => `"${v}"`);
+    return [`${READERS[param.type].description} for <${param.name}>`];
+};
+
+const joinOr = (items: string[]) => (items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} or ${items[items.length - 1]}`);
+
+const expectedFailure = (expected: string[], token: CommandToken): Failure => ({
+    message: `Expected ${joinOr(expected)}, but found "${token.text}".`,
+    start: token.start,
+    end: token.end,
+    expected,
+    found: token.text,
+});
+
+const readParam = (scope: Scope, param: Param, index: number): Read => {
+    const token = scope.tokens[index];
+    if (param.kind === 'literal' || param.values) {
+        return param.values!.includes(token.text.toLowerCase()) ? ok(index + 1) : null;
+    }
+    return READERS[param.type].read(scope, index);
+};
+
+const errorCount = (result: Result) => (result.failure ? Infinity : result.problems.filter(p => p.severity === 'error').length);
+
+/** Picks the better of two attempts: a match with fewer errors, or else the failure that got further. */
+const better = (a: Result, b: Result): Result => {
+    if (!a.failure || !b.failure) return errorCount(b) < errorCount(a) ? b : a;
+    if (a.failure.start !== b.failure.start) return a.failure.start > b.failure.start ? a : b;
+    if (!a.failure.trailing !== !b.failure.trailing) return a.failure.trailing ? b : a;
+    // A specific complaint, such as mixed coordinate types, says more than a list of what was expected.
+    if (!a.failure.expected !== !b.failure.expected) return a.failure.expected ? b : a;
+    if (a.failure.expected && b.failure.expected) {
+        const expected = [...new Set([...a.failure.expected, ...b.failure.expected])];
+        return { problems: [], failure: expectedFailure(expected, { text: a.failure.found!, start: a.failure.start, end: a.failure.end }) };
+    }
+    return a;
+};
+
+const matchParams = (scope: Scope, params: Param[], p: number, index: number): Result => {
+    const { tokens } = scope;
+    if (p === params.length) {
+        if (index === tokens.length) return { problems: [] };
+        const extra = tokens[index];
+        return { problems: [], failure: { message: `Unexpected "${extra.text}"; the command should end here.`, start: extra.start, end: tokens[tokens.length - 1].end, trailing: true } };
+    }
+    const param = params[p];
+    if (index === tokens.length) {
+        if (param.optional) return matchParams(scope, params, p + 1, index);
+        const end = scope.source.trimEnd().length;
+        return { problems: [], failure: { message: `Missing ${joinOr(describeParam(param))}.`, start: end, end } };
+    }
+
+    const read = readParam(scope, param, index);
+    let taken: Result;
+    if (read === null) {
+        taken = { problems: [], failure: expectedFailure(describeParam(param), tokens[index]) };
+    } else if (!('next' in read)) {
+        taken = { problems: [], failure: read };
+    } else {
+        const rest = matchParams(scope, params, p + 1, read.next);
+        taken = rest.failure ? rest : { problems: [...read.problems, ...rest.problems] };
+    }
+    if (!param.optional || errorCount(taken) === 0) return taken;
+    return better(taken, matchParams(scope, params, p + 1, index));
+};
+
+const matchOverloads = (scope: Scope, overloads: Param[][], index: number): Result =>
+    overloads.map(params => matchParams(scope, params, 0, index)).reduce(better);
+
+const matchCommand = (scope: Scope, index: number): Result => {
+    const token = scope.tokens[index];
+    const name = token.text.replace(/^\//, '').toLowerCase();
+    const command = COMMAND_ALIASES[name] ?? name;
+    if (!COMMAND_SYNTAX[command]) {
+        return { problems: [], failure: { message: `Unknown command "${name}".`, start: token.start, end: token.end } };
+    }
+    if (command === 'execute' && scope.tokens[index + 1]?.text.startsWith('@')) {
+        const rest = scope.tokens[index + 1];
+        return { problems: [{
+            severity: 'warning',
+            message: 'This is the old /execute syntax, which only works in packs with a min_engine_version below 1.19.50. Use "execute as <target> at @s run <command>" instead.',
+            start: token.start,
+            end: rest.end,
+        }] };
+    }
+    return matchOverloads(scope, overloadsFor(command), index + 1);
+};
+
+// --- PUBLIC API ---
+
+/** Checks one command, without the leading slash or with it. Offsets in the result are into `command`. */
+export const lintCommand = (command: string): CommandProblem[] => {
+    const scope = { source: command, tokens: tokenizeCommand(command) };
+    if (scope.tokens.length === 0) return [];
+    const result = matchCommand(scope, 0);
+    return !result.failure ? result.problems : [{ severity: 'error', message: result.failure.message, start: result.failure.start, end: result.failure.end }];
+};
+
+/** Lines that hold a command, rather than a comment or nothing. */
+export const isCommandLine = (line: string) => line.trim() !== '' && !line.trimStart().startsWith('#');
+
+/** The name `function` uses for a file, e.g. "BP/functions/game/start.mcfunction" is "game/start". */
+export const functionNameFromPath = (path: string): string | null => /(?:^|\/)functions\/(.+)\.mcfunction$/.exec(path)?.[1] ?? null;
+
+export interface FunctionCall {
+    name: string;
+    line: number;
+    start: number;
+    end: number;
+    /** Whether an /execute if or unless guards the call. */
+    conditional: boolean;
+}
+
+/** Finds every `function` command in a file, including ones run through /execute. */
+export const findFunctionCalls = (content: string): FunctionCall[] =>
+    content.split(/\r?\n/).flatMap((line, i) => {
+        if (!isCommandLine(line)) return [];
+        const tokens = tokenizeCommand(line);
+        const name = (token?: CommandToken) => token?.text.replace(/^\//, '').toLowerCase();
+        let index = 0, conditional = false;
+        while (name(tokens[index]) === 'execute') {
+            const run = tokens.findIndex((t, j) => j > index && t.text === 'run');
+            if (run === -1) return [];
+            conditional = conditional || tokens.slice(index, run).some(t => t.text === 'if' || t.text === 'unless');
+            index = run + 1;
+        }
+        const target = tokens[index + 1];
+        if (name(tokens[index]) !== 'function' || !target) return [];
+        return [{ name: target.text.replace(/^"|"$/g, ''), line: i + 1, start: target.start, end: target.end, conditional }];
+    });
+
+/**
+ * Checks every command in a .mcfunction file. Pass the names of the project's functions to also
+ * report calls to functions that don't exist.
+ */
+export const lintFunction = (content: string, options: { functions?: Set<string> } = {}): CommandDiagnostic[] => {
+    const diagnostics = content.split(/\r?\n/).flatMap((line, i) =>
+        isCommandLine(line) ? lintCommand(line).map(problem => ({ ...problem, line: i + 1 })) : []);
+    if (options.functions) {
+        for (const call of findFunctionCalls(content)) {
+            if (!options.functions.has(call.name)) {
+                diagnostics.push({ severity: 'warning', message: `There's no function "${call.name}" in this project.`, line: call.line, start: call.start, end: call.end });
+            }
+        }
+    }
+    return diagnostics.sort((a, b) => a.line - b.line || a.start - b.start);
+};
+
+export interface FunctionCycle {
+    /** Function names around the loop, starting and ending with the same one. */
+    path: string[];
+    /** True when every call in the loop sits behind an /execute condition, so it may stop on its own. */
+    conditional: boolean;
+}
+
+/** Finds functions that call themselves, directly or through other functions. */
+export const findFunctionCycles = (functions: { [name: string]: string }): FunctionCycle[] => {
+    const edges = new Map<string, Map<string, boolean>>();
+    for (const [name, content] of Object.entries(functions)) {
+        const targets = new Map<string, boolean>();
+        for (const call of findFunctionCalls(content)) {
+            // One unconditional call is enough to make the edge unconditional.
+            targets.set(call.name, (targets.get(call.name) ?? true) && call.conditional);
+        }
+        edges.set(name, targets);
+    }
+
+    const cycles: FunctionCycle[] = [];
+    const seen = new Set<string>();
+    const done = new Set<string>();
+    const stack: string[] = [];
+    const visit = (name: string) => {
+        stack.push(name);
+        for (const [target] of edges.get(name) ?? []) {
+            const onStack = stack.indexOf(target);
+            if (onStack !== -1) {
+                const loop = stack.slice(onStack);
+                // The same loop is found once from each function in it; keep one, starting at the first name.
+                const first = loop.indexOf([...loop].sort()[0]);
+                const path = [...loop.slice(first), ...loop.slice(0, first)];
+                const key = path.join('>');
+                if (!seen.has(key)) {
+                    seen.add(key);
+                    const conditional = path.every((from, i) => edges.get(from)!.get(path[(i + 1) % path.length]));
+                    cycles.push({ path: [...path, path[0]], conditional });
+                }
+            } else if (edges.has(target) && !done.has(target)) {
+                visit(target);
+            }
+        }
+        stack.pop();
+        done.add(name);
+    };
+    for (const name of edges.keys()) if (!done.has(name)) visit(name);
+    return cycles;
+};
+
+// --- SUGGESTIONS ---
+
+export interface CommandSuggestion {
+    text: string;
+    /** What the suggestion is, such as "command" or the argument it fills. */
+    detail: string;
+}
+
+export interface CommandCompletion {
+    /** Offsets of the partly typed word the suggestions replace. */
+    from: number;
+    to: number;
+    suggestions: CommandSuggestion[];
+    /** Usage of the arguments that may come next, e.g. "<amount: int>". */
+    hints: string[];
+}
+
+interface NextParams {
+    params: Param[];
+    commands: boolean;
+}
+
+const collectParams = (scope: Scope, params: Param[], p: number, index: number, next: NextParams) => {
+    if (p === params.length) return;
+    const param = params[p];
+    const type = param.kind === 'argument' ? param.type : '';
+    if (type === 'command') return collectCommand(scope, index, next);
+    if (type === 'chain') return overloadsFor('execute').forEach(overload => collectParams(scope, overload, 0, index, next));
+    if (index === scope.tokens.length) {
+        next.params.push(param);
+    } else {
+        const read = readParam(scope, param, index);
+        if (read && 'next' in read) collectParams(scope, params, p + 1, read.next, next);
+    }
+    if (param.optional) collectParams(scope, params, p + 1, index, next);
+};
+
+const collectCommand = (scope: Scope, index: number, next: NextParams) => {
+    if (index === scope.tokens.length) {
+        next.commands = true;
+        return;
+    }
+    const name = scope.tokens[index].text.replace(/^\//, '').toLowerCase();
+    const command = COMMAND_ALIASES[name] ?? name;
+    overloadsFor(command).forEach(overload => collectParams(scope, overload, 0, index + 1, next));
+};
+
+const suggestionsFor = (param: Param, functions: string[]): CommandSuggestion[] => {
+    if (param.kind === 'literal') return param.values.map(text => ({ text, detail: 'keyword' }));
+    const detail = param.name;
+    if (param.values) return param.values.map(text => ({ text, detail }));
+    const list = (values: string[]) => values.map(text => ({ text, detail }));
+    switch (param.type) {
+        case 'target': case 'scoretarget': return list(SELECTOR_TYPES);
+        case 'bool': return list(['true', 'false']);
+        case 'pos': return list(['~ ~ ~', '^ ^ ^1']);
+        case 'pos2': return list(['~ ~']);
+        case 'angle': return list(['~']);
+        case 'operation': return list(OPERATIONS);
+        case 'compare': return list(COMPARISONS);
+        case 'function': return list(functions);
+        case 'item': case 'block': return list(VANILLA_ITEMS.map(item => item.id.replace(/^minecraft:/, '')));
+        default: return [];
+    }
+};
+
+const SELECTOR_ARGUMENT_PREFIX = /^@[A-Za-z]*\[(?:[^\]]*,)?\s*([a-z_]*)$/;
+
+/**
+ * Suggests how to finish the word at `cursor` in a command line: command names, keywords, selectors,
+ * selector arguments and values the grammar knows, plus the project's functions for `function`.
+ */
+export const suggestCommand = (line: string, cursor: number, options: { functions?: string[] } = {}): CommandCompletion => {
+    const before = line.slice(0, cursor);
+    const tokens = tokenizeCommand(before);
+    const last = tokens[tokens.length - 1];
+    const typing = last && last.end === before.length ? last : null;
+    const partial = typing?.text ?? '';
+    const from = typing?.start ?? before.length;
+    const matching = (suggestions: CommandSuggestion[]) => {
+        const seen = new Set<string>();
+        return suggestions.filter(s => {
+            if (seen.has(s.text) || !s.text.toLowerCase().startsWith(partial.toLowerCase()) || s.text === partial) return false;
+            seen.add(s.text);
+            return true;
+        }).slice(0, 50);
+    };
+
+    const selectorArgument = SELECTOR_ARGUMENT_PREFIX.exec(partial);
+    if (selectorArgument) {
+        const keyStart = from + partial.length - selectorArgument[1].length;
+        const suggestions = Object.keys(SELECTOR_ARGUMENTS)
+            .filter(key => key.startsWith(selectorArgument[1]))
+            .map(key => ({ text: `${key}=`, detail: 'selector argument' }));
+        return { from: keyStart, to: cursor, suggestions, hints: [] };
+    }
+
+    const scope = { source: before, tokens: typing ? tokens.slice(0, -1) : tokens };
+    const next: NextParams = { params: [], commands: false };
+    collectCommand(scope, 0, next);
+    const suggestions = [
+        ...(next.commands ? Object.keys(COMMAND_SYNTAX).map(text => ({ text, detail: 'command' })) : []),
+        ...next.params.flatMap(param => suggestionsFor(param, options.functions ?? [])),
+    ];
+    const hints = [...new Set(next.params
+        .filter((param): param is Extract<Param, { kind: 'argument' }> => param.kind === 'argument' && !param.values)
+        .map(param => `<${param.name}: ${param.type}>`))];
+    return { from, to: cursor, suggestions: matching(suggestions), hints };
+};
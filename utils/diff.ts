@@ -0,0 +1,315 @@
+import { GeneratedFile } from '../types';
+import { parseAddonJson } from './addonValidator';
+
+export type FileChangeStatus = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export interface TextHunkRange {
+    oldStart: number;
+    oldLength: number;
+    newLines: string[];
+}
+
+export interface JsonEdit {
+    segments: (string | number)[];
+    kind: 'add' | 'remove' | 'replace';
+    value?: any;
+}
+
+export interface DiffLine {
+    type: 'equal' | 'add' | 'remove';
+    text: string;
+}
+
+/**
+ * One independently acceptable change. Text hunks cover a run of changed lines (plus surrounding context
+ * for display); JSON hunks cover a single changed value, identified by its JSON pointer.
+ */
+export interface DiffHunk {
+    id: string;
+    pointer?: string;
+    lines: DiffLine[];
+    textRange?: TextHunkRange;
+    jsonEdit?: JsonEdit;
+}
+
+export interface FileChange {
+    path: string;
+    status: FileChangeStatus;
+    oldContent: string | null;
+    newContent: string | null;
+    /** True when both versions parsed as JSON and were compared structurally instead of line by line. */
+    isStructural: boolean;
+    hunks: DiffHunk[];
+}
+
+const CONTEXT_LINES = 3;
+// Above this many cells the line diff gives up on finding a minimal diff and treats the changed middle as one hunk.
+const MAX_DIFF_CELLS = 4_000_000;
+
+const splitLines = (content: string) => content.split('\n');
+
+/**
+ * Computes a line diff using the longest common subsequence of the lines that differ
+ * after trimming the common prefix and suffix.
+ */
+export const diffLines = (oldLines: string[], newLines: string[]): DiffLine[] => {
+    let prefix = 0;
+    while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < oldLines.length - prefix && suffix < newLines.length - prefix && oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]) suffix++;
+
+    const a = oldLines.slice(prefix, oldLines.length - suffix);
+    const b = newLines.slice(prefix, newLines.length - suffix);
+    const middle: DiffLine[] = [];
+
+    if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+        a.forEach(text => middle.push({ type: 'remove', text }));
+        b.forEach(text => middle.push({ type: 'add', text }));
+    } else {
+        const width = b.length + 1;
+        const lengths = new Uint32Array((a.length + 1) * width);
+        for (let i = a.length - 1; i >= 0; i--) {
+            for (let j = b.length - 1; j >= 0; j--) {
+                lengths[i * width + j] = a[i] === b[j]
+                    ? lengths[(i + 1) * width + j + 1] + 1
+                    : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+            }
+        }
+        let i = 0;
+        let j = 0;
+        while (i < a.length && j < b.length) {
+            if (a[i] === b[j]) {
+                middle.push({ type: 'equal', text: a[i] });
+                i++;
+                j++;
+            } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+                middle.push({ type: 'remove', text: a[i++] });
+            } else {
+                middle.push({ type: 'add', text: b[j++] });
+            }
+        }
+        while (i < a.length) middle.push({ type: 'remove', text: a[i++] });
+        while (j < b.length) middle.push({ type: 'add', text: b[j++] });
+    }
+
+    return [
+        ...oldLines.slice(0, prefix).map(text => ({ type: 'equal' as const, text })),
+        ...middle,
+        ...oldLines.slice(oldLines.length - suffix).map(text => ({ type: 'equal' as const, text })),
+    ];
+};
+
+const buildTextHunks = (path: string, oldContent: string, newContent: string): DiffHunk[] => {
+    const ops = diffLines(splitLines(oldContent), splitLines(newContent));
+    const hunks: DiffHunk[] = [];
+    let oldIndex = 0;
+    let i = 0;
+
+    while (i < ops.length) {
+        if (ops[i].type === 'equal') {
+            oldIndex++;
+            i++;
+            continue;
+        }
+        const start = i;
+        const oldStart = oldIndex;
+        const newLines: string[] = [];
+        while (i < ops.length && ops[i].type !== 'equal') {
+            if (ops[i].type === 'remove') oldIndex++;
+            else newLines.push(ops[i].text);
+            i++;
+        }
+        const before = ops.slice(Math.max(0, start - CONTEXT_LINES), start);
+        const after = ops.slice(i, i + CONTEXT_LINES).filter(op => op.type === 'equal');
+        hunks.push({
+            id: `${path}#${hunks.length}`,
+            lines: [...before, ...ops.slice(start, i), ...after],
+            textRange: { oldStart, oldLength: oldIndex - oldStart, newLines },
+        });
+    }
+    return hunks;
+};
+
+const isPlainObject = (value: any): boolean => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toPointer = (segments: (string | number)[]) =>
+    segments.map(s => '/' + String(s).replace(/~/g, '~0').replace(/\//g, '~1')).join('') || '/';
+
+const prettyLines = (value: any) => JSON.stringify(value, null, 2).split('\n');
+
+/**
+ * Walks both values and returns one edit per changed value. Objects are compared key by key and
+ * equal-length arrays element by element; arrays that changed length are replaced as a whole so
+ * edits never shift each other's indexes.
+ */
+const diffJsonValues = (oldValue: any, newValue: any, segments: (string | number)[] = []): JsonEdit[] => {
+    if (isPlainObject(oldValue) && isPlainObject(newValue)) {
+        const edits: JsonEdit[] = [];
+        for (const key of Object.keys(oldValue)) {
+            if (!(key in newValue)) edits.push({ segments: [...segments, key], kind: 'remove' });
+            else edits.push(...diffJsonValues(oldValue[key], newValue[key], [...segments, key]));
+        }
+        for (const key of Object.keys(newValue)) {
+            if (!(key in oldValue)) edits.push({ segments: [...segments, key], kind: 'add', value: newValue[key] });
+        }
+        return edits;
+    }
+    if (Array.isArray(oldValue) && Array.isArray(newValue) && oldValue.length === newValue.length) {
+        return oldValue.flatMap((item, index) => diffJsonValues(item, newValue[index], [...segments, index]));
+    }
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) return [];
+    return [{ segments, kind: 'replace', value: newValue }];
+};
+
+const getAt = (root: any, segments: (string | number)[]) => segments.reduce((node, segment) => node?.[segment], root);
+
+const buildJsonHunks = (path: string, oldJson: any, newJson: any): DiffHunk[] =>
+    diffJsonValues(oldJson, newJson).map((edit, index): DiffHunk => {
+        const oldValue = edit.kind === 'add' ? undefined : getAt(oldJson, edit.segments);
+        const lines: DiffLine[] = [
+            ...(edit.kind === 'add' ? [] : prettyLines(oldValue).map(text => ({ type: 'remove' as const, text }))),
+            ...(edit.kind === 'remove' ? [] : prettyLines(edit.value).map(text => ({ type: 'add' as const, text }))),
+        ];
+        return { id: `${path}#${index}`, pointer: toPointer(edit.segments), lines, jsonEdit: edit };
+    });
+
+const tryParseJson = (path: string, content: string): { ok: boolean; value?: any } => {
+    if (!path.toLowerCase().endsWith('.json')) return { ok: false };
+    try {
+        return { ok: true, value: parseAddonJson(content) };
+    } catch {
+        return { ok: false };
+    }
+};
+
+const wholeFileHunk = (path: string, content: string, type: 'add' | 'remove'): DiffHunk => ({
+    id: `${path}#0`,
+    lines: splitLines(content).map(text => ({ type, text })),
+});
+
+/**
+ * Classifies every file in either set as added, removed, modified or unchanged. JSON files that parse on
+ * both sides are diffed structurally, so reformatting alone counts as unchanged.
+ */
+export const compareFileSets = (currentFiles: GeneratedFile[], proposedFiles: GeneratedFile[]): FileChange[] => {
+    const current = new Map(currentFiles.map(f => [f.path, f.content]));
+    const proposed = new Map(proposedFiles.map(f => [f.path, f.content]));
+    const paths = [...new Set([...current.keys(), ...proposed.keys()])].sort((a, b) => a.localeCompare(b));
+
+    return paths.map((path): FileChange => {
+        const oldContent = current.has(path) ? current.get(path)! : null;
+        const newContent = proposed.has(path) ? proposed.get(path)! : null;
+
+        if (oldContent === null) {
+            return { path, status: 'added', oldContent, newContent, isStructural: false, hunks: [wholeFileHunk(path, newContent!, 'add')] };
+        }
+        if (newContent === null) {
+            return { path, status: 'removed', oldContent, newContent, isStructural: false, hunks: [wholeFileHunk(path, oldContent, 'remove')] };
+        }
+        if (oldContent === newContent) {
+            return { path, status: 'unchanged', oldContent, newContent, isStructural: false, hunks: [] };
+        }
+
+        const oldJson = tryParseJson(path, oldContent);
+        const newJson = tryParseJson(path, newContent);
+        if (oldJson.ok && newJson.ok) {
+            const hunks = buildJsonHunks(path, oldJson.value, newJson.value);
+            return { path, status: hunks.length > 0 ? 'modified' : 'unchanged', oldContent, newContent, isStructural: true, hunks };
+        }
+        return { path, status: 'modified', oldContent, newContent, isStructural: false, hunks: buildTextHunks(path, oldContent, newContent) };
+    });
+};
+
+const applyJsonEdits = (oldContent: string, edits: JsonEdit[]): string => {
+    let root = parseAddonJson(oldContent);
+    for (const edit of edits) {
+        if (edit.segments.length === 0) {
+            root = edit.value;
+            continue;
+        }
+        const parent = getAt(root, edit.segments.slice(0, -1));
+        const key = edit.segments[edit.segments.length - 1];
+        if (edit.kind === 'remove') delete parent[key];
+        else parent[key] = edit.value;
+    }
+    return JSON.stringify(root, null, 2);
+};
+
+const applyTextRanges = (oldContent: string, ranges: TextHunkRange[]): string => {
+    const oldLines = splitLines(oldContent);
+    const result: string[] = [];
+    let cursor = 0;
+    for (const range of [...ranges].sort((a, b) => a.oldStart - b.oldStart)) {
+        result.push(...oldLines.slice(cursor, range.oldStart), ...range.newLines);
+        cursor = range.oldStart + range.oldLength;
+    }
+    result.push(...oldLines.slice(cursor));
+    return result.join('\n');
+};
+
+/**
+ * Returns the content a file should have once only the accepted hunks are applied, or null if the file should not exist.
+ */
+export const applyFileChange = (change: FileChange, acceptedHunkIds: Set<string>): string | null => {
+    const accepted = change.hunks.filter(h => acceptedHunkIds.has(h.id));
+    switch (change.status) {
+        case 'unchanged':
+            return change.oldContent;
+        case 'added':
+            return accepted.length > 0 ? change.newContent : null;
+        case 'removed':
+            return accepted.length > 0 ? null : change.oldContent;
+        case 'modified':
+            if (accepted.length === change.hunks.length) return change.newContent;
+            if (accepted.length === 0) return change.oldContent;
+            return change.isStructural
+                ? applyJsonEdits(change.oldContent!, accepted.map(h => h.jsonEdit!))
+                : applyTextRanges(change.oldContent!, accepted.map(h => h.textRange!));
+    }
+};
+
+/**
+ * Builds the final file set from a review, keeping the current order and appending accepted new files.
+ */
+export const applyReview = (currentFiles: GeneratedFile[], changes: FileChange[], acceptedHunkIds: Set<string>): GeneratedFile[] => {
+    const results = new Map(changes.map(change => [change.path, applyFileChange(change, acceptedHunkIds)]));
+    const files: GeneratedFile[] = [];
+    for (const file of currentFiles) {
+        const content = results.get(file.path);
+        if (content !== null && content !== undefined) files.push({ path: file.path, content });
+    }
+    for (const change of changes) {
+        const content = results.get(change.path);
+        if (change.status === 'added' && content !== null && content !== undefined) files.push({ path: change.path, content });
+    }
+    return files;
+};
+
+/**
+ * Carries a reviewed result over to files that were edited after the review was made. Files the review
+ * left alone keep their current content; files the review changed take the reviewed content, unless
+ * they were also edited since, in which case their paths are returned as conflicts.
+ */
+export const rebaseReview = (baseFiles: GeneratedFile[], currentFiles: GeneratedFile[], reviewedFiles: GeneratedFile[]): { files: GeneratedFile[]; conflicts: string[] } => {
+    const base = new Map(baseFiles.map(f => [f.path, f.content]));
+    const current = new Map(currentFiles.map(f => [f.path, f.content]));
+    const reviewed = new Map(reviewedFiles.map(f => [f.path, f.content]));
+    const conflicts: string[] = [];
+    const results = new Map<string, string | undefined>();
+
+    for (const path of new Set([...base.keys(), ...current.keys(), ...reviewed.keys()])) {
+        const before = base.get(path);
+        const now = current.get(path);
+        const after = reviewed.get(path);
+        if (now === before) results.set(path, after);
+        else if (after === before || after === now) results.set(path, now);
+        else conflicts.push(path);
+    }
+
+    const files: GeneratedFile[] = [];
+    for (const file of [...currentFiles, ...reviewedFiles.filter(f => !current.has(f.path))]) {
+        const content = results.get(file.path);
+        if (content !== undefined) files.push({ path: file.path, content });
+    }
+    return { files, conflicts: conflicts.sort((a, b) => a.localeCompare(b)) };
+};
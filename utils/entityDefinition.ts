@@ -0,0 +1,264 @@
+import { shortName } from './addonTemplates';
+import { parseAddonJson } from './addonValidator';
+
+export type MovementType = 'walk' | 'fly' | 'swim';
+
+/** Health, movement and collision values an entity preset fills in. */
+export interface EntityStats {
+    health: number;
+    movementSpeed: number;
+    movementType: MovementType;
+    collisionWidth: number;
+    collisionHeight: number;
+    attackDamage: number;
+}
+
+/** A `minecraft:behavior.*` goal. `params` is the JSON text of the goal's settings, edited by hand. */
+export interface EntityBehavior {
+    id: string;
+    priority: number;
+    params: string;
+}
+
+export interface ComponentGroup {
+    name: string;
+    components: string;
+}
+
+export interface EntityEvent {
+    name: string;
+    add: string[];
+    remove: string[];
+}
+
+/** An animation from the uploaded .animation.json, played while `condition` is true (always, if it's empty). */
+export interface EntityAnimation {
+    name: string;
+    animation: string;
+    enabled: boolean;
+    condition: string;
+}
+
+export interface SpawnEgg {
+    enabled: boolean;
+    baseColor: string;
+    overlayColor: string;
+}
+
+export interface EntityDefinition {
+    identifier: string;
+    families: string[];
+    stats: EntityStats;
+    behaviors: EntityBehavior[];
+    componentGroups: ComponentGroup[];
+    events: EntityEvent[];
+    spawnEgg: SpawnEgg;
+    geometryId: string;
+    animations: EntityAnimation[];
+    lookAtTarget: boolean;
+}
+
+export const ENTITY_PRESETS: { id: string; label: string; stats: EntityStats; families: string[] }[] = [
+    { id: 'small_passive', label: 'Small Passive (Chicken)', stats: { health: 4, movementSpeed: 0.25, movementType: 'walk', collisionWidth: 0.4, collisionHeight: 0.7, attackDamage: 0 }, families: ['mob'] },
+    { id: 'passive', label: 'Passive (Cow)', stats: { health: 10, movementSpeed: 0.25, movementType: 'walk', collisionWidth: 0.9, collisionHeight: 1.4, attackDamage: 0 }, families: ['mob'] },
+    { id: 'hostile', label: 'Hostile (Zombie)', stats: { health: 20, movementSpeed: 0.23, movementType: 'walk', collisionWidth: 0.6, collisionHeight: 1.9, attackDamage: 3 }, families: ['monster', 'mob'] },
+    { id: 'large', label: 'Large (Iron Golem)', stats: { health: 100, movementSpeed: 0.25, movementType: 'walk', collisionWidth: 1.4, collisionHeight: 2.9, attackDamage: 15 }, families: ['mob'] },
+    { id: 'flying', label: 'Flying (Bee)', stats: { health: 10, movementSpeed: 0.3, movementType: 'fly', collisionWidth: 0.55, collisionHeight: 0.5, attackDamage: 2 }, families: ['mob'] },
+    { id: 'aquatic', label: 'Aquatic (Cod)', stats: { health: 6, movementSpeed: 0.1, movementType: 'swim', collisionWidth: 0.5, collisionHeight: 0.3, attackDamage: 0 }, families: ['fish', 'mob'] },
+];
+
+/** Common goals with vanilla-like default settings. */
+export const BEHAVIOR_CATALOG: { id: string; label: string; priority: number; params: object }[] = [
+    { id: 'minecraft:behavior.float', label: 'Float in water', priority: 0, params: {} },
+    { id: 'minecraft:behavior.panic', label: 'Panic when hurt', priority: 1, params: { speed_multiplier: 1.25 } },
+    { id: 'minecraft:behavior.melee_attack', label: 'Melee attack', priority: 2, params: { speed_multiplier: 1, track_target: true } },
+    { id: 'minecraft:behavior.hurt_by_target', label: 'Fight back when hurt', priority: 1, params: {} },
+    { id: 'minecraft:behavior.nearest_attackable_target', label: 'Target nearby players', priority: 2, params: { must_see: true, reselect_targets: true, entity_types: [{ filters: { test: 'is_family', subject: 'other', value: 'player' }, max_dist: 16 }] } },
+    { id: 'minecraft:behavior.avoid_mob_type', label: 'Avoid a mob type', priority: 3, params: { entity_types: [{ filters: { test: 'is_family', subject: 'other', value: 'player' }, max_dist: 6, walk_speed_multiplier: 1, sprint_speed_multiplier: 1.2 }] } },
+    { id: 'minecraft:behavior.tempt', label: 'Follow players holding an item', priority: 4, params: { speed_multiplier: 1.25, items: ['wheat'] } },
+    { id: 'minecraft:behavior.breed', label: 'Breed', priority: 3, params: { speed_multiplier: 1 } },
+    { id: 'minecraft:behavior.follow_parent', label: 'Follow parent', priority: 5, params: { speed_multiplier: 1.1 } },
+    { id: 'minecraft:behavior.random_stroll', label: 'Wander', priority: 6, params: { speed_multiplier: 0.8 } },
+    { id: 'minecraft:behavior.random_fly', label: 'Wander while flying', priority: 6, params: { xz_dist: 8, y_dist: 4, can_land_on_trees: true } },
+    { id: 'minecraft:behavior.random_swim', label: 'Wander while swimming', priority: 6, params: { speed_multiplier: 1, xz_dist: 16, y_dist: 4 } },
+    { id: 'minecraft:behavior.look_at_player', label: 'Look at players', priority: 7, params: { look_distance: 6, probability: 0.02 } },
+    { id: 'minecraft:behavior.random_look_around', label: 'Look around', priority: 8, params: {} },
+];
+
+// Components each movement type needs for the entity to move and path-find.
+const MOVEMENT_COMPONENTS: { [type in MovementType]: object } = {
+    walk: {
+        'minecraft:movement.basic': {},
+        'minecraft:navigation.walk': { can_path_over_water: true, avoid_damage_blocks: true },
+        'minecraft:jump.static': {},
+    },
+    fly: {
+        'minecraft:movement.fly': {},
+        'minecraft:navigation.fly': { can_path_over_water: true, can_path_from_air: true },
+        'minecraft:can_fly': {},
+        'minecraft:flying_speed': { value: 0.6 },
+    },
+    swim: {
+        'minecraft:movement.sway': { sway_amplitude: 0 },
+        'minecraft:navigation.generic': { can_path_over_water: false, can_swim: true, can_walk: false, can_breach: false },
+        'minecraft:underwater_movement': { value: 0.1 },
+        'minecraft:breathable': { breathes_water: true, breathes_air: false },
+    },
+};
+
+const parseObject = (text: string) => {
+    const value = text.trim() ? parseAddonJson(text) : {};
+    if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error('must be a JSON object');
+    return value;
+};
+
+/**
+ * Builds the behavior pack entity file. Assumes the definition passed `validateEntityDefinition`.
+ */
+export const buildBehaviorEntity = (definition: EntityDefinition) => {
+    const { stats } = definition;
+    const behaviors = Object.fromEntries(definition.behaviors.map(behavior => [behavior.id, { priority: behavior.priority, ...parseObject(behavior.params) }]));
+    return {
+        format_version: '1.21.10',
+        'minecraft:entity': {
+            description: {
+                identifier: definition.identifier,
+                is_spawnable: definition.spawnEgg.enabled,
+                is_summonable: true,
+            },
+            ...(definition.componentGroups.length > 0 && {
+                component_groups: Object.fromEntries(definition.componentGroups.map(group => [group.name, parseObject(group.components)])),
+            }),
+            components: {
+                'minecraft:type_family': { family: [shortName(definition.identifier), ...definition.families] },
+                'minecraft:health': { value: stats.health, max: stats.health },
+                'minecraft:movement': { value: stats.movementSpeed },
+                ...MOVEMENT_COMPONENTS[stats.movementType],
+                'minecraft:collision_box': { width: stats.collisionWidth, height: stats.collisionHeight },
+                ...(stats.attackDamage > 0 && { 'minecraft:attack': { damage: stats.attackDamage } }),
+                'minecraft:physics': {},
+                'minecraft:pushable': { is_pushable: true, is_pushable_by_piston: true },
+                ...behaviors,
+            },
+            ...(definition.events.length > 0 && {
+                events: Object.fromEntries(definition.events.map(event => [event.name, {
+                    ...(event.add.length > 0 && { add: { component_groups: event.add } }),
+                    ...(event.remove.length > 0 && { remove: { component_groups: event.remove } }),
+                }])),
+            }),
+        },
+    };
+};
+
+export const renderControllerId = (identifier: string) => `controller.render.${shortName(identifier)}`;
+
+/**
+ * Builds the resource pack client entity, which ties the geometry, texture, render controller and animations together.
+ */
+export const buildClientEntity = (definition: EntityDefinition, texturePath: string) => {
+    const animations = definition.animations.filter(animation => animation.enabled);
+    const animationRefs: { [name: string]: string } = Object.fromEntries(animations.map(animation => [animation.name, animation.animation]));
+    const animate: (string | { [name: string]: string })[] = animations.map(animation => (animation.condition.trim() ? { [animation.name]: animation.condition.trim() } : animation.name));
+    if (definition.lookAtTarget) {
+        animationRefs.look_at_target = 'animation.common.look_at_target';
+        animate.unshift('look_at_target');
+    }
+    return {
+        format_version: '1.10.0',
+        'minecraft:client_entity': {
+            description: {
+                identifier: definition.identifier,
+                materials: { default: 'entity_alphatest' },
+                textures: { default: texturePath },
+                geometry: { default: definition.geometryId },
+                render_controllers: [renderControllerId(definition.identifier)],
+                ...(Object.keys(animationRefs).length > 0 && { animations: animationRefs, scripts: { animate } }),
+                ...(definition.spawnEgg.enabled && { spawn_egg: { base_color: definition.spawnEgg.baseColor, overlay_color: definition.spawnEgg.overlayColor } }),
+            },
+        },
+    };
+};
+
+export const buildRenderController = (identifier: string) => ({
+    format_version: '1.8.0',
+    render_controllers: {
+        [renderControllerId(identifier)]: {
+            geometry: 'Geometry.default',
+            materials: [{ '*': 'Material.default' }],
+            textures: ['Texture.default'],
+        },
+    },
+});
+
+/**
+ * Lists the animations in an .animation.json, naming each after the last part of its identifier
+ * (`animation.phoenix.walk` becomes `walk`). Walk and idle animations are turned on with a sensible default
+ * condition; others (attacks, emotes) are off until the user decides when they should play.
+ */
+export const readAnimations = (content: string): EntityAnimation[] => {
+    const json = parseAddonJson(content);
+    if (!json?.animations || typeof json.animations !== 'object') throw new Error('No "animations" found. Export the animations from Blockbench as a Bedrock .animation.json.');
+    return Object.keys(json.animations).map(animation => {
+        const name = animation.split('.').pop() || animation;
+        const condition = /walk|move|run/.test(name) ? 'q.modified_move_speed > 0.1' : /idle/.test(name) ? 'q.modified_move_speed <= 0.1' : '';
+        return { name, animation, enabled: condition !== '', condition };
+    });
+};
+
+const NAME_PATTERN = /^[a-z0-9_:.]+$/;
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+const checkNames = (kind: string, names: string[], errors: string[]) => {
+    names.forEach((name, index) => {
+        if (!NAME_PATTERN.test(name)) errors.push(`${kind} ${index + 1}: names may only use lowercase letters, numbers, _, : and .`);
+        else if (names.indexOf(name) !== index) errors.push(`${kind} "${name}" is defined twice.`);
+    });
+};
+
+/**
+ * Checks an entity definition and returns every problem found, so the form can list them all at once.
+ */
+export const validateEntityDefinition = (definition: EntityDefinition): string[] => {
+    const errors: string[] = [];
+    const { stats } = definition;
+    if (!(stats.health > 0)) errors.push('Health must be above 0.');
+    if (!(stats.movementSpeed >= 0)) errors.push('Movement speed can\'t be negative.');
+    if (!(stats.collisionWidth > 0 && stats.collisionHeight > 0)) errors.push('Collision width and height must be above 0.');
+    if (!(stats.attackDamage >= 0)) errors.push('Attack damage can\'t be negative.');
+    if (definition.families.some(family => !/^[a-z0-9_]+$/.test(family))) errors.push('Families may only use lowercase letters, numbers and underscores.');
+
+    definition.behaviors.forEach(behavior => {
+        if (!(Number.isInteger(behavior.priority) && behavior.priority >= 0)) errors.push(`${behavior.id}: priority must be a whole number of at least 0.`);
+        try {
+            parseObject(behavior.params);
+        } catch (e) {
+            errors.push(`${behavior.id}: settings ${(e as Error).message}.`);
+        }
+    });
+    const behaviorIds = definition.behaviors.map(behavior => behavior.id);
+    behaviorIds.forEach((id, index) => {
+        if (behaviorIds.indexOf(id) !== index) errors.push(`${id} is added twice. An entity can only have each behavior once.`);
+    });
+
+    const groupNames = definition.componentGroups.map(group => group.name);
+    checkNames('Component group', groupNames, errors);
+    definition.componentGroups.forEach(group => {
+        try {
+            parseObject(group.components);
+        } catch (e) {
+            errors.push(`Component group "${group.name}": components ${(e as Error).message}.`);
+        }
+    });
+    checkNames('Event', definition.events.map(event => event.name), errors);
+    definition.events.forEach(event => {
+        if (event.add.length === 0 && event.remove.length === 0) errors.push(`Event "${event.name}" doesn't add or remove any component group.`);
+        const missing = [...event.add, ...event.remove].filter(group => !groupNames.includes(group));
+        if (missing.length > 0) errors.push(`Event "${event.name}" uses unknown component groups: ${missing.join(', ')}.`);
+    });
+
+    if (definition.spawnEgg.enabled && !(COLOR_PATTERN.test(definition.spawnEgg.baseColor) && COLOR_PATTERN.test(definition.spawnEgg.overlayColor))) {
+        errors.push('Spawn egg colors must be hex colors like #3A7D44.');
+    }
+    checkNames('Animation', definition.animations.filter(animation => animation.enabled).map(animation => animation.name), errors);
+    return errors;
+};
@@ -1,5 +1,7 @@
 import JSZip, { JSZipObject } from 'jszip';
 import { UploadedFile, GeneratedFile, AssetMapping } from '../types';
+import { PackInfo, findPacks, findPackForPath, pathInPack } from './packs';
+import { createLevelDat } from './levelDat';
 
 /**
  * Converts a File object to a base64 encoded string.
@@ -17,27 +19,14 @@ export const fileToBase64 = (file: File): Promise<string> => {
   });
 };
 
-/**
- * Creates a zip file from the generated files and initiates a download.
- */
-export const downloadAddon = async (
-  addonName: string,
-  files: GeneratedFile[],
-  uploadedFiles: UploadedFile[],
-  assetMappings: AssetMapping[]
-) => {
-  const zip = new JSZip();
+type ZipEntry = { path: string; content: string | Blob };
 
-  // Add generated files to the zip
-  files.forEach((file) => {
-    zip.file(file.path, file.content);
-  });
+export type ExportFormat = 'mcaddon' | 'mcpack' | 'mcworld' | 'mctemplate';
 
-  // Add original assets that were mapped to new paths.
-  for (const mapping of assetMappings) {
-    let found = false;
-    let targetFile: File | null = null;
-    
+/**
+ * Finds the content of an asset mapping among the uploaded files, falling back to searching inside uploaded archives.
+ */
+const resolveAssetContent = async (mapping: AssetMapping, uploadedFiles: UploadedFile[]): Promise<Blob | null> => {
     // The AI might provide a full path or just a filename for originalPath.
     // The uploadedFiles list can contain loose files or files extracted from zips (with full internal paths).
     // Strategy:
@@ -50,61 +39,186 @@ export const downloadAddon = async (
         // Prefer an exact match if available among the potential matches.
         const exactMatch = looseMatches.find(uf => uf.file.name === mapping.originalPath);
         if (exactMatch) {
-            targetFile = exactMatch.file;
-        } else {
-            if (looseMatches.length > 1) {
-                console.warn(`Ambiguous asset mapping for '${mapping.originalPath}'. Multiple files matched: ${looseMatches.map(f => f.file.name).join(', ')}. Using the first one found: '${looseMatches[0].file.name}'.`);
-            }
-            targetFile = looseMatches[0].file;
+            return exactMatch.file;
         }
+        if (looseMatches.length > 1) {
+            console.warn(`Ambiguous asset mapping for '${mapping.originalPath}'. Multiple files matched: ${looseMatches.map(f => f.file.name).join(', ')}. Using the first one found: '${looseMatches[0].file.name}'.`);
+        }
+        return looseMatches[0].file;
     }
 
-    if (targetFile) {
-        zip.file(mapping.newPath, targetFile);
-        found = true;
-    } else {
-        // Fallback: search inside any zips that might not have been pre-processed.
-        // This is mainly for edge cases, as Combine/Fix tools pre-unzip everything.
-        for (const uf of uploadedFiles) {
-            const fileName = uf.file.name.toLowerCase();
-            if (fileName.endsWith('.zip') || fileName.endsWith('.mcaddon') || fileName.endsWith('.mcpack')) {
-                try {
-                    const uploadedZip = await JSZip.loadAsync(uf.file);
-                    // Fix: `assetFile.async` caused an error because `assetFile` was of type `unknown`.
-                    // This can happen if the project's TypeScript configuration causes `Object.values` to return `unknown[]`.
-                    // By casting the result to `JSZipObject[]`, we ensure TypeScript can correctly infer the types
-                    // for both `file` in the callback and `assetFile` itself, resolving the error.
-                    const assetFile = (Object.values(uploadedZip.files) as JSZipObject[]).find(
-                        (file) => !file.dir && file.name.endsWith(mapping.originalPath)
-                    );
-
-                    if (assetFile) {
-                        const assetContent = await assetFile.async('blob');
-                        zip.file(mapping.newPath, assetContent);
-                        found = true;
-                        break;
-                    }
-                } catch (e) {
-                    console.error(`Error reading zip file ${uf.file.name} while searching for asset ${mapping.originalPath}`, e);
+    // Fallback: search inside any zips that might not have been pre-processed.
+    // This is mainly for edge cases, as Combine/Fix tools pre-unzip everything.
+    for (const uf of uploadedFiles) {
+        const fileName = uf.file.name.toLowerCase();
+        if (fileName.endsWith('.zip') || fileName.endsWith('.mcaddon') || fileName.endsWith('.mcpack')) {
+            try {
+                const uploadedZip = await JSZip.loadAsync(uf.file);
+                // Fix: `assetFile.async` caused an error because `assetFile` was of type `unknown`.
+                // This can happen if the project's TypeScript configuration causes `Object.values` to return `unknown[]`.
+                // By casting the result to `JSZipObject[]`, we ensure TypeScript can correctly infer the types
+                // for both `file` in the callback and `assetFile` itself, resolving the error.
+                const assetFile = (Object.values(uploadedZip.files) as JSZipObject[]).find(
+                    (file) => !file.dir && file.name.endsWith(mapping.originalPath)
+                );
+
+                if (assetFile) {
+                    return await assetFile.async('blob');
                 }
+            } catch (e) {
+                console.error(`Error reading zip file ${uf.file.name} while searching for asset ${mapping.originalPath}`, e);
             }
         }
     }
+    return null;
+};
 
-    if (!found) {
+/**
+ * Collects the generated files and the mapped assets, each at its path inside the addon.
+ */
+const collectAddonEntries = async (
+  files: GeneratedFile[],
+  uploadedFiles: UploadedFile[],
+  assetMappings: AssetMapping[]
+): Promise<ZipEntry[]> => {
+  const entries: ZipEntry[] = files.map(file => ({ path: file.path, content: file.content }));
+  for (const mapping of assetMappings) {
+    const content = await resolveAssetContent(mapping, uploadedFiles);
+    if (content) {
+        entries.push({ path: mapping.newPath, content });
+    } else {
         console.warn(`Asset for mapping '${mapping.originalPath}' -> '${mapping.newPath}' not found in any uploaded files or zips.`);
     }
   }
+  return entries;
+};
 
-  const content = await zip.generateAsync({ type: 'blob' });
+const saveBlob = (content: Blob, fileName: string) => {
   const link = document.createElement('a');
   link.href = URL.createObjectURL(content);
-  link.download = `${addonName}.mcaddon`;
+  link.download = fileName;
   document.body.appendChild(link);
   link.click();
   document.body.removeChild(link);
 };
 
+const toSafeFileName = (name: string, fallback: string) => name.replace(/[^a-zA-Z0-9_ -]/g, '').trim() || fallback;
+
+/**
+ * Creates a zip file from the generated files and initiates a download.
+ */
+export const downloadAddon = async (
+  addonName: string,
+  files: GeneratedFile[],
+  uploadedFiles: UploadedFile[],
+  assetMappings: AssetMapping[]
+) => {
+  const zip = new JSZip();
+  for (const entry of await collectAddonEntries(files, uploadedFiles, assetMappings)) {
+    zip.file(entry.path, entry.content);
+  }
+
+  const content = await zip.generateAsync({ type: 'blob' });
+  saveBlob(content, `${addonName}.mcaddon`);
+};
+
+/**
+ * Splits the addon into its packs. Entries outside every pack are returned separately so callers can report them.
+ */
+const groupEntriesByPack = (entries: ZipEntry[], packs: PackInfo[]) => {
+  const byPack = new Map<PackInfo, ZipEntry[]>(packs.map(pack => [pack, []]));
+  const unplaced: string[] = [];
+  for (const entry of entries) {
+    const pack = findPackForPath(packs, entry.path);
+    if (pack) byPack.get(pack)!.push({ path: pathInPack(pack, entry.path), content: entry.content });
+    else unplaced.push(entry.path);
+  }
+  return { byPack, unplaced };
+};
+
+const findPacksOrThrow = (files: GeneratedFile[]) => {
+  const packs = findPacks(files);
+  if (packs.length === 0) {
+    throw new Error('No behavior or resource pack manifest.json was found, so the addon cannot be split into packs.');
+  }
+  return packs;
+};
+
+/**
+ * Downloads every behavior and resource pack as its own .mcpack. Returns the paths that belong to no pack and were left out.
+ */
+export const downloadPacks = async (
+  files: GeneratedFile[],
+  uploadedFiles: UploadedFile[],
+  assetMappings: AssetMapping[]
+): Promise<string[]> => {
+  const packs = findPacksOrThrow(files);
+  const { byPack, unplaced } = groupEntriesByPack(await collectAddonEntries(files, uploadedFiles, assetMappings), packs);
+  for (const pack of packs) {
+    const zip = new JSZip();
+    byPack.get(pack)!.forEach(entry => zip.file(entry.path, entry.content));
+    const suffix = pack.kind === 'behavior' ? 'BP' : 'RP';
+    saveBlob(await zip.generateAsync({ type: 'blob' }), `${toSafeFileName(pack.name, suffix)}_${suffix}.mcpack`);
+  }
+  return unplaced;
+};
+
+// world_*_packs.json wants versions as arrays, while format_version 3 manifests may use "1.2.3" strings.
+const toVersionArray = (version: PackInfo['version']): number[] =>
+  Array.isArray(version) ? version : version.split(/[.-]/).slice(0, 3).map(part => parseInt(part, 10) || 0);
+
+const createWorldTemplateManifest = (addonName: string) => ({
+  format_version: 2,
+  header: {
+    name: addonName,
+    description: `A test world with ${addonName} applied.`,
+    uuid: crypto.randomUUID(),
+    version: [1, 0, 0],
+    lock_template_options: false,
+    base_game_version: [1, 21, 0],
+  },
+  modules: [{ type: 'world_template', uuid: crypto.randomUUID(), version: [1, 0, 0] }],
+});
+
+/**
+ * Downloads a flat creative world with every pack embedded and applied, as a .mcworld or, with `asTemplate`,
+ * a .mctemplate. Returns the paths that belong to no pack and were left out.
+ */
+export const downloadWorld = async (
+  addonName: string,
+  files: GeneratedFile[],
+  uploadedFiles: UploadedFile[],
+  assetMappings: AssetMapping[],
+  asTemplate: boolean
+): Promise<string[]> => {
+  const packs = findPacksOrThrow(files);
+  const { byPack, unplaced } = groupEntriesByPack(await collectAddonEntries(files, uploadedFiles, assetMappings), packs);
+  const zip = new JSZip();
+  const usedFolders = new Set<string>();
+
+  for (const pack of packs) {
+    const parent = pack.kind === 'behavior' ? 'behavior_packs' : 'resource_packs';
+    const baseFolder = toSafeFileName(pack.name, pack.kind === 'behavior' ? 'BP' : 'RP');
+    let folder = baseFolder;
+    for (let n = 2; usedFolders.has(`${parent}/${folder}`); n++) folder = `${baseFolder}_${n}`;
+    usedFolders.add(`${parent}/${folder}`);
+    byPack.get(pack)!.forEach(entry => zip.file(`${parent}/${folder}/${entry.path}`, entry.content));
+  }
+
+  const worldPacks = (kind: PackInfo['kind']) =>
+    JSON.stringify(packs.filter(pack => pack.kind === kind).map(pack => ({ pack_id: pack.uuid, version: toVersionArray(pack.version) })), null, 2);
+  zip.file('world_behavior_packs.json', worldPacks('behavior'));
+  zip.file('world_resource_packs.json', worldPacks('resource'));
+  zip.file('levelname.txt', addonName);
+  zip.file('level.dat', createLevelDat(addonName));
+  if (asTemplate) {
+    zip.file('manifest.json', JSON.stringify(createWorldTemplateManifest(addonName), null, 2));
+  }
+
+  saveBlob(await zip.generateAsync({ type: 'blob' }), `${toSafeFileName(addonName, 'world')}.${asTemplate ? 'mctemplate' : 'mcworld'}`);
+  return unplaced;
+};
+
 /**
  * Packages user-provided zip files (RP and BP) into a single .mcaddon file and downloads it.
  */
@@ -124,14 +238,8 @@ export const downloadMcaddonFromZips = async (
   }
 
   const content = await zip.generateAsync({ type: 'blob' });
-  const link = document.createElement('a');
-  link.href = URL.createObjectURL(content);
   // Sanitize addonName for the filename
-  const safeAddonName = addonName.replace(/[^a-zA-Z0-9_ -]/g, '').trim() || 'addon';
-  link.download = `${safeAddonName}.mcaddon`;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
+  saveBlob(content, `${toSafeFileName(addonName, 'addon')}.mcaddon`);
 };
 
 
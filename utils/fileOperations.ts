@@ -0,0 +1,217 @@
+import { GeneratedFile, UploadedFile, AssetMapping } from '../types';
+import { findPackRoots, findPackRootForPath, pathInPackRoot } from './packs';
+
+/**
+ * Everything that ends up inside the downloaded addon: text files are edited directly,
+ * binary assets are uploaded files placed into the pack through asset mappings.
+ */
+export interface Workspace {
+    files: GeneratedFile[];
+    uploadedFiles: UploadedFile[];
+    assetMappings: AssetMapping[];
+}
+
+export interface PathRename {
+    from: string;
+    to: string;
+}
+
+/** A file whose content would change if references were rewritten, and how many references it holds. */
+export interface ReferenceUpdate {
+    path: string;
+    count: number;
+}
+
+/** Files that are edited as text. Everything else is a binary asset. */
+export const TEXT_EXTENSIONS = ['.json', '.js', '.mcfunction', '.lang', '.md', '.txt', '.material'];
+// Bedrock refers to textures and sounds by their pack-relative path without the extension.
+const EXTENSIONLESS_REFERENCE = /\.(png|tga|jpe?g|ogg|wav|fsb)$/i;
+
+export const isTextPath = (path: string) => TEXT_EXTENSIONS.some(ext => path.toLowerCase().endsWith(ext));
+
+const isUnder = (path: string, folder: string) => path === folder || path.startsWith(`${folder}/`);
+
+const movedPath = (path: string, from: string, to: string) => to + path.slice(from.length);
+
+const stripExtension = (path: string) => path.replace(/\.[^./]+$/, '');
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Normalizes a user-typed path: forward slashes, no leading/trailing or doubled slashes.
+ * Returns null for paths that can't be stored, such as ones containing "." or ".." segments.
+ */
+export const normalizePath = (path: string): string | null => {
+    const parts = path.replace(/\\/g, '/').split('/').map(p => p.trim()).filter(Boolean);
+    if (parts.length === 0 || parts.some(p => p === '.' || p === '..')) return null;
+    return parts.join('/');
+};
+
+export const getAssetPaths = (assetMappings: AssetMapping[]) => assetMappings.map(m => m.newPath);
+
+export const getWorkspacePaths = (workspace: Workspace) => [...workspace.files.map(f => f.path), ...getAssetPaths(workspace.assetMappings)];
+
+export const pathExists = (paths: string[], path: string) => paths.some(p => isUnder(p, path));
+
+/**
+ * Finds the uploaded file an asset mapping points at, using the same matching rules as `downloadAddon`:
+ * an exact name match wins, otherwise the first file whose name ends with the mapping's original path.
+ */
+export const resolveAssetFile = (uploadedFiles: UploadedFile[], mapping: AssetMapping): File | null => {
+    const matches = uploadedFiles.filter(uf => uf.file.name.endsWith(mapping.originalPath));
+    const exact = matches.find(uf => uf.file.name === mapping.originalPath);
+    return (exact || matches[0])?.file || null;
+};
+
+/**
+ * Lists every file that moves when `from` (a file or a folder) is renamed to `to`.
+ */
+export const getPathRenames = (paths: string[], from: string, to: string): PathRename[] =>
+    paths.filter(p => isUnder(p, from)).map(p => ({ from: p, to: movedPath(p, from, to) }));
+
+interface ReferenceRewrite {
+    packRoot: string;
+    jsonStrings: PathRename[];
+    functionNames: PathRename[];
+}
+
+/**
+ * Works out which strings refer to each renamed file. Only renames within a single pack are considered,
+ * because references are pack-relative: `textures/items/ruby` in `item_texture.json`, `scripts/main.js`
+ * as a manifest script entry, `loot_tables/ruby.json` in a component, or `ruby/tick` for a function.
+ */
+const getReferenceRewrites = (paths: string[], renames: PathRename[]): ReferenceRewrite[] => {
+    const packRoots = findPackRoots(paths);
+    if (packRoots.length === 0) packRoots.push('');
+    const rewrites = new Map<string, ReferenceRewrite>();
+
+    for (const rename of renames) {
+        const packRoot = findPackRootForPath(packRoots, rename.from);
+        if (packRoot === null || findPackRootForPath(packRoots, rename.to) !== packRoot) continue;
+        const oldRelative = pathInPackRoot(packRoot, rename.from);
+        const newRelative = pathInPackRoot(packRoot, rename.to);
+        if (oldRelative === newRelative) continue;
+
+        if (!rewrites.has(packRoot)) rewrites.set(packRoot, { packRoot, jsonStrings: [], functionNames: [] });
+        const rewrite = rewrites.get(packRoot)!;
+        rewrite.jsonStrings.push({ from: oldRelative, to: newRelative });
+        if (EXTENSIONLESS_REFERENCE.test(oldRelative)) {
+            rewrite.jsonStrings.push({ from: stripExtension(oldRelative), to: stripExtension(newRelative) });
+        }
+        if (oldRelative.startsWith('functions/') && oldRelative.endsWith('.mcfunction') && newRelative.startsWith('functions/')) {
+            const functionName = { from: stripExtension(oldRelative.slice('functions/'.length)), to: stripExtension(newRelative.slice('functions/'.length)) };
+            rewrite.functionNames.push(functionName);
+            rewrite.jsonStrings.push(functionName); // tick.json lists functions by name.
+        }
+    }
+    return [...rewrites.values()];
+};
+
+const rewriteContent = (file: GeneratedFile, rewrite: ReferenceRewrite): { content: string; count: number } => {
+    let content = file.content;
+    let count = 0;
+    const replace = (pattern: RegExp, replacement: (match: string, ...groups: string[]) => string) => {
+        content = content.replace(pattern, (...args) => {
+            count++;
+            return replacement(...(args as [string, ...string[]]));
+        });
+    };
+
+    if (file.path.toLowerCase().endsWith('.json')) {
+        for (const { from, to } of rewrite.jsonStrings) {
+            replace(new RegExp(`"${escapeRegExp(from)}"`, 'g'), () => JSON.stringify(to));
+        }
+    } else if (file.path.toLowerCase().endsWith('.mcfunction')) {
+        for (const { from, to } of rewrite.functionNames) {
+            replace(new RegExp(`(^|\\s)(function\\s+)${escapeRegExp(from)}(?=\\s|$)`, 'gm'), (_match, lead, command) => `${lead}${command}${to}`);
+        }
+    }
+    return { content, count };
+};
+
+const applyReferenceRewrites = (files: GeneratedFile[], rewrites: ReferenceRewrite[]) => {
+    const updates: ReferenceUpdate[] = [];
+    const updatedFiles = files.map(file => {
+        let current = file;
+        let total = 0;
+        for (const rewrite of rewrites) {
+            if (rewrite.packRoot && !file.path.startsWith(`${rewrite.packRoot}/`)) continue;
+            const { content, count } = rewriteContent(current, rewrite);
+            if (count > 0) {
+                current = { ...current, content };
+                total += count;
+            }
+        }
+        if (total > 0) updates.push({ path: file.path, count: total });
+        return current;
+    });
+    return { files: updatedFiles, updates };
+};
+
+/**
+ * Previews which files reference the paths being renamed, without changing anything.
+ */
+export const findReferenceUpdates = (files: GeneratedFile[], paths: string[], renames: PathRename[]): ReferenceUpdate[] =>
+    applyReferenceRewrites(files, getReferenceRewrites(paths, renames)).updates;
+
+/**
+ * Moves a file or folder (text files and assets alike) to a new path, optionally rewriting references to it.
+ * Paths of files that reference the moved ones are left untouched, only their content changes.
+ */
+export const movePath = (workspace: Workspace, from: string, to: string, rewriteReferences: boolean): Workspace => {
+    const paths = getWorkspacePaths(workspace);
+    const renames = getPathRenames(paths, from, to);
+    const rewrittenFiles = rewriteReferences ? applyReferenceRewrites(workspace.files, getReferenceRewrites(paths, renames)).files : workspace.files;
+    return {
+        ...workspace,
+        files: rewrittenFiles.map(f => (isUnder(f.path, from) ? { ...f, path: movedPath(f.path, from, to) } : f)),
+        assetMappings: workspace.assetMappings.map(m => (isUnder(m.newPath, from) ? { ...m, newPath: movedPath(m.newPath, from, to) } : m)),
+    };
+};
+
+/**
+ * Deletes a file or everything under a folder. Uploaded files that no remaining mapping uses are dropped too.
+ */
+export const deletePath = (workspace: Workspace, path: string): Workspace => {
+    const assetMappings = workspace.assetMappings.filter(m => !isUnder(m.newPath, path));
+    const removedMappings = workspace.assetMappings.filter(m => isUnder(m.newPath, path));
+    const orphaned = new Set(
+        removedMappings
+            .map(m => resolveAssetFile(workspace.uploadedFiles, m))
+            .filter((file): file is File => !!file && !assetMappings.some(m => resolveAssetFile(workspace.uploadedFiles, m) === file))
+    );
+    return {
+        files: workspace.files.filter(f => !isUnder(f.path, path)),
+        uploadedFiles: workspace.uploadedFiles.filter(uf => !orphaned.has(uf.file)),
+        assetMappings,
+    };
+};
+
+export const createFile = (workspace: Workspace, path: string, content: string = ''): Workspace => ({
+    ...workspace,
+    files: [...workspace.files, { path, content }],
+});
+
+/**
+ * Adds files from the user's computer to a folder, replacing any file already at the same path.
+ * Text files become editable files; anything else is kept as an uploaded asset mapped into place.
+ */
+export const uploadFiles = async (workspace: Workspace, folder: string, uploads: File[]): Promise<Workspace> => {
+    let next = workspace;
+    for (const upload of uploads) {
+        const path = folder ? `${folder}/${upload.name}` : upload.name;
+        next = deletePath(next, path);
+        if (isTextPath(upload.name)) {
+            next = createFile(next, path, await upload.text());
+        } else {
+            // Naming the stored file after its full path keeps the mapping an exact, unambiguous match.
+            const file = new File([upload], path, { type: upload.type, lastModified: upload.lastModified });
+            next = {
+                ...next,
+                uploadedFiles: [...next.uploadedFiles, { file, type: 'asset' }],
+                assetMappings: [...next.assetMappings, { originalPath: path, newPath: path }],
+            };
+        }
+    }
+    return next;
+};
@@ -0,0 +1,93 @@
+import { GeneratedFile } from '../types';
+import { parseAddonJson } from './addonValidator';
+import { findFunctionCalls, findFunctionCycles } from './commands';
+import { packPath } from './packs';
+
+const functionsFolder = (packRoot: string) => packPath(packRoot, 'functions/');
+
+export const functionPath = (packRoot: string, name: string) => `${functionsFolder(packRoot)}${name}.mcfunction`;
+
+export const tickJsonPath = (packRoot: string) => `${functionsFolder(packRoot)}tick.json`;
+
+/** The pack's functions by name, e.g. "game/start" for `functions/game/start.mcfunction`. */
+export const readFunctions = (files: GeneratedFile[], packRoot: string): { [name: string]: string } => {
+    const prefix = functionsFolder(packRoot);
+    return Object.fromEntries(files
+        .filter(f => f.path.startsWith(prefix) && f.path.endsWith('.mcfunction'))
+        .map(f => [f.path.slice(prefix.length, -'.mcfunction'.length), f.content]));
+};
+
+/** Reads the functions tick.json runs every tick, or null when the file can't be read. */
+export const readTickJson = (content: string): string[] | null => {
+    try {
+        const values = parseAddonJson(content)?.values;
+        return Array.isArray(values) && values.every(v => typeof v === 'string') ? values : null;
+    } catch {
+        return null;
+    }
+};
+
+export const buildTickJson = (values: string[]) => JSON.stringify({ values }, null, 2);
+
+/** Function names may only use path-safe characters, with / between folders. */
+export const isValidFunctionName = (name: string) => /^[\w\-]+(\/[\w\-]+)*$/.test(name);
+
+export interface CallGraphNode {
+    name: string;
+    /** Column: how many calls away from an entry point the function first appears. */
+    depth: number;
+    row: number;
+    /** Called somewhere, but there's no file for it. */
+    missing: boolean;
+}
+
+export interface CallGraphEdge {
+    from: string;
+    to: string;
+    conditional: boolean;
+    /** Part of a loop of functions calling each other. */
+    recursive: boolean;
+}
+
+/**
+ * Lays out which functions call which. Columns start from `roots` (usually the tick.json entries),
+ * then functions nothing else calls; functions only reachable through a loop come last.
+ */
+export const buildCallGraph = (functions: { [name: string]: string }, roots: string[]): { nodes: CallGraphNode[]; edges: CallGraphEdge[] } => {
+    const edges: CallGraphEdge[] = [];
+    const recursive = new Set(findFunctionCycles(functions).flatMap(cycle => cycle.path.slice(1).map((to, i) => `${cycle.path[i]}>${to}`)));
+    for (const [from, content] of Object.entries(functions)) {
+        const calls = new Map<string, boolean>();
+        for (const call of findFunctionCalls(content)) calls.set(call.name, (calls.get(call.name) ?? true) && call.conditional);
+        calls.forEach((conditional, to) => edges.push({ from, to, conditional, recursive: recursive.has(`${from}>${to}`) }));
+    }
+
+    const called = new Set(edges.map(e => e.to));
+    const names = [...new Set([...Object.keys(functions), ...called])].sort();
+    const starts = [...new Set([...roots.filter(r => names.includes(r)), ...names.filter(n => !called.has(n)), ...names])];
+    const depths = new Map<string, number>();
+    const order: string[] = [];
+    for (const start of starts) {
+        if (depths.has(start)) continue;
+        depths.set(start, 0);
+        order.push(start);
+        const queue = [start];
+        while (queue.length > 0) {
+            const name = queue.shift()!;
+            for (const edge of edges.filter(e => e.from === name && !depths.has(e.to))) {
+                depths.set(edge.to, depths.get(name)! + 1);
+                order.push(edge.to);
+                queue.push(edge.to);
+            }
+        }
+    }
+
+    const rows = new Map<number, number>();
+    const nodes = order.map(name => {
+        const depth = depths.get(name)!;
+        const row = rows.get(depth) ?? 0;
+        rows.set(depth, row + 1);
+        return { name, depth, row, missing: !(name in functions) };
+    });
+    return { nodes, edges };
+};
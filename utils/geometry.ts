@@ -0,0 +1,201 @@
+import { parseAddonJson } from './addonValidator';
+
+export type Vec3 = [number, number, number];
+
+export type FaceName = 'north' | 'south' | 'east' | 'west' | 'up' | 'down';
+
+/** A face's texture area in texture_width/texture_height units. Sizes can be negative for mirrored faces. */
+export interface FaceUv {
+    uv: [number, number];
+    size: [number, number];
+}
+
+export interface GeometryCube {
+    origin: Vec3;
+    size: Vec3;
+    inflate: number;
+    pivot: Vec3;
+    rotation: Vec3;
+    faces: { [face in FaceName]?: FaceUv };
+}
+
+export interface GeometryBone {
+    name: string;
+    parent: string | null;
+    pivot: Vec3;
+    rotation: Vec3;
+    cubes: GeometryCube[];
+}
+
+/** A Bedrock model (format 1.12.0 and later) read from a Blockbench .geo.json. */
+export interface GeometryModel {
+    identifier: string;
+    textureWidth: number;
+    textureHeight: number;
+    bones: GeometryBone[];
+}
+
+/** A cube face in preview space: its corners (top-left, top-right, bottom-left, bottom-right) and texture area. */
+export interface ModelFace {
+    corners: [Vec3, Vec3, Vec3, Vec3];
+    uv: FaceUv;
+    face: FaceName;
+}
+
+const FACE_NAMES: FaceName[] = ['north', 'south', 'east', 'west', 'up', 'down'];
+
+const toVec3 = (value: any, fallback: Vec3): Vec3 =>
+    Array.isArray(value) && value.length === 3 && value.every(n => typeof n === 'number') ? [value[0], value[1], value[2]] : fallback;
+
+/**
+ * Box UV: the six faces are laid out around `uv` as the unfolded cube, the way Blockbench exports them.
+ */
+const boxUvFaces = (uv: [number, number], [w, h, d]: Vec3, mirror: boolean): { [face in FaceName]: FaceUv } => {
+    const [u, v] = uv;
+    const faces: { [face in FaceName]: FaceUv } = {
+        east: { uv: [u, v + d], size: [d, h] },
+        north: { uv: [u + d, v + d], size: [w, h] },
+        west: { uv: [u + d + w, v + d], size: [d, h] },
+        south: { uv: [u + d * 2 + w, v + d], size: [w, h] },
+        up: { uv: [u + d, v], size: [w, d] },
+        down: { uv: [u + d + w, v + d], size: [w, -d] },
+    };
+    if (mirror) {
+        for (const face of FACE_NAMES) faces[face] = { uv: [faces[face].uv[0] + faces[face].size[0], faces[face].uv[1]], size: [-faces[face].size[0], faces[face].size[1]] };
+        [faces.east, faces.west] = [faces.west, faces.east];
+    }
+    return faces;
+};
+
+const parseCube = (cube: any, boneMirror: boolean): GeometryCube => {
+    const size = toVec3(cube.size, [0, 0, 0]);
+    const origin = toVec3(cube.origin, [0, 0, 0]);
+    let faces: GeometryCube['faces'] = {};
+    if (Array.isArray(cube.uv)) {
+        faces = boxUvFaces([cube.uv[0] ?? 0, cube.uv[1] ?? 0], size.map(Math.floor) as Vec3, cube.mirror ?? boneMirror);
+    } else if (cube.uv && typeof cube.uv === 'object') {
+        for (const face of FACE_NAMES) {
+            const data = cube.uv[face];
+            if (data?.uv) faces[face] = { uv: [data.uv[0], data.uv[1]], size: data.uv_size ? [data.uv_size[0], data.uv_size[1]] : [0, 0] };
+        }
+    }
+    return {
+        origin,
+        size,
+        inflate: typeof cube.inflate === 'number' ? cube.inflate : 0,
+        pivot: toVec3(cube.pivot, [origin[0] + size[0] / 2, origin[1] + size[1] / 2, origin[2] + size[2] / 2]),
+        rotation: toVec3(cube.rotation, [0, 0, 0]),
+        faces,
+    };
+};
+
+/**
+ * Reads a .geo.json in the `minecraft:geometry` format (1.12.0 and later). Uses the first model if the file holds
+ * several. Throws with a readable message for files it can't use, including the legacy 1.8 format.
+ */
+export const parseGeometry = (content: string): GeometryModel => {
+    let json: any;
+    try {
+        json = parseAddonJson(content);
+    } catch (e) {
+        throw new Error(`The model is not valid JSON: ${(e as Error).message}`);
+    }
+    const geometry = Array.isArray(json?.['minecraft:geometry']) ? json['minecraft:geometry'][0] : null;
+    if (!geometry) {
+        if (json && Object.keys(json).some(key => key.startsWith('geometry.'))) {
+            throw new Error('This model uses the legacy 1.8 format. In Blockbench, convert it with File > Convert Project to a modern Bedrock model and export again.');
+        }
+        throw new Error('No "minecraft:geometry" model was found. Export the model from Blockbench as a Bedrock .geo.json.');
+    }
+    const description = geometry.description || {};
+    const bones: GeometryBone[] = (Array.isArray(geometry.bones) ? geometry.bones : []).map((bone: any, index: number) => ({
+        name: typeof bone.name === 'string' ? bone.name : `bone${index}`,
+        parent: typeof bone.parent === 'string' ? bone.parent : null,
+        pivot: toVec3(bone.pivot, [0, 0, 0]),
+        rotation: toVec3(bone.rotation, [0, 0, 0]),
+        cubes: (Array.isArray(bone.cubes) ? bone.cubes : []).map((cube: any) => parseCube(cube, !!bone.mirror)),
+    }));
+    if (!bones.some(bone => bone.cubes.length > 0)) throw new Error('The model has no cubes.');
+    return {
+        identifier: typeof description.identifier === 'string' ? description.identifier : 'geometry.unknown',
+        textureWidth: description.texture_width || 16,
+        textureHeight: description.texture_height || 16,
+        bones,
+    };
+};
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Rotates a point around a pivot. Bedrock applies rotations in Z, Y, X order; the preview's X axis is mirrored
+ * (as in Blockbench), so X and Y rotations are negated.
+ */
+const rotateAround = (point: Vec3, pivot: Vec3, [rx, ry, rz]: Vec3): Vec3 => {
+    let [x, y, z] = [point[0] - pivot[0], point[1] - pivot[1], point[2] - pivot[2]];
+    const [ax, ay, az] = [toRadians(-rx), toRadians(-ry), toRadians(rz)];
+    [y, z] = [y * Math.cos(ax) - z * Math.sin(ax), y * Math.sin(ax) + z * Math.cos(ax)];
+    [x, z] = [x * Math.cos(ay) + z * Math.sin(ay), -x * Math.sin(ay) + z * Math.cos(ay)];
+    [x, y] = [x * Math.cos(az) - y * Math.sin(az), x * Math.sin(az) + y * Math.cos(az)];
+    return [x + pivot[0], y + pivot[1], z + pivot[2]];
+};
+
+const mirrorX = ([x, y, z]: Vec3): Vec3 => [-x, y, z];
+
+/**
+ * Turns a model into textured quads for the preview, with cube and bone rotations applied.
+ */
+export const getModelFaces = (model: GeometryModel): ModelFace[] => {
+    const bonesByName = new Map(model.bones.map(bone => [bone.name, bone]));
+    const faces: ModelFace[] = [];
+    for (const bone of model.bones) {
+        // Collect this bone and its ancestors, guarding against parent cycles in malformed files.
+        const chain: GeometryBone[] = [];
+        for (let b: GeometryBone | undefined = bone; b && !chain.includes(b); b = b.parent ? bonesByName.get(b.parent) : undefined) chain.push(b);
+        const transform = (point: Vec3) => chain.reduce((p, b) => rotateAround(p, mirrorX(b.pivot), b.rotation), point);
+
+        for (const cube of bone.cubes) {
+            const [fx, fy, fz] = [-(cube.origin[0] + cube.size[0]) - cube.inflate, cube.origin[1] - cube.inflate, cube.origin[2] - cube.inflate];
+            const [tx, ty, tz] = [-cube.origin[0] + cube.inflate, cube.origin[1] + cube.size[1] + cube.inflate, cube.origin[2] + cube.size[2] + cube.inflate];
+            const corners: { [face in FaceName]: [Vec3, Vec3, Vec3, Vec3] } = {
+                north: [[tx, ty, fz], [fx, ty, fz], [tx, fy, fz], [fx, fy, fz]],
+                south: [[fx, ty, tz], [tx, ty, tz], [fx, fy, tz], [tx, fy, tz]],
+                east: [[tx, ty, tz], [tx, ty, fz], [tx, fy, tz], [tx, fy, fz]],
+                west: [[fx, ty, fz], [fx, ty, tz], [fx, fy, fz], [fx, fy, tz]],
+                up: [[fx, ty, fz], [tx, ty, fz], [fx, ty, tz], [tx, ty, tz]],
+                down: [[fx, fy, tz], [tx, fy, tz], [fx, fy, fz], [tx, fy, fz]],
+            };
+            for (const face of FACE_NAMES) {
+                const uv = cube.faces[face];
+                if (!uv) continue;
+                const placed = corners[face].map(corner => transform(rotateAround(corner, mirrorX(cube.pivot), cube.rotation))) as ModelFace['corners'];
+                faces.push({ corners: placed, uv, face });
+            }
+        }
+    }
+    return faces;
+};
+
+/** The bone attachables hook onto in the player's right hand. */
+export const HELD_ITEM_BONE = 'rightItem';
+// The player's rightItem bone pivot, so a model added under it lines up with the hand.
+const HELD_ITEM_PIVOT: Vec3 = [-6, 15, 1];
+
+/**
+ * Prepares an uploaded .geo.json for use as an attachable: renames the model to `geometryId` and, if it has no
+ * `rightItem` bone, adds one as the parent of every root bone so the model follows the player's hand.
+ * Returns the updated file content and the bone the hold animations should move.
+ */
+export const prepareAttachableGeometry = (content: string, geometryId: string): { content: string; animatedBone: string } => {
+    const json = parseAddonJson(content);
+    const geometry = json['minecraft:geometry'][0];
+    geometry.description = { ...geometry.description, identifier: geometryId };
+    const bones: any[] = Array.isArray(geometry.bones) ? geometry.bones : [];
+    const heldBone = bones.find(bone => typeof bone.name === 'string' && bone.name.toLowerCase() === HELD_ITEM_BONE.toLowerCase());
+    if (heldBone) return { content: JSON.stringify(json, null, 2), animatedBone: heldBone.name };
+
+    for (const bone of bones) {
+        if (!bone.parent) bone.parent = HELD_ITEM_BONE;
+    }
+    geometry.bones = [{ name: HELD_ITEM_BONE, pivot: HELD_ITEM_PIVOT }, ...bones];
+    return { content: JSON.stringify(json, null, 2), animatedBone: HELD_ITEM_BONE };
+};
@@ -0,0 +1,60 @@
+/**
+ * A database with two object stores keyed by `id`: a small "meta" store that can be listed cheaply and a
+ * "data" store for the heavy values. The project store and the generation cache are both built this way.
+ */
+export interface MetaDataDatabase {
+    /** Runs `work` inside a single transaction over both stores and resolves once it has committed. */
+    withTransaction: <T>(mode: IDBTransactionMode, work: (meta: IDBObjectStore, data: IDBObjectStore) => Promise<T>) => Promise<T>;
+}
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+/**
+ * Opens the database lazily on first use, creating both stores if they don't exist yet.
+ * A failed open is retried on the next transaction.
+ */
+export const createMetaDataDatabase = (name: string, version: number, metaStore: string, dataStore: string): MetaDataDatabase => {
+    let dbPromise: Promise<IDBDatabase> | null = null;
+
+    const openDatabase = (): Promise<IDBDatabase> => {
+        if (!dbPromise) {
+            dbPromise = new Promise((resolve, reject) => {
+                const request = indexedDB.open(name, version);
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    if (!db.objectStoreNames.contains(metaStore)) {
+                        db.createObjectStore(metaStore, { keyPath: 'id' });
+                    }
+                    if (!db.objectStoreNames.contains(dataStore)) {
+                        db.createObjectStore(dataStore, { keyPath: 'id' });
+                    }
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => {
+                    dbPromise = null;
+                    reject(request.error);
+                };
+            });
+        }
+        return dbPromise;
+    };
+
+    const withTransaction = async <T>(mode: IDBTransactionMode, work: (meta: IDBObjectStore, data: IDBObjectStore) => Promise<T>): Promise<T> => {
+        const db = await openDatabase();
+        const transaction = db.transaction([metaStore, dataStore], mode);
+        const done = new Promise<void>((resolve, reject) => {
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        });
+        // Awaiting both together keeps `done` handled when `work` throws, so its rejection isn't left unhandled.
+        const [result] = await Promise.all([work(transaction.objectStore(metaStore), transaction.objectStore(dataStore)), done]);
+        return result;
+    };
+
+    return { withTransaction };
+};
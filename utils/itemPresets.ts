@@ -0,0 +1,243 @@
+import { IDENTIFIER_PATTERN } from './addonTemplates';
+
+export type ItemPresetCategory = 'tool' | 'weapon' | 'armor' | 'food' | 'throwable';
+
+export interface DestroySpeed {
+    block: string;
+    speed: number;
+}
+
+export type PresetValue = number | boolean | string | DestroySpeed[];
+
+export type PresetValues = { [key: string]: PresetValue };
+
+/**
+ * One editable setting of a preset. `validate` returns an error message for invalid values, so the
+ * form can show it next to the field.
+ */
+export interface PresetField {
+    key: string;
+    label: string;
+    kind: 'number' | 'boolean' | 'text' | 'select' | 'speedTable';
+    info?: string;
+    min?: number;
+    max?: number;
+    step?: number;
+    integer?: boolean;
+    optional?: boolean;
+    options?: { value: string; label: string }[];
+    validate?: (value: PresetValue, values: PresetValues) => string | null;
+}
+
+/**
+ * A set of components for a kind of item. Applying a preset also fills in the general item settings
+ * (stack size, durability, enchantability) through `general`.
+ */
+export interface ItemPreset {
+    id: string;
+    label: string;
+    category: ItemPresetCategory;
+    fields: PresetField[];
+    defaults: PresetValues;
+    general: { stackSize: number; durability?: number; enchantSlot?: string; enchantValue?: number };
+    buildComponents: (values: PresetValues) => { [component: string]: any };
+}
+
+export const PRESET_CATEGORIES: { id: ItemPresetCategory; label: string }[] = [
+    { id: 'tool', label: 'Tools' },
+    { id: 'weapon', label: 'Weapons' },
+    { id: 'armor', label: 'Armor' },
+    { id: 'food', label: 'Food' },
+    { id: 'throwable', label: 'Throwables' },
+];
+
+const TIERS = ['wooden', 'stone', 'iron', 'golden', 'diamond', 'netherite'];
+const TIER_OPTIONS = TIERS.map(tier => ({ value: tier, label: tier[0].toUpperCase() + tier.slice(1) }));
+
+// Vanilla durability and mining speed per tier, used as preset defaults.
+const TIER_STATS: { [tier: string]: { durability: number; speed: number; enchantValue: number } } = {
+    wooden: { durability: 59, speed: 2, enchantValue: 15 },
+    stone: { durability: 131, speed: 4, enchantValue: 5 },
+    iron: { durability: 250, speed: 6, enchantValue: 14 },
+    golden: { durability: 32, speed: 12, enchantValue: 22 },
+    diamond: { durability: 1561, speed: 8, enchantValue: 10 },
+    netherite: { durability: 2031, speed: 9, enchantValue: 15 },
+};
+
+const damageField: PresetField = { key: 'damage', label: 'Attack Damage', kind: 'number', min: 0, max: 1000, integer: true };
+
+const tierField: PresetField = { key: 'tier', label: 'Tier', kind: 'select', options: TIER_OPTIONS, info: 'Decides which blocks drop items when mined.' };
+
+const speedTableField: PresetField = {
+    key: 'destroySpeeds',
+    label: 'Block Speeds',
+    kind: 'speedTable',
+    info: 'A block identifier, or a Molang tag query such as q.any_tag(\'minecraft:is_pickaxe_item_destructible\').',
+    validate: value => {
+        const rows = value as DestroySpeed[];
+        if (rows.length === 0) return 'Add at least one block.';
+        const badRow = rows.findIndex(row => !row.block.trim() || !(row.speed > 0));
+        if (badRow >= 0) return `Row ${badRow + 1} needs a block and a speed above 0.`;
+        return null;
+    },
+};
+
+const toBlockDescriptor = (block: string) => (block.trim().startsWith('q.') || block.trim().startsWith('query.') ? { tags: block.trim() } : block.trim());
+
+const diggerComponent = (rows: DestroySpeed[]) => ({
+    use_efficiency: true,
+    destroy_speeds: rows.map(row => ({ block: toBlockDescriptor(row.block), speed: row.speed })),
+});
+
+const createToolPreset = (id: string, label: string, destructibleTag: string, damage: number): ItemPreset => ({
+    id,
+    label,
+    category: 'tool',
+    fields: [tierField, damageField, speedTableField],
+    defaults: {
+        tier: 'iron',
+        damage,
+        destroySpeeds: [{ block: `q.any_tag('${destructibleTag}')`, speed: TIER_STATS.iron.speed }],
+    },
+    general: { stackSize: 1, durability: TIER_STATS.iron.durability, enchantSlot: id, enchantValue: TIER_STATS.iron.enchantValue },
+    buildComponents: values => ({
+        'minecraft:hand_equipped': true,
+        'minecraft:damage': { value: values.damage },
+        'minecraft:digger': diggerComponent(values.destroySpeeds as DestroySpeed[]),
+        'minecraft:tags': { tags: [`minecraft:is_${id}`, `minecraft:${values.tier}_tier`, 'minecraft:digger'] },
+    }),
+});
+
+const createArmorPreset = (id: string, label: string, slot: string, enchantSlot: string, protection: number): ItemPreset => ({
+    id,
+    label,
+    category: 'armor',
+    fields: [
+        { key: 'protection', label: 'Protection', kind: 'number', min: 0, max: 20, integer: true, info: 'Armor points shown on the HUD, where each point is half a chestplate icon.' },
+        { key: 'textureType', label: 'Armor Texture Type', kind: 'select', options: ['leather', 'chain', 'iron', 'diamond', 'gold', 'netherite', 'none'].map(t => ({ value: t, label: t[0].toUpperCase() + t.slice(1) })) },
+    ],
+    defaults: { protection, textureType: 'iron' },
+    general: { stackSize: 1, durability: 240, enchantSlot, enchantValue: 9 },
+    buildComponents: values => ({
+        'minecraft:wearable': { slot, protection: values.protection },
+        'minecraft:armor': { protection: values.protection, texture_type: values.textureType },
+        'minecraft:tags': { tags: ['minecraft:is_armor'] },
+    }),
+});
+
+export const ITEM_PRESETS: ItemPreset[] = [
+    createToolPreset('pickaxe', 'Pickaxe', 'minecraft:is_pickaxe_item_destructible', 4),
+    createToolPreset('axe', 'Axe', 'minecraft:is_axe_item_destructible', 8),
+    createToolPreset('shovel', 'Shovel', 'minecraft:is_shovel_item_destructible', 4),
+    createToolPreset('hoe', 'Hoe', 'minecraft:is_hoe_item_destructible', 1),
+    {
+        id: 'sword',
+        label: 'Sword',
+        category: 'weapon',
+        fields: [damageField, speedTableField],
+        defaults: {
+            damage: 6,
+            destroySpeeds: [{ block: 'minecraft:web', speed: 15 }, { block: 'minecraft:bamboo', speed: 10 }],
+        },
+        general: { stackSize: 1, durability: TIER_STATS.iron.durability, enchantSlot: 'sword', enchantValue: TIER_STATS.iron.enchantValue },
+        buildComponents: values => ({
+            'minecraft:hand_equipped': true,
+            'minecraft:damage': { value: values.damage },
+            'minecraft:digger': diggerComponent(values.destroySpeeds as DestroySpeed[]),
+            'minecraft:can_destroy_in_creative': false,
+            'minecraft:tags': { tags: ['minecraft:is_sword'] },
+        }),
+    },
+    createArmorPreset('helmet', 'Helmet', 'slot.armor.head', 'armor_head', 2),
+    createArmorPreset('chestplate', 'Chestplate', 'slot.armor.chest', 'armor_torso', 6),
+    createArmorPreset('leggings', 'Leggings', 'slot.armor.legs', 'armor_legs', 5),
+    createArmorPreset('boots', 'Boots', 'slot.armor.feet', 'armor_feet', 2),
+    {
+        id: 'food',
+        label: 'Food',
+        category: 'food',
+        fields: [
+            { key: 'nutrition', label: 'Nutrition', kind: 'number', min: 0, max: 20, integer: true, info: 'Hunger points restored. 20 is a full hunger bar.' },
+            { key: 'saturation', label: 'Saturation Modifier', kind: 'number', min: 0, max: 10, step: 0.1, info: 'Vanilla bread uses 0.6, golden carrots 1.2.' },
+            { key: 'canAlwaysEat', label: 'Can Always Eat', kind: 'boolean' },
+            { key: 'useDuration', label: 'Eating Time (seconds)', kind: 'number', min: 0.05, max: 10, step: 0.05 },
+            { key: 'movementModifier', label: 'Movement Speed While Eating', kind: 'number', min: 0, max: 1, step: 0.05, info: '1 keeps full speed, 0.35 matches vanilla food.' },
+            {
+                key: 'convertsTo', label: 'Leaves Behind', kind: 'text', optional: true, info: 'Item left in the hand after eating, e.g. minecraft:bowl.',
+                validate: value => (value && !IDENTIFIER_PATTERN.test(value as string) ? 'Must be an identifier like minecraft:bowl.' : null),
+            },
+        ],
+        defaults: { nutrition: 4, saturation: 0.6, canAlwaysEat: false, useDuration: 1.6, movementModifier: 0.35, convertsTo: '' },
+        general: { stackSize: 64 },
+        buildComponents: values => ({
+            'minecraft:food': {
+                nutrition: values.nutrition,
+                saturation_modifier: values.saturation,
+                can_always_eat: values.canAlwaysEat,
+                ...(values.convertsTo ? { using_converts_to: values.convertsTo } : {}),
+            },
+            'minecraft:use_modifiers': { use_duration: values.useDuration, movement_modifier: values.movementModifier },
+            'minecraft:use_animation': 'eat',
+        }),
+    },
+    {
+        id: 'throwable',
+        label: 'Throwable',
+        category: 'throwable',
+        fields: [
+            {
+                key: 'projectileEntity', label: 'Projectile Entity', kind: 'text', info: 'The entity spawned when thrown, e.g. minecraft:snowball or your own projectile.',
+                validate: value => (!IDENTIFIER_PATTERN.test(value as string) ? 'Must be an entity identifier like minecraft:snowball.' : null),
+            },
+            { key: 'launchPowerScale', label: 'Launch Power Scale', kind: 'number', min: 0.1, max: 10, step: 0.1 },
+            { key: 'maxLaunchPower', label: 'Max Launch Power', kind: 'number', min: 0.1, max: 10, step: 0.1 },
+            { key: 'chargeable', label: 'Charge Before Throwing', kind: 'boolean', info: 'Holding use longer throws further, like a trident.' },
+            {
+                key: 'maxDrawDuration', label: 'Max Charge Time (seconds)', kind: 'number', min: 0, max: 10, step: 0.1,
+                validate: (value, values) => (values.chargeable && !((value as number) > 0) ? 'A chargeable throwable needs a charge time above 0.' : null),
+            },
+            { key: 'minimumCriticalPower', label: 'Minimum Critical Power', kind: 'number', min: 0, max: 10, step: 0.1 },
+        ],
+        defaults: { projectileEntity: 'minecraft:snowball', launchPowerScale: 1, maxLaunchPower: 1, chargeable: false, maxDrawDuration: 0, minimumCriticalPower: 1.25 },
+        general: { stackSize: 16 },
+        buildComponents: values => ({
+            'minecraft:throwable': {
+                do_swing_animation: true,
+                launch_power_scale: values.launchPowerScale,
+                max_launch_power: values.maxLaunchPower,
+                ...(values.chargeable ? { scale_power_by_draw_duration: true, max_draw_duration: values.maxDrawDuration } : {}),
+            },
+            'minecraft:projectile': { projectile_entity: values.projectileEntity, minimum_critical_power: values.minimumCriticalPower },
+        }),
+    },
+];
+
+export const getPreset = (id: string) => ITEM_PRESETS.find(preset => preset.id === id) || null;
+
+/**
+ * Returns the defaults a tool preset should use for a tier, so changing the tier updates durability and speeds.
+ */
+export const getTierStats = (tier: string) => TIER_STATS[tier] || null;
+
+/**
+ * Checks every field of a preset and returns an error message per invalid field.
+ */
+export const validatePresetValues = (preset: ItemPreset, values: PresetValues): { [key: string]: string } => {
+    const errors: { [key: string]: string } = {};
+    for (const field of preset.fields) {
+        const value = values[field.key];
+        let error: string | null = null;
+        if (field.kind === 'number') {
+            const number = value as number;
+            if (typeof number !== 'number' || Number.isNaN(number)) error = 'Enter a number.';
+            else if (field.integer && !Number.isInteger(number)) error = 'Must be a whole number.';
+            else if (field.min !== undefined && number < field.min) error = `Must be at least ${field.min}.`;
+            else if (field.max !== undefined && number > field.max) error = `Must be at most ${field.max}.`;
+        } else if (field.kind === 'text' && !field.optional && !(value as string)?.trim()) {
+            error = 'Required.';
+        }
+        error = error || field.validate?.(value, values) || null;
+        if (error) errors[field.key] = error;
+    }
+    return errors;
+};
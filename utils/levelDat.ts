@@ -0,0 +1,117 @@
+// Bedrock's level.dat is little-endian NBT behind an 8-byte header: the storage version and the payload length.
+const STORAGE_VERSION = 10;
+
+const TAG_END = 0;
+const TAG_BYTE = 1;
+const TAG_INT = 3;
+const TAG_LONG = 4;
+const TAG_STRING = 8;
+const TAG_COMPOUND = 10;
+
+type NbtValue =
+    | { type: 'byte'; value: number }
+    | { type: 'int'; value: number }
+    | { type: 'long'; value: bigint }
+    | { type: 'string'; value: string }
+    | { type: 'compound'; value: { [name: string]: NbtValue } };
+
+const TAG_IDS: { [key in NbtValue['type']]: number } = {
+    byte: TAG_BYTE,
+    int: TAG_INT,
+    long: TAG_LONG,
+    string: TAG_STRING,
+    compound: TAG_COMPOUND,
+};
+
+class NbtWriter {
+    private bytes: number[] = [];
+
+    private writeUint16(value: number) {
+        this.bytes.push(value & 0xff, (value >> 8) & 0xff);
+    }
+
+    private writeInt32(value: number) {
+        const buffer = new DataView(new ArrayBuffer(4));
+        buffer.setInt32(0, value, true);
+        this.bytes.push(...new Uint8Array(buffer.buffer));
+    }
+
+    private writeInt64(value: bigint) {
+        const buffer = new DataView(new ArrayBuffer(8));
+        buffer.setBigInt64(0, value, true);
+        this.bytes.push(...new Uint8Array(buffer.buffer));
+    }
+
+    private writeString(value: string) {
+        const encoded = new TextEncoder().encode(value);
+        this.writeUint16(encoded.length);
+        this.bytes.push(...encoded);
+    }
+
+    private writePayload(tag: NbtValue) {
+        switch (tag.type) {
+            case 'byte':
+                this.bytes.push(tag.value & 0xff);
+                break;
+            case 'int':
+                this.writeInt32(tag.value);
+                break;
+            case 'long':
+                this.writeInt64(tag.value);
+                break;
+            case 'string':
+                this.writeString(tag.value);
+                break;
+            case 'compound':
+                for (const [name, child] of Object.entries(tag.value)) this.writeNamed(name, child);
+                this.bytes.push(TAG_END);
+                break;
+        }
+    }
+
+    writeNamed(name: string, tag: NbtValue) {
+        this.bytes.push(TAG_IDS[tag.type]);
+        this.writeString(name);
+        this.writePayload(tag);
+    }
+
+    toBytes() {
+        return new Uint8Array(this.bytes);
+    }
+}
+
+const byte = (value: number): NbtValue => ({ type: 'byte', value });
+const int = (value: number): NbtValue => ({ type: 'int', value });
+
+/**
+ * Builds the level.dat for a new creative flat world with cheats enabled, which is what testers want
+ * when trying an addon. The game fills in every setting left out here with its default.
+ */
+export const createLevelDat = (levelName: string): Uint8Array => {
+    const writer = new NbtWriter();
+    writer.writeNamed('', {
+        type: 'compound',
+        value: {
+            LevelName: { type: 'string', value: levelName },
+            StorageVersion: int(STORAGE_VERSION),
+            GameType: int(1),
+            Generator: int(2),
+            Difficulty: int(1),
+            RandomSeed: { type: 'long', value: BigInt(Math.floor(Math.random() * 2 ** 31)) },
+            SpawnX: int(0),
+            SpawnY: int(32767),
+            SpawnZ: int(0),
+            commandsEnabled: byte(1),
+            cheatsEnabled: byte(1),
+            LastPlayed: { type: 'long', value: BigInt(Math.floor(Date.now() / 1000)) },
+        },
+    });
+    const payload = writer.toBytes();
+    const header = new DataView(new ArrayBuffer(8));
+    header.setInt32(0, STORAGE_VERSION, true);
+    header.setInt32(4, payload.length, true);
+    const result = new Uint8Array(8 + payload.length);
+    result.set(new Uint8Array(header.buffer), 0);
+    result.set(payload, 8);
+    return result;
+};
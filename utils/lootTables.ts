@@ -0,0 +1,265 @@
+export type Difficulty = 'peaceful' | 'easy' | 'normal' | 'hard';
+
+export interface Range {
+    min: number;
+    max: number;
+}
+
+export type LootCondition =
+    | { condition: 'killed_by_player' }
+    | { condition: 'killed_by_player_or_pets' }
+    | { condition: 'random_chance'; chance: number }
+    | { condition: 'random_chance_with_looting'; chance: number; lootingMultiplier: number }
+    | { condition: 'random_difficulty_chance'; defaultChance: number; chances: { [key in Difficulty]?: number } }
+    | { condition: 'entity_on_fire' };
+
+export type LootFunction =
+    | { function: 'set_count'; count: Range }
+    | { function: 'set_data'; data: Range }
+    | { function: 'set_damage'; damage: Range }
+    | { function: 'enchant_randomly'; treasure: boolean }
+    | { function: 'enchant_with_levels'; levels: Range; treasure: boolean }
+    | { function: 'looting_enchant'; count: Range }
+    | { function: 'furnace_smelt' };
+
+export interface LootEntry {
+    type: 'item' | 'loot_table' | 'empty';
+    name: string;
+    weight: number;
+    conditions: LootCondition[];
+    functions: LootFunction[];
+}
+
+export interface LootPool {
+    rolls: Range;
+    conditions: LootCondition[];
+    entries: LootEntry[];
+}
+
+export const CONDITION_TYPES: { type: LootCondition['condition']; label: string; create: () => LootCondition }[] = [
+    { type: 'killed_by_player', label: 'Killed by player', create: () => ({ condition: 'killed_by_player' }) },
+    { type: 'killed_by_player_or_pets', label: 'Killed by player or pet', create: () => ({ condition: 'killed_by_player_or_pets' }) },
+    { type: 'random_chance', label: 'Random chance', create: () => ({ condition: 'random_chance', chance: 0.5 }) },
+    { type: 'random_chance_with_looting', label: 'Random chance with looting', create: () => ({ condition: 'random_chance_with_looting', chance: 0.025, lootingMultiplier: 0.01 }) },
+    { type: 'random_difficulty_chance', label: 'Random chance by difficulty', create: () => ({ condition: 'random_difficulty_chance', defaultChance: 0.5, chances: { peaceful: 0, hard: 0.75 } }) },
+    { type: 'entity_on_fire', label: 'Entity is on fire', create: () => ({ condition: 'entity_on_fire' }) },
+];
+
+export const FUNCTION_TYPES: { type: LootFunction['function']; label: string; create: () => LootFunction }[] = [
+    { type: 'set_count', label: 'Set count', create: () => ({ function: 'set_count', count: { min: 1, max: 3 } }) },
+    { type: 'looting_enchant', label: 'Looting bonus', create: () => ({ function: 'looting_enchant', count: { min: 0, max: 1 } }) },
+    { type: 'set_data', label: 'Set data value', create: () => ({ function: 'set_data', data: { min: 0, max: 0 } }) },
+    { type: 'set_damage', label: 'Set damage', create: () => ({ function: 'set_damage', damage: { min: 0.5, max: 1 } }) },
+    { type: 'enchant_randomly', label: 'Enchant randomly', create: () => ({ function: 'enchant_randomly', treasure: false }) },
+    { type: 'enchant_with_levels', label: 'Enchant with levels', create: () => ({ function: 'enchant_with_levels', levels: { min: 5, max: 30 }, treasure: false }) },
+    { type: 'furnace_smelt', label: 'Smelt when on fire', create: () => ({ function: 'furnace_smelt' }) },
+];
+
+const ON_FIRE_CONDITION = { condition: 'entity_properties', entity: 'this', properties: { on_fire: true } };
+
+const toRangeJson = ({ min, max }: Range) => (min === max ? min : { min, max });
+
+const toConditionJson = (condition: LootCondition): object => {
+    switch (condition.condition) {
+        case 'random_chance_with_looting':
+            return { condition: condition.condition, chance: condition.chance, looting_multiplier: condition.lootingMultiplier };
+        case 'random_difficulty_chance':
+            return { condition: condition.condition, default_chance: condition.defaultChance, ...condition.chances };
+        case 'entity_on_fire':
+            return ON_FIRE_CONDITION;
+        default:
+            return condition;
+    }
+};
+
+const toFunctionJson = (fn: LootFunction): object => {
+    switch (fn.function) {
+        case 'set_count':
+            return { function: fn.function, count: toRangeJson(fn.count) };
+        case 'set_data':
+            return { function: fn.function, data: toRangeJson(fn.data) };
+        case 'set_damage':
+            return { function: fn.function, damage: toRangeJson(fn.damage) };
+        case 'enchant_randomly':
+            return { function: fn.function, treasure: fn.treasure };
+        case 'enchant_with_levels':
+            return { function: fn.function, levels: toRangeJson(fn.levels), treasure: fn.treasure };
+        case 'looting_enchant':
+            return { function: fn.function, count: toRangeJson(fn.count) };
+        case 'furnace_smelt':
+            // Vanilla only smelts drops of mobs that died burning.
+            return { function: fn.function, conditions: [ON_FIRE_CONDITION] };
+    }
+};
+
+const withConditions = (conditions: LootCondition[]) => (conditions.length > 0 ? { conditions: conditions.map(toConditionJson) } : {});
+
+export const buildLootTable = (pools: LootPool[]) => ({
+    pools: pools.map(pool => ({
+        rolls: toRangeJson(pool.rolls),
+        ...withConditions(pool.conditions),
+        entries: pool.entries.map(entry => ({
+            type: entry.type,
+            ...(entry.type !== 'empty' && { name: entry.name }),
+            weight: entry.weight,
+            ...withConditions(entry.conditions),
+            ...(entry.type === 'item' && entry.functions.length > 0 && { functions: entry.functions.map(toFunctionJson) }),
+        })),
+    })),
+});
+
+const checkRange = (label: string, range: Range, errors: string[], integer = true) => {
+    if ([range.min, range.max].some(n => Number.isNaN(n) || (integer && !Number.isInteger(n)))) errors.push(`${label}: min and max must be ${integer ? 'whole numbers' : 'numbers'}.`);
+    else if (range.min > range.max) errors.push(`${label}: min can't be greater than max.`);
+    else if (range.min < 0) errors.push(`${label}: values can't be negative.`);
+};
+
+const checkChance = (label: string, chance: number, errors: string[]) => {
+    if (!(chance >= 0 && chance <= 1)) errors.push(`${label}: chances must be between 0 and 1.`);
+};
+
+const checkConditions = (label: string, conditions: LootCondition[], errors: string[]) => {
+    for (const condition of conditions) {
+        if (condition.condition === 'random_chance') checkChance(label, condition.chance, errors);
+        if (condition.condition === 'random_chance_with_looting') {
+            checkChance(label, condition.chance, errors);
+            if (!(condition.lootingMultiplier >= 0)) errors.push(`${label}: the looting multiplier can't be negative.`);
+        }
+        if (condition.condition === 'random_difficulty_chance') {
+            [condition.defaultChance, ...Object.values(condition.chances)].forEach(chance => checkChance(label, chance as number, errors));
+        }
+    }
+};
+
+/**
+ * Checks the pools and returns every problem found, so the editor can list them all at once.
+ */
+export const validateLootTable = (path: string, pools: LootPool[]): string[] => {
+    const errors: string[] = [];
+    if (!/^loot_tables\/.+\.json$/.test(path)) errors.push('The path must be like loot_tables/entities/my_mob.json.');
+    if (pools.length === 0) errors.push('Add at least one pool.');
+    pools.forEach((pool, p) => {
+        const poolLabel = `Pool ${p + 1}`;
+        checkRange(`${poolLabel} rolls`, pool.rolls, errors);
+        checkConditions(poolLabel, pool.conditions, errors);
+        if (pool.entries.length === 0) errors.push(`${poolLabel}: add at least one entry.`);
+        pool.entries.forEach((entry, e) => {
+            const label = `${poolLabel}, entry ${e + 1}`;
+            if (entry.type !== 'empty' && !entry.name.trim()) errors.push(`${label}: pick ${entry.type === 'item' ? 'an item' : 'a loot table'}.`);
+            if (!(Number.isInteger(entry.weight) && entry.weight > 0)) errors.push(`${label}: weight must be a whole number above 0.`);
+            checkConditions(label, entry.conditions, errors);
+            for (const fn of entry.functions) {
+                if (fn.function === 'set_count' || fn.function === 'looting_enchant') checkRange(`${label} ${fn.function}`, fn.count, errors);
+                if (fn.function === 'set_data') checkRange(`${label} set_data`, fn.data, errors);
+                if (fn.function === 'set_damage') {
+                    checkRange(`${label} set_damage`, fn.damage, errors, false);
+                    if (fn.damage.max > 1) errors.push(`${label} set_damage: damage is a fraction of durability, from 0 to 1.`);
+                }
+                if (fn.function === 'enchant_with_levels') checkRange(`${label} enchant_with_levels`, fn.levels, errors);
+            }
+        });
+    });
+    return errors;
+};
+
+/** The circumstances of a simulated kill or block break. */
+export interface SimulationContext {
+    killedByPlayer: boolean;
+    lootingLevel: number;
+    difficulty: Difficulty;
+    onFire: boolean;
+}
+
+export interface SimulatedDrop {
+    item: string;
+    /** Average number dropped per run, counting runs where it didn't drop. */
+    averageCount: number;
+    /** Fraction of runs in which at least one dropped. */
+    dropChance: number;
+    maxCount: number;
+}
+
+export interface SimulationResult {
+    runs: number;
+    drops: SimulatedDrop[];
+    emptyRuns: number;
+}
+
+// Raw drops furnace_smelt turns into their cooked versions.
+const SMELTED: { [item: string]: string } = {
+    'minecraft:beef': 'minecraft:cooked_beef',
+    'minecraft:porkchop': 'minecraft:cooked_porkchop',
+    'minecraft:chicken': 'minecraft:cooked_chicken',
+    'minecraft:mutton': 'minecraft:cooked_mutton',
+    'minecraft:rabbit': 'minecraft:cooked_rabbit',
+    'minecraft:cod': 'minecraft:cooked_cod',
+    'minecraft:salmon': 'minecraft:cooked_salmon',
+    'minecraft:potato': 'minecraft:baked_potato',
+};
+
+const randomInt = (range: Range, random: () => number) => range.min + Math.floor(random() * (range.max - range.min + 1));
+
+const passes = (conditions: LootCondition[], context: SimulationContext, random: () => number) =>
+    conditions.every(condition => {
+        switch (condition.condition) {
+            case 'killed_by_player':
+            case 'killed_by_player_or_pets':
+                return context.killedByPlayer;
+            case 'random_chance':
+                return random() < condition.chance;
+            case 'random_chance_with_looting':
+                return random() < condition.chance + context.lootingLevel * condition.lootingMultiplier;
+            case 'random_difficulty_chance':
+                return random() < (condition.chances[context.difficulty] ?? condition.defaultChance);
+            case 'entity_on_fire':
+                return context.onFire;
+        }
+    });
+
+const rollEntry = (entry: LootEntry, context: SimulationContext, random: () => number): { item: string; count: number } | null => {
+    if (entry.type === 'empty') return null;
+    // Nested tables aren't expanded; they're reported as a single drop of the table.
+    if (entry.type === 'loot_table') return { item: entry.name, count: 1 };
+    let item = entry.name;
+    let count = 1;
+    for (const fn of entry.functions) {
+        if (fn.function === 'set_count') count = randomInt(fn.count, random);
+        if (fn.function === 'looting_enchant') count += Math.round(context.lootingLevel * (fn.count.min + random() * (fn.count.max - fn.count.min)));
+        if (fn.function === 'furnace_smelt' && context.onFire) item = SMELTED[item] || item;
+    }
+    return count > 0 ? { item, count } : null;
+};
+
+/**
+ * Rolls the loot table `runs` times, the way the game picks entries: each pool rolls its entries by weight,
+ * among the entries whose conditions pass. Returns average yields per run.
+ */
+export const simulateLootTable = (pools: LootPool[], context: SimulationContext, runs: number, random: () => number = Math.random): SimulationResult => {
+    const totals = new Map<string, { count: number; runsWithDrop: number; maxCount: number }>();
+    let emptyRuns = 0;
+    for (let run = 0; run < runs; run++) {
+        const runCounts = new Map<string, number>();
+        for (const pool of pools) {
+            if (!passes(pool.conditions, context, random)) continue;
+            const rolls = randomInt(pool.rolls, random);
+            for (let roll = 0; roll < rolls; roll++) {
+                const candidates = pool.entries.filter(entry => passes(entry.conditions, context, random));
+                const totalWeight = candidates.reduce((sum, entry) => sum + entry.weight, 0);
+                if (totalWeight <= 0) continue;
+                let pick = random() * totalWeight;
+                const entry = candidates.find(candidate => (pick -= candidate.weight) < 0) || candidates[candidates.length - 1];
+                const drop = rollEntry(entry, context, random);
+                if (drop) runCounts.set(drop.item, (runCounts.get(drop.item) || 0) + drop.count);
+            }
+        }
+        if (runCounts.size === 0) emptyRuns++;
+        runCounts.forEach((count, item) => {
+            const total = totals.get(item) || { count: 0, runsWithDrop: 0, maxCount: 0 };
+            totals.set(item, { count: total.count + count, runsWithDrop: total.runsWithDrop + 1, maxCount: Math.max(total.maxCount, count) });
+        });
+    }
+    const drops = [...totals.entries()]
+        .map(([item, total]) => ({ item, averageCount: total.count / runs, dropChance: total.runsWithDrop / runs, maxCount: total.maxCount }))
+        .sort((a, b) => b.averageCount - a.averageCount);
+    return { runs, drops, emptyRuns };
+};
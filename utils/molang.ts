@@ -0,0 +1,634 @@
+import { MOLANG_QUERIES } from '../data/molangQueries';
+
+/** A value Molang expressions produce: numbers, strings, structs (`v.location.x`) and arrays. */
+export type MolangData = number | string | MolangData[] | { [key: string]: MolangData };
+
+export type MolangNamespace = 'query' | 'variable' | 'temp' | 'context' | 'math' | 'geometry' | 'material' | 'texture' | 'array';
+
+/** Character offsets into the expression, end exclusive. */
+export interface MolangRange {
+    start: number;
+    end: number;
+}
+
+export interface MolangDiagnostic extends MolangRange {
+    severity: 'error' | 'warning';
+    message: string;
+}
+
+export interface MolangReference {
+    kind: 'reference';
+    namespace: MolangNamespace;
+    /** The name after the namespace, split on dots: `v.location.x` is `['location', 'x']`. */
+    path: string[];
+    range: MolangRange;
+}
+
+export type MolangNode =
+    | { kind: 'number'; value: number; range: MolangRange }
+    | { kind: 'string'; value: string; range: MolangRange }
+    | MolangReference
+    | { kind: 'call'; target: MolangReference; args: MolangNode[]; range: MolangRange }
+    | { kind: 'unary'; operator: '!' | '-'; operand: MolangNode; range: MolangRange }
+    | { kind: 'binary'; operator: string; left: MolangNode; right: MolangNode; range: MolangRange }
+    | { kind: 'conditional'; condition: MolangNode; then: MolangNode; otherwise: MolangNode | null; range: MolangRange }
+    | { kind: 'assignment'; target: MolangReference; value: MolangNode; range: MolangRange }
+    | { kind: 'index'; target: MolangNode; index: MolangNode; range: MolangRange }
+    | { kind: 'arrow'; target: MolangNode; expression: MolangNode; range: MolangRange }
+    | { kind: 'block'; statements: MolangNode[]; range: MolangRange }
+    | { kind: 'loop'; count: MolangNode; body: MolangNode; range: MolangRange }
+    | { kind: 'for_each'; variable: MolangReference; collection: MolangNode; body: MolangNode; range: MolangRange }
+    | { kind: 'return'; value: MolangNode; range: MolangRange }
+    | { kind: 'break' | 'continue' | 'this'; range: MolangRange };
+
+export interface MolangProgram {
+    statements: MolangNode[];
+    /** Expressions with `;` are statement lists that produce a value only through `return`. */
+    complex: boolean;
+}
+
+const NAMESPACES: { [name: string]: MolangNamespace } = {
+    query: 'query', q: 'query',
+    variable: 'variable', v: 'variable',
+    temp: 'temp', t: 'temp',
+    context: 'context', c: 'context',
+    math: 'math', geometry: 'geometry', material: 'material', texture: 'texture', array: 'array',
+};
+
+/** The game stops a `loop` after this many iterations. */
+const MAX_LOOP_ITERATIONS = 1024;
+
+// --- TOKENIZER ---
+
+interface Token {
+    type: 'number' | 'string' | 'name' | 'operator' | 'end';
+    value: string;
+    start: number;
+    end: number;
+}
+
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '->', '??', '+', '-', '*', '/', '<', '>', '!', '?', ':', '=', ';', ',', '(', ')', '{', '}', '[', ']', '.'];
+
+class MolangSyntaxError extends Error {
+    constructor(message: string, readonly range: MolangRange) {
+        super(message);
+    }
+}
+
+const fail = (message: string, start: number, end: number): never => {
+    throw new MolangSyntaxError(message, { start, end });
+};
+
+const tokenize = (source: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < source.length) {
+        const char = source[i];
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+        const number = /^(\d+(\.\d*)?|\.\d+)f?/i.exec(source.slice(i));
+        if (number) {
+            tokens.push({ type: 'number', value: number[0].replace(/f$/i, ''), start: i, end: i + number[0].length });
+            i += number[0].length;
+            continue;
+        }
+        const name = /^[a-z_][a-z0-9_]*/i.exec(source.slice(i));
+        if (name) {
+            // Molang ignores case everywhere except inside strings.
+            tokens.push({ type: 'name', value: name[0].toLowerCase(), start: i, end: i + name[0].length });
+            i += name[0].length;
+            continue;
+        }
+        if (char === "'") {
+            const close = source.indexOf("'", i + 1);
+            if (close === -1) fail('This string is never closed with a matching \'.', i, source.length);
+            tokens.push({ type: 'string', value: source.slice(i + 1, close), start: i, end: close + 1 });
+            i = close + 1;
+            continue;
+        }
+        const operator = OPERATORS.find(op => source.startsWith(op, i));
+        if (!operator) fail(`Unexpected character "${char}".`, i, i + 1);
+        tokens.push({ type: 'operator', value: operator!, start: i, end: i + operator!.length });
+        i += operator!.length;
+    }
+    tokens.push({ type: 'end', value: '', start: source.length, end: source.length });
+    return tokens;
+};
+
+// --- PARSER ---
+
+const BINARY_PRECEDENCE: { [operator: string]: number } = {
+    '=': 1, '?': 2, '??': 3, '||': 4, '&&': 5, '==': 6, '!=': 6, '<': 7, '<=': 7, '>': 7, '>=': 7, '+': 8, '-': 8, '*': 9, '/': 9, '->': 11, '[': 12,
+};
+const UNARY_PRECEDENCE = 10;
+
+const rangeOf = (token: Token): MolangRange => ({ start: token.start, end: token.end });
+
+const describe = (token: Token) => (token.type === 'end' ? 'the end of the expression' : `"${token.value}"`);
+
+const parseTokens = (tokens: Token[]): MolangProgram => {
+    let position = 0;
+    const peek = () => tokens[position];
+    const next = () => tokens[position++];
+    const isOperator = (value: string) => peek().type === 'operator' && peek().value === value;
+    const match = (value: string) => (isOperator(value) ? next() : null);
+    const expect = (value: string, context: string) => match(value) ?? fail(`Expected "${value}" ${context}, but found ${describe(peek())}.`, peek().start, peek().end);
+    const span = (start: MolangRange, end: MolangRange): MolangRange => ({ start: start.start, end: end.end });
+
+    const parseReference = (first: Token): MolangReference => {
+        const namespace = NAMESPACES[first.value];
+        if (!namespace) {
+            fail(`Unknown name "${first.value}". Names start with query., variable., temp., context. or math.`, first.start, first.end);
+        }
+        const path: string[] = [];
+        let end = first.end;
+        while (match('.')) {
+            const part = next();
+            if (part.type !== 'name') fail(`Expected a name after "${first.value}.", but found ${describe(part)}.`, part.start, part.end);
+            path.push(part.value);
+            end = part.end;
+        }
+        if (path.length === 0) fail(`"${first.value}" needs a name after it, like "${first.value}.something".`, first.start, first.end);
+        return { kind: 'reference', namespace, path, range: { start: first.start, end } };
+    };
+
+    const parseBlock = (): MolangNode => {
+        const open = expect('{', 'to start a block');
+        const statements: MolangNode[] = [];
+        while (!isOperator('}')) {
+            if (peek().type === 'end') fail('This block is never closed with "}".', open.start, open.end);
+            statements.push(parseStatement());
+            expect(';', 'after each statement in a block');
+        }
+        return { kind: 'block', statements, range: span(open, next()) };
+    };
+
+    const parsePrefix = (): MolangNode => {
+        const token = next();
+        if (token.type === 'number') return { kind: 'number', value: parseFloat(token.value), range: rangeOf(token) };
+        if (token.type === 'string') return { kind: 'string', value: token.value, range: rangeOf(token) };
+        if (token.type === 'operator') {
+            if (token.value === '(') {
+                const inner = parseExpression(0);
+                expect(')', 'to close the parenthesis');
+                return inner;
+            }
+            if (token.value === '{') {
+                position--;
+                return parseBlock();
+            }
+            if (token.value === '!' || token.value === '-') {
+                const operand = parseExpression(UNARY_PRECEDENCE);
+                return { kind: 'unary', operator: token.value, operand, range: span(token, operand.range) };
+            }
+            return fail(`Expected a value, but found ${describe(token)}.`, token.start, token.end);
+        }
+        if (token.type === 'end') return fail('The expression ends too early.', token.start, token.end);
+
+        switch (token.value) {
+            case 'true':
+            case 'false':
+                return { kind: 'number', value: token.value === 'true' ? 1 : 0, range: rangeOf(token) };
+            case 'this':
+                return { kind: 'this', range: rangeOf(token) };
+            case 'loop': {
+                expect('(', 'after "loop"');
+                const count = parseExpression(0);
+                expect(',', 'between the loop count and its body');
+                const body = parseBlock();
+                return { kind: 'loop', count, body, range: span(token, expect(')', 'to close "loop"')) };
+            }
+            case 'for_each': {
+                expect('(', 'after "for_each"');
+                const variable = parseReference(next());
+                if (variable.namespace !== 'variable' && variable.namespace !== 'temp') {
+                    fail('for_each needs a variable. or temp. name to hold each item.', variable.range.start, variable.range.end);
+                }
+                expect(',', 'after the for_each variable');
+                const collection = parseExpression(0);
+                expect(',', 'between the for_each collection and its body');
+                const body = parseBlock();
+                return { kind: 'for_each', variable, collection, body, range: span(token, expect(')', 'to close "for_each"')) };
+            }
+            // These are usually whole statements, but also appear as a branch, as in "(t.i > 5) ? break;".
+            case 'return': {
+                const value = parseExpression(0);
+                return { kind: 'return', value, range: span(token, value.range) };
+            }
+            case 'break':
+            case 'continue':
+                return { kind: token.value, range: rangeOf(token) };
+        }
+
+        const reference = parseReference(token);
+        if (!match('(')) return reference;
+        const args: MolangNode[] = [];
+        if (!isOperator(')')) {
+            do args.push(parseExpression(0)); while (match(','));
+        }
+        return { kind: 'call', target: reference, args, range: span(reference.range, expect(')', 'to close the argument list')) };
+    };
+
+    const parseExpression = (minPrecedence: number): MolangNode => {
+        let left = parsePrefix();
+        for (;;) {
+            const token = peek();
+            const precedence = token.type === 'operator' ? BINARY_PRECEDENCE[token.value] : undefined;
+            if (precedence === undefined || precedence < minPrecedence) return left;
+            next();
+            switch (token.value) {
+                case '=': {
+                    if (left.kind !== 'reference' || (left.namespace !== 'variable' && left.namespace !== 'temp')) {
+                        fail('Only variable. and temp. values can be assigned to.', left.range.start, token.end);
+                    }
+                    const value = parseExpression(precedence);
+                    left = { kind: 'assignment', target: left as MolangReference, value, range: span(left.range, value.range) };
+                    break;
+                }
+                case '?': {
+                    const then = parseExpression(precedence);
+                    const otherwise = match(':') ? parseExpression(precedence) : null;
+                    left = { kind: 'conditional', condition: left, then, otherwise, range: span(left.range, (otherwise ?? then).range) };
+                    break;
+                }
+                case '[': {
+                    const index = parseExpression(0);
+                    left = { kind: 'index', target: left, index, range: span(left.range, expect(']', 'to close the array index')) };
+                    break;
+                }
+                case '->': {
+                    const expression = parseExpression(precedence + 1);
+                    left = { kind: 'arrow', target: left, expression, range: span(left.range, expression.range) };
+                    break;
+                }
+                default: {
+                    const right = parseExpression(precedence + 1);
+                    left = { kind: 'binary', operator: token.value, left, right, range: span(left.range, right.range) };
+                }
+            }
+        }
+    };
+
+    const parseStatement = () => parseExpression(0);
+
+    const statements: MolangNode[] = [];
+    let complex = false;
+    let terminated = false;
+    while (peek().type !== 'end') {
+        statements.push(parseStatement());
+        terminated = !!match(';');
+        complex = complex || terminated;
+        if (!terminated && peek().type !== 'end') fail(`Expected ";" or an operator, but found ${describe(peek())}.`, peek().start, peek().end);
+    }
+    if (statements.length === 0) fail('The expression is empty.', 0, 0);
+    if (complex && !terminated) {
+        const last = statements[statements.length - 1].range;
+        fail('Every statement in an expression with ";" must end with ";", including the last one.', last.start, last.end);
+    }
+    return { statements, complex };
+};
+
+/**
+ * Parses a Molang expression. Syntax problems are returned as a diagnostic with the range of the offending text
+ * instead of being thrown, since expressions come straight from user input.
+ */
+export const parseMolang = (source: string): { program: MolangProgram | null; error: MolangDiagnostic | null } => {
+    try {
+        return { program: parseTokens(tokenize(source)), error: null };
+    } catch (err) {
+        if (!(err instanceof MolangSyntaxError)) throw err;
+        return { program: null, error: { severity: 'error', message: err.message, ...err.range } };
+    }
+};
+
+// --- MATH ---
+
+const DEGREES = Math.PI / 180;
+
+const easeIn: { [curve: string]: (t: number) => number } = {
+    quad: t => t * t,
+    cubic: t => t ** 3,
+    quart: t => t ** 4,
+    quint: t => t ** 5,
+    sine: t => 1 - Math.cos((t * Math.PI) / 2),
+    expo: t => (t === 0 ? 0 : 2 ** (10 * t - 10)),
+    circ: t => 1 - Math.sqrt(1 - t * t),
+    back: t => 2.70158 * t ** 3 - 1.70158 * t * t,
+    elastic: t => (t === 0 || t === 1 ? t : -(2 ** (10 * t - 10)) * Math.sin((t * 10 - 10.75) * ((2 * Math.PI) / 3))),
+    bounce: t => {
+        const out = (x: number) => {
+            if (x < 1 / 2.75) return 7.5625 * x * x;
+            if (x < 2 / 2.75) return 7.5625 * (x -= 1.5 / 2.75) * x + 0.75;
+            if (x < 2.5 / 2.75) return 7.5625 * (x -= 2.25 / 2.75) * x + 0.9375;
+            return 7.5625 * (x -= 2.625 / 2.75) * x + 0.984375;
+        };
+        return 1 - out(1 - t);
+    },
+};
+
+type MathFunction = { min: number; max: number; run: (args: number[], random: () => number) => number };
+
+const fn = (min: number, run: MathFunction['run'], max = min): MathFunction => ({ min, max, run });
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+const wrapAngle = (angle: number) => ((((angle + 180) % 360) + 360) % 360) - 180;
+
+const MATH_FUNCTIONS: { [name: string]: MathFunction } = {
+    abs: fn(1, ([a]) => Math.abs(a)),
+    acos: fn(1, ([a]) => Math.acos(a) / DEGREES),
+    asin: fn(1, ([a]) => Math.asin(a) / DEGREES),
+    atan: fn(1, ([a]) => Math.atan(a) / DEGREES),
+    atan2: fn(2, ([y, x]) => Math.atan2(y, x) / DEGREES),
+    ceil: fn(1, ([a]) => Math.ceil(a)),
+    clamp: fn(3, ([a, min, max]) => Math.min(max, Math.max(min, a))),
+    copy_sign: fn(2, ([a, b]) => Math.abs(a) * (b < 0 ? -1 : 1)),
+    cos: fn(1, ([a]) => Math.cos(a * DEGREES)),
+    die_roll: fn(3, ([count, low, high], random) => Array.from({ length: Math.max(0, Math.floor(count)) }, () => lerp(low, high, random())).reduce((a, b) => a + b, 0)),
+    die_roll_integer: fn(3, ([count, low, high], random) => Array.from({ length: Math.max(0, Math.floor(count)) }, () => Math.floor(lerp(low, high + 1, random()))).reduce((a, b) => a + b, 0)),
+    exp: fn(1, ([a]) => Math.exp(a)),
+    floor: fn(1, ([a]) => Math.floor(a)),
+    hermite_blend: fn(1, ([t]) => 3 * t * t - 2 * t ** 3),
+    inverse_lerp: fn(3, ([a, b, value]) => (a === b ? 0 : (value - a) / (b - a))),
+    lerp: fn(3, ([a, b, t]) => lerp(a, b, t)),
+    lerprotate: fn(3, ([a, b, t]) => a + wrapAngle(b - a) * t),
+    ln: fn(1, ([a]) => Math.log(a)),
+    max: fn(2, ([a, b]) => Math.max(a, b)),
+    min: fn(2, ([a, b]) => Math.min(a, b)),
+    min_angle: fn(1, ([a]) => wrapAngle(a)),
+    mod: fn(2, ([a, b]) => a % b),
+    pow: fn(2, ([a, b]) => a ** b),
+    random: fn(2, ([low, high], random) => lerp(low, high, random())),
+    random_integer: fn(2, ([low, high], random) => Math.floor(lerp(low, high + 1, random()))),
+    round: fn(1, ([a]) => Math.round(a)),
+    sign: fn(1, ([a]) => (a < 0 ? -1 : 1)),
+    sin: fn(1, ([a]) => Math.sin(a * DEGREES)),
+    sqrt: fn(1, ([a]) => Math.sqrt(a)),
+    trunc: fn(1, ([a]) => Math.trunc(a)),
+};
+
+for (const [curve, ease] of Object.entries(easeIn)) {
+    MATH_FUNCTIONS[`ease_in_${curve}`] = fn(3, ([a, b, t]) => lerp(a, b, ease(t)));
+    MATH_FUNCTIONS[`ease_out_${curve}`] = fn(3, ([a, b, t]) => lerp(a, b, 1 - ease(1 - t)));
+    MATH_FUNCTIONS[`ease_in_out_${curve}`] = fn(3, ([a, b, t]) => lerp(a, b, t < 0.5 ? ease(2 * t) / 2 : 1 - ease(2 - 2 * t) / 2));
+}
+
+const MATH_CONSTANTS: { [name: string]: number } = { pi: Math.PI };
+
+// --- LINTER ---
+
+const KNOWN_QUERIES = new Set(MOLANG_QUERIES);
+
+const childNodes = (node: MolangNode): MolangNode[] => {
+    switch (node.kind) {
+        case 'call': return [node.target, ...node.args];
+        case 'unary': return [node.operand];
+        case 'binary': return [node.left, node.right];
+        case 'conditional': return [node.condition, node.then, ...(node.otherwise ? [node.otherwise] : [])];
+        case 'assignment': return [node.target, node.value];
+        case 'index': return [node.target, node.index];
+        case 'arrow': return [node.target, node.expression];
+        case 'block': return node.statements;
+        case 'loop': return [node.count, node.body];
+        case 'for_each': return [node.variable, node.collection, node.body];
+        case 'return': return [node.value];
+        default: return [];
+    }
+};
+
+/**
+ * Checks an expression for syntax errors, unknown queries and math functions, wrong argument counts and
+ * `break`/`continue` outside a loop. Each problem carries the range of the text it's about.
+ */
+export const lintMolang = (source: string): MolangDiagnostic[] => {
+    const { program, error } = parseMolang(source);
+    if (!program) return [error!];
+    const diagnostics: MolangDiagnostic[] = [];
+    const report = (severity: MolangDiagnostic['severity'], message: string, range: MolangRange) => diagnostics.push({ severity, message, start: range.start, end: range.end });
+    const text = (range: MolangRange) => source.slice(range.start, range.end);
+
+    const visit = (node: MolangNode, inLoop: boolean, called: boolean) => {
+        if (node.kind === 'reference') {
+            const name = node.path[0];
+            if (node.namespace === 'query' && !KNOWN_QUERIES.has(name)) report('warning', `Unknown query "${text(node.range)}".`, node.range);
+            if (node.namespace === 'math' && !called && !(name in MATH_CONSTANTS)) {
+                report('error', MATH_FUNCTIONS[name] ? `"${text(node.range)}" is a function and needs arguments, like ${text(node.range)}(...).` : `Unknown math value "${text(node.range)}".`, node.range);
+            }
+        }
+        if (node.kind === 'call' && node.target.namespace === 'math') {
+            const mathFunction = MATH_FUNCTIONS[node.target.path[0]];
+            if (!mathFunction) report('error', `Unknown math function "${text(node.target.range)}".`, node.target.range);
+            else if (node.args.length < mathFunction.min || node.args.length > mathFunction.max) {
+                report('error', `${text(node.target.range)} takes ${mathFunction.min} argument${mathFunction.min === 1 ? '' : 's'}, but was given ${node.args.length}.`, node.range);
+            }
+        }
+        if ((node.kind === 'break' || node.kind === 'continue') && !inLoop) report('error', `"${node.kind}" can only be used inside loop or for_each.`, node.range);
+        const loopBody = node.kind === 'loop' || node.kind === 'for_each' ? node.body : null;
+        childNodes(node).forEach(child => visit(child, inLoop || child === loopBody, node.kind === 'call' && child === node.target));
+    };
+    program.statements.forEach(statement => visit(statement, false, false));
+    return diagnostics;
+};
+
+// --- EVALUATOR ---
+
+export interface MolangContext {
+    /** Query results, or functions for queries that take arguments. Queries that aren't listed evaluate to 0. */
+    queries?: { [name: string]: MolangData | ((...args: MolangData[]) => MolangData) };
+    /** `variable.` values. Assignments in the expression write back into this object. */
+    variables?: { [name: string]: MolangData };
+    context?: { [name: string]: MolangData };
+    /** Source of randomness for math.random and friends; defaults to Math.random. */
+    random?: () => number;
+}
+
+type Flow = { type: 'return'; value: MolangData } | { type: 'break' | 'continue' };
+
+// break, continue and return can sit deep inside an expression, so they unwind to their loop or the program by throwing.
+const raise = (flow: Flow): never => {
+    throw { molangFlow: flow };
+};
+
+const caught = (error: any): Flow => {
+    if (!error?.molangFlow) throw error;
+    return error.molangFlow;
+};
+
+const toNumber = (value: MolangData | undefined): number => (typeof value === 'number' ? value : 0);
+const isTruthy = (value: MolangData | undefined) => (typeof value === 'string' ? value !== '' : toNumber(value) !== 0);
+
+const readPath = (root: MolangData | undefined, path: string[]): MolangData | undefined =>
+    path.reduce<MolangData | undefined>((value, key) => (value && typeof value === 'object' && !Array.isArray(value) ? value[key] : undefined), root);
+
+const writePath = (root: { [name: string]: MolangData }, path: string[], value: MolangData) => {
+    let target = root;
+    path.slice(0, -1).forEach(key => {
+        const current = target[key];
+        if (!current || typeof current !== 'object' || Array.isArray(current)) target[key] = {};
+        target = target[key] as { [name: string]: MolangData };
+    });
+    target[path[path.length - 1]] = value;
+};
+
+// Parsed expressions are cached because previews evaluate the same few expressions every frame.
+const programCache = new Map<string, MolangProgram>();
+
+const compile = (source: string): MolangProgram => {
+    let program = programCache.get(source);
+    if (!program) {
+        const parsed = parseMolang(source);
+        if (!parsed.program) throw new Error(`Molang syntax error at ${parsed.error!.start}: ${parsed.error!.message}`);
+        program = parsed.program;
+        if (programCache.size > 500) programCache.clear();
+        programCache.set(source, program);
+    }
+    return program;
+};
+
+/**
+ * Evaluates an expression against a mock context. Throws on syntax errors; anything the context doesn't
+ * provide evaluates to 0, as it does in game.
+ */
+export const evaluateMolang = (source: string, context: MolangContext = {}): MolangData => {
+    const program = compile(source);
+    const variables = context.variables ?? {};
+    const temps: { [name: string]: MolangData } = {};
+    const random = context.random ?? Math.random;
+
+    const lookup = (reference: MolangReference): MolangData | undefined => {
+        const [name, ...rest] = reference.path;
+        switch (reference.namespace) {
+            case 'query': {
+                const query = context.queries?.[name];
+                return typeof query === 'function' ? query() : readPath(query, rest);
+            }
+            case 'variable': return readPath(variables, reference.path);
+            case 'temp': return readPath(temps, reference.path);
+            case 'context': return readPath(context.context, reference.path);
+            case 'math': return MATH_CONSTANTS[name];
+            // Render controller references such as geometry.default evaluate to their own name.
+            default: return `${reference.namespace}.${reference.path.join('.')}`;
+        }
+    };
+
+    const evaluate = (node: MolangNode): MolangData => {
+        switch (node.kind) {
+            case 'number':
+            case 'string':
+                return node.value;
+            case 'reference':
+                return lookup(node) ?? 0;
+            case 'this':
+                return 0;
+            case 'call': {
+                const args = node.args.map(evaluate);
+                const name = node.target.path[0];
+                if (node.target.namespace === 'math') return MATH_FUNCTIONS[name]?.run(args.map(toNumber), random) ?? 0;
+                const query = node.target.namespace === 'query' ? context.queries?.[name] : undefined;
+                return typeof query === 'function' ? query(...args) : query ?? 0;
+            }
+            case 'unary':
+                return node.operator === '!' ? (isTruthy(evaluate(node.operand)) ? 0 : 1) : -toNumber(evaluate(node.operand));
+            case 'binary':
+                return evaluateBinary(node.operator, node.left, node.right);
+            case 'conditional':
+                if (isTruthy(evaluate(node.condition))) return evaluate(node.then);
+                return node.otherwise ? evaluate(node.otherwise) : 0;
+            case 'assignment': {
+                const value = evaluate(node.value);
+                writePath(node.target.namespace === 'temp' ? temps : variables, node.target.path, value);
+                return value;
+            }
+            case 'index': {
+                const target = evaluate(node.target);
+                if (!Array.isArray(target) || target.length === 0) return 0;
+                const index = Math.floor(toNumber(evaluate(node.index)));
+                return target[Math.min(target.length - 1, Math.max(0, index))];
+            }
+            // Without other entities to point at, `a->b` reads b from the same context.
+            case 'arrow':
+                return evaluate(node.expression);
+            case 'return':
+                return raise({ type: 'return', value: evaluate(node.value) });
+            case 'break':
+            case 'continue':
+                return raise({ type: node.kind });
+            case 'block':
+                node.statements.forEach(evaluate);
+                return 0;
+            case 'loop': {
+                const count = Math.min(MAX_LOOP_ITERATIONS, Math.floor(toNumber(evaluate(node.count))));
+                for (let i = 0; i < count; i++) {
+                    if (!runIteration(node.body)) break;
+                }
+                return 0;
+            }
+            case 'for_each': {
+                const collection = evaluate(node.collection);
+                for (const item of Array.isArray(collection) ? collection : []) {
+                    writePath(node.variable.namespace === 'temp' ? temps : variables, node.variable.path, item);
+                    if (!runIteration(node.body)) break;
+                }
+                return 0;
+            }
+        }
+    };
+
+    /** Runs one pass of a loop body and returns whether the loop should go on. */
+    const runIteration = (body: MolangNode): boolean => {
+        try {
+            evaluate(body);
+            return true;
+        } catch (e) {
+            const flow = caught(e);
+            if (flow.type === 'return') raise(flow);
+            return flow.type === 'continue';
+        }
+    };
+
+    const evaluateBinary = (operator: string, leftNode: MolangNode, rightNode: MolangNode): MolangData => {
+        if (operator === '&&') return isTruthy(evaluate(leftNode)) && isTruthy(evaluate(rightNode)) ? 1 : 0;
+        if (operator === '||') return isTruthy(evaluate(leftNode)) || isTruthy(evaluate(rightNode)) ? 1 : 0;
+        if (operator === '??') {
+            const left = leftNode.kind === 'reference' ? lookup(leftNode) : evaluate(leftNode);
+            return left ?? evaluate(rightNode);
+        }
+        const left = evaluate(leftNode), right = evaluate(rightNode);
+        if (operator === '==') return left === right ? 1 : 0;
+        if (operator === '!=') return left !== right ? 1 : 0;
+        const a = toNumber(left), b = toNumber(right);
+        switch (operator) {
+            case '+': return a + b;
+            case '-': return a - b;
+            case '*': return a * b;
+            case '/': return b === 0 ? 0 : a / b;
+            case '<': return a < b ? 1 : 0;
+            case '<=': return a <= b ? 1 : 0;
+            case '>': return a > b ? 1 : 0;
+            case '>=': return a >= b ? 1 : 0;
+            default: return 0;
+        }
+    };
+
+    try {
+        const values = program.statements.map(evaluate);
+        return program.complex ? 0 : values[0];
+    } catch (e) {
+        const flow = caught(e);
+        // A stray break or continue outside a loop just ends the expression.
+        return flow.type === 'return' ? flow.value : 0;
+    }
+};
+
+/**
+ * Evaluates an expression for a preview, returning `fallback` when it doesn't parse or doesn't produce a number.
+ */
+export const evaluateMolangNumber = (source: number | string, context: MolangContext, fallback: number): number => {
+    if (typeof source === 'number') return source;
+    try {
+        const value = evaluateMolang(source, context);
+        return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+    } catch {
+        return fallback;
+    }
+};
@@ -0,0 +1,198 @@
+import JSZip from 'jszip';
+import { UploadedFile } from '../types';
+import { parseAddonJson } from './addonValidator';
+import { ManifestType, isManifestPath, manifestRoot, getModuleTypes, getManifestType, isInPackRoot, pathInPackRoot } from './packs';
+
+export type ImportedPackType = ManifestType;
+
+/**
+ * A pack found in an upload. `sourceRoot` is where its manifest.json was inside the upload,
+ * `root` is the canonical folder its files were moved to.
+ */
+export interface ImportedPack {
+    type: ImportedPackType;
+    name: string;
+    uuid: string | null;
+    moduleTypes: string[];
+    sourceRoot: string;
+    root: string;
+    fileCount: number;
+}
+
+export type ImportIssueKind = 'archive' | 'system_file' | 'manifest' | 'module_type' | 'outside_pack' | 'duplicate';
+
+/** A file (or whole upload) the importer skipped or could not place into a pack. */
+export interface ImportIssue {
+    kind: ImportIssueKind;
+    path: string;
+    reason: string;
+}
+
+export interface ImportResult {
+    files: UploadedFile[];
+    packs: ImportedPack[];
+    issues: ImportIssue[];
+}
+
+const CANONICAL_ROOTS: { [key in ImportedPackType]: string } = {
+    behavior: 'behavior_pack',
+    resource: 'resource_pack',
+    skin: 'skin_pack',
+    world_template: 'world_template',
+};
+
+const ARCHIVE_EXTENSIONS = ['.zip', '.mcaddon', '.mcpack', '.mctemplate', '.mcworld'];
+// Files operating systems add to archives, which never belong to a pack.
+const SYSTEM_FILE = /(^|\/)(__MACOSX\/|\.DS_Store$|Thumbs\.db$|desktop\.ini$)/i;
+
+interface RawEntry {
+    path: string;
+    file: File;
+    type: UploadedFile['type'];
+}
+
+interface FoundPack extends ImportedPack {
+    duplicateOf?: ImportedPack;
+}
+
+export const isArchivePath = (path: string) => ARCHIVE_EXTENSIONS.some(ext => path.toLowerCase().endsWith(ext));
+
+const stripArchiveExtension = (path: string) => path.replace(/\.[^./]+$/, '');
+
+/**
+ * Lists every file in an archive, expanding archives nested inside it (an .mcaddon usually holds .mcpack files).
+ * Entries are prefixed with the archive's name so packs from different uploads can't collide.
+ */
+const expandArchive = async (data: Blob, prefix: string, type: UploadedFile['type']): Promise<RawEntry[]> => {
+    const zip = await JSZip.loadAsync(data);
+    const entries: RawEntry[] = [];
+    for (const entry of Object.values(zip.files)) {
+        if (entry.dir) continue;
+        const path = `${prefix}/${entry.name}`;
+        const blob = await entry.async('blob');
+        if (isArchivePath(entry.name)) {
+            entries.push(...(await expandArchive(blob, stripArchiveExtension(path), type)));
+        } else {
+            entries.push({ path, file: new File([blob], path, { type: blob.type }), type });
+        }
+    }
+    return entries;
+};
+
+/**
+ * Unpacks uploads and moves every pack to a canonical root (`behavior_pack/`, `resource_pack/`, `skin_pack/`,
+ * `world_template/`, with `_2`, `_3`... for further packs of the same type), whatever folders it was nested in.
+ * Packs are found by their manifest.json and classified by module type. A pack whose UUID was already imported
+ * is dropped as a duplicate. Files outside every pack keep their original path and are reported, as are
+ * unreadable manifests and archives.
+ */
+export const importAddonFiles = async (uploadedFiles: UploadedFile[]): Promise<ImportResult> => {
+    const issues: ImportIssue[] = [];
+    const rawEntries: RawEntry[] = [];
+    const files: UploadedFile[] = [];
+
+    for (const upload of uploadedFiles) {
+        if (!isArchivePath(upload.file.name)) {
+            rawEntries.push({ path: upload.file.name, file: upload.file, type: upload.type });
+            continue;
+        }
+        try {
+            rawEntries.push(...(await expandArchive(upload.file, stripArchiveExtension(upload.file.name), upload.type)));
+        } catch (e) {
+            console.error(`Failed to unzip ${upload.file.name}, adding the file itself.`, e);
+            issues.push({ kind: 'archive', path: upload.file.name, reason: 'Could not be opened as an archive.' });
+            files.push(upload);
+        }
+    }
+
+    const entries = rawEntries.filter(entry => {
+        if (!SYSTEM_FILE.test(entry.path)) return true;
+        issues.push({ kind: 'system_file', path: entry.path, reason: 'System file, ignored.' });
+        return false;
+    });
+
+    const packs: FoundPack[] = [];
+    const rootCounts: { [key in ImportedPackType]?: number } = {};
+    for (const entry of entries.filter(e => isManifestPath(e.path))) {
+        let manifest: any;
+        try {
+            manifest = parseAddonJson(await entry.file.text());
+        } catch {
+            issues.push({ kind: 'manifest', path: entry.path, reason: 'manifest.json could not be parsed, so its pack was not recognized.' });
+            continue;
+        }
+        const moduleTypes = getModuleTypes(manifest);
+        const type = getManifestType(manifest);
+        if (!type) {
+            issues.push({ kind: 'module_type', path: entry.path, reason: `Unknown module type(s): ${moduleTypes.join(', ') || 'none'}.` });
+            continue;
+        }
+        const uuid = typeof manifest?.header?.uuid === 'string' ? manifest.header.uuid : null;
+        const sourceRoot = manifestRoot(entry.path);
+        const pack: FoundPack = {
+            type,
+            name: typeof manifest?.header?.name === 'string' ? manifest.header.name : sourceRoot || type,
+            uuid,
+            moduleTypes,
+            sourceRoot,
+            root: '',
+            fileCount: 0,
+            duplicateOf: uuid ? packs.find(p => p.uuid === uuid && !p.duplicateOf) : undefined,
+        };
+        if (!pack.duplicateOf) {
+            const count = (rootCounts[type] || 0) + 1;
+            rootCounts[type] = count;
+            pack.root = count === 1 ? CANONICAL_ROOTS[type] : `${CANONICAL_ROOTS[type]}_${count}`;
+        }
+        packs.push(pack);
+    }
+
+    for (const entry of entries) {
+        const owners = packs.filter(pack => isInPackRoot(pack.sourceRoot, entry.path));
+        if (owners.length === 0) {
+            issues.push({ kind: 'outside_pack', path: entry.path, reason: 'Not inside any pack with a manifest.json.' });
+            files.push({ file: entry.file, type: entry.type });
+            continue;
+        }
+        const owner = owners.reduce((deepest, pack) => (pack.sourceRoot.length > deepest.sourceRoot.length ? pack : deepest));
+        if (owner.duplicateOf) {
+            issues.push({ kind: 'duplicate', path: entry.path, reason: `Duplicate of the pack already imported to ${owner.duplicateOf.root}/, ignored.` });
+            continue;
+        }
+        const path = `${owner.root}/${pathInPackRoot(owner.sourceRoot, entry.path)}`;
+        owner.fileCount++;
+        files.push({ file: new File([entry.file], path, { type: entry.file.type, lastModified: entry.file.lastModified }), type: entry.type });
+    }
+
+    return {
+        files,
+        packs: packs.filter(pack => !pack.duplicateOf).map(({ duplicateOf, ...pack }) => pack),
+        issues,
+    };
+};
+
+/**
+ * Picks a name for an imported addon: the behavior pack's name if there is one, otherwise the first pack's.
+ */
+export const getImportedAddonName = (result: ImportResult, fallback: string) =>
+    (result.packs.find(pack => pack.type === 'behavior') || result.packs[0])?.name || fallback;
+
+const ISSUE_SUMMARIES: { [key in ImportIssueKind]: (count: number) => string } = {
+    archive: n => `${n} ${n === 1 ? 'upload' : 'uploads'} could not be opened as an archive and ${n === 1 ? 'was' : 'were'} added as ${n === 1 ? 'it is' : 'they are'}`,
+    system_file: n => `${n} system ${n === 1 ? 'file was' : 'files were'} skipped`,
+    manifest: n => `${n} manifest.json ${n === 1 ? 'file' : 'files'} could not be parsed, so ${n === 1 ? 'its pack was' : 'their packs were'} not recognized`,
+    module_type: n => `${n} ${n === 1 ? 'manifest has' : 'manifests have'} unknown module types, so ${n === 1 ? 'its pack was' : 'their packs were'} not recognized`,
+    outside_pack: n => `${n} ${n === 1 ? 'file is' : 'files are'} not inside a pack with a manifest.json and kept ${n === 1 ? 'its' : 'their'} original path`,
+    duplicate: n => `${n} ${n === 1 ? 'file belongs' : 'files belong'} to a pack that was already imported and ${n === 1 ? 'was' : 'were'} skipped`,
+};
+
+/**
+ * Summarizes import issues for a notification, one sentence per kind of issue,
+ * e.g. "2 system files were skipped: .DS_Store, Thumbs.db."
+ */
+export const describeImportIssues = (issues: ImportIssue[]) =>
+    (Object.keys(ISSUE_SUMMARIES) as ImportIssueKind[])
+        .map(kind => issues.filter(issue => issue.kind === kind))
+        .filter(group => group.length > 0)
+        .map(group => `${ISSUE_SUMMARIES[group[0].kind](group.length)}: ${group.slice(0, 3).map(i => i.path).join(', ')}${group.length > 3 ? ', ...' : ''}.`)
+        .join(' ');
@@ -0,0 +1,109 @@
+import { GeneratedFile } from '../types';
+import { parseAddonJson } from './addonValidator';
+
+export type PackKind = 'behavior' | 'resource';
+
+/** Every kind of manifest an upload can hold. Only behavior and resource packs are edited in the workspace. */
+export type ManifestType = PackKind | 'skin' | 'world_template';
+
+export type ManifestVersion = number[] | string;
+
+/**
+ * A behavior or resource pack found in the workspace, identified by the folder holding its manifest.json.
+ * Roots never end in a slash; a pack whose manifest is at the top level has the root ''.
+ */
+export interface PackInfo {
+    root: string;
+    kind: PackKind;
+    name: string;
+    uuid: string;
+    version: ManifestVersion;
+}
+
+const MANIFEST_FILE = 'manifest.json';
+
+export const isManifestPath = (path: string) => path === MANIFEST_FILE || path.endsWith(`/${MANIFEST_FILE}`);
+
+/** The folder a manifest.json sits in, which is the root of its pack. '' for a manifest at the top level. */
+export const manifestRoot = (path: string) => path.slice(0, -MANIFEST_FILE.length).replace(/\/$/, '');
+
+export const getModuleTypes = (manifest: any): string[] =>
+    (Array.isArray(manifest?.modules) ? manifest.modules : []).map((m: any) => m?.type).filter((t: any): t is string => typeof t === 'string');
+
+/**
+ * Decides what a manifest describes from its module types. Script modules (called "javascript" in
+ * older manifests) only ever appear in behavior packs.
+ */
+export const getManifestType = (manifest: any): ManifestType | null => {
+    const types = getModuleTypes(manifest);
+    if (types.includes('world_template')) return 'world_template';
+    if (types.includes('skin_pack')) return 'skin';
+    if (types.includes('resources')) return 'resource';
+    if (types.includes('data') || types.includes('script') || types.includes('javascript')) return 'behavior';
+    return null;
+};
+
+export const getPackKind = (manifest: any): PackKind | null => {
+    const type = getManifestType(manifest);
+    return type === 'behavior' || type === 'resource' ? type : null;
+};
+
+/** The roots of every pack in a list of paths, whether or not its manifest can be read. */
+export const findPackRoots = (paths: string[]): string[] => paths.filter(isManifestPath).map(manifestRoot);
+
+export const isInPackRoot = (root: string, path: string) => root === '' || path.startsWith(`${root}/`);
+
+/**
+ * Returns the root a path belongs to, preferring the most deeply nested one.
+ */
+export const findPackRootForPath = (roots: string[], path: string): string | null => {
+    const candidates = roots.filter(root => isInPackRoot(root, path));
+    if (candidates.length === 0) return null;
+    return candidates.reduce((deepest, root) => (root.length > deepest.length ? root : deepest));
+};
+
+/** Strips a pack root from a path, giving the path inside the pack. */
+export const pathInPackRoot = (root: string, path: string) => (root ? path.slice(root.length + 1) : path);
+
+/** Joins a pack root and a path inside the pack. */
+export const packPath = (root: string, path: string) => (root ? `${root}/${path}` : path);
+
+/**
+ * Finds every behavior and resource pack in the workspace. Manifests that fail to parse or that describe
+ * other pack types (skin packs, world templates) are skipped.
+ */
+export const findPacks = (files: GeneratedFile[]): PackInfo[] => {
+    const packs: PackInfo[] = [];
+    for (const file of files) {
+        if (!isManifestPath(file.path)) continue;
+        let manifest: any;
+        try {
+            manifest = parseAddonJson(file.content);
+        } catch {
+            continue;
+        }
+        const kind = getPackKind(manifest);
+        if (!kind || typeof manifest?.header?.uuid !== 'string') continue;
+        packs.push({
+            root: manifestRoot(file.path),
+            kind,
+            name: typeof manifest.header.name === 'string' ? manifest.header.name : manifestRoot(file.path) || kind,
+            uuid: manifest.header.uuid,
+            version: manifest.header.version ?? [1, 0, 0],
+        });
+    }
+    return packs;
+};
+
+/**
+ * Returns the pack a path belongs to, preferring the most deeply nested pack root.
+ */
+export const findPackForPath = (packs: PackInfo[], path: string): PackInfo | null => {
+    const root = findPackRootForPath(packs.map(pack => pack.root), path);
+    return root === null ? null : packs.find(pack => pack.root === root)!;
+};
+
+/**
+ * Strips a pack's root folder from a path, giving the path inside the pack.
+ */
+export const pathInPack = (pack: PackInfo, path: string) => pathInPackRoot(pack.root, path);
@@ -0,0 +1,251 @@
+import { evaluateMolangNumber } from './molang';
+
+export type CurveType = 'linear' | 'bezier' | 'catmull_rom' | 'bezier_chain';
+
+/** A key of a bezier chain. The left and right sides differ when the curve jumps or bends sharply at this key. */
+export interface ChainNode {
+    time: number;
+    leftValue: number;
+    rightValue: number;
+    leftSlope: number;
+    rightSlope: number;
+}
+
+export interface ParticleCurve {
+    /** The Molang variable the curve is written to, e.g. `variable.size`. */
+    name: string;
+    type: CurveType;
+    input: string;
+    /** The input value that maps to the end of the curve. */
+    horizontalRange: number | string;
+    /** Evenly spaced values, used by every type except `bezier_chain`. */
+    nodes: number[];
+    chain: ChainNode[];
+}
+
+export interface GradientStop {
+    time: number;
+    /** "#RRGGBB" */
+    color: string;
+    opacity: number;
+}
+
+export const CURVE_TYPES: { type: CurveType; label: string }[] = [
+    { type: 'linear', label: 'Linear' },
+    { type: 'bezier', label: 'Bezier' },
+    { type: 'catmull_rom', label: 'Catmull-Rom' },
+    { type: 'bezier_chain', label: 'Bezier chain' },
+];
+
+export const LIFE_RATIO = 'variable.particle_age / variable.particle_lifetime';
+
+/** The fewest nodes each curve type needs: bezier takes exactly four, catmull-rom needs a control point at each end. */
+export const MIN_NODES: { [type in CurveType]: number } = { linear: 2, bezier: 4, catmull_rom: 4, bezier_chain: 2 };
+
+export const createCurve = (name: string, type: CurveType = 'linear'): ParticleCurve => ({
+    name,
+    type,
+    input: LIFE_RATIO,
+    horizontalRange: 1,
+    nodes: type === 'linear' ? [1, 0] : [1, 1, 0, 0],
+    chain: [
+        { time: 0, leftValue: 1, rightValue: 1, leftSlope: 0, rightSlope: 0 },
+        { time: 1, leftValue: 0, rightValue: 0, leftSlope: 0, rightSlope: 0 },
+    ],
+});
+
+/** Changes a curve's type, padding or trimming its nodes to what the new type needs. */
+export const changeCurveType = (curve: ParticleCurve, type: CurveType): ParticleCurve => {
+    let nodes = curve.nodes.length > 0 ? curve.nodes : [0];
+    if (type === 'bezier') nodes = [0, 1, 2, 3].map(i => nodes[Math.round((i / 3) * (nodes.length - 1))]);
+    while (nodes.length < MIN_NODES[type]) nodes = [...nodes, nodes[nodes.length - 1]];
+    return { ...curve, type, nodes };
+};
+
+// --- EVALUATION ---
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+const cubicBezier = (p0: number, p1: number, p2: number, p3: number, t: number) => {
+    const u = 1 - t;
+    return u * u * u * p0 + 3 * u * u * t * p1 + 3 * u * t * t * p2 + t * t * t * p3;
+};
+
+const catmullRom = (p0: number, p1: number, p2: number, p3: number, t: number) =>
+    0.5 * (2 * p1 + (p2 - p0) * t + (2 * p0 - 5 * p1 + 4 * p2 - p3) * t * t + (3 * p1 - p0 - 3 * p2 + p3) * t * t * t);
+
+/**
+ * Samples a curve at `t`, the input divided by the horizontal range, clamped to 0-1 the way the game does.
+ */
+export const sampleCurve = (curve: ParticleCurve, t: number): number => {
+    t = Math.min(1, Math.max(0, Number.isFinite(t) ? t : 0));
+    const nodes = curve.nodes;
+    switch (curve.type) {
+        case 'linear': {
+            if (nodes.length < 2) return nodes[0] ?? 0;
+            const position = t * (nodes.length - 1);
+            const i = Math.min(nodes.length - 2, Math.floor(position));
+            return lerp(nodes[i], nodes[i + 1], position - i);
+        }
+        case 'bezier':
+            return nodes.length === 4 ? cubicBezier(nodes[0], nodes[1], nodes[2], nodes[3], t) : nodes[0] ?? 0;
+        case 'catmull_rom': {
+            // The first and last nodes only steer the ends; the curve passes through the ones in between.
+            if (nodes.length < 4) return nodes[1] ?? nodes[0] ?? 0;
+            const segments = nodes.length - 3;
+            const position = t * segments;
+            const i = Math.min(segments - 1, Math.floor(position));
+            return catmullRom(nodes[i], nodes[i + 1], nodes[i + 2], nodes[i + 3], position - i);
+        }
+        case 'bezier_chain': {
+            const chain = [...curve.chain].sort((a, b) => a.time - b.time);
+            if (chain.length === 0) return 0;
+            if (t <= chain[0].time) return chain[0].leftValue;
+            const next = chain.findIndex(node => node.time > t);
+            if (next === -1) return chain[chain.length - 1].rightValue;
+            const a = chain[next - 1], b = chain[next];
+            const span = b.time - a.time;
+            const local = (t - a.time) / span;
+            return cubicBezier(a.rightValue, a.rightValue + (a.rightSlope * span) / 3, b.leftValue - (b.leftSlope * span) / 3, b.leftValue, local);
+        }
+    }
+};
+
+const channels = (color: string) => [1, 3, 5].map(i => parseInt(color.slice(i, i + 2), 16));
+
+/** The color and opacity of a gradient at `time`, holding the first and last stops past either end. */
+export const sampleGradient = (stops: GradientStop[], time: number): { rgb: number[]; opacity: number } => {
+    const sorted = [...stops].sort((a, b) => a.time - b.time);
+    if (sorted.length === 0) return { rgb: [255, 255, 255], opacity: 1 };
+    const next = sorted.findIndex(stop => stop.time > time);
+    if (next === 0 || sorted.length === 1) return { rgb: channels(sorted[0].color), opacity: sorted[0].opacity };
+    if (next === -1) {
+        const last = sorted[sorted.length - 1];
+        return { rgb: channels(last.color), opacity: last.opacity };
+    }
+    const a = sorted[next - 1], b = sorted[next];
+    const t = (time - a.time) / (b.time - a.time);
+    const [from, to] = [channels(a.color), channels(b.color)];
+    return { rgb: from.map((c, i) => Math.round(lerp(c, to[i], t))), opacity: lerp(a.opacity, b.opacity, t) };
+};
+
+export const gradientCss = (stops: GradientStop[]) => {
+    const sorted = [...stops].sort((a, b) => a.time - b.time);
+    const span = sorted.length > 1 ? sorted[sorted.length - 1].time - sorted[0].time || 1 : 1;
+    const start = sorted[0]?.time ?? 0;
+    return `linear-gradient(to right, ${sorted.map(stop => {
+        const [r, g, b] = channels(stop.color);
+        return `rgba(${r}, ${g}, ${b}, ${stop.opacity}) ${((stop.time - start) / span) * 100}%`;
+    }).join(', ') || 'transparent, transparent'})`;
+};
+
+/** Values the preview knows for a particle, keyed by variable name without the `variable.` prefix. */
+export type PreviewVariables = { [name: string]: number };
+
+const variableName = (name: string) => name.trim().toLowerCase().replace(/^(variable|v)\./, '');
+
+/**
+ * Evaluates an expression the way the game would for one particle. Curves are sampled first and
+ * stored under their own names, so expressions can read them like any other variable. Anything
+ * the preview can't work out gives `fallback`.
+ */
+export const resolvePreviewValue = (value: number | string, variables: PreviewVariables, curves: ParticleCurve[], fallback: number): number => {
+    if (typeof value === 'number') return value;
+    const context = { variables: { ...variables } };
+    // Curves are evaluated in order, so a curve can use an earlier one as its input.
+    for (const curve of curves) {
+        const input = evaluateMolangNumber(curve.input, context, 0);
+        const range = evaluateMolangNumber(curve.horizontalRange, context, 1) || 1;
+        context.variables[variableName(curve.name)] = sampleCurve(curve, input / range);
+    }
+    return evaluateMolangNumber(value, context, fallback);
+};
+
+// --- READING AND WRITING ---
+
+const round = (value: number) => +value.toFixed(3);
+
+export const buildCurve = (curve: ParticleCurve) => ({
+    type: curve.type,
+    input: curve.input,
+    // The range field is free text, so plain numbers typed into it are written back as numbers.
+    horizontal_range: typeof curve.horizontalRange === 'string' && curve.horizontalRange.trim() !== '' && !Number.isNaN(Number(curve.horizontalRange))
+        ? Number(curve.horizontalRange)
+        : curve.horizontalRange,
+    nodes: curve.type === 'bezier_chain'
+        ? Object.fromEntries([...curve.chain].sort((a, b) => a.time - b.time).map(node => [
+            node.time.toFixed(2),
+            node.leftValue === node.rightValue && node.leftSlope === node.rightSlope
+                ? { value: node.leftValue, slope: node.leftSlope }
+                : { left_value: node.leftValue, right_value: node.rightValue, left_slope: node.leftSlope, right_slope: node.rightSlope },
+        ]))
+        : curve.nodes,
+});
+
+/** Reads a curve from a particle file, or returns null when it uses something the editor can't show, such as Molang nodes. */
+export const parseCurve = (name: string, json: any): ParticleCurve | null => {
+    if (!json || !CURVE_TYPES.some(c => c.type === json.type)) return null;
+    const curve = createCurve(name, json.type);
+    curve.input = typeof json.input === 'string' ? json.input : String(json.input ?? LIFE_RATIO);
+    curve.horizontalRange = typeof json.horizontal_range === 'number' || typeof json.horizontal_range === 'string' ? json.horizontal_range : 1;
+    if (json.type === 'bezier_chain') {
+        if (!json.nodes || typeof json.nodes !== 'object' || Array.isArray(json.nodes)) return null;
+        const chain: ChainNode[] = [];
+        for (const [time, node] of Object.entries<any>(json.nodes)) {
+            const left = node?.left_value ?? node?.value, right = node?.right_value ?? node?.value;
+            const leftSlope = node?.left_slope ?? node?.slope ?? 0, rightSlope = node?.right_slope ?? node?.slope ?? 0;
+            if (![left, right, leftSlope, rightSlope].every(v => typeof v === 'number') || Number.isNaN(parseFloat(time))) return null;
+            chain.push({ time: parseFloat(time), leftValue: left, rightValue: right, leftSlope, rightSlope });
+        }
+        curve.chain = chain.sort((a, b) => a.time - b.time);
+    } else {
+        if (!Array.isArray(json.nodes) || !json.nodes.every((v: any) => typeof v === 'number')) return null;
+        curve.nodes = json.nodes;
+    }
+    return curve;
+};
+
+/** Reads "#RRGGBB", "#AARRGGBB" or a 0-1 [r, g, b, a] array into a hex color and an opacity. */
+export const readColor = (value: any): { color: string; opacity: number } | null => {
+    const toHex = (v: number) => Math.round(Math.min(1, Math.max(0, v)) * 255).toString(16).padStart(2, '0').toUpperCase();
+    if (typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value)) return { color: value.toUpperCase(), opacity: 1 };
+    if (typeof value === 'string' && /^#[0-9a-f]{8}$/i.test(value)) return { color: `#${value.slice(3).toUpperCase()}`, opacity: round(parseInt(value.slice(1, 3), 16) / 255) };
+    if (Array.isArray(value) && value.length >= 3 && value.every(v => typeof v === 'number')) {
+        return { color: `#${toHex(value[0])}${toHex(value[1])}${toHex(value[2])}`, opacity: value[3] ?? 1 };
+    }
+    return null;
+};
+
+/** "#RRGGBB" with an opacity becomes "#AARRGGBB", which is how particle colors take alpha. */
+export const writeColor = (stop: { color: string; opacity: number }) =>
+    stop.opacity >= 1 ? stop.color : `#${Math.round(Math.max(0, stop.opacity) * 255).toString(16).padStart(2, '0').toUpperCase()}${stop.color.slice(1)}`;
+
+/**
+ * Writes a gradient as the time-keyed map the game expects. A single stop becomes a plain color.
+ */
+export const buildGradient = (stops: GradientStop[]) => {
+    const sorted = [...stops].sort((a, b) => a.time - b.time);
+    return sorted.length === 1 ? writeColor(sorted[0]) : Object.fromEntries(sorted.map(stop => [stop.time.toFixed(2), writeColor(stop)]));
+};
+
+/**
+ * Reads a gradient in any of the forms the game accepts: a time-keyed map, a list of evenly spaced colors,
+ * or a list of `{ time, color }` entries. Returns null when a color can't be read.
+ */
+export const parseGradient = (gradient: any): GradientStop[] | null => {
+    let entries: [number, any][];
+    if (Array.isArray(gradient)) {
+        entries = gradient.every(entry => entry && typeof entry === 'object' && !Array.isArray(entry) && 'time' in entry)
+            ? gradient.map(entry => [Number(entry.time), entry.color])
+            : gradient.map((color, i) => [gradient.length > 1 ? i / (gradient.length - 1) : 0, color]);
+    } else if (gradient && typeof gradient === 'object') {
+        entries = Object.entries(gradient).map(([time, color]) => [parseFloat(time), color]);
+    } else {
+        return null;
+    }
+    const stops = entries.map(([time, color]) => {
+        const read = readColor(color);
+        return read && Number.isFinite(time) ? { time, ...read } : null;
+    });
+    return stops.length > 0 && stops.every(Boolean) ? (stops as GradientStop[]).sort((a, b) => a.time - b.time) : null;
+};
@@ -0,0 +1,441 @@
+import { GeneratedFile } from '../types';
+import { parseAddonJson } from './addonValidator';
+import { ParticleCurve, GradientStop, LIFE_RATIO, buildCurve, parseCurve, buildGradient, parseGradient, readColor } from './particleCurves';
+
+/** A number, or a Molang expression the game evaluates at runtime. */
+export type MolangValue = number | string;
+export type Vec3Value = [MolangValue, MolangValue, MolangValue];
+
+export type EmitterShape = 'point' | 'sphere' | 'box' | 'disc' | 'entity_aabb';
+export type EmitterRate = 'steady' | 'instant' | 'manual';
+export type EmitterLifetime = 'looping' | 'once';
+export type EmitDirection = 'outward' | 'inward' | 'upward';
+
+export interface ParticleSettings {
+    identifier: string;
+    texture: string;
+    material: string;
+    lifespan: MolangValue;
+    rateMode: EmitterRate;
+    rate: MolangValue;
+    /** Particles spawned at once by an instant emitter. */
+    burstCount: MolangValue;
+    maxParticles: MolangValue;
+    lifetimeMode: EmitterLifetime;
+    activeTime: MolangValue;
+    emitterShape: EmitterShape;
+    emitterRadius: MolangValue;
+    /** Half the width, height and depth of a box emitter. */
+    boxSize: Vec3Value;
+    discNormal: 'x' | 'y' | 'z';
+    surfaceOnly: boolean;
+    offset: Vec3Value;
+    direction: EmitDirection;
+    initialSpeed: MolangValue;
+    gravity: MolangValue;
+    airDrag: MolangValue;
+    startSize: MolangValue;
+    endSize: MolangValue;
+    facingCameraMode: string;
+    /** Color stops over the interpolant, which runs from 0 to 1 over the particle's life by default. */
+    gradient: GradientStop[];
+    colorInterpolant: string;
+    curves: ParticleCurve[];
+    collision: { enabled: boolean; drag: number; restitution: number; radius: number; expireOnContact: boolean };
+    uv: {
+        enabled: boolean;
+        textureWidth: number;
+        textureHeight: number;
+        base: [MolangValue, MolangValue];
+        size: [MolangValue, MolangValue];
+        flipbook: boolean;
+        step: [MolangValue, MolangValue];
+        framesPerSecond: number;
+        maxFrame: MolangValue;
+        stretchToLifetime: boolean;
+        loop: boolean;
+    };
+    lighting: boolean;
+    /** Components the editor doesn't manage, or couldn't read, written back unchanged. */
+    extraComponents: { [component: string]: any };
+    /** Other `particle_effect` keys, such as curves and events, written back unchanged. */
+    extra: { [key: string]: any };
+}
+
+export const MATERIALS = ['particles_alpha', 'particles_blend', 'particles_add', 'particles_opaque'];
+export const FACING_CAMERA_MODES = ['lookat_xyz', 'lookat_y', 'rotate_xyz', 'rotate_y', 'direction_x', 'direction_y', 'direction_z', 'emitter_transform_xy', 'emitter_transform_xz', 'emitter_transform_yz'];
+
+export const defaultSettings: ParticleSettings = {
+    identifier: 'custom:my_particle',
+    texture: 'textures/particle/particles',
+    material: 'particles_alpha',
+    lifespan: 2.0,
+    rateMode: 'steady',
+    rate: 10,
+    burstCount: 20,
+    maxParticles: 100,
+    lifetimeMode: 'looping',
+    activeTime: 1,
+    emitterShape: 'point',
+    emitterRadius: 0.5,
+    boxSize: [0.5, 0.5, 0.5],
+    discNormal: 'y',
+    surfaceOnly: false,
+    offset: [0, 0, 0],
+    direction: 'outward',
+    initialSpeed: 2.0,
+    gravity: -1.0,
+    airDrag: 1.0,
+    startSize: 0.1,
+    endSize: 0.01,
+    facingCameraMode: 'lookat_xyz',
+    gradient: [
+        { time: 0, color: '#FFFFFF', opacity: 1.0 },
+        { time: 1, color: '#FFFFFF', opacity: 0.0 },
+    ],
+    colorInterpolant: LIFE_RATIO,
+    curves: [],
+    collision: { enabled: false, drag: 0, restitution: 0.5, radius: 0.1, expireOnContact: false },
+    uv: {
+        enabled: false,
+        textureWidth: 128,
+        textureHeight: 128,
+        base: [0, 0],
+        size: [8, 8],
+        flipbook: false,
+        step: [8, 0],
+        framesPerSecond: 8,
+        maxFrame: 8,
+        stretchToLifetime: false,
+        loop: false,
+    },
+    lighting: false,
+    extraComponents: {},
+    extra: {},
+};
+
+/** Reads a field that may hold a number or a Molang expression, keeping numbers as numbers. */
+export const toMolangValue = (text: string): MolangValue => {
+    const trimmed = text.trim();
+    return trimmed !== '' && !Number.isNaN(Number(trimmed)) ? Number(trimmed) : text;
+};
+
+// --- BUILDING ---
+
+const sizeValue = (start: MolangValue, end: MolangValue): MolangValue => {
+    if (start === end) return start;
+    if (typeof start === 'number' && typeof end === 'number') return `${LIFE_RATIO} * ${+(end - start).toFixed(4)} + ${start}`;
+    return `${LIFE_RATIO} * ((${end}) - (${start})) + (${start})`;
+};
+
+const buildShape = (settings: ParticleSettings) => {
+    const direction = settings.direction === 'upward' ? [0, 1, 0] : settings.direction === 'inward' ? 'inwards' : 'outwards';
+    const offset = settings.offset.some(v => v !== 0) ? { offset: settings.offset } : {};
+    switch (settings.emitterShape) {
+        case 'point':
+            return { 'minecraft:emitter_shape_point': { ...offset, direction } };
+        case 'sphere':
+            return { 'minecraft:emitter_shape_sphere': { ...offset, radius: settings.emitterRadius, surface_only: settings.surfaceOnly, direction } };
+        case 'box':
+            return { 'minecraft:emitter_shape_box': { ...offset, half_dimensions: settings.boxSize, surface_only: settings.surfaceOnly, direction } };
+        case 'disc':
+            return { 'minecraft:emitter_shape_disc': { ...offset, radius: settings.emitterRadius, plane_normal: settings.discNormal, surface_only: settings.surfaceOnly, direction } };
+        case 'entity_aabb':
+            return { 'minecraft:emitter_shape_entity_aabb': { surface_only: settings.surfaceOnly, direction } };
+    }
+};
+
+const buildRate = (settings: ParticleSettings) => {
+    switch (settings.rateMode) {
+        case 'steady':
+            return { 'minecraft:emitter_rate_steady': { spawn_rate: settings.rate, max_particles: settings.maxParticles } };
+        case 'instant':
+            return { 'minecraft:emitter_rate_instant': { num_particles: settings.burstCount } };
+        case 'manual':
+            return { 'minecraft:emitter_rate_manual': { max_particles: settings.maxParticles } };
+    }
+};
+
+const buildUv = ({ uv }: ParticleSettings) => ({
+    texture_width: uv.textureWidth,
+    texture_height: uv.textureHeight,
+    ...(uv.flipbook
+        ? {
+            flipbook: {
+                base_UV: uv.base,
+                size_UV: uv.size,
+                step_UV: uv.step,
+                frames_per_second: uv.framesPerSecond,
+                max_frame: uv.maxFrame,
+                stretch_to_lifetime: uv.stretchToLifetime,
+                loop: uv.loop,
+            },
+        }
+        : { uv: uv.base, uv_size: uv.size }),
+});
+
+// Components an emitter can only have one of from each group. Listed by name because some components
+// share a prefix without being exclusive, e.g. emitter_lifetime_events sits alongside the lifetime.
+const EXCLUSIVE_FAMILIES = [
+    ['point', 'sphere', 'box', 'disc', 'custom', 'entity_aabb'].map(shape => `minecraft:emitter_shape_${shape}`),
+    ['instant', 'steady', 'manual'].map(rate => `minecraft:emitter_rate_${rate}`),
+    ['looping', 'once', 'expression'].map(lifetime => `minecraft:emitter_lifetime_${lifetime}`),
+];
+
+export const buildParticleJson = (settings: ParticleSettings) => {
+    const components: { [component: string]: any } = {
+        ...buildRate(settings),
+        [`minecraft:emitter_lifetime_${settings.lifetimeMode}`]: { active_time: settings.activeTime },
+        ...buildShape(settings),
+        'minecraft:particle_lifetime_expression': { max_lifetime: settings.lifespan },
+        'minecraft:particle_initial_speed': settings.initialSpeed,
+        'minecraft:particle_motion_dynamic': {
+            linear_acceleration: [0, settings.gravity, 0],
+            linear_drag_coefficient: settings.airDrag,
+        },
+        ...(settings.collision.enabled && {
+            'minecraft:particle_motion_collision': {
+                collision_drag: settings.collision.drag,
+                coefficient_of_restitution: settings.collision.restitution,
+                collision_radius: settings.collision.radius,
+                expire_on_contact: settings.collision.expireOnContact,
+            },
+        }),
+        'minecraft:particle_appearance_billboard': {
+            size: [sizeValue(settings.startSize, settings.endSize), sizeValue(settings.startSize, settings.endSize)],
+            facing_camera_mode: settings.facingCameraMode,
+            ...(settings.uv.enabled && { uv: buildUv(settings) }),
+        },
+        'minecraft:particle_appearance_tinting': {
+            color: settings.gradient.length === 1
+                ? buildGradient(settings.gradient)
+                : { gradient: buildGradient(settings.gradient), interpolant: settings.colorInterpolant },
+        },
+        ...(settings.lighting && { 'minecraft:particle_appearance_lighting': {} }),
+    };
+    // Imported components the editor couldn't read take the place of the generated ones, including
+    // any other shape, rate or lifetime, since an emitter can only have one of each.
+    for (const kept of Object.keys(settings.extraComponents)) {
+        const family = EXCLUSIVE_FAMILIES.find(names => names.includes(kept));
+        if (family) Object.keys(components).filter(key => family.includes(key)).forEach(key => delete components[key]);
+    }
+    Object.assign(components, settings.extraComponents);
+
+    return {
+        format_version: '1.20.50',
+        particle_effect: {
+            description: {
+                identifier: settings.identifier,
+                basic_render_parameters: {
+                    material: settings.material,
+                    texture: settings.texture,
+                },
+            },
+            ...settings.extra,
+            ...((settings.curves.length > 0 || settings.extra.curves) && {
+                curves: { ...settings.extra.curves, ...Object.fromEntries(settings.curves.map(curve => [curve.name, buildCurve(curve)])) },
+            }),
+            components,
+        },
+    };
+};
+
+// --- PARSING ---
+
+const isMolang = (value: any): value is MolangValue => typeof value === 'number' || typeof value === 'string';
+
+const readMolang = (value: any, fallback: MolangValue): MolangValue => (isMolang(value) ? value : fallback);
+
+const readVec3 = (value: any, fallback: Vec3Value): Vec3Value =>
+    Array.isArray(value) && value.length === 3 && value.every(isMolang) ? [value[0], value[1], value[2]] : fallback;
+
+const readVec2 = (value: any, fallback: [MolangValue, MolangValue]): [MolangValue, MolangValue] =>
+    Array.isArray(value) && value.length === 2 && value.every(isMolang) ? [value[0], value[1]] : fallback;
+
+/** Recovers start and end sizes from the expression `sizeValue` writes; other expressions are kept whole. */
+const readSize = (value: any): [MolangValue, MolangValue] | null => {
+    if (typeof value === 'number') return [value, value];
+    if (typeof value !== 'string') return null;
+    const match = new RegExp(`^${LIFE_RATIO.replace(/[./]/g, '\\$&')} \\* (-?[\\d.]+) \\+ (-?[\\d.]+)$`).exec(value.trim());
+    if (match) return [parseFloat(match[2]), +(parseFloat(match[2]) + parseFloat(match[1])).toFixed(4)];
+    return [value, value];
+};
+
+const SHAPES: { [component: string]: EmitterShape } = {
+    'minecraft:emitter_shape_point': 'point',
+    'minecraft:emitter_shape_sphere': 'sphere',
+    'minecraft:emitter_shape_box': 'box',
+    'minecraft:emitter_shape_disc': 'disc',
+    'minecraft:emitter_shape_entity_aabb': 'entity_aabb',
+};
+
+/**
+ * Reads a particle file into editor settings. Components the editor doesn't cover, or whose values it can't
+ * show, end up in `extraComponents` so saving the file again doesn't lose them.
+ */
+export const parseParticleJson = (content: string): ParticleSettings => {
+    const json = parseAddonJson(content);
+    const effect = json?.particle_effect;
+    if (!effect || typeof effect !== 'object') throw new Error('This file has no "particle_effect", so it isn\'t a particle.');
+    const { description, components: rawComponents, curves: rawCurves, ...extra } = effect;
+    const components: { [component: string]: any } = { ...(rawComponents ?? {}) };
+    const settings: ParticleSettings = {
+        ...defaultSettings,
+        identifier: typeof description?.identifier === 'string' ? description.identifier : defaultSettings.identifier,
+        texture: description?.basic_render_parameters?.texture ?? defaultSettings.texture,
+        material: description?.basic_render_parameters?.material ?? defaultSettings.material,
+        extra,
+        curves: [],
+    };
+    // Curves the editor can't show, such as ones with Molang nodes, are kept as they are.
+    for (const [name, json] of Object.entries<any>(rawCurves ?? {})) {
+        const curve = parseCurve(name, json);
+        if (curve) settings.curves.push(curve);
+        else extra.curves = { ...extra.curves, [name]: json };
+    }
+    const take = (name: string) => {
+        const value = components[name];
+        delete components[name];
+        return value;
+    };
+
+    if (components['minecraft:emitter_rate_steady']) {
+        const rate = take('minecraft:emitter_rate_steady');
+        Object.assign(settings, { rateMode: 'steady', rate: readMolang(rate.spawn_rate, 1), maxParticles: readMolang(rate.max_particles, 50) });
+    } else if (components['minecraft:emitter_rate_instant']) {
+        Object.assign(settings, { rateMode: 'instant', burstCount: readMolang(take('minecraft:emitter_rate_instant').num_particles, 10) });
+    } else if (components['minecraft:emitter_rate_manual']) {
+        Object.assign(settings, { rateMode: 'manual', maxParticles: readMolang(take('minecraft:emitter_rate_manual').max_particles, 50) });
+    }
+
+    for (const mode of ['looping', 'once'] as const) {
+        const lifetime = components[`minecraft:emitter_lifetime_${mode}`];
+        // Looping emitters with a sleep time can't be shown, so they stay as they are.
+        if (lifetime && lifetime.sleep_time === undefined) {
+            take(`minecraft:emitter_lifetime_${mode}`);
+            Object.assign(settings, { lifetimeMode: mode, activeTime: readMolang(lifetime.active_time, 10) });
+        }
+    }
+
+    const shapeKey = Object.keys(SHAPES).find(key => components[key]);
+    if (shapeKey) {
+        const shape = components[shapeKey];
+        const direction = shape.direction;
+        const readable = direction === undefined || direction === 'outwards' || direction === 'inwards' || JSON.stringify(direction) === '[0,1,0]';
+        if (readable) {
+            take(shapeKey);
+            Object.assign(settings, {
+                emitterShape: SHAPES[shapeKey],
+                direction: direction === 'inwards' ? 'inward' : Array.isArray(direction) ? 'upward' : 'outward',
+                emitterRadius: readMolang(shape.radius, 1),
+                boxSize: readVec3(shape.half_dimensions, defaultSettings.boxSize),
+                discNormal: ['x', 'y', 'z'].includes(shape.plane_normal) ? shape.plane_normal : 'y',
+                surfaceOnly: shape.surface_only === true,
+                offset: readVec3(shape.offset, defaultSettings.offset),
+            });
+        }
+    }
+
+    const lifetime = components['minecraft:particle_lifetime_expression'];
+    if (lifetime && lifetime.expiration_expression === undefined) {
+        settings.lifespan = readMolang(take('minecraft:particle_lifetime_expression').max_lifetime, 1);
+    }
+    if (isMolang(components['minecraft:particle_initial_speed'])) settings.initialSpeed = take('minecraft:particle_initial_speed');
+
+    const motion = components['minecraft:particle_motion_dynamic'];
+    const acceleration = motion?.linear_acceleration;
+    if (motion && Object.keys(motion).every(k => k === 'linear_acceleration' || k === 'linear_drag_coefficient') && (acceleration === undefined || (Array.isArray(acceleration) && acceleration[0] === 0 && acceleration[2] === 0))) {
+        take('minecraft:particle_motion_dynamic');
+        settings.gravity = readMolang(acceleration?.[1], 0);
+        settings.airDrag = readMolang(motion.linear_drag_coefficient, 0);
+    } else if (!motion) {
+        settings.gravity = 0;
+        settings.airDrag = 0;
+    }
+
+    const collision = components['minecraft:particle_motion_collision'];
+    if (collision && collision.enabled === undefined && !collision.events) {
+        take('minecraft:particle_motion_collision');
+        settings.collision = {
+            enabled: true,
+            drag: typeof collision.collision_drag === 'number' ? collision.collision_drag : 0,
+            restitution: typeof collision.coefficient_of_restitution === 'number' ? collision.coefficient_of_restitution : 0,
+            radius: typeof collision.collision_radius === 'number' ? collision.collision_radius : 0.1,
+            expireOnContact: collision.expire_on_contact === true,
+        };
+    }
+
+    const billboard = components['minecraft:particle_appearance_billboard'];
+    const size = Array.isArray(billboard?.size) ? readSize(billboard.size[0]) : null;
+    const uv = billboard?.uv;
+    const uvReadable = uv === undefined || (typeof uv === 'object' && typeof uv.texture_width === 'number' && typeof uv.texture_height === 'number');
+    if (billboard && size && billboard.size[0] === billboard.size[1] && !billboard.direction && uvReadable) {
+        take('minecraft:particle_appearance_billboard');
+        [settings.startSize, settings.endSize] = size;
+        settings.facingCameraMode = billboard.facing_camera_mode ?? 'lookat_xyz';
+        if (uv) {
+            const flipbook = uv.flipbook;
+            settings.uv = {
+                ...defaultSettings.uv,
+                enabled: true,
+                textureWidth: uv.texture_width,
+                textureHeight: uv.texture_height,
+                base: readVec2(flipbook ? flipbook.base_UV : uv.uv, [0, 0]),
+                size: readVec2(flipbook ? flipbook.size_UV : uv.uv_size, [uv.texture_width, uv.texture_height]),
+                flipbook: !!flipbook,
+                ...(flipbook && {
+                    step: readVec2(flipbook.step_UV, [0, 0]),
+                    framesPerSecond: typeof flipbook.frames_per_second === 'number' ? flipbook.frames_per_second : 8,
+                    maxFrame: readMolang(flipbook.max_frame, 1),
+                    stretchToLifetime: flipbook.stretch_to_lifetime === true,
+                    loop: flipbook.loop === true,
+                }),
+            };
+        }
+    }
+
+    const tinting = components['minecraft:particle_appearance_tinting']?.color;
+    const stops = tinting?.gradient !== undefined ? parseGradient(tinting.gradient) : null;
+    const staticColor = readColor(tinting);
+    if (stops && (tinting.interpolant === undefined || typeof tinting.interpolant === 'string')) {
+        take('minecraft:particle_appearance_tinting');
+        Object.assign(settings, { gradient: stops, colorInterpolant: tinting.interpolant ?? LIFE_RATIO });
+    } else if (staticColor) {
+        take('minecraft:particle_appearance_tinting');
+        settings.gradient = [{ time: 0, ...staticColor }];
+    }
+
+    if (components['minecraft:particle_appearance_lighting']) {
+        take('minecraft:particle_appearance_lighting');
+        settings.lighting = true;
+    }
+
+    settings.extraComponents = components;
+    return settings;
+};
+
+/**
+ * Lists the particle files in the project.
+ */
+export const findParticleFiles = (files: GeneratedFile[]): string[] =>
+    files.filter(file => /(^|\/)particles\/.+\.json$/i.test(file.path)).map(file => file.path).sort();
+
+/**
+ * Applies settings generated from a prompt. The generator describes color with a start and end color and
+ * opacity, which become a two-stop gradient over the particle's life.
+ */
+export const applyGeneratedSettings = (settings: ParticleSettings, generated: any): ParticleSettings => {
+    const { startColor, endColor, startOpacity, endOpacity, ...rest } = generated ?? {};
+    const first = settings.gradient[0] ?? defaultSettings.gradient[0];
+    const last = settings.gradient[settings.gradient.length - 1] ?? defaultSettings.gradient[1];
+    if ([startColor, endColor, startOpacity, endOpacity].every(v => v === undefined)) return { ...settings, ...rest };
+    return {
+        ...settings,
+        ...rest,
+        gradient: [
+            { time: 0, color: startColor ?? first.color, opacity: startOpacity ?? first.opacity },
+            { time: 1, color: endColor ?? last.color, opacity: endOpacity ?? last.opacity },
+        ],
+        colorInterpolant: LIFE_RATIO,
+    };
+};
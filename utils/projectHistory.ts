@@ -0,0 +1,75 @@
+import { ProjectContents } from './projectStore';
+
+export type HistoryEntryKind = 'ai' | 'manual' | 'system';
+
+/**
+ * A named state of the workspace. Entries hold the workspace *after* the change they describe,
+ * so undoing an AI edit means moving back to the entry recorded before it.
+ */
+export interface HistoryEntry {
+    id: string;
+    label: string;
+    kind: HistoryEntryKind;
+    timestamp: number;
+    snapshot: ProjectContents;
+}
+
+export interface ProjectHistory {
+    entries: HistoryEntry[];
+    index: number;
+}
+
+const MAX_HISTORY_ENTRIES = 100;
+// Manual edits with the same label that arrive within this window are folded into one entry, so typing doesn't create an entry per keystroke.
+const MANUAL_BATCH_WINDOW_MS = 2000;
+
+export const EMPTY_SNAPSHOT: ProjectContents = { addonName: '', generatedFiles: [], uploadedFiles: [], assetMappings: [] };
+
+const createEntry = (label: string, kind: HistoryEntryKind, snapshot: ProjectContents): HistoryEntry => ({
+    id: crypto.randomUUID(),
+    label,
+    kind,
+    timestamp: Date.now(),
+    snapshot,
+});
+
+/**
+ * Starts a fresh history, e.g. when a different project is opened.
+ */
+export const createHistory = (label: string, snapshot: ProjectContents = EMPTY_SNAPSHOT): ProjectHistory => ({
+    entries: [createEntry(label, 'system', snapshot)],
+    index: 0,
+});
+
+export const getCurrentSnapshot = (history: ProjectHistory) => history.entries[history.index].snapshot;
+
+/**
+ * Records a change on top of the current entry. Any redo entries are discarded, and
+ * consecutive manual edits with the same label are batched into a single entry.
+ */
+export const recordChange = (history: ProjectHistory, label: string, kind: HistoryEntryKind, changes: Partial<ProjectContents>): ProjectHistory => {
+    const current = history.entries[history.index];
+    const snapshot = { ...current.snapshot, ...changes };
+    const isLatest = history.index === history.entries.length - 1;
+
+    if (kind === 'manual' && isLatest && current.kind === 'manual' && current.label === label && Date.now() - current.timestamp < MANUAL_BATCH_WINDOW_MS) {
+        const entries = [...history.entries];
+        entries[history.index] = { ...current, timestamp: Date.now(), snapshot };
+        return { entries, index: history.index };
+    }
+
+    const entries = [...history.entries.slice(0, history.index + 1), createEntry(label, kind, snapshot)].slice(-MAX_HISTORY_ENTRIES);
+    return { entries, index: entries.length - 1 };
+};
+
+export const canUndo = (history: ProjectHistory) => history.index > 0;
+
+export const canRedo = (history: ProjectHistory) => history.index < history.entries.length - 1;
+
+/**
+ * Moves to any entry in the timeline. Undo and redo are moves by one; later entries stay available until a new change is recorded.
+ */
+export const moveTo = (history: ProjectHistory, index: number): ProjectHistory => ({
+    ...history,
+    index: Math.max(0, Math.min(index, history.entries.length - 1)),
+});
@@ -0,0 +1,146 @@
+import { GeneratedFile, UploadedFile, AssetMapping } from '../types';
+import { createMetaDataDatabase, requestToPromise } from './indexedDb';
+
+const DB_NAME = 'bedrock-utility';
+const DB_VERSION = 1;
+const META_STORE = 'projects';
+const DATA_STORE = 'projectData';
+
+/**
+ * The lightweight part of a project, used to render the project list without loading every file.
+ */
+export interface ProjectSummary {
+    id: string;
+    name: string;
+    addonName: string;
+    fileCount: number;
+    assetCount: number;
+    createdAt: number;
+    updatedAt: number;
+}
+
+/**
+ * Everything needed to restore a workspace. Mirrors the state `App` keeps for the open addon.
+ */
+export interface ProjectContents {
+    addonName: string;
+    generatedFiles: GeneratedFile[];
+    uploadedFiles: UploadedFile[];
+    assetMappings: AssetMapping[];
+}
+
+export interface Project extends ProjectContents {
+    summary: ProjectSummary;
+}
+
+// Files are stored as plain blobs because not every browser can persist File objects in IndexedDB.
+interface StoredAsset {
+    name: string;
+    mimeType: string;
+    lastModified: number;
+    type: UploadedFile['type'];
+    blob: Blob;
+}
+
+interface StoredProjectData {
+    id: string;
+    addonName: string;
+    generatedFiles: GeneratedFile[];
+    assets: StoredAsset[];
+    assetMappings: AssetMapping[];
+}
+
+const { withTransaction } = createMetaDataDatabase(DB_NAME, DB_VERSION, META_STORE, DATA_STORE);
+
+const toStoredAsset = (uploadedFile: UploadedFile): StoredAsset => ({
+    name: uploadedFile.file.name,
+    mimeType: uploadedFile.file.type,
+    lastModified: uploadedFile.file.lastModified,
+    type: uploadedFile.type,
+    blob: uploadedFile.file,
+});
+
+const fromStoredAsset = (asset: StoredAsset): UploadedFile => ({
+    file: new File([asset.blob], asset.name, { type: asset.mimeType, lastModified: asset.lastModified }),
+    type: asset.type,
+});
+
+/**
+ * Lists all saved projects, most recently updated first.
+ */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+    const summaries = await withTransaction('readonly', meta => requestToPromise(meta.getAll() as IDBRequest<ProjectSummary[]>));
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Loads a project with all of its files, or null if it no longer exists.
+ */
+export const loadProject = async (id: string): Promise<Project | null> => {
+    return withTransaction('readonly', async (meta, data) => {
+        const summary = await requestToPromise(meta.get(id) as IDBRequest<ProjectSummary | undefined>);
+        const stored = await requestToPromise(data.get(id) as IDBRequest<StoredProjectData | undefined>);
+        if (!summary || !stored) return null;
+        return {
+            summary,
+            addonName: stored.addonName,
+            generatedFiles: stored.generatedFiles,
+            uploadedFiles: stored.assets.map(fromStoredAsset),
+            assetMappings: stored.assetMappings,
+        };
+    });
+};
+
+/**
+ * Creates or overwrites a project. Pass `id: null` to create a new one; the saved summary is returned.
+ */
+export const saveProject = async (id: string | null, name: string, contents: ProjectContents): Promise<ProjectSummary> => {
+    return withTransaction('readwrite', async (meta, data) => {
+        const projectId = id || crypto.randomUUID();
+        const existing = id ? await requestToPromise(meta.get(id) as IDBRequest<ProjectSummary | undefined>) : undefined;
+        const now = Date.now();
+        const summary: ProjectSummary = {
+            id: projectId,
+            name: existing?.name || name,
+            addonName: contents.addonName,
+            fileCount: contents.generatedFiles.length,
+            assetCount: contents.uploadedFiles.length,
+            createdAt: existing?.createdAt || now,
+            updatedAt: now,
+        };
+        const stored: StoredProjectData = {
+            id: projectId,
+            addonName: contents.addonName,
+            generatedFiles: contents.generatedFiles,
+            assets: contents.uploadedFiles.map(toStoredAsset),
+            assetMappings: contents.assetMappings,
+        };
+        meta.put(summary);
+        data.put(stored);
+        return summary;
+    });
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+    await withTransaction('readwrite', async meta => {
+        const summary = await requestToPromise(meta.get(id) as IDBRequest<ProjectSummary | undefined>);
+        if (!summary) throw new Error('Project not found.');
+        meta.put({ ...summary, name, updatedAt: Date.now() });
+    });
+};
+
+/**
+ * Copies a project, including its assets, under a new id. Returns the summary of the copy.
+ */
+export const duplicateProject = async (id: string): Promise<ProjectSummary> => {
+    const project = await loadProject(id);
+    if (!project) throw new Error('Project not found.');
+    return saveProject(null, `${project.summary.name} (Copy)`, project);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+    await withTransaction('readwrite', async (meta, data) => {
+        meta.delete(id);
+        data.delete(id);
+    });
+};
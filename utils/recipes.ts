@@ -0,0 +1,300 @@
+import { parseAddonJson } from './addonValidator';
+
+export type RecipeType = 'shaped' | 'shapeless' | 'furnace' | 'smithing_transform' | 'smithing_trim' | 'brewing_mix' | 'brewing_container';
+
+/** An item (optionally with a data value) or an item tag. `count` is only used by shapeless ingredients. */
+export interface RecipeIngredient {
+    kind: 'item' | 'tag';
+    value: string;
+    data: number | null;
+    count: number;
+}
+
+export interface RecipeResult {
+    item: string;
+    count: number;
+    data: number | null;
+}
+
+export interface RecipeUnlock {
+    kind: 'item' | 'tag' | 'context';
+    value: string;
+}
+
+export interface RecipeDefinition {
+    type: RecipeType;
+    identifier: string;
+    tags: string[];
+    /** The 3x3 crafting grid, row by row, one key character (or '') per slot. */
+    pattern: string[];
+    keys: { key: string; ingredient: RecipeIngredient }[];
+    ingredients: RecipeIngredient[];
+    /** Furnace input, or the smithing base item. */
+    input: RecipeIngredient;
+    template: RecipeIngredient;
+    addition: RecipeIngredient;
+    /** Brewing input, reagent and output are plain item or potion type identifiers. */
+    brewing: { input: string; reagent: string; output: string };
+    results: RecipeResult[];
+    unlock: RecipeUnlock[];
+}
+
+export const RECIPE_TYPES: { type: RecipeType; label: string; tags: string[] }[] = [
+    { type: 'shaped', label: 'Shaped', tags: ['crafting_table'] },
+    { type: 'shapeless', label: 'Shapeless', tags: ['crafting_table'] },
+    { type: 'furnace', label: 'Furnace', tags: ['furnace', 'smoker', 'campfire', 'soul_campfire'] },
+    { type: 'smithing_transform', label: 'Smithing Transform', tags: ['smithing_table'] },
+    { type: 'smithing_trim', label: 'Smithing Trim', tags: ['smithing_table'] },
+    { type: 'brewing_mix', label: 'Brewing Mix', tags: ['brewing_stand'] },
+    { type: 'brewing_container', label: 'Brewing Container', tags: ['brewing_stand'] },
+];
+
+/** Item tags vanilla recipes use, offered as suggestions in tag ingredients. */
+export const COMMON_ITEM_TAGS = [
+    'minecraft:planks', 'minecraft:logs', 'minecraft:logs_that_burn', 'minecraft:wool', 'minecraft:wooden_slabs',
+    'minecraft:stone_tool_materials', 'minecraft:stone_crafting_materials', 'minecraft:coals', 'minecraft:soul_fire_base_blocks',
+    'minecraft:trim_templates', 'minecraft:trimmable_armors', 'minecraft:trim_materials', 'minecraft:netherite_tier',
+];
+
+export const UNLOCK_CONTEXTS = ['AlwaysUnlocked', 'PlayerInWater', 'PlayerHasManyItems'];
+
+/** Recipe types that produce an item, and types that take `unlock` conditions. Only shaped recipes can have several results. */
+export const hasResult = (type: RecipeType) => ['shaped', 'shapeless', 'furnace', 'smithing_transform'].includes(type);
+export const hasUnlock = (type: RecipeType) => type === 'shaped' || type === 'shapeless';
+
+const RECIPE_FORMAT_VERSION = '1.20.10';
+
+export const createIngredient = (value = '', kind: RecipeIngredient['kind'] = 'item'): RecipeIngredient => ({ kind, value, data: null, count: 1 });
+
+export const createRecipe = (): RecipeDefinition => ({
+    type: 'shaped',
+    identifier: 'custom:my_recipe',
+    tags: ['crafting_table'],
+    pattern: Array(9).fill(''),
+    keys: [],
+    ingredients: [createIngredient()],
+    input: createIngredient(),
+    template: createIngredient(),
+    addition: createIngredient(),
+    brewing: { input: 'minecraft:potion_type:awkward', reagent: '', output: '' },
+    results: [{ item: '', count: 1, data: null }],
+    unlock: [],
+});
+
+// --- BUILDING ---
+
+const ingredientJson = (ingredient: RecipeIngredient, withCount = false) =>
+    ingredient.kind === 'tag'
+        ? { tag: ingredient.value, ...(withCount && ingredient.count > 1 && { count: ingredient.count }) }
+        : { item: ingredient.value, ...(ingredient.data !== null && { data: ingredient.data }), ...(withCount && ingredient.count > 1 && { count: ingredient.count }) };
+
+// Smithing and furnace fields take a plain identifier for items, and an object for tags or data values.
+const compactIngredient = (ingredient: RecipeIngredient) =>
+    ingredient.kind === 'item' && ingredient.data === null ? ingredient.value : ingredientJson(ingredient);
+
+const resultJson = (result: RecipeResult) => ({ item: result.item, ...(result.count > 1 && { count: result.count }), ...(result.data !== null && { data: result.data }) });
+
+// Furnace outputs are a plain identifier unless a count or data value has to be kept.
+const compactResult = (result: RecipeResult) =>
+    result.count > 1 || result.data !== null ? resultJson(result) : result.item;
+
+const unlockJson = (unlock: RecipeUnlock) => ({ [unlock.kind]: unlock.value });
+
+/**
+ * Trims empty rows and columns around the shape, so it can be crafted anywhere in the grid.
+ */
+export const trimPattern = (pattern: string[]): string[] => {
+    const rows = [0, 1, 2].map(r => [0, 1, 2].map(c => pattern[r * 3 + c] || ' '));
+    const usedRows = [0, 1, 2].filter(r => rows[r].some(ch => ch !== ' '));
+    const usedCols = [0, 1, 2].filter(c => rows.some(row => row[c] !== ' '));
+    if (usedRows.length === 0) return [];
+    const [top, bottom] = [usedRows[0], usedRows[usedRows.length - 1]];
+    const [left, right] = [usedCols[0], usedCols[usedCols.length - 1]];
+    return rows.slice(top, bottom + 1).map(row => row.slice(left, right + 1).join(''));
+};
+
+/**
+ * Builds the recipe file. Assumes the definition passed `validateRecipe`.
+ */
+export const buildRecipe = (recipe: RecipeDefinition) => {
+    const description = { identifier: recipe.identifier };
+    const unlock = hasUnlock(recipe.type) && recipe.unlock.length > 0 ? { unlock: recipe.unlock.map(unlockJson) } : {};
+    const body = ((): object => {
+        switch (recipe.type) {
+            case 'shaped': {
+                const pattern = trimPattern(recipe.pattern);
+                const used = new Set(pattern.join('').replace(/ /g, ''));
+                return {
+                    pattern,
+                    key: Object.fromEntries(recipe.keys.filter(k => used.has(k.key)).map(k => [k.key, ingredientJson(k.ingredient)])),
+                    ...unlock,
+                    result: recipe.results.length > 1 ? recipe.results.map(resultJson) : resultJson(recipe.results[0]),
+                };
+            }
+            case 'shapeless':
+                return { ingredients: recipe.ingredients.map(i => ingredientJson(i, true)), ...unlock, result: resultJson(recipe.results[0]) };
+            case 'furnace':
+                return { input: compactIngredient(recipe.input), output: compactResult(recipe.results[0]) };
+            case 'smithing_transform':
+                return { template: compactIngredient(recipe.template), base: compactIngredient(recipe.input), addition: compactIngredient(recipe.addition), result: recipe.results[0].item };
+            case 'smithing_trim':
+                return { template: ingredientJson(recipe.template), base: ingredientJson(recipe.input), addition: ingredientJson(recipe.addition) };
+            case 'brewing_mix':
+            case 'brewing_container':
+                return { input: recipe.brewing.input, reagent: recipe.brewing.reagent, output: recipe.brewing.output };
+        }
+    })();
+    return {
+        format_version: RECIPE_FORMAT_VERSION,
+        [`minecraft:recipe_${recipe.type}`]: { description, tags: recipe.tags, ...body },
+    };
+};
+
+// --- PARSING ---
+
+/** Reads "minecraft:dye:4" style identifiers, where a trailing number is the data value. */
+const splitData = (id: string): { value: string; data: number | null } => {
+    const match = /^(.+:.+):(\d+)$/.exec(id);
+    return match ? { value: match[1], data: parseInt(match[2]) } : { value: id, data: null };
+};
+
+const readIngredient = (json: any): RecipeIngredient => {
+    if (typeof json === 'string') return { kind: 'item', ...splitData(json), count: 1 };
+    if (typeof json?.tag === 'string') return { ...createIngredient(json.tag, 'tag'), count: typeof json.count === 'number' ? json.count : 1 };
+    if (typeof json?.item === 'string') {
+        const split = splitData(json.item);
+        return { kind: 'item', value: split.value, data: typeof json.data === 'number' ? json.data : split.data, count: typeof json.count === 'number' ? json.count : 1 };
+    }
+    return createIngredient();
+};
+
+const readResult = (json: any): RecipeResult => {
+    const ingredient = readIngredient(json);
+    return { item: ingredient.value, data: ingredient.data, count: ingredient.count };
+};
+
+const readUnlock = (json: any): RecipeUnlock | null => {
+    for (const kind of ['item', 'tag', 'context'] as const) {
+        if (typeof json?.[kind] === 'string') return { kind, value: json[kind] };
+    }
+    return null;
+};
+
+/**
+ * Reads a recipe file back into a definition for the editor. Throws a readable error for files it can't show.
+ */
+export const parseRecipe = (content: string): RecipeDefinition => {
+    const json = parseAddonJson(content);
+    const key = Object.keys(json ?? {}).find(k => k.startsWith('minecraft:recipe_'));
+    const type = key?.slice('minecraft:recipe_'.length) as RecipeType | undefined;
+    if (!key || !type || !RECIPE_TYPES.some(t => t.type === type)) {
+        throw new Error(key ? `"${key}" recipes aren't supported by the editor.` : 'This file doesn\'t contain a recipe.');
+    }
+    const body = json[key];
+    const recipe: RecipeDefinition = {
+        ...createRecipe(),
+        type,
+        identifier: typeof body?.description?.identifier === 'string' ? body.description.identifier : 'custom:my_recipe',
+        tags: Array.isArray(body?.tags) ? body.tags.filter((t: any) => typeof t === 'string') : RECIPE_TYPES.find(t => t.type === type)!.tags,
+        unlock: (Array.isArray(body?.unlock) ? body.unlock : []).map(readUnlock).filter((u: RecipeUnlock | null): u is RecipeUnlock => u !== null),
+    };
+
+    switch (type) {
+        case 'shaped': {
+            const rows: string[] = Array.isArray(body?.pattern) ? body.pattern : [];
+            if (rows.length > 3 || rows.some(row => typeof row !== 'string' || row.length > 3)) throw new Error('Only patterns up to 3x3 fit in the crafting grid.');
+            recipe.pattern = [0, 1, 2].flatMap(r => [0, 1, 2].map(c => (rows[r]?.[c] ?? ' ').trim()));
+            recipe.keys = Object.entries(body?.key ?? {}).map(([k, ingredient]) => ({ key: k, ingredient: readIngredient(ingredient) }));
+            recipe.results = (Array.isArray(body?.result) ? body.result : [body?.result]).map(readResult);
+            break;
+        }
+        case 'shapeless':
+            recipe.ingredients = (Array.isArray(body?.ingredients) ? body.ingredients : []).map(readIngredient);
+            recipe.results = [readResult(body?.result)];
+            break;
+        case 'furnace':
+            recipe.input = readIngredient(body?.input);
+            recipe.results = [readResult(body?.output)];
+            break;
+        case 'smithing_transform':
+        case 'smithing_trim':
+            recipe.template = readIngredient(body?.template);
+            recipe.input = readIngredient(body?.base);
+            recipe.addition = readIngredient(body?.addition);
+            if (type === 'smithing_transform') recipe.results = [readResult(body?.result)];
+            break;
+        case 'brewing_mix':
+        case 'brewing_container':
+            recipe.brewing = { input: String(body?.input ?? ''), reagent: String(body?.reagent ?? ''), output: String(body?.output ?? '') };
+            break;
+    }
+    return recipe;
+};
+
+// --- VALIDATION ---
+
+const checkIngredient = (label: string, ingredient: RecipeIngredient, errors: string[]) => {
+    if (!ingredient.value.trim()) errors.push(`${label} is empty.`);
+    if (ingredient.data !== null && !(Number.isInteger(ingredient.data) && ingredient.data >= 0)) errors.push(`${label}: data value must be a whole number, 0 or more.`);
+};
+
+/**
+ * Checks the recipe and returns every problem found, so the editor can list them all at once.
+ */
+export const validateRecipe = (recipe: RecipeDefinition): string[] => {
+    const errors: string[] = [];
+    if (!/^[a-z0-9_.-]+:[a-z0-9_./-]+$/.test(recipe.identifier)) errors.push('Identifier must look like namespace:name, in lowercase.');
+    if (recipe.tags.length === 0) errors.push('Add at least one tag, such as crafting_table, or the recipe can\'t be used anywhere.');
+
+    switch (recipe.type) {
+        case 'shaped': {
+            const pattern = trimPattern(recipe.pattern);
+            if (pattern.length === 0) errors.push('The crafting grid is empty.');
+            const keyChars = recipe.keys.map(k => k.key);
+            new Set(pattern.join('').replace(/ /g, '')).forEach(ch => {
+                if (!keyChars.includes(ch)) errors.push(`"${ch}" is in the grid but has no key.`);
+            });
+            new Set(keyChars.filter((k, i) => keyChars.indexOf(k) !== i)).forEach(k => errors.push(`Key "${k}" is defined more than once.`));
+            recipe.keys.forEach(k => {
+                if (k.key.length !== 1) errors.push('Every key must be a single character.');
+                checkIngredient(`Key "${k.key}"`, k.ingredient, errors);
+            });
+            break;
+        }
+        case 'shapeless': {
+            if (recipe.ingredients.length === 0) errors.push('Add at least one ingredient.');
+            recipe.ingredients.forEach((ingredient, i) => checkIngredient(`Ingredient ${i + 1}`, ingredient, errors));
+            const total = recipe.ingredients.reduce((sum, i) => sum + i.count, 0);
+            if (total > 9) errors.push(`The ingredients add up to ${total} items, but the crafting grid only has 9 slots.`);
+            break;
+        }
+        case 'furnace':
+            checkIngredient('The furnace input', recipe.input, errors);
+            break;
+        case 'smithing_transform':
+        case 'smithing_trim':
+            checkIngredient('The template', recipe.template, errors);
+            checkIngredient('The base', recipe.input, errors);
+            checkIngredient('The addition', recipe.addition, errors);
+            break;
+        case 'brewing_mix':
+        case 'brewing_container':
+            (['input', 'reagent', 'output'] as const).forEach(field => {
+                if (!recipe.brewing[field].trim()) errors.push(`The brewing ${field} is empty.`);
+            });
+            break;
+    }
+
+    if (hasResult(recipe.type)) {
+        if (recipe.results.length === 0) errors.push('Add a result.');
+        recipe.results.forEach((result, i) => {
+            const label = recipe.results.length > 1 ? `Result ${i + 1}` : 'The result';
+            if (!result.item.trim()) errors.push(`${label} item is empty.`);
+            if (!(Number.isInteger(result.count) && result.count >= 1 && result.count <= 64)) errors.push(`${label} count must be between 1 and 64.`);
+        });
+    }
+    recipe.unlock.forEach((unlock, i) => {
+        if (!unlock.value.trim()) errors.push(`Unlock condition ${i + 1} is empty.`);
+    });
+    return errors;
+};
@@ -0,0 +1,203 @@
+import { GeneratedFile } from '../types';
+import { parseAddonJson } from './addonValidator';
+import { findPacks, findPackForPath } from './packs';
+
+export type PopulationControl = 'animal' | 'water_animal' | 'monster' | 'ambient';
+export type SpawnPlacement = 'surface' | 'underground' | 'underwater';
+export type SpawnDifficulty = 'peaceful' | 'easy' | 'normal' | 'hard';
+
+export const POPULATION_CONTROLS: PopulationControl[] = ['animal', 'water_animal', 'monster', 'ambient'];
+export const SPAWN_DIFFICULTIES: SpawnDifficulty[] = ['peaceful', 'easy', 'normal', 'hard'];
+
+export const SPAWN_PLACEMENTS: { value: SpawnPlacement; label: string; component: string }[] = [
+    { value: 'surface', label: 'On the surface', component: 'minecraft:spawns_on_surface' },
+    { value: 'underground', label: 'Underground', component: 'minecraft:spawns_underground' },
+    { value: 'underwater', label: 'Underwater', component: 'minecraft:spawns_underwater' },
+];
+
+/** Biome tags used by vanilla biomes, grouped for the tag picker. */
+export const BIOME_TAG_GROUPS: { label: string; tags: string[] }[] = [
+    { label: 'Dimension', tags: ['overworld', 'nether', 'the_end'] },
+    { label: 'Spawn lists', tags: ['animal', 'monster'] },
+    { label: 'Biome', tags: ['plains', 'forest', 'birch', 'roofed', 'taiga', 'jungle', 'bamboo', 'savanna', 'desert', 'mesa', 'swamp', 'mangrove_swamp', 'mountains', 'hills', 'meadow', 'cherry_grove', 'mushroom_island', 'ice_plains', 'beach', 'river', 'ocean', 'deep', 'lush_caves', 'dripstone_caves', 'deep_dark'] },
+    { label: 'Climate', tags: ['frozen', 'cold', 'lukewarm', 'warm', 'mega'] },
+    { label: 'Nether', tags: ['nether_wastes', 'crimson_forest', 'warped_forest', 'soulsand_valley', 'basalt_deltas'] },
+];
+
+export interface NumberRange {
+    min: number;
+    max: number;
+}
+
+export interface BiomeFilter {
+    /** Whether the biome needs any or all of the `include` tags. */
+    match: 'any' | 'all';
+    include: string[];
+    exclude: string[];
+}
+
+export interface SpawnCondition {
+    placement: SpawnPlacement;
+    weight: number;
+    biomes: BiomeFilter;
+    brightness: NumberRange & { enabled: boolean; adjustForWeather: boolean };
+    difficulty: { enabled: boolean; min: SpawnDifficulty; max: SpawnDifficulty };
+    herd: NumberRange & { enabled: boolean };
+    density: { enabled: boolean; surface: number; underground: number };
+    height: NumberRange & { enabled: boolean };
+}
+
+export interface SpawnRulesDefinition {
+    identifier: string;
+    populationControl: PopulationControl;
+    conditions: SpawnCondition[];
+}
+
+/** An entity defined in a behavior pack of the current project. */
+export interface ProjectEntity {
+    identifier: string;
+    path: string;
+    /** Behavior pack folder the entity lives in, where its spawn rules belong. */
+    packRoot: string;
+    /** Path of an existing spawn rules file for this entity, if there is one. */
+    spawnRulesPath: string | null;
+}
+
+export const createSpawnCondition = (populationControl: PopulationControl): SpawnCondition => ({
+    placement: populationControl === 'water_animal' ? 'underwater' : 'surface',
+    weight: populationControl === 'monster' ? 100 : 8,
+    biomes: { match: 'any', include: [populationControl === 'monster' ? 'monster' : 'animal'], exclude: [] },
+    brightness: populationControl === 'monster'
+        ? { enabled: true, min: 0, max: 7, adjustForWeather: true }
+        : { enabled: populationControl === 'animal', min: 7, max: 15, adjustForWeather: false },
+    difficulty: { enabled: populationControl === 'monster', min: 'easy', max: 'hard' },
+    herd: { enabled: true, min: populationControl === 'monster' ? 1 : 2, max: populationControl === 'monster' ? 1 : 4 },
+    density: { enabled: false, surface: 8, underground: 4 },
+    height: { enabled: false, min: -64, max: 320 },
+});
+
+const hasTag = (tag: string, operator: '==' | '!=') => ({ test: 'has_biome_tag', operator, value: tag });
+
+/**
+ * Turns the tag picker's include/exclude lists into a `minecraft:biome_filter`.
+ * Returns null when no tags are picked, which lets the mob spawn in every biome.
+ */
+export const buildBiomeFilter = ({ match, include, exclude }: BiomeFilter): object | null => {
+    const parts: object[] = [];
+    if (include.length === 1) parts.push(hasTag(include[0], '=='));
+    if (include.length > 1) parts.push({ [match === 'any' ? 'any_of' : 'all_of']: include.map(tag => hasTag(tag, '==')) });
+    parts.push(...exclude.map(tag => hasTag(tag, '!=')));
+    if (parts.length === 0) return null;
+    return parts.length === 1 ? parts[0] : { all_of: parts };
+};
+
+const buildCondition = (condition: SpawnCondition) => {
+    const json: { [component: string]: any } = {
+        [SPAWN_PLACEMENTS.find(p => p.value === condition.placement)!.component]: {},
+        'minecraft:weight': { default: condition.weight },
+    };
+    const biomeFilter = buildBiomeFilter(condition.biomes);
+    if (biomeFilter) json['minecraft:biome_filter'] = biomeFilter;
+    if (condition.brightness.enabled) {
+        json['minecraft:brightness_filter'] = { min: condition.brightness.min, max: condition.brightness.max, adjust_for_weather: condition.brightness.adjustForWeather };
+    }
+    if (condition.difficulty.enabled) json['minecraft:difficulty_filter'] = { min: condition.difficulty.min, max: condition.difficulty.max };
+    if (condition.herd.enabled) json['minecraft:herd'] = { min_size: condition.herd.min, max_size: condition.herd.max };
+    if (condition.density.enabled) json['minecraft:density_limit'] = { surface: condition.density.surface, underground: condition.density.underground };
+    if (condition.height.enabled) json['minecraft:height_filter'] = { min: condition.height.min, max: condition.height.max };
+    return json;
+};
+
+export const buildSpawnRules = (definition: SpawnRulesDefinition) => ({
+    format_version: '1.8.0',
+    'minecraft:spawn_rules': {
+        description: {
+            identifier: definition.identifier,
+            population_control: definition.populationControl,
+        },
+        conditions: definition.conditions.map(buildCondition),
+    },
+});
+
+const parseJsonFile = (file: GeneratedFile): any => {
+    if (!file.path.toLowerCase().endsWith('.json')) return null;
+    try {
+        return parseAddonJson(file.content);
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Lists the entities defined in the project's behavior packs, along with any spawn rules they already have.
+ */
+export const findProjectEntities = (files: GeneratedFile[]): ProjectEntity[] => {
+    const behaviorPacks = findPacks(files).filter(pack => pack.kind === 'behavior');
+    const entities: ProjectEntity[] = [];
+    const spawnRules = new Map<string, string>();
+    for (const file of files) {
+        const pack = findPackForPath(behaviorPacks, file.path);
+        if (!pack) continue;
+        const json = parseJsonFile(file);
+        const entityId = json?.['minecraft:entity']?.description?.identifier;
+        if (typeof entityId === 'string') entities.push({ identifier: entityId, path: file.path, packRoot: pack.root, spawnRulesPath: null });
+        const spawnRuleId = json?.['minecraft:spawn_rules']?.description?.identifier;
+        if (typeof spawnRuleId === 'string') spawnRules.set(spawnRuleId, file.path);
+    }
+    return entities
+        .map(entity => ({ ...entity, spawnRulesPath: spawnRules.get(entity.identifier) ?? null }))
+        .sort((a, b) => a.identifier.localeCompare(b.identifier));
+};
+
+const checkRange = (label: string, range: NumberRange, bounds: NumberRange, errors: string[]) => {
+    if (!Number.isInteger(range.min) || !Number.isInteger(range.max)) errors.push(`${label}: min and max must be whole numbers.`);
+    else if (range.min > range.max) errors.push(`${label}: min can't be greater than max.`);
+    else if (range.min < bounds.min || range.max > bounds.max) errors.push(`${label}: values must be between ${bounds.min} and ${bounds.max}.`);
+};
+
+/**
+ * Checks the spawn rules against the entities in the current project. Errors block generation;
+ * warnings point out rules that will work but probably don't do what was intended.
+ */
+export const validateSpawnRules = (definition: SpawnRulesDefinition, entities: ProjectEntity[]): { errors: string[]; warnings: string[] } => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const entity = entities.find(e => e.identifier === definition.identifier);
+
+    if (!/^[a-z0-9_.-]+:[a-z0-9_.-]+$/.test(definition.identifier)) {
+        errors.push('Entity identifier must look like namespace:name, in lowercase.');
+    } else if (definition.identifier.startsWith('minecraft:')) {
+        warnings.push('Spawn rules for vanilla mobs replace the game\'s own rules for that mob.');
+    } else if (entities.length === 0) {
+        warnings.push('The current project has no entities, so the identifier can\'t be checked. Open the project that defines this entity.');
+    } else if (!entity) {
+        errors.push(`No entity "${definition.identifier}" exists in the current project. Spawn rules only apply to an entity with the same identifier.`);
+    } else if (entity.spawnRulesPath) {
+        warnings.push(`${entity.spawnRulesPath} already has spawn rules for this entity and will be replaced.`);
+    }
+
+    if (definition.conditions.length === 0) errors.push('Add at least one spawn condition, or the entity will never spawn naturally.');
+    definition.conditions.forEach((condition, i) => {
+        const label = `Condition ${i + 1}`;
+        if (!(Number.isInteger(condition.weight) && condition.weight > 0)) errors.push(`${label}: weight must be a whole number above 0.`);
+        if (condition.brightness.enabled) checkRange(`${label} brightness`, condition.brightness, { min: 0, max: 15 }, errors);
+        if (condition.difficulty.enabled && SPAWN_DIFFICULTIES.indexOf(condition.difficulty.min) > SPAWN_DIFFICULTIES.indexOf(condition.difficulty.max)) {
+            errors.push(`${label} difficulty: the minimum is harder than the maximum.`);
+        }
+        if (condition.herd.enabled) checkRange(`${label} herd size`, condition.herd, { min: 1, max: 64 }, errors);
+        if (condition.height.enabled) checkRange(`${label} height`, condition.height, { min: -64, max: 320 }, errors);
+        if (condition.density.enabled && ![condition.density.surface, condition.density.underground].every(n => Number.isInteger(n) && n >= 0)) {
+            errors.push(`${label} density limit: limits must be whole numbers, 0 or more.`);
+        }
+        const overlap = condition.biomes.include.filter(tag => condition.biomes.exclude.includes(tag));
+        if (overlap.length > 0) errors.push(`${label}: biome tag "${overlap[0]}" is both required and excluded.`);
+        if (condition.biomes.include.length === 0) warnings.push(`${label}: no biome tags are required, so the entity can spawn in every biome, including the Nether and the End.`);
+        if (definition.populationControl === 'water_animal' && condition.placement !== 'underwater') {
+            warnings.push(`${label}: water animals usually spawn underwater.`);
+        }
+        if (definition.populationControl === 'monster' && condition.placement === 'surface' && (!condition.brightness.enabled || condition.brightness.max > 7)) {
+            warnings.push(`${label}: monsters without a dark brightness filter will spawn in daylight.`);
+        }
+    });
+    return { errors, warnings };
+};
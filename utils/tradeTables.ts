@@ -0,0 +1,164 @@
+import { shortName } from './addonTemplates';
+import { parseAddonJson } from './addonValidator';
+import { renderControllerId } from './entityDefinition';
+
+export interface TradeItem {
+    item: string;
+    quantity: number;
+}
+
+export interface Trade {
+    id: string;
+    wants: TradeItem[];
+    gives: TradeItem[];
+    max_uses: number;
+    trader_exp: number;
+    xp_reward: boolean;
+}
+
+export interface TradeTier {
+    id: string;
+    /** Trader experience needed before this tier's trades unlock. */
+    expRequired: number;
+    trades: Trade[];
+}
+
+export interface TraderOptions {
+    identifier: string;
+    /** Path of the trade table inside the behavior pack, e.g. `trading/shopkeeper.json`. */
+    tablePath: string;
+    wanders: boolean;
+    invulnerable: boolean;
+    spawnEgg: { enabled: boolean; baseColor: string; overlayColor: string };
+    geometry: string;
+    texture: string;
+}
+
+/** Experience the vanilla villager tiers unlock at, from Novice to Master. */
+export const VANILLA_TIER_EXP = [0, 10, 70, 150, 250];
+
+export const DEFAULT_TRADER_LOOK = { geometry: 'geometry.wandering_trader', texture: 'textures/entity/wandering_trader' };
+
+let nextId = 0;
+export const createId = (prefix: string) => `${prefix}-${Date.now()}-${nextId++}`;
+
+export const tierExpDefault = (index: number) => VANILLA_TIER_EXP[index] ?? VANILLA_TIER_EXP[VANILLA_TIER_EXP.length - 1] + (index - VANILLA_TIER_EXP.length + 1) * 100;
+
+export const buildTradeTable = (tiers: TradeTier[]) => ({
+    tiers: tiers.map(tier => ({
+        total_exp_required: tier.expRequired,
+        groups: [{
+            trades: tier.trades.map(trade => ({
+                wants: trade.wants,
+                gives: trade.gives,
+                trader_exp: trade.trader_exp,
+                max_uses: trade.max_uses,
+                reward_exp: trade.xp_reward,
+            })),
+        }],
+    })),
+});
+
+// Quantities can be a number or a {min, max} range; the editor only handles fixed amounts.
+const readQuantity = (value: any, warnings: Set<string>): number => {
+    if (typeof value === 'number') return value;
+    if (value && typeof value === 'object' && typeof value.min === 'number') {
+        warnings.add('Quantity ranges were replaced by their minimum.');
+        return value.min;
+    }
+    return 1;
+};
+
+const readItems = (items: any, warnings: Set<string>): TradeItem[] =>
+    (Array.isArray(items) ? items : []).flatMap((entry: any): TradeItem[] => {
+        // A "choice" entry offers several alternatives; only the first one is kept.
+        if (Array.isArray(entry?.choice)) {
+            warnings.add('Item choices were replaced by their first option.');
+            return readItems(entry.choice.slice(0, 1), warnings);
+        }
+        if (typeof entry?.item !== 'string') return [];
+        if (entry.functions || entry.price_multiplier !== undefined) warnings.add('Item functions and price multipliers aren\'t editable here and were dropped.');
+        return [{ item: entry.item, quantity: readQuantity(entry.quantity, warnings) }];
+    });
+
+/**
+ * Reads a trade table back into tiers. Trades from every group of a tier are merged, since the editor
+ * doesn't model groups. Anything that can't be represented is listed in `warnings`.
+ */
+export const parseTradeTable = (content: string): { tiers: TradeTier[]; warnings: string[] } => {
+    const json = parseAddonJson(content);
+    if (!Array.isArray(json?.tiers)) throw new Error('This file has no "tiers" list, so it isn\'t a trade table.');
+    const warnings = new Set<string>();
+    const tiers = json.tiers.map((tier: any, index: number): TradeTier => {
+        const groups: any[] = Array.isArray(tier?.groups) ? tier.groups : [{ trades: tier?.trades }];
+        if (groups.some(group => group?.num_to_select !== undefined)) warnings.add('Random trade selection ("num_to_select") isn\'t supported; every trade in a tier is offered.');
+        return {
+            id: createId('tier'),
+            expRequired: typeof tier?.total_exp_required === 'number' ? tier.total_exp_required : tierExpDefault(index),
+            trades: groups.flatMap(group => (Array.isArray(group?.trades) ? group.trades : [])).map((trade: any): Trade => ({
+                id: createId('trade'),
+                wants: readItems(trade?.wants, warnings),
+                gives: readItems(trade?.gives, warnings),
+                max_uses: typeof trade?.max_uses === 'number' ? trade.max_uses : 10,
+                trader_exp: typeof trade?.trader_exp === 'number' ? trade.trader_exp : 0,
+                xp_reward: trade?.reward_exp !== false,
+            })),
+        };
+    });
+    return { tiers, warnings: [...warnings] };
+};
+
+/**
+ * Builds a trader entity that offers the trade table, restocks it over time, and levels up through its tiers.
+ */
+export const buildTraderEntity = (options: TraderOptions) => ({
+    format_version: '1.21.10',
+    'minecraft:entity': {
+        description: {
+            identifier: options.identifier,
+            is_spawnable: options.spawnEgg.enabled,
+            is_summonable: true,
+        },
+        components: {
+            'minecraft:type_family': { family: [shortName(options.identifier), 'npc', 'mob'] },
+            'minecraft:health': { value: 20, max: 20 },
+            'minecraft:collision_box': { width: 0.6, height: 1.9 },
+            'minecraft:nameable': {},
+            'minecraft:physics': {},
+            'minecraft:pushable': { is_pushable: true, is_pushable_by_piston: true },
+            'minecraft:movement': { value: options.wanders ? 0.5 : 0 },
+            'minecraft:movement.basic': {},
+            'minecraft:navigation.walk': { can_path_over_water: true, avoid_damage_blocks: true },
+            'minecraft:jump.static': {},
+            ...(options.invulnerable && { 'minecraft:damage_sensor': { triggers: { cause: 'all', deals_damage: 'no' } } }),
+            'minecraft:economy_trade_table': {
+                display_name: `entity.${options.identifier}.name`,
+                table: options.tablePath,
+                new_screen: true,
+                persist_trades: true,
+            },
+            'minecraft:trade_resupply': {},
+            'minecraft:behavior.trade_with_player': { priority: 1 },
+            'minecraft:behavior.look_at_trading_player': { priority: 2 },
+            ...(options.wanders && { 'minecraft:behavior.random_stroll': { priority: 6, speed_multiplier: 0.6 } }),
+            'minecraft:behavior.look_at_player': { priority: 8, look_distance: 8 },
+            'minecraft:behavior.random_look_around': { priority: 9 },
+        },
+    },
+});
+
+export const buildTraderClientEntity = (options: TraderOptions) => ({
+    format_version: '1.10.0',
+    'minecraft:client_entity': {
+        description: {
+            identifier: options.identifier,
+            materials: { default: 'entity_alphatest' },
+            textures: { default: options.texture },
+            geometry: { default: options.geometry },
+            render_controllers: [renderControllerId(options.identifier)],
+            animations: { look_at_target: 'animation.common.look_at_target' },
+            scripts: { animate: ['look_at_target'] },
+            ...(options.spawnEgg.enabled && { spawn_egg: { base_color: options.spawnEgg.baseColor, overlay_color: options.spawnEgg.overlayColor } }),
+        },
+    },
+});
@@ -8,4 +8,8 @@ export default defineConfig({
   // For example, if your repository URL is https://github.com/user/my-addon-app,
   // the base should be '/my-addon-app/'.
   base: '/Bedrock-Utility/',
+  // Set AI_PROVIDER=mock to run every AI feature against local fixtures instead of Gemini.
+  define: {
+    'process.env.AI_PROVIDER': JSON.stringify(process.env.AI_PROVIDER || ''),
+  },
 })